@@ -0,0 +1,108 @@
+/**
+ * Envelope service worker
+ *
+ * Keeps the live envelope usable with bad coverage during the evening:
+ * - the live page, envelope status and released reveal keys: network first,
+ *   last good response when offline
+ * - Next.js static assets: cache first (file names are content hashed)
+ *
+ * The status response carries future reveals sealed (see lib/envelope/sealed),
+ * so a cached envelope can still open once a key fetch gets through.
+ * Also shows web push notifications (lib/channels/push) - tapping one
+ * focuses the open envelope or opens the link.
+ * Registered by EnvelopeContainer.
+ */
+
+const CACHE = 'cykelfesten-envelope-v1';
+
+const NETWORK_FIRST_API = ['/api/envelope/status', '/api/envelope/key', '/api/guest/couple'];
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('cykelfesten-envelope-') && key !== CACHE).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  const isLivePage = request.mode === 'navigate' && /^\/e\/[^/]+\/live\/?$/.test(url.pathname);
+  // Organizer preview runs on simulated time - never cache it
+  const isEnvelopeApi = NETWORK_FIRST_API.includes(url.pathname) && !url.searchParams.has('simulateTime');
+
+  if (isLivePage || isEnvelopeApi) {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let payload;
+  try {
+    payload = event.data ? event.data.json() : null;
+  } catch {
+    payload = null;
+  }
+  if (!payload) return;
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      icon: '/icon-192.png',
+      tag: payload.url || payload.title,
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin);
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      // Prefer the envelope page that is already open
+      const open = windows.find(w => new URL(w.url).pathname === url.pathname);
+      if (open) return open.focus();
+      return self.clients.openWindow(url.href);
+    })
+  );
+});
@@ -0,0 +1,70 @@
+#!/usr/bin/env tsx
+
+/**
+ * Run matching locally against an exported event snapshot - no database access.
+ * Export a snapshot from GET /api/organizer/events/<eventId>/snapshot, then:
+ *
+ * Run with: npx tsx scripts/match-offline.ts <snapshot.json> [--out=dir] [--seed=N] [--rerun-step-a] [--no-optimize]
+ *
+ * Writes <name>.report.json and <name>.report.md next to the snapshot (or in --out).
+ * The same snapshot + seed always gives the same report.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { seedFromString } from '../src/lib/matching/optimize';
+import { runSnapshot, renderMatchReportMarkdown, type MatchSnapshot } from '../src/lib/matching/report';
+
+const args = process.argv.slice(2);
+const snapshotPath = args.find(arg => !arg.startsWith('--'));
+const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+
+if (!snapshotPath) {
+  console.error('Usage: npx tsx scripts/match-offline.ts <snapshot.json> [--out=dir] [--seed=N] [--rerun-step-a] [--no-optimize]');
+  process.exit(1);
+}
+
+function main() {
+  const snapshot = JSON.parse(readFileSync(snapshotPath!, 'utf8')) as MatchSnapshot;
+
+  if (!snapshot.event || !Array.isArray(snapshot.couples)) {
+    console.error('Snapshot must contain event and couples');
+    process.exit(1);
+  }
+
+  const seedArg = option('seed');
+  const seed = seedArg ? Number(seedArg) : seedFromString(snapshot.event.id);
+
+  const report = runSnapshot(snapshot, {
+    rerunStepA: args.includes('--rerun-step-a'),
+    // The seed also drives Step B's guest order; zero iterations keeps the greedy plan.
+    // No time budget: only the iteration cap stops the search, so the result is deterministic
+    optimize: args.includes('--no-optimize') ? { seed, maxIterations: 0 } : { seed, timeBudgetMs: Infinity },
+  });
+
+  const outDir = option('out') ?? dirname(snapshotPath!);
+  const name = basename(snapshotPath!).replace(/\.json$/, '');
+  mkdirSync(outDir, { recursive: true });
+
+  const jsonPath = join(outDir, `${name}.report.json`);
+  const markdownPath = join(outDir, `${name}.report.md`);
+  writeFileSync(jsonPath, JSON.stringify({ seed, ...report }, null, 2));
+  writeFileSync(markdownPath, renderMatchReportMarkdown(report));
+
+  console.log('--- Offline Matching Report ---');
+  console.log(`Event: ${report.event.name} (${report.event.id})`);
+  console.log(`Mode: ${report.mode === 'full' ? 'Step A + Step B' : 'Step B (existing assignments)'}`);
+  console.log(`Seed: ${seed}`);
+  console.log(`Couples: ${report.couples.active} active, ${report.couples.skipped} skipped`);
+  console.log(`Pairings: ${report.pairings.length}`);
+  console.log(`Warnings: ${report.warnings.length}`);
+  console.log(`Wrote ${jsonPath}`);
+  console.log(`Wrote ${markdownPath}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Offline matching failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
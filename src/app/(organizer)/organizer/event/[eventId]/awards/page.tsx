@@ -6,7 +6,7 @@ import { SubPageHeader } from '@/components/organizer/SubPageHeader';
 import { AWARDS } from '@/lib/awards/calculate';
 import { useTabParam } from '@/hooks/useTabParam';
 
-const SENSITIVE_AWARDS = ['oldest', 'youngest', 'most_allergies', 'only_vegetarian', 'least_fun_facts', 'average_age'];
+const SENSITIVE_AWARDS = ['oldest', 'youngest', 'most_allergies', 'only_vegetarian', 'least_fun_facts', 'average_age', 'clueless'];
 
 export default function AwardsPageWrapper() {
   return <Suspense><AwardsPage /></Suspense>;
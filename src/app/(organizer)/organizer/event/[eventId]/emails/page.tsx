@@ -0,0 +1,235 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { SubPageHeader } from '@/components/organizer/SubPageHeader';
+import { NOTIFICATION_TYPES, NOTIFICATION_TYPE_LABELS } from '@/lib/channels/settings';
+import {
+  DEFAULT_ACCENT_COLOR, EMAIL_TEMPLATE_IDS, EMAIL_TEMPLATE_LABELS, MAX_SIGN_OFF_LENGTH,
+  type EmailTemplateId,
+} from '@/lib/emails/settings';
+import type { NotificationType } from '@/lib/notifications';
+import type { PersonType } from '@/lib/recipients';
+import type { EmailBrandingSettings } from '@/types/database';
+
+interface PreviewCouple {
+  id: string;
+  invited_name: string;
+  partner_name: string | null;
+  replacement_name: string | null;
+}
+
+export default function EmailsPage() {
+  const params = useParams();
+  const eventId = params.eventId as string;
+
+  const [couples, setCouples] = useState<PreviewCouple[]>([]);
+  const [testRecipient, setTestRecipient] = useState('');
+  const [branding, setBranding] = useState<EmailBrandingSettings>({});
+  const [template, setTemplate] = useState<EmailTemplateId>('registration_confirmed');
+  const [coupleId, setCoupleId] = useState('');
+  const [personType, setPersonType] = useState<PersonType>('invited');
+  const [notificationType, setNotificationType] = useState<NotificationType>('envelope_ready');
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => { loadData(); }, [eventId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  async function loadData() {
+    try {
+      const res = await fetch(`/api/organizer/events/${eventId}/emails`);
+      const data = await res.json();
+      if (res.ok) {
+        setCouples(data.couples);
+        setTestRecipient(data.test_recipient);
+        setBranding(data.email_branding || {});
+        setCoupleId(current => current || data.couples[0]?.id || '');
+      }
+    } catch {}
+    finally { setLoading(false); }
+  }
+
+  const couple = couples.find(c => c.id === coupleId);
+  const partnerName = couple?.replacement_name || couple?.partner_name;
+
+  function previewBody() {
+    return {
+      template,
+      couple_id: coupleId,
+      person_type: personType,
+      notification_type: notificationType,
+      email_branding: branding,
+    };
+  }
+
+  // Re-render shortly after the last change, so typing a colour doesn't fire a request per key
+  useEffect(() => {
+    if (!coupleId) return;
+    const timer = setTimeout(async () => {
+      const res = await fetch(`/api/organizer/events/${eventId}/emails/preview`, {
+        method: 'POST', headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(previewBody()),
+      });
+      const data = await res.json();
+      if (res.ok) setPreview(data);
+      else setMessage(`❌ ${data.error}`);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [eventId, template, coupleId, personType, notificationType, branding]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  async function saveBranding() {
+    setSaving(true);
+    const res = await fetch(`/api/organizer/events/${eventId}/emails`, {
+      method: 'PATCH', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email_branding: branding }),
+    });
+    const data = await res.json();
+    if (res.ok) setBranding(data.email_branding);
+    setMessage(res.ok ? '✅ Sparat!' : `❌ ${data.error}`);
+    setSaving(false);
+    setTimeout(() => setMessage(''), 3000);
+  }
+
+  async function sendTest() {
+    setSending(true);
+    const res = await fetch(`/api/organizer/events/${eventId}/emails/test`, {
+      method: 'POST', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(previewBody()),
+    });
+    const data = await res.json();
+    setMessage(res.ok ? `✅ Testmejl skickat till ${data.sent_to}` : `❌ ${data.error}`);
+    setSending(false);
+  }
+
+  function updateBranding(key: keyof EmailBrandingSettings, value: string) {
+    setBranding(prev => {
+      const next = { ...prev };
+      if (value) next[key] = value;
+      else delete next[key];
+      return next;
+    });
+  }
+
+  if (loading) return <div className="min-h-screen bg-gray-50 flex items-center justify-center"><p className="text-gray-500">Laddar...</p></div>;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <SubPageHeader eventId={eventId} title="🎨 E-postmallar" parentView="invite" />
+
+      <main className="max-w-6xl mx-auto px-4 py-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">🎨 E-postmallar</h1>
+        <p className="text-gray-500 mb-6">Så ser mejlen till gästerna ut – förhandsgranska med ett riktigt par och skicka ett test till dig själv</p>
+
+        {message && <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">{message}</div>}
+
+        <div className="grid lg:grid-cols-[320px_1fr] gap-6">
+          <div className="space-y-6">
+            {/* Branding */}
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <h2 className="text-lg font-semibold mb-4">Utseende</h2>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Accentfärg</label>
+                  <div className="flex items-center gap-2">
+                    <input type="color" value={branding.accent_color || DEFAULT_ACCENT_COLOR}
+                      onChange={(e) => updateBranding('accent_color', e.target.value)} className="h-10 w-14 border rounded" />
+                    {branding.accent_color && (
+                      <button onClick={() => updateBranding('accent_color', '')} className="text-sm text-gray-500 underline">Återställ</button>
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Logotyp (https-länk)</label>
+                  <input type="url" value={branding.logo_url || ''} onChange={(e) => updateBranding('logo_url', e.target.value)}
+                    placeholder="https://…/logo.png" className="w-full border rounded-lg px-3 py-2" />
+                  <p className="text-sm text-gray-500 mt-1">Utan logotyp visas eventets namn</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Hälsning</label>
+                  <textarea value={branding.sign_off || ''} onChange={(e) => updateBranding('sign_off', e.target.value)}
+                    maxLength={MAX_SIGN_OFF_LENGTH} rows={2} placeholder="Varma hälsningar, festkommittén"
+                    className="w-full border rounded-lg px-3 py-2" />
+                </div>
+                <button onClick={saveBranding} disabled={saving}
+                  className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50">
+                  {saving ? 'Sparar...' : 'Spara'}
+                </button>
+              </div>
+            </div>
+
+            {/* What to preview */}
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <h2 className="text-lg font-semibold mb-4">Förhandsgranska</h2>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Mall</label>
+                  <select value={template} onChange={(e) => setTemplate(e.target.value as EmailTemplateId)} className="w-full border rounded-lg px-3 py-2">
+                    {EMAIL_TEMPLATE_IDS.map(id => <option key={id} value={id}>{EMAIL_TEMPLATE_LABELS[id]}</option>)}
+                  </select>
+                </div>
+                {template === 'notification' && (
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Notifikation</label>
+                    <select value={notificationType} onChange={(e) => setNotificationType(e.target.value as NotificationType)} className="w-full border rounded-lg px-3 py-2">
+                      {NOTIFICATION_TYPES.map(type => <option key={type} value={type}>{NOTIFICATION_TYPE_LABELS[type]}</option>)}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium mb-1">Par</label>
+                  {couples.length === 0 ? (
+                    <p className="text-sm text-gray-500">Inga anmälda par ännu</p>
+                  ) : (
+                    <select value={coupleId} onChange={(e) => { setCoupleId(e.target.value); setPersonType('invited'); }} className="w-full border rounded-lg px-3 py-2">
+                      {couples.map(c => (
+                        <option key={c.id} value={c.id}>
+                          {c.partner_name ? `${c.invited_name} & ${c.partner_name}` : c.invited_name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                {partnerName && (
+                  <div className="flex gap-4 text-sm">
+                    <label className="flex items-center gap-1.5">
+                      <input type="radio" checked={personType === 'invited'} onChange={() => setPersonType('invited')} />
+                      {couple?.invited_name}
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      <input type="radio" checked={personType === 'partner'} onChange={() => setPersonType('partner')} />
+                      {partnerName}
+                    </label>
+                  </div>
+                )}
+                <button onClick={sendTest} disabled={sending || !coupleId}
+                  className="w-full bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 disabled:opacity-50">
+                  {sending ? 'Skickar...' : 'Skicka test till mig'}
+                </button>
+                <p className="text-sm text-gray-500">Testet går till {testRecipient} med samma innehåll och länkar som paret skulle få.</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="bg-white rounded-xl shadow-sm overflow-hidden flex flex-col min-h-[700px]">
+            {preview ? (
+              <>
+                <div className="border-b px-4 py-3 text-sm">
+                  <span className="text-gray-500">Ämne:</span> <span className="font-medium">{preview.subject}</span>
+                </div>
+                <iframe title="Förhandsvisning" srcDoc={preview.html} sandbox="" className="flex-1 w-full" />
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-gray-400">
+                {couples.length === 0 ? 'Förhandsvisningen behöver ett anmält par' : 'Laddar förhandsvisning...'}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -7,7 +7,9 @@ import { SubPageHeader } from '@/components/organizer/SubPageHeader';
 import AddressAutocomplete from '@/components/AddressAutocomplete';
 import { SplitWizard } from '@/components/organizer/SplitWizard';
 import { FUN_FACT_FIELDS, normaliseFunFacts, renderFunFact } from '@/lib/fun-facts';
+import { LOCALES, LOCALE_LABELS } from '@/lib/i18n';
 import type { FunFacts } from '@/lib/fun-facts';
+import type { HostHazard } from '@/types/database';
 
 interface Couple {
   id: string;
@@ -30,9 +32,13 @@ interface Couple {
   address_unit: string | null;
   address_notes: string | null;
   course_preference: string | null;
+  locale: string;
+  invited_notifications_opt_out_at: string | null;
+  partner_notifications_opt_out_at: string | null;
   instagram_handle: string | null;
   accessibility_needs: string | null;
   accessibility_ok: boolean;
+  host_hazards: string[] | null;
   confirmed: boolean;
   cancelled: boolean;
   created_at: string;
@@ -239,6 +245,7 @@ export default function CoupleDetailPage() {
         <Section title="👤 Anmälare">
           <Field label="Namn" field="invited_name" form={form} setForm={setForm} editing={editing} />
           <Field label="Email" field="invited_email" form={form} setForm={setForm} editing={editing} />
+          <OptOutField field="invited_notifications_opt_out_at" form={form} setForm={setForm} editing={editing} />
           <Field label="Telefon" field="invited_phone" form={form} setForm={setForm} editing={editing} />
           <Field label="Födelseår" field="invited_birth_year" form={form} setForm={setForm} editing={editing} type="number" />
           <Field label="Allergier" field="invited_allergies" form={form} setForm={setForm} editing={editing} isArray />
@@ -267,6 +274,7 @@ export default function CoupleDetailPage() {
           <Section title="👤 Partner">
             <Field label="Namn" field="partner_name" form={form} setForm={setForm} editing={editing} />
             <Field label="Email" field="partner_email" form={form} setForm={setForm} editing={editing} />
+            <OptOutField field="partner_notifications_opt_out_at" form={form} setForm={setForm} editing={editing} />
             <Field label="Födelseår" field="partner_birth_year" form={form} setForm={setForm} editing={editing} type="number" />
             <Field label="Allergier" field="partner_allergies" form={form} setForm={setForm} editing={editing} isArray />
             <SelectField label="Djurallergi" field="partner_pet_allergy" form={form} setForm={setForm} editing={editing}
@@ -316,8 +324,11 @@ export default function CoupleDetailPage() {
           <Field label="Adressnotering" field="address_notes" form={form} setForm={setForm} editing={editing} />
           <SelectField label="Rättsönskemål" field="course_preference" form={form} setForm={setForm} editing={editing}
             options={[['', 'Inget'], ['starter', 'Förrätt'], ['main', 'Huvudrätt'], ['dessert', 'Dessert']]} />
+          <SelectField label="Språk" field="locale" form={form} setForm={setForm} editing={editing}
+            options={LOCALES.map(locale => [locale, LOCALE_LABELS[locale]])} />
           <Field label="Instagram" field="instagram_handle" form={form} setForm={setForm} editing={editing} />
           <Field label="Tillgänglighetsbehov" field="accessibility_needs" form={form} setForm={setForm} editing={editing} />
+          <HazardsField form={form} setForm={setForm} editing={editing} />
         </Section>
 
         {/* Meta */}
@@ -522,6 +533,88 @@ function Field({ label, field, form, setForm, editing, type = 'text', isArray =
   );
 }
 
+/** The edit form: couple columns by name, as the page loads and saves them */
+type CoupleForm = Record<string, unknown>;
+type SetCoupleForm = (update: (prev: CoupleForm) => CoupleForm) => void;
+
+const HAZARD_OPTIONS: [HostHazard, string][] = [['cat', '🐈 Katt'], ['dog', '🐕 Hund'], ['nuts', '🥜 Nötter']];
+
+function HazardsField({ form, setForm, editing }: {
+  form: CoupleForm; setForm: SetCoupleForm; editing: boolean;
+}) {
+  const value = (form.host_hazards as HostHazard[] | null) || [];
+
+  if (!editing) {
+    return (
+      <div className="flex justify-between py-1.5 border-b border-gray-50">
+        <span className="text-sm text-gray-500">Hemma hos värden</span>
+        <span className="text-sm text-gray-900">
+          {value.length === 0 ? '—' : HAZARD_OPTIONS.filter(([v]) => value.includes(v)).map(([, l]) => l).join(', ')}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 py-1.5">
+      <label className="text-sm text-gray-500 w-32 shrink-0">Hemma hos värden</label>
+      <div className="flex flex-wrap gap-3">
+        {HAZARD_OPTIONS.map(([v, l]) => (
+          <label key={v} className="flex items-center gap-1.5 text-sm">
+            <input
+              type="checkbox"
+              checked={value.includes(v)}
+              onChange={(e) => setForm(prev => {
+                const hazards = (prev.host_hazards as HostHazard[] | null) || [];
+                return { ...prev, host_hazards: e.target.checked ? [...hazards, v] : hazards.filter(h => h !== v) };
+              })}
+            />
+            {l}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Whether this person gets participant notifications (they can unsubscribe from the mail) */
+function OptOutField({ field, form, setForm, editing }: {
+  field: string;
+  form: CoupleForm;
+  setForm: SetCoupleForm;
+  editing: boolean;
+}) {
+  const optedOutAt = typeof form[field] === 'string' ? form[field] : null;
+
+  if (!editing) {
+    return (
+      <div className="flex justify-between py-1.5 border-b border-gray-50">
+        <span className="text-sm text-gray-500">Utskick</span>
+        <span className="text-sm text-gray-900">
+          {optedOutAt ? `🔕 Avregistrerad ${new Date(optedOutAt).toLocaleDateString('sv-SE')}` : '✉️ Får mejl'}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 py-1.5">
+      <label className="text-sm text-gray-500 w-32 shrink-0">Utskick</label>
+      <label className="flex items-center gap-1.5 text-sm">
+        <input
+          type="checkbox"
+          checked={!optedOutAt}
+          onChange={(e) => setForm(prev => ({
+            ...prev,
+            [field]: e.target.checked ? null : new Date().toISOString(),
+          }))}
+        />
+        Får mejl om festen
+      </label>
+    </div>
+  );
+}
+
 function SelectField({ label, field, form, setForm, editing, options }: {
   label: string; field: string; form: Record<string, any>; setForm: (f: any) => void; editing: boolean;
   options: [string, string][];
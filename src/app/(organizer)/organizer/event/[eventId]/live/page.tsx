@@ -0,0 +1,283 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { SubPageHeader } from '@/components/organizer/SubPageHeader';
+import { RunningLateControl } from '@/components/organizer/RunningLateControl';
+import { orderedStateCounts, type BoardCourse, type BoardDropout, type BoardGuest } from '@/lib/envelope/board';
+import type { EnvelopeState, MealCourse } from '@/types/database';
+
+interface BoardData {
+  server_time: string;
+  event_status: string;
+  courses: BoardCourse[];
+  dropouts: BoardDropout[];
+}
+
+const REFRESH_MS = 30_000;
+
+const COURSE_LABELS: Record<MealCourse, string> = {
+  starter: '🥗 Förrätt',
+  main: '🍖 Huvudrätt',
+  dessert: '🍰 Efterrätt',
+};
+
+const STATE_STYLES: Record<EnvelopeState, { label: string; className: string }> = {
+  LOCKED: { label: 'Låst', className: 'bg-gray-300' },
+  TEASING: { label: 'Teaser', className: 'bg-purple-300' },
+  CLUE_1: { label: 'Ledtråd 1', className: 'bg-amber-300' },
+  CLUE_2: { label: 'Ledtråd 2', className: 'bg-amber-400' },
+  STREET: { label: 'Gata', className: 'bg-blue-400' },
+  NUMBER: { label: 'Nummer', className: 'bg-blue-600' },
+  OPEN: { label: 'Öppnat', className: 'bg-green-500' },
+};
+
+export default function LiveBoardPage() {
+  const params = useParams();
+  const eventId = params.eventId as string;
+
+  const [board, setBoard] = useState<BoardData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [activating, setActivating] = useState<MealCourse | null>(null);
+  const [moving, setMoving] = useState<{ coupleId: string; course: MealCourse } | null>(null);
+  const [showDelay, setShowDelay] = useState(false);
+
+  const loadBoard = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/organizer/events/${eventId}/live-board`);
+      const data = await res.json();
+      if (res.ok) { setBoard(data); setError(null); }
+      else setError(data.error || 'Kunde inte ladda');
+    } catch { setError('Nätverksfel'); }
+  }, [eventId]);
+
+  useEffect(() => {
+    const first = setTimeout(loadBoard, 0);
+    const interval = setInterval(loadBoard, REFRESH_MS);
+    return () => { clearTimeout(first); clearInterval(interval); };
+  }, [loadBoard]);
+
+  async function activateCourse(course: MealCourse) {
+    if (!confirm(`Aktivera kuvert för ${COURSE_LABELS[course]} nu?`)) return;
+    setActivating(course); setMessage('');
+    try {
+      const res = await fetch('/api/admin/activate-course', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ event_id: eventId, course }),
+      });
+      setMessage(res.ok ? `✅ Kuvert för ${COURSE_LABELS[course]} aktiverade` : '❌ Kunde inte aktivera');
+      if (res.ok) await loadBoard();
+    } catch { setMessage('❌ Nätverksfel'); }
+    finally { setActivating(null); }
+  }
+
+  async function reassign(coupleId: string, course: MealCourse, newHostId: string) {
+    setMessage('');
+    try {
+      const res = await fetch(`/api/organizer/events/${eventId}/reassign`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ guest_couple_id: coupleId, course, new_host_couple_id: newHostId }),
+      });
+      const data = await res.json();
+      if (!res.ok) { setMessage(`❌ ${data.error || 'Kunde inte flytta'}`); return; }
+      const warning = data.capacity_warning || data.allergy_warning;
+      setMessage(`✅ Flyttad${warning ? ` - ${warning}` : ''}`);
+      setMoving(null);
+      await loadBoard();
+    } catch { setMessage('❌ Nätverksfel'); }
+  }
+
+  const isActive = board?.event_status === 'active';
+
+  function hostOptions(course: MealCourse, excludeHostId?: string) {
+    const courseBoard = board?.courses.find(c => c.course === course);
+    return (courseBoard?.tables ?? []).filter(t => !t.host_cancelled && t.host_couple_id !== excludeHostId);
+  }
+
+  function moveControl(coupleId: string, course: MealCourse, currentHostId?: string) {
+    const open = moving?.coupleId === coupleId && moving.course === course;
+    if (!open) {
+      return (
+        <button onClick={() => setMoving({ coupleId, course })}
+          className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600 hover:bg-gray-200 transition">
+          Flytta
+        </button>
+      );
+    }
+    return (
+      <select autoFocus defaultValue="" onBlur={() => setMoving(null)}
+        onChange={(e) => e.target.value && reassign(coupleId, course, e.target.value)}
+        className="text-xs px-1 py-0.5 border border-gray-300 rounded max-w-[10rem]">
+        <option value="">Välj värd…</option>
+        {hostOptions(course, currentHostId).map(t => (
+          <option key={t.host_couple_id} value={t.host_couple_id}>{t.host_name} ({t.guests.length} par)</option>
+        ))}
+      </select>
+    );
+  }
+
+  const alerts = board ? board.dropouts.length + board.courses.reduce((n, c) => n + c.unplaced.length, 0) : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <SubPageHeader eventId={eventId} title="📡 Live-tavla" parentView="live" />
+      <div className="max-w-5xl mx-auto p-4 md:p-6 space-y-4">
+
+        {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>}
+        {message && (
+          <div className={`px-4 py-2 rounded-lg text-sm ${message.startsWith('✅') ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+            {message}
+          </div>
+        )}
+
+        {!board ? (
+          <div className="animate-pulse space-y-4"><div className="h-24 bg-gray-200 rounded-xl"></div><div className="h-64 bg-gray-200 rounded-xl"></div></div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>
+                Uppdaterad {new Date(board.server_time).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                {!isActive && ' · eventet är inte satt till "Pågår"'}
+              </span>
+              <div className="flex gap-2">
+                <button onClick={() => setShowDelay(!showDelay)}
+                  className="px-3 py-1.5 bg-orange-50 text-orange-700 rounded-lg hover:bg-orange-100 text-sm font-medium transition">
+                  ⏱️ Försenat?
+                </button>
+                <button onClick={loadBoard}
+                  className="px-3 py-1.5 bg-white border border-gray-200 text-gray-600 rounded-lg hover:bg-gray-100 text-sm transition">
+                  🔄
+                </button>
+              </div>
+            </div>
+
+            {showDelay && (
+              <div className="bg-white rounded-xl border border-orange-200 p-4">
+                <RunningLateControl eventId={eventId} disabled={!isActive} onDelayed={loadBoard} />
+              </div>
+            )}
+
+            {/* Needs attention */}
+            {alerts > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-4 space-y-3">
+                <h2 className="font-semibold text-red-800">⚠️ Behöver åtgärd ({alerts})</h2>
+                {board.dropouts.map(dropout => (
+                  <div key={dropout.couple_id} className="text-sm">
+                    <p className="text-red-800 font-medium">🚫 {dropout.name} har hoppat av - gäster skickas fortfarande dit:</p>
+                    <ul className="mt-1 space-y-1">
+                      {dropout.stranded.map(guest => (
+                        <li key={`${guest.couple_id}-${guest.course}`} className="flex items-center justify-between gap-2 bg-white rounded-lg px-3 py-1.5">
+                          <span className="text-gray-800">{COURSE_LABELS[guest.course]} · {guest.name}</span>
+                          {moveControl(guest.couple_id, guest.course, dropout.couple_id)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+                {board.courses.filter(c => c.unplaced.length > 0).map(course => (
+                  <div key={course.course} className="text-sm">
+                    <p className="text-red-800 font-medium">📭 Utan plats för {COURSE_LABELS[course.course]}:</p>
+                    <ul className="mt-1 space-y-1">
+                      {course.unplaced.map(couple => (
+                        <li key={couple.couple_id} className="flex items-center justify-between gap-2 bg-white rounded-lg px-3 py-1.5">
+                          <span className="text-gray-800">{couple.name}</span>
+                          {moveControl(couple.couple_id, course.course)}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Per course */}
+            {board.courses.map(course => (
+              <section key={course.course} className="bg-white rounded-xl shadow-sm border p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <h2 className="text-lg font-semibold text-gray-900">{COURSE_LABELS[course.course]}</h2>
+                  <div className="flex items-center gap-3 text-sm">
+                    <span className="text-gray-600">✉️ {course.opened}/{course.guests} öppnade</span>
+                    <span className="text-gray-600">🚪 {course.arrived}/{course.guests} på plats</span>
+                    <button onClick={() => activateCourse(course.course)} disabled={!!activating || !isActive}
+                      className="px-3 py-1.5 bg-green-50 text-green-700 rounded-lg hover:bg-green-100 disabled:opacity-40 text-sm font-medium transition">
+                      {activating === course.course ? '...' : '📤 Aktivera'}
+                    </button>
+                  </div>
+                </div>
+
+                <StateBar states={orderedStateCounts(course.states)} total={course.guests} />
+
+                <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                  {course.tables.map(table => (
+                    <div key={table.host_couple_id}
+                      className={`rounded-lg border p-3 ${table.host_cancelled ? 'border-red-300 bg-red-50' : table.guests.length > 0 && table.arrived === table.guests.length ? 'border-green-300 bg-green-50/40' : 'border-gray-200'}`}>
+                      <div className="flex items-center justify-between gap-2 mb-2">
+                        <p className="font-medium text-gray-900 truncate">🏠 {table.host_name}</p>
+                        <span className="text-xs text-gray-500 whitespace-nowrap">
+                          {table.host_cancelled ? '🚫 avhopp' : `${table.arrived}/${table.guests.length} på plats`}
+                        </span>
+                      </div>
+                      <ul className="space-y-1">
+                        {table.guests.map(guest => (
+                          <GuestRow key={guest.couple_id} guest={guest}
+                            action={moveControl(guest.couple_id, course.course, table.host_couple_id)} />
+                        ))}
+                        {table.guests.length === 0 && <li className="text-xs text-gray-400">Inga gäster</li>}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+
+            <div className="flex gap-3 text-sm">
+              <Link href={`/organizer/event/${eventId}/map`} className="text-indigo-600 hover:underline">🗺️ Live-karta</Link>
+              <Link href={`/organizer/event/${eventId}/help-guest`} className="text-indigo-600 hover:underline">🔍 Hjälp ett par</Link>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function StateBar({ states, total }: { states: { state: EnvelopeState; count: number }[]; total: number }) {
+  if (total === 0) return null;
+  return (
+    <div>
+      <div className="flex h-2.5 rounded-full overflow-hidden bg-gray-100">
+        {states.map(({ state, count }) => (
+          <div key={state} className={STATE_STYLES[state].className} style={{ width: `${(count / total) * 100}%` }}
+            title={`${STATE_STYLES[state].label}: ${count}`} />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1.5 text-xs text-gray-500">
+        {states.map(({ state, count }) => (
+          <span key={state} className="flex items-center gap-1">
+            <span className={`inline-block w-2 h-2 rounded-full ${STATE_STYLES[state].className}`} />
+            {STATE_STYLES[state].label} {count}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function GuestRow({ guest, action }: { guest: BoardGuest; action: React.ReactNode }) {
+  return (
+    <li className="flex items-center justify-between gap-2 text-sm">
+      <span className="truncate text-gray-700">
+        {guest.arrived ? '✅' : <span className={`inline-block w-2 h-2 rounded-full mr-1 ${STATE_STYLES[guest.state].className}`} />}
+        {' '}{guest.name}
+      </span>
+      <span className="flex items-center gap-1.5 whitespace-nowrap">
+        <span className="text-xs text-gray-400">{guest.arrived ? 'på plats' : STATE_STYLES[guest.state].label}</span>
+        {action}
+      </span>
+    </li>
+  );
+}
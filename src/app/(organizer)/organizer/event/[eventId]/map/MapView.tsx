@@ -108,6 +108,7 @@ export function MapView({ eventId, eventName }: { eventId: string; eventName: st
             hostAddress: host.address,
             hostCoords: [host.lng, host.lat],
             hostAllergies: host.allergies || [],
+            hostAccessible: host.accessible,
             guests: [],
             hostNextAddress: null,
             hostNextHostName: null,
@@ -122,6 +123,7 @@ export function MapView({ eventId, eventName }: { eventId: string; eventName: st
             address: guest.address,
             coords: [guest.lng, guest.lat],
             allergies: guest.allergies || [],
+            accessibilityNeeds: guest.accessibilityNeeds,
             routeDistanceKm: routeDistanceKm(seg.geometry),
             fromAddress: seg.fromAddress || guest.address,
             fromHostName: seg.fromHostName || null,
@@ -313,6 +313,12 @@ function ExpandedContent({ group, cfg, onPrev, onNext, groupIndex, groupTotal }:
                       <div className="text-xs text-gray-400 truncate">
                         {fromLabel} · {guest.fromAddress}
                       </div>
+                      {guest.accessibilityNeeds && (
+                        <div className={`text-xs mt-0.5 ${group.hostAccessible ? 'text-blue-600' : 'text-red-600 font-medium'}`}>
+                          ♿ {guest.accessibilityNeeds}
+                          {!group.hostAccessible && ' — värdens hem är inte markerat som tillgängligt'}
+                        </div>
+                      )}
                       <div className="text-xs text-gray-500 mt-0.5">
                         {dist < 0.1 ? '< 100 m' : `${dist.toFixed(1)} km`}
                         {isRoute ? ' cykelväg' : ' fågelvägen'}
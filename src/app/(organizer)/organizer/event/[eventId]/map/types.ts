@@ -11,6 +11,10 @@ export interface MapCouple {
   isCancelled: boolean;
   personCount: number;
   allergies: string[];
+  /** Declared accessibility needs (null = none) */
+  accessibilityNeeds: string | null;
+  /** Home marked as accessible (lift/ground floor) */
+  accessible: boolean;
 }
 
 export interface MissingCoords {
@@ -65,12 +69,14 @@ export interface MealGroup {
   hostAddress: string;
   hostCoords: [number, number];
   hostAllergies: string[];
+  hostAccessible: boolean;
   guests: Array<{
     id: string;
     name: string;
     address: string;
     coords: [number, number];
     allergies: string[];
+    accessibilityNeeds: string | null;
     routeDistanceKm: number | null;
     /** Where they're cycling FROM (home for starter, previous host for main/dessert) */
     fromAddress: string;
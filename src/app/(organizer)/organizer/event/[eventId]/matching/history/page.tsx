@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import { SubPageHeader } from '@/components/organizer/SubPageHeader';
+
+interface Couple {
+  id: string;
+  invited_name: string;
+  partner_name: string | null;
+}
+
+interface PlanStats {
+  couples_matched: number;
+  preference_satisfaction: number;
+  capacity_utilization: number;
+  forced_assignments?: number;
+  expected_cycling_km?: number;
+}
+
+interface Plan {
+  id: string;
+  version: number;
+  status: 'draft' | 'active' | 'superseded';
+  created_at: string;
+  superseded_at: string | null;
+  stats: PlanStats | null;
+  is_active: boolean;
+}
+
+interface Pairing {
+  course: string;
+  host_couple_id: string;
+  guest_couple_id: string;
+}
+
+interface DiffResult {
+  from: { version: number; pairings: Pairing[] };
+  to: { version: number; pairings: Pairing[] };
+  diff: {
+    changed: { course: string; guest_couple_id: string }[];
+    unchanged_count: number;
+    envelopes_cancelled: number;
+    envelopes_created: number;
+  };
+}
+
+const COURSES = [
+  { key: 'starter', label: '🥗 Förrätt' },
+  { key: 'main', label: '🍖 Huvudrätt' },
+  { key: 'dessert', label: '🍰 Efterrätt' },
+];
+
+const STATUS_LABELS: Record<Plan['status'], string> = {
+  draft: 'Utkast',
+  active: 'Aktiv',
+  superseded: 'Ersatt',
+};
+
+export default function MatchPlanHistoryPage() {
+  const params = useParams();
+  const eventId = params.eventId as string;
+
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [couples, setCouples] = useState<Couple[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const loadData = useCallback(async () => {
+    try {
+      const [plansRes, matchingRes] = await Promise.all([
+        fetch(`/api/organizer/events/${eventId}/match-plans`),
+        fetch(`/api/organizer/events/${eventId}/matching`),
+      ]);
+      const plansData = await plansRes.json();
+      const matchingData = await matchingRes.json();
+      if (plansRes.ok) {
+        const list: Plan[] = plansData.plans || [];
+        setPlans(list);
+        setCouples(matchingData.couples || []);
+        if (list.length >= 2) {
+          setToId(list.find(p => p.is_active)?.id ?? list[0].id);
+          setFromId(list.find(p => !p.is_active)?.id ?? list[1].id);
+        }
+      } else {
+        setError(plansData.error || 'Kunde inte ladda historik');
+      }
+    } catch {
+      setError('Nätverksfel');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  const loadDiff = useCallback(async (from: string, to: string) => {
+    try {
+      const res = await fetch(`/api/organizer/events/${eventId}/match-plans/diff?from=${from}&to=${to}`);
+      const data = await res.json();
+      if (res.ok) setDiff(data);
+      else setError(data.error || 'Kunde inte jämföra versioner');
+    } catch {
+      setError('Nätverksfel');
+    }
+  }, [eventId]);
+
+  useEffect(() => { loadData(); }, [loadData]);
+
+  useEffect(() => {
+    if (fromId && toId && fromId !== toId) loadDiff(fromId, toId);
+    else setDiff(null);
+  }, [fromId, toId, loadDiff]);
+
+  async function restore(plan: Plan, force = false) {
+    if (!force) {
+      const answer = prompt(
+        `Återställ version ${plan.version}? Nuvarande plan ersätts och kuverten genereras om.\n\nSkriv versionsnumret (${plan.version}) för att bekräfta.`
+      );
+      if (answer === null) return;
+      if (Number(answer) !== plan.version) {
+        setError('Fel versionsnummer – inget återställdes');
+        return;
+      }
+    }
+
+    setRestoring(plan.id);
+    setError('');
+    setSuccess('');
+    try {
+      const res = await fetch(`/api/organizer/events/${eventId}/match-plans/${plan.id}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ confirm_version: plan.version, force }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setSuccess(`Version ${data.version} är aktiv igen. ${data.envelopes_created} kuvert skapades.`);
+        await loadData();
+      } else if (data.requires_force && confirm(`${data.error}\n\nÅterställ ändå?`)) {
+        setRestoring(null);
+        await restore(plan, true);
+        return;
+      } else {
+        setError(data.error || 'Återställningen misslyckades');
+      }
+    } catch {
+      setError('Nätverksfel');
+    } finally {
+      setRestoring(null);
+    }
+  }
+
+  if (loading) return <div className="min-h-screen bg-gray-50 flex items-center justify-center"><p className="text-gray-500">Laddar...</p></div>;
+
+  const nameOf = (id: string | undefined) => {
+    if (!id) return '—';
+    const c = couples.find(c => c.id === id);
+    return c ? `${c.invited_name}${c.partner_name ? ` & ${c.partner_name}` : ''}` : 'Okänt par';
+  };
+
+  const changedKeys = new Set(diff?.diff.changed.map(c => `${c.course}:${c.guest_couple_id}`));
+  const hostIn = (pairings: Pairing[], course: string, guestId: string) =>
+    pairings.find(p => p.course === course && p.guest_couple_id === guestId)?.host_couple_id;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <SubPageHeader eventId={eventId} title="📜 Versionshistorik" parentView="matching" />
+
+      <main className="max-w-5xl mx-auto px-4 py-8">
+        {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg mb-4">{error}</div>}
+        {success && <div className="bg-green-50 text-green-700 p-3 rounded-lg mb-4">{success}</div>}
+
+        {plans.length === 0 ? (
+          <div className="bg-white rounded-xl p-12 text-center shadow-sm">
+            <p className="text-gray-500">Ingen matchning körd ännu</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm overflow-hidden mb-6">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Version</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500">Skapad</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Par</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Kapacitet</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Tvingade</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500">Cykel</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {plans.map(plan => (
+                  <tr key={plan.id} className={plan.is_active ? 'bg-indigo-50' : ''}>
+                    <td className="px-4 py-3 font-medium text-gray-900">
+                      v{plan.version}{' '}
+                      <span className={`text-xs ${plan.is_active ? 'text-indigo-700' : 'text-gray-400'}`}>
+                        {plan.is_active ? 'Aktiv' : STATUS_LABELS[plan.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{new Date(plan.created_at).toLocaleString('sv-SE')}</td>
+                    <td className="px-4 py-3 text-right">{plan.stats?.couples_matched ?? '—'}</td>
+                    <td className="px-4 py-3 text-right">
+                      {plan.stats ? `${Math.round(plan.stats.capacity_utilization * 100)}%` : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-right">{plan.stats?.forced_assignments ?? '—'}</td>
+                    <td className="px-4 py-3 text-right">
+                      {plan.stats?.expected_cycling_km != null ? `${plan.stats.expected_cycling_km} km` : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {!plan.is_active && (
+                        <button
+                          onClick={() => restore(plan)}
+                          disabled={restoring !== null}
+                          className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                        >
+                          {restoring === plan.id ? '⏳' : '↩️ Återställ'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {plans.length >= 2 && (
+          <div className="bg-white rounded-xl p-6 shadow-sm">
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              <h2 className="text-lg font-semibold text-gray-900 mr-2">Jämför</h2>
+              {[{ value: fromId, set: setFromId }, { value: toId, set: setToId }].map(({ value, set }, i) => (
+                <select
+                  key={i}
+                  value={value}
+                  onChange={e => set(e.target.value)}
+                  className="px-2 py-1.5 border border-gray-200 rounded-lg text-sm bg-white"
+                >
+                  {plans.map(p => <option key={p.id} value={p.id}>v{p.version}</option>)}
+                </select>
+              ))}
+            </div>
+
+            {diff && (
+              <>
+                <p className="text-sm text-gray-500 mb-4">
+                  {diff.diff.changed.length} ändrade placeringar, {diff.diff.unchanged_count} oförändrade
+                </p>
+                {COURSES.map(({ key, label }) => {
+                  const guests = [...new Set(
+                    [...diff.from.pairings, ...diff.to.pairings].filter(p => p.course === key).map(p => p.guest_couple_id)
+                  )];
+                  if (guests.length === 0) return null;
+                  return (
+                    <div key={key} className="mb-6">
+                      <h3 className="font-medium text-gray-900 mb-2">{label}</h3>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-gray-500">
+                            <th className="text-left font-medium py-1">Gäst</th>
+                            <th className="text-left font-medium py-1">Värd v{diff.from.version}</th>
+                            <th className="text-left font-medium py-1">Värd v{diff.to.version}</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                          {guests.map(guestId => {
+                            const changed = changedKeys.has(`${key}:${guestId}`);
+                            return (
+                              <tr key={guestId} className={changed ? 'bg-amber-50' : ''}>
+                                <td className="py-1 text-gray-700">{nameOf(guestId)}</td>
+                                <td className="py-1 text-gray-600">{nameOf(hostIn(diff.from.pairings, key, guestId))}</td>
+                                <td className={`py-1 ${changed ? 'font-semibold text-amber-800' : 'text-gray-600'}`}>
+                                  {nameOf(hostIn(diff.to.pairings, key, guestId))}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  );
+                })}
+              </>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -2,8 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { useParams } from 'next/navigation';
+import Link from 'next/link';
 import { SubPageHeader } from '@/components/organizer/SubPageHeader';
 import { DistanceWarnings } from '@/components/admin/DistanceWarnings';
+import { WhatIfPanel } from '@/components/organizer/WhatIfPanel';
 
 interface Couple {
   id: string;
@@ -154,9 +156,26 @@ export default function MatchingPage() {
           </div>
         )}
 
+        {matchPlan?.stats?.expected_cycling_km != null && (
+          <div className="text-sm text-gray-500 mb-6 -mt-2 text-center">
+            🚲 Förväntad total cykelsträcka: {matchPlan.stats.expected_cycling_km} km
+          </div>
+        )}
+
+        {matchPlan && (
+          <div className="text-sm text-center mb-6 -mt-2">
+            <Link href={`/organizer/event/${eventId}/matching/history`} className="text-indigo-600 hover:underline">
+              📜 Versionshistorik
+            </Link>
+          </div>
+        )}
+
         {/* Distance Warnings */}
         <DistanceWarnings eventId={eventId} />
 
+        {/* What-if simulator */}
+        {couples.length >= 3 && <WhatIfPanel eventId={eventId} couples={couples} />}
+
         {/* View tabs */}
         {pairings.length > 0 && (
           <>
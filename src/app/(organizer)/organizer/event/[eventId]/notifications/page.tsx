@@ -3,6 +3,32 @@
 import { useState, useEffect } from 'react';
 import { useParams } from 'next/navigation';
 import { SubPageHeader } from '@/components/organizer/SubPageHeader';
+import { CHANNELS, CHANNEL_LABELS, NOTIFICATION_TYPES, NOTIFICATION_TYPE_LABELS, channelsFor, type NotificationChannels } from '@/lib/channels/settings';
+import type { Channel } from '@/lib/channels/types';
+import type { NotificationType } from '@/lib/notifications';
+import type { Notification, NotificationStatus } from '@/types/database';
+
+type Delivery = Pick<Notification, 'id' | 'person_type' | 'channel' | 'notification_type' | 'recipient_email' | 'recipient_phone' | 'status' | 'attempts' | 'next_attempt_at' | 'last_error'> & {
+  couple_name: string | null;
+};
+
+const DELIVERY_STATUS: Record<NotificationStatus, { label: string; className: string }> = {
+  queued: { label: '⏳ I kö', className: 'bg-amber-100 text-amber-800' },
+  sent: { label: '✅ Skickat', className: 'bg-green-100 text-green-800' },
+  bounced: { label: '↩️ Studsade', className: 'bg-orange-100 text-orange-800' },
+  failed: { label: '❌ Misslyckades', className: 'bg-red-100 text-red-800' },
+};
+
+const CHANNEL_ICONS: Record<Channel, string> = {
+  email: '📧',
+  sms: '📱',
+  push: '🔔',
+};
+
+function deliveryAddress(d: Delivery): string | null {
+  if (d.channel === 'push') return 'webbläsare';
+  return d.channel === 'sms' ? d.recipient_phone : d.recipient_email;
+}
 
 export default function NotificationsPage() {
   const params = useParams();
@@ -11,11 +37,15 @@ export default function NotificationsPage() {
   const [event, setEvent] = useState<any>(null);
   const [stats, setStats] = useState<any>(null);
   const [emailLog, setEmailLog] = useState<any[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [deliveryStats, setDeliveryStats] = useState<Record<NotificationStatus, number> | null>(null);
+  const [retrying, setRetrying] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [sending, setSending] = useState(false);
   const [organizerEmail, setOrganizerEmail] = useState('');
   const [reminderTime, setReminderTime] = useState('08:00');
+  const [channels, setChannels] = useState<NotificationChannels>({});
   const [message, setMessage] = useState('');
 
   useEffect(() => { loadData(); }, [eventId]);
@@ -28,8 +58,11 @@ export default function NotificationsPage() {
         setEvent(data.event);
         setStats(data.stats);
         setEmailLog(data.emailLog);
+        setDeliveries(data.deliveries || []);
+        setDeliveryStats(data.deliveryStats || null);
         setOrganizerEmail(data.event.organizer_email || '');
         setReminderTime(data.event.wrap_reminder_time || '08:00');
+        setChannels(data.event.notification_channels || {});
       }
     } catch {}
     finally { setLoading(false); }
@@ -40,7 +73,7 @@ export default function NotificationsPage() {
     await fetch(`/api/organizer/events/${eventId}/notifications`, {
       method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ organizer_email: organizerEmail || null, wrap_reminder_time: reminderTime }),
+      body: JSON.stringify({ organizer_email: organizerEmail || null, wrap_reminder_time: reminderTime, notification_channels: channels }),
     });
     await loadData();
     setSaving(false);
@@ -48,6 +81,14 @@ export default function NotificationsPage() {
     setTimeout(() => setMessage(''), 3000);
   }
 
+  function toggleChannel(type: keyof NotificationChannels, channel: Channel) {
+    setChannels(prev => {
+      const current = channelsFor(prev, type);
+      const next = current.includes(channel) ? current.filter(c => c !== channel) : [...current, channel];
+      return { ...prev, [type]: CHANNELS.filter(c => next.includes(c)) };
+    });
+  }
+
   async function sendOrganizerReminder() {
     setSending(true);
     const res = await fetch('/api/notify/organizer-reminder', {
@@ -86,6 +127,20 @@ export default function NotificationsPage() {
     setSending(false);
   }
 
+  async function retryDelivery(notificationId?: string) {
+    setRetrying(notificationId || 'all');
+    const res = await fetch(`/api/organizer/events/${eventId}/notifications/retry`, {
+      method: 'POST', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(notificationId ? { notification_id: notificationId } : {}),
+    });
+    const data = await res.json();
+    setMessage(res.ok
+      ? `✅ ${data.sent} skickade${data.queued ? `, ${data.queued} försöker igen senare` : ''}${data.failed ? `, ${data.failed} misslyckades` : ''}`
+      : `❌ ${data.error}`);
+    await loadData();
+    setRetrying(null);
+  }
+
   if (loading) return <div className="min-h-screen bg-gray-50 flex items-center justify-center"><p className="text-gray-500">Laddar...</p></div>;
   if (!event) return <div className="min-h-screen bg-gray-50 p-8"><p className="text-red-500">Event hittades inte</p></div>;
 
@@ -98,7 +153,7 @@ export default function NotificationsPage() {
 
       <main className="max-w-4xl mx-auto px-4 py-8">
         <h1 className="text-2xl font-bold text-gray-900 mb-2">📧 Notifikationer</h1>
-        <p className="text-gray-500 mb-6">Hantera wrap-utskick och se statistik</p>
+        <p className="text-gray-500 mb-6">Hantera utskick, se leveransstatus och statistik</p>
 
         {message && <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">{message}</div>}
 
@@ -133,6 +188,26 @@ export default function NotificationsPage() {
               <label className="block text-sm font-medium mb-1">Påminnelsetid</label>
               <input type="time" value={reminderTime} onChange={(e) => setReminderTime(e.target.value)} className="border rounded-lg px-4 py-2" />
             </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Kanaler till deltagarna</label>
+              <div className="border rounded-lg divide-y">
+                {NOTIFICATION_TYPES.map(type => (
+                  <div key={type} className="flex items-center justify-between px-4 py-2">
+                    <span className="text-sm">{NOTIFICATION_TYPE_LABELS[type]}</span>
+                    <div className="flex gap-4">
+                      {CHANNELS.map(channel => (
+                        <label key={channel} className="flex items-center gap-1.5 text-sm">
+                          <input type="checkbox" checked={channelsFor(channels, type).includes(channel)}
+                            onChange={() => toggleChannel(type, channel)} />
+                          {CHANNEL_LABELS[channel]}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-gray-500 mt-1">SMS går till telefonnumren från anmälan – bra för ändringar under kvällen. Push når gäster som slagit på notiser i kuvertet.</p>
+            </div>
             <button onClick={saveSettings} disabled={saving}
               className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50">
               {saving ? 'Sparar...' : 'Spara'}
@@ -176,6 +251,67 @@ export default function NotificationsPage() {
           </div>
         )}
 
+        {/* Participant deliveries */}
+        {deliveries.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold">📬 Deltagarutskick</h2>
+              {deliveryStats && (deliveryStats.bounced > 0 || deliveryStats.failed > 0) && (
+                <button onClick={() => retryDelivery()} disabled={retrying !== null}
+                  className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50">
+                  {retrying === 'all' ? 'Skickar...' : '🔁 Försök igen med alla misslyckade'}
+                </button>
+              )}
+            </div>
+            {deliveryStats && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                {Object.entries(DELIVERY_STATUS).map(([status, { label, className }]) => (
+                  <span key={status} className={`px-2 py-1 rounded text-xs ${className}`}>{label}: {deliveryStats[status as NotificationStatus] ?? 0}</span>
+                ))}
+              </div>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead><tr className="border-b"><th className="text-left p-2">Typ</th><th className="text-left p-2">Par</th><th className="text-left p-2">Mottagare</th><th className="text-left p-2">Status</th><th className="text-left p-2">Försök</th><th className="p-2"></th></tr></thead>
+                <tbody>
+                  {deliveries.map(d => {
+                    const status = DELIVERY_STATUS[d.status] || DELIVERY_STATUS.queued;
+                    return (
+                      <tr key={d.id} className="border-b align-top">
+                        <td className="p-2">{NOTIFICATION_TYPE_LABELS[d.notification_type as NotificationType] || d.notification_type}</td>
+                        <td className="p-2">
+                          {d.couple_name || '–'}
+                          {d.person_type === 'partner' && <span className="text-xs text-gray-500"> · partner</span>}
+                        </td>
+                        <td className="p-2">
+                          <span title={CHANNEL_LABELS[d.channel]}>{CHANNEL_ICONS[d.channel]}</span>{' '}
+                          {deliveryAddress(d) || <span className="text-gray-400">saknas</span>}
+                        </td>
+                        <td className="p-2">
+                          <span className={`px-2 py-1 rounded text-xs ${status.className}`}>{status.label}</span>
+                          {d.last_error && d.status !== 'sent' && <div className="text-xs text-gray-500 mt-1">{d.last_error}</div>}
+                          {d.status === 'queued' && d.attempts > 0 && (
+                            <div className="text-xs text-gray-500 mt-1">Nästa försök {new Date(d.next_attempt_at).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' })}</div>
+                          )}
+                        </td>
+                        <td className="p-2">{d.attempts}</td>
+                        <td className="p-2 text-right">
+                          {(d.status === 'bounced' || d.status === 'failed') && d.channel !== 'push' && (
+                            <button onClick={() => retryDelivery(d.id)} disabled={retrying !== null}
+                              className="px-2 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50">
+                              {retrying === d.id ? '...' : 'Försök igen'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Email Log */}
         {emailLog.length > 0 && (
           <div className="bg-white rounded-xl shadow-sm p-6">
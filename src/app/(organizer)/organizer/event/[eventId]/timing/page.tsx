@@ -1,8 +1,18 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams } from 'next/navigation';
 import { SubPageHeader } from '@/components/organizer/SubPageHeader';
+import { RevealTimeline } from '@/components/organizer/RevealTimeline';
+import { parseCourseSchedules, type CourseTimingOffsets } from '@/lib/envelope/timing';
+import {
+  buildRevealTimeline,
+  findScheduleConflicts,
+  SCHEDULE_COURSES,
+  type ScheduleEnvelope,
+} from '@/lib/envelope/schedule';
+import { DEFAULT_HINT_LIMIT, MAX_HINT_LIMIT } from '@/lib/envelope/hints';
+import type { HintLimits, MealCourse } from '@/types/database';
 
 function InfoTooltip({ text }: { text: string }) {
   const [isOpen, setIsOpen] = useState(false);
@@ -46,6 +56,29 @@ interface TimingSettings {
   distance_adjustment_enabled: boolean;
 }
 
+interface EventSchedule {
+  event_date: string;
+  starter_time: string | null;
+  main_time: string | null;
+  dessert_time: string | null;
+}
+
+type OffsetField = 'teasing_minutes_before' | 'clue_1_minutes_before' | 'clue_2_minutes_before' | 'street_minutes_before' | 'number_minutes_before';
+
+const REVEAL_ROWS: { field: OffsetField; label: string; options: number[] }[] = [
+  { field: 'teasing_minutes_before', label: '🤫 Nyfiken? (teasing)', options: [180,240,300,360,420,480] },
+  { field: 'clue_1_minutes_before', label: '🔮 Ledtråd 1', options: [60,90,120,150,180] },
+  { field: 'clue_2_minutes_before', label: '🔮 Ledtråd 2', options: [15,20,30,45,60] },
+  { field: 'street_minutes_before', label: '📍 Gatunamn', options: [10,15,20,25,30] },
+  { field: 'number_minutes_before', label: '🔢 Husnummer', options: [3,5,8,10,15] },
+];
+
+const COURSE_LABELS: Record<MealCourse, string> = {
+  starter: '🥗 Förrätt',
+  main: '🍖 Huvudrätt',
+  dessert: '🍰 Efterrätt',
+};
+
 export default function TimingEditorPage() {
   const params = useParams();
   const eventId = params.eventId as string;
@@ -56,6 +89,11 @@ export default function TimingEditorPage() {
   const [saved, setSaved] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [eventName, setEventName] = useState('');
+  const [courseOffsets, setCourseOffsets] = useState<CourseTimingOffsets>({});
+  const [hintLimits, setHintLimits] = useState<HintLimits>({});
+  const [schedule, setSchedule] = useState<EventSchedule | null>(null);
+  const [envelopes, setEnvelopes] = useState<ScheduleEnvelope[]>([]);
+  const [coupleNames, setCoupleNames] = useState<Map<string, string>>(new Map());
 
   useEffect(() => { loadData(); }, [eventId]);
 
@@ -67,6 +105,11 @@ export default function TimingEditorPage() {
       if (res.ok) {
         setTiming(data.timing);
         setEventName(data.eventName);
+        setCourseOffsets(data.courseOffsets || {});
+        setHintLimits(data.hintLimits || {});
+        setSchedule(data.schedule);
+        setEnvelopes(data.envelopes || []);
+        setCoupleNames(new Map((data.couples || []).map((c: { id: string; name: string }) => [c.id, c.name])));
       } else {
         setError(data.error || 'Kunde inte ladda');
       }
@@ -89,6 +132,8 @@ export default function TimingEditorPage() {
           number_minutes_before: timing.number_minutes_before,
           during_meal_clue_interval_minutes: timing.during_meal_clue_interval_minutes,
           distance_adjustment_enabled: timing.distance_adjustment_enabled,
+          course_timing_offsets: courseOffsets,
+          hint_limits: hintLimits,
         }),
       });
       if (res.ok) {
@@ -110,6 +155,38 @@ export default function TimingEditorPage() {
     setTiming({ ...timing, [field]: value });
   }
 
+  function handleHintLimitChange(course: MealCourse, value: number | null) {
+    const next = { ...hintLimits };
+    if (value === null) delete next[course];
+    else next[course] = value;
+    setHintLimits(next);
+  }
+
+  function handleOffsetChange(course: MealCourse, field: OffsetField, value: number | null) {
+    const next = { ...courseOffsets[course] };
+    if (value === null) delete next[field];
+    else next[field] = value;
+    setCourseOffsets({ ...courseOffsets, [course]: next });
+  }
+
+  // Same calculation as recalc-envelope-times, so the preview matches what gets saved
+  const courseStarts = useMemo(() => {
+    if (!schedule) return null;
+    const starts = parseCourseSchedules(
+      schedule.event_date,
+      schedule.starter_time || '17:30:00',
+      schedule.main_time || '19:00:00',
+      schedule.dessert_time || '20:30:00'
+    );
+    return { starter: starts.starter, main: starts.main, dessert: starts.dessert };
+  }, [schedule]);
+
+  const timelines = useMemo(
+    () => (timing && courseStarts ? buildRevealTimeline(envelopes, courseStarts, timing, courseOffsets, coupleNames) : []),
+    [envelopes, courseStarts, timing, courseOffsets, coupleNames]
+  );
+  const conflicts = useMemo(() => findScheduleConflicts(timelines), [timelines]);
+
   if (loading) return <div className="min-h-screen bg-gray-50 p-8"><div className="max-w-2xl mx-auto animate-pulse space-y-4"><div className="h-8 bg-gray-200 rounded w-1/3"></div><div className="h-64 bg-gray-200 rounded"></div></div></div>;
 
   return (
@@ -128,11 +205,69 @@ export default function TimingEditorPage() {
                 <InfoTooltip text="Tiderna anger hur långt innan varje rätt startar som respektive reveal sker." />
               </h2>
               <div className="space-y-4">
-                <TimingRow label="🤫 Nyfiken? (teasing)" value={timing.teasing_minutes_before} onChange={(v) => handleChange('teasing_minutes_before', v)} options={[180,240,300,360,420,480]} />
-                <TimingRow label="🔮 Ledtråd 1" value={timing.clue_1_minutes_before} onChange={(v) => handleChange('clue_1_minutes_before', v)} options={[60,90,120,150,180]} />
-                <TimingRow label="🔮 Ledtråd 2" value={timing.clue_2_minutes_before} onChange={(v) => handleChange('clue_2_minutes_before', v)} options={[15,20,30,45,60]} />
-                <TimingRow label="📍 Gatunamn" value={timing.street_minutes_before} onChange={(v) => handleChange('street_minutes_before', v)} options={[10,15,20,25,30]} />
-                <TimingRow label="🔢 Husnummer" value={timing.number_minutes_before} onChange={(v) => handleChange('number_minutes_before', v)} options={[3,5,8,10,15]} />
+                {REVEAL_ROWS.map(row => (
+                  <TimingRow key={row.field} label={row.label} value={timing[row.field]} onChange={(v) => handleChange(row.field, v)} options={row.options} />
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl p-6 shadow-sm border">
+              <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center flex-wrap">
+                🍽️ Per rätt
+                <InfoTooltip text="Avvikelser för en enskild rätt. Standard följer inställningarna ovan. Extra ledtrådar är hur många gånger varje par kan be om en ledtråd till medan de gissar." />
+              </h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-500">
+                      <th className="text-left font-medium pb-2"></th>
+                      {SCHEDULE_COURSES.map(course => <th key={course} className="text-left font-medium pb-2 px-1">{COURSE_LABELS[course]}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {REVEAL_ROWS.map(row => (
+                      <tr key={row.field}>
+                        <td className="py-1 pr-2 text-gray-700 whitespace-nowrap">{row.label}</td>
+                        {SCHEDULE_COURSES.map(course => {
+                          const value = courseOffsets[course]?.[row.field];
+                          const options = value !== undefined && !row.options.includes(value) ? [...row.options, value].sort((a, b) => a - b) : row.options;
+                          return (
+                            <td key={course} className="py-1 px-1">
+                              <select
+                                value={value ?? ''}
+                                onChange={(e) => handleOffsetChange(course, row.field, e.target.value === '' ? null : parseInt(e.target.value))}
+                                className={`w-full px-2 py-1.5 border rounded-lg ${value !== undefined ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200'}`}
+                              >
+                                <option value="">Standard ({fmtMinutes(timing[row.field])})</option>
+                                {options.map(opt => <option key={opt} value={opt}>{fmtMinutes(opt)}</option>)}
+                              </select>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                    <tr>
+                      <td className="py-1 pr-2 text-gray-700 whitespace-nowrap">💡 Extra ledtrådar</td>
+                      {SCHEDULE_COURSES.map(course => {
+                        const value = hintLimits[course];
+                        return (
+                          <td key={course} className="py-1 px-1">
+                            <select
+                              value={value ?? ''}
+                              onChange={(e) => handleHintLimitChange(course, e.target.value === '' ? null : parseInt(e.target.value))}
+                              className={`w-full px-2 py-1.5 border rounded-lg ${value !== undefined ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200'}`}
+                            >
+                              <option value="">Standard ({DEFAULT_HINT_LIMIT})</option>
+                              {Array.from({ length: MAX_HINT_LIMIT + 1 }, (_, n) => (
+                                <option key={n} value={n}>{n === 0 ? 'Av' : n}</option>
+                              ))}
+                            </select>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  </tbody>
+                </table>
               </div>
             </div>
 
@@ -179,6 +314,14 @@ export default function TimingEditorPage() {
               </div>
             </div>
 
+            <div className="bg-white rounded-xl p-6 shadow-sm border">
+              <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center flex-wrap">
+                🗓️ Tidslinje för alla par
+                <InfoTooltip text="Uppdateras direkt när du ändrar tiderna - inget sparas förrän du klickar Spara. Röda markeringar visar reveals som krockar, t.ex. gatunamnet till efterrätten medan paret fortfarande äter huvudrätt." />
+              </h2>
+              {courseStarts && <RevealTimeline timelines={timelines} conflicts={conflicts} courseStarts={courseStarts} />}
+            </div>
+
             <button onClick={handleSave} disabled={saving}
               className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 text-white font-semibold py-3 px-6 rounded-xl transition-colors">
               {saving ? 'Sparar...' : '💾 Spara inställningar'}
@@ -195,7 +338,7 @@ function TimingRow({ label, value, onChange, options }: { label: string; value:
     <div className="flex items-center justify-between gap-4">
       <span className="text-gray-700">{label}</span>
       <select value={value} onChange={(e) => onChange(parseInt(e.target.value))} className="px-3 py-2 border border-gray-200 rounded-lg">
-        {options.map(opt => <option key={opt} value={opt}>{opt < 60 ? `${opt} min` : `${Math.floor(opt/60)}h${opt%60 ? ` ${opt%60}m` : ''}`}</option>)}
+        {options.map(opt => <option key={opt} value={opt}>{fmtMinutes(opt)}</option>)}
       </select>
     </div>
   );
@@ -211,6 +354,10 @@ function TimelineItem({ time, label, highlight = false }: { time: string; label:
   );
 }
 
+function fmtMinutes(minutes: number): string {
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes/60)}h${minutes%60 ? ` ${minutes%60}m` : ''}`;
+}
+
 function fmtTime(totalMinutes: number): string {
   const h = Math.floor(totalMinutes / 60) % 24;
   const m = totalMinutes % 60;
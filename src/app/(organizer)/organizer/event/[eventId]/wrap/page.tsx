@@ -26,6 +26,9 @@ interface WrapStats {
   neighbor_pairs: Array<{ a: string; b: string; street: string }>;
   fun_facts_count: number;
   couples_with_routes: number;
+  hints_used?: number;
+  guest_envelopes?: number;
+  solved_without_hints?: number;
   distance_source: string;
   last_guest_departure: string | null;
   wrap_approved_at: string | null;
@@ -232,6 +235,7 @@ function WrapPage() {
                     <Stat label="⚡ Kortaste rutt" value={stats.shortest_ride_km > 0 ? `${stats.shortest_ride_km} km` : '—'} sub={stats.shortest_ride_couple || undefined} />
                     <Stat label="🏔️ Längsta rutt" value={stats.longest_ride_km > 0 ? `${stats.longest_ride_km} km` : '—'} sub={stats.longest_ride_couple || undefined} />
                     <Stat label="🎂 Åldersspan" value={stats.age_youngest && stats.age_oldest ? `${stats.age_youngest}–${stats.age_oldest} år` : 'Saknar födelseår'} />
+                    <Stat label="💡 Utan extra ledtrådar" value={stats.guest_envelopes ? `${stats.solved_without_hints ?? 0}/${stats.guest_envelopes}` : '—'} sub={stats.hints_used ? `${stats.hints_used} ledtrådar använda` : undefined} />
                   </div>
                 </div>
 
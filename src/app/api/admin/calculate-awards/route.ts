@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
-import { AWARDS } from '@/lib/awards/calculate';
+import { AWARDS, GUESS_AWARD_IDS } from '@/lib/awards/calculate';
+import { scoreHostGuesses, type GuessScore } from '@/lib/envelope/guesses';
 import { requireEventAccess } from '@/lib/auth';
 import { countFunFacts } from '@/lib/fun-facts';
 
@@ -10,6 +11,7 @@ const DEFAULT_ENABLED_AWARDS = [
   'first_signup', 'last_signup',
   'furthest_from_center', 'closest_to_center',
   'most_fun_facts',
+  'master_detective',
   'wildcard', 'social_butterfly', 'mystery_guest',
   'perfect_host', 'party_starter', 'night_owl',
 ];
@@ -23,6 +25,7 @@ interface Person {
   distance_km: number;
   registered_at: string;
   allergies_count: number;
+  guess: GuessScore | null;
 }
 
 export async function POST(request: NextRequest) {
@@ -99,7 +102,7 @@ export async function POST(request: NextRequest) {
     const coupleIds = couples.map(c => c.id);
     const { data: envelopes } = await supabase
       .from('envelopes')
-      .select('couple_id, cycling_distance_km')
+      .select('id, couple_id, host_couple_id, cycling_distance_km')
       .in('couple_id', coupleIds)
       .eq('match_plan_id', event.active_match_plan_id);
     
@@ -111,6 +114,18 @@ export async function POST(request: NextRequest) {
       distanceByCouple.set(e.couple_id, current + distanceKm);
     });
     
+    // Guess-the-host scores per couple
+    const { data: guesses } = envelopes?.length
+      ? await supabase
+          .from('host_guesses')
+          .select('envelope_id, couple_id, guessed_host_couple_id, guessed_state')
+          .in('envelope_id', envelopes.map(e => e.id))
+      : { data: [] };
+    const guessScores = new Map(
+      scoreHostGuesses(guesses ?? [], new Map((envelopes ?? []).map(e => [e.id, e.host_couple_id])))
+        .map(score => [score.couple_id, score])
+    );
+    
     // Build person list (invited + partners separately)
     const persons: Person[] = [];
     
@@ -129,6 +144,7 @@ export async function POST(request: NextRequest) {
         distance_km: Math.round(personDistance * 10) / 10,
         registered_at: couple.created_at,
         allergies_count: (couple.invited_allergies as string[] | null)?.length || 0,
+        guess: guessScores.get(couple.id) ?? null,
       });
       
       // Partner (if exists)
@@ -142,6 +158,7 @@ export async function POST(request: NextRequest) {
           distance_km: Math.round(personDistance * 10) / 10,
           registered_at: couple.created_at,
           allergies_count: (couple.partner_allergies as string[] | null)?.length || 0,
+          guess: guessScores.get(couple.id) ?? null,
         });
       }
     }
@@ -162,6 +179,7 @@ export async function POST(request: NextRequest) {
       'longest_distance', 'shortest_distance', 'average_distance',
       'furthest_from_center', 'closest_to_center',
       'perfect_host',
+      ...GUESS_AWARD_IDS,
     ]);
     
     function tryAssign(person: Person, awardId: string, value: string | null): boolean {
@@ -286,9 +304,25 @@ export async function POST(request: NextRequest) {
       tryAssign(byAllergies[0], 'most_allergies', `${byAllergies[0].allergies_count} allergier`);
     }
     
-    // Fill remaining with random awards
+    // 13. Guess the host: most points
+    const byGuessPoints = persons
+      .filter(p => p.guess && p.guess.points > 0)
+      .sort((a, b) => b.guess!.points - a.guess!.points || b.guess!.correct - a.guess!.correct);
+    if (byGuessPoints.length > 0) {
+      tryAssign(byGuessPoints[0], 'master_detective', `${byGuessPoints[0].guess!.points} poäng`);
+    }
+    
+    // 14. Guessed on several courses, never right
+    const clueless = persons
+      .filter(p => p.guess && p.guess.guesses >= 2 && p.guess.correct === 0)
+      .sort((a, b) => b.guess!.guesses - a.guess!.guesses);
+    if (clueless.length > 0) {
+      tryAssign(clueless[0], 'clueless', `0 av ${clueless[0].guess!.guesses} rätt`);
+    }
+    
+    // Fill remaining with random awards (guess awards are only given when earned)
     const remainingAwards = AWARDS
-      .filter(a => enabledAwards.includes(a.id) && !assignedAwards.has(a.id))
+      .filter(a => enabledAwards.includes(a.id) && !assignedAwards.has(a.id) && !GUESS_AWARD_IDS.includes(a.id))
       .map(a => a.id);
     
     const remainingPersons = persons.filter(p => 
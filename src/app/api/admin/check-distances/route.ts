@@ -1,54 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { requireEventAccess } from '@/lib/auth';
-import { parsePoint } from '@/lib/geo';
-
-interface Coordinates {
-  lat: number;
-  lng: number;
-}
-
-// Parse PostgREST point format "(lng,lat)" to {lat, lng}
-
-function haversineKm(a: Coordinates, b: Coordinates): number {
-  const R = 6371;
-  const dLat = (b.lat - a.lat) * Math.PI / 180;
-  const dLng = (b.lng - a.lng) * Math.PI / 180;
-  const x = Math.sin(dLat / 2) ** 2 +
-    Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) *
-    Math.sin(dLng / 2) ** 2;
-  return R * 2 * Math.atan2(Math.sqrt(x), Math.sqrt(1 - x));
-}
-
-/**
- * Get cycling distance via Mapbox Directions API (same source as map view)
- */
-async function getCyclingDistance(
-  from: Coordinates,
-  to: Coordinates,
-  token: string
-): Promise<{ distance_km: number; duration_min: number; source: 'cycling' | 'haversine' }> {
-  try {
-    const url = `https://api.mapbox.com/directions/v5/mapbox/cycling/${from.lng},${from.lat};${to.lng},${to.lat}?overview=false&access_token=${token}`;
-    const res = await fetch(url);
-    if (!res.ok) throw new Error(`Mapbox ${res.status}`);
-    const data = await res.json();
-    const route = data.routes?.[0];
-    if (!route) throw new Error('No route');
-    return {
-      distance_km: Math.round((route.distance / 1000) * 10) / 10,
-      duration_min: Math.round(route.duration / 60),
-      source: 'cycling',
-    };
-  } catch {
-    const dist = haversineKm(from, to);
-    return {
-      distance_km: Math.round(dist * 10) / 10,
-      duration_min: Math.round(dist * 4),
-      source: 'haversine',
-    };
-  }
-}
+import { parsePoint, type Coordinates } from '@/lib/geo';
+import { getCyclingRoutes } from '@/lib/routing';
 
 interface PairwiseDistance {
   from_id: string;
@@ -112,8 +66,7 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Calculate all pairwise cycling distances via Mapbox
-    // Batch with concurrency limit to avoid rate limits
+    // Calculate all pairwise cycling distances (Mapbox, cached in route_cache)
     const pairs: Array<[number, number]> = [];
     for (let i = 0; i < withCoords.length; i++) {
       for (let j = i + 1; j < withCoords.length; j++) {
@@ -121,32 +74,28 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const CONCURRENCY = 10;
-    const results: PairwiseDistance[] = [];
-    let cyclingCount = 0;
-
-    for (let batch = 0; batch < pairs.length; batch += CONCURRENCY) {
-      const chunk = pairs.slice(batch, batch + CONCURRENCY);
-      const promises = chunk.map(async ([i, j]) => {
-        const a = withCoords[i];
-        const b = withCoords[j];
-        const dist = await getCyclingDistance(a.coordinates, b.coordinates, mapboxToken);
-        if (dist.source === 'cycling') cyclingCount++;
-        return {
-          from_id: a.id,
-          from_name: a.invited_name + (a.partner_name ? ` & ${a.partner_name}` : ''),
-          from_address: a.address,
-          to_id: b.id,
-          to_name: b.invited_name + (b.partner_name ? ` & ${b.partner_name}` : ''),
-          to_address: b.address,
-          distance_km: dist.distance_km,
-          duration_min: dist.duration_min,
-          source: dist.source,
-        };
-      });
-      const batchResults = await Promise.all(promises);
-      results.push(...batchResults);
-    }
+    const routes = await getCyclingRoutes(
+      pairs.map(([i, j]) => ({ from: withCoords[i].coordinates, to: withCoords[j].coordinates })),
+      { supabase }
+    );
+    const cyclingCount = routes.filter(r => r.source === 'cycling').length;
+
+    const results: PairwiseDistance[] = pairs.map(([i, j], index) => {
+      const a = withCoords[i];
+      const b = withCoords[j];
+      const dist = routes[index];
+      return {
+        from_id: a.id,
+        from_name: a.invited_name + (a.partner_name ? ` & ${a.partner_name}` : ''),
+        from_address: a.address,
+        to_id: b.id,
+        to_name: b.invited_name + (b.partner_name ? ` & ${b.partner_name}` : ''),
+        to_address: b.address,
+        distance_km: dist.distance_km,
+        duration_min: dist.duration_min,
+        source: dist.source,
+      };
+    });
 
     // Sort by distance descending
     results.sort((a, b) => b.distance_km - a.distance_km);
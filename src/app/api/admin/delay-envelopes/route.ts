@@ -7,6 +7,8 @@ import { requireEventAccess } from '@/lib/auth';
  * 
  * Admin can push back envelope times for remaining courses.
  * Already activated courses are frozen.
+ * The live dashboard uses /api/organizer/events/[eventId]/delay, which can
+ * also delay a single course or host table and previews the new times.
  */
 
 export async function POST(request: Request) {
@@ -1,28 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { requireEventAccess } from '@/lib/auth';
-import { calculateEnvelopeTimes, parseCourseSchedules, type CourseTimingOffsets } from '@/lib/envelope/timing';
-import { parsePoint } from '@/lib/geo';
-
-type CoordPair = [number, number];
-
-async function getCyclingDistanceKm(fromCoords: CoordPair, toCoords: CoordPair): Promise<number | null> {
-  const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
-  if (!token) return null;
-  try {
-    const url = `https://api.mapbox.com/directions/v5/mapbox/cycling/${fromCoords[0]},${fromCoords[1]};${toCoords[0]},${toCoords[1]}?overview=false&access_token=${token}`;
-    const res = await fetch(url);
-    const data = await res.json();
-    return data.routes?.[0]?.distance ? Math.round(data.routes[0].distance / 10) / 100 : null;
-  } catch {
-    return null;
-  }
-}
-
-function estimateCyclingMinutes(distanceKm: number | null | undefined): number | undefined {
-  if (distanceKm == null) return undefined;
-  return Math.round(distanceKm * 4);
-}
+import { calculateEnvelopeTimes, estimateCyclingMinutes, parseCourseSchedules, type CourseTimingOffsets } from '@/lib/envelope/timing';
+import { routeEnvelopeLegs, legKey } from '@/lib/envelope/legs';
+import { parsePoint, type Coordinates } from '@/lib/geo';
 
 const DEFAULT_TIMING = {
   teasing_hours: 6,
@@ -91,32 +72,25 @@ export async function POST(request: NextRequest) {
       .eq('event_id', event_id)
       .eq('cancelled', false);
 
-    const coupleCoords = new Map<string, CoordPair>();
+    const coupleCoords = new Map<string, Coordinates>();
     for (const couple of couples ?? []) {
       const parsed = parsePoint(couple.coordinates);
-      if (parsed) coupleCoords.set(couple.id, [parsed.lng, parsed.lat]);
+      if (parsed) coupleCoords.set(couple.id, parsed);
     }
 
+    // Cycling legs from the previous course location (cached routing service)
+    const legs = await routeEnvelopeLegs(envelopes, coupleCoords, { supabase });
+
     // Recalculate and update each envelope (batch updates)
     let updated = 0;
     const batchSize = 10;
     for (let i = 0; i < envelopes.length; i += batchSize) {
       const batch = envelopes.slice(i, i + batchSize);
-      const distances = await Promise.all(
-        batch.map(async env => {
-          if (!env.host_couple_id) return { env, distanceKm: null };
-          if (env.couple_id === env.host_couple_id) return { env, distanceKm: 0 };
-          const from = coupleCoords.get(env.couple_id);
-          const to = coupleCoords.get(env.host_couple_id);
-          if (!from || !to) return { env, distanceKm: null };
-          const distanceKm = await getCyclingDistanceKm(from, to);
-          return { env, distanceKm };
-        })
-      );
 
       await Promise.all(
-        distances.map(({ env, distanceKm }) => {
-          const cyclingMinutes = estimateCyclingMinutes(distanceKm ?? env.cycling_distance_km ?? null);
+        batch.map(env => {
+          const leg = legs.get(legKey(env.couple_id, env.course));
+          const cyclingMinutes = leg?.duration_min ?? estimateCyclingMinutes(env.cycling_distance_km);
           const times = calculateEnvelopeTimes(
             courseStartTimes[env.course as keyof typeof courseStartTimes],
             timingConfig,
@@ -133,8 +107,9 @@ export async function POST(request: NextRequest) {
             opened_at: times.opened_at.toISOString(),
           };
 
-          if (distanceKm !== null) {
-            updatePayload.cycling_distance_km = distanceKm;
+          if (leg) {
+            updatePayload.cycling_distance_km = leg.distance_km;
+            updatePayload.cycling_minutes = leg.duration_min;
           }
 
           return supabase
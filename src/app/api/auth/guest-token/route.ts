@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { signToken, verifyCoupleToken } from '@/lib/tokens';
+import { partnerEmailOf } from '@/lib/recipients';
+
+// POST /api/auth/guest-token { token }
+// Exchange a couple token (the ?token= in notification and guest links) for a
+// guest session, so the link opens the page without logging in first.
+// The guest routes find the couple by email, so the session holds the email of
+// the person the token was made for - the replacement's once someone took the
+// partner's seat, as with notifications.
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json().catch(() => ({}));
+
+    const payload = typeof token === 'string' ? verifyCoupleToken(token) : null;
+    if (!payload) {
+      return NextResponse.json({ error: 'Ogiltig eller utgången länk' }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+    const { data: couple } = await supabase
+      .from('couples')
+      .select('invited_email, partner_email, replacement_name, replacement_email')
+      .eq('id', payload.coupleId)
+      .single();
+
+    const email = !couple ? null : payload.personType === 'partner' ? partnerEmailOf(couple) : couple.invited_email;
+    if (!email) {
+      return NextResponse.json({ error: 'Ingen e-postadress kopplad till länken' }, { status: 404 });
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set('guest_session', signToken({ email: email.toLowerCase().trim(), type: 'guest' }), {
+      path: '/',
+      maxAge: 7 * 24 * 60 * 60,
+      httpOnly: true,
+      secure: true,
+      sameSite: 'lax',
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Guest token error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -9,13 +9,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getAccessFromParams } from '@/lib/tokens';
-import { AWARDS, type Award } from '@/lib/awards/calculate';
+import { AWARDS, localizeAward, type Award } from '@/lib/awards/calculate';
+import { normaliseLocale, type Locale } from '@/lib/i18n';
 
 const DEFAULT_ENABLED_AWARDS = [
   'longest_distance', 'shortest_distance', 'average_distance',
   'first_signup', 'last_signup',
   'furthest_from_center', 'closest_to_center',
   'most_fun_facts',
+  'master_detective',
   'wildcard', 'social_butterfly', 'mystery_guest',
   'perfect_host', 'party_starter', 'night_owl',
 ];
@@ -68,10 +70,14 @@ export async function GET(request: NextRequest) {
     const enabledAwards: string[] = event.enabled_awards ?? DEFAULT_ENABLED_AWARDS;
     const thankYouMessage: string | null = event.thank_you_message || null;
     
+    // Award texts are shown in the couple's language
+    const locale = normaliseLocale(couple.locale);
+
     // Get person name
     const personName = personType === 'partner' 
       ? couple.partner_name 
       : couple.invited_name;
+    const displayName = personName || (locale === 'en' ? 'Participant' : 'Deltagare');
     
     // Get award assignment
     const { data: assignment } = await supabase
@@ -84,7 +90,7 @@ export async function GET(request: NextRequest) {
     // No award or awards disabled
     if (!assignment || enabledAwards.length === 0) {
       return NextResponse.json({
-        person_name: personName || 'Deltagare',
+        person_name: displayName,
         event_name: event.name,
         event_date: event.event_date,
         award: null,
@@ -98,7 +104,7 @@ export async function GET(request: NextRequest) {
     // Check if this award is enabled
     if (!enabledAwards.includes(assignment.award_id)) {
       return NextResponse.json({
-        person_name: personName || 'Deltagare',
+        person_name: displayName,
         event_name: event.name,
         event_date: event.event_date,
         award: null,
@@ -114,7 +120,7 @@ export async function GET(request: NextRequest) {
     
     if (!award) {
       return NextResponse.json({
-        person_name: personName || 'Deltagare',
+        person_name: displayName,
         event_name: event.name,
         event_date: event.event_date,
         award: null,
@@ -126,13 +132,14 @@ export async function GET(request: NextRequest) {
     }
     
     // Build personalized explanation
-    const explanation = buildExplanation(award, assignment.value, personName || 'Du');
+    const localizedAward = localizeAward(award, locale);
+    const explanation = buildExplanation(localizedAward, assignment.value, personName || (locale === 'en' ? 'You' : 'Du'), locale);
     
     const data: AwardData = {
-      person_name: personName || 'Deltagare',
+      person_name: displayName,
       event_name: event.name,
       event_date: event.event_date,
-      award,
+      award: localizedAward,
       value: assignment.value,
       explanation,
       thank_you_message: thankYouMessage,
@@ -147,7 +154,9 @@ export async function GET(request: NextRequest) {
   }
 }
 
-function buildExplanation(award: Award, value: string | null, name: string): string {
+function buildExplanation(award: Award, value: string | null, name: string, locale: Locale): string {
+  if (locale === 'en') return buildExplanationEn(award, value, name);
+
   const explanations: Record<string, string> = {
     'longest_distance': `${name} cyklade längst av alla på kvällen${value ? ` — hela ${value}` : ''}! 🚴‍♂️`,
     'shortest_distance': `${name} hade kvällens kortaste cykelfärd${value ? ` — bara ${value}` : ''}. Ibland är närmsta vägen bäst! 🎯`,
@@ -157,6 +166,8 @@ function buildExplanation(award: Award, value: string | null, name: string): str
     'oldest': `${name} är kvällens äldsta deltagare${value ? ` (${value})` : ''}. Visdom och erfarenhet! 🦉`,
     'youngest': `${name} är kvällens yngsta deltagare${value ? ` (${value})` : ''}. Framtiden är ljus! ✨`,
     'most_fun_facts': `${name} delade flest roliga fakta${value ? ` (${value})` : ''}. Underhållande! 🎭`,
+    'master_detective': `${name} knäckte ledtrådarna snabbast i Gissa värden${value ? ` — ${value}` : ''}! 🔍`,
+    'clueless': `${name} gissade fel på varenda värd${value ? ` (${value})` : ''}. Överraskningen var desto större! 🙈`,
     'wildcard': `${name} får kvällens wildcard-utmärkelse. Bara för att du är du! 🃏`,
     'social_butterfly': `${name} pratade med flest personer ikväll. Social fjäril! 🦋`,
     'mystery_guest': `${name} förblev lite mystisk hela kvällen. Intrigant! 🎭`,
@@ -167,3 +178,26 @@ function buildExplanation(award: Award, value: string | null, name: string): str
   
   return explanations[award.id] || `${name} får utmärkelsen "${award.title}"! ${award.emoji}`;
 }
+
+function buildExplanationEn(award: Award, value: string | null, name: string): string {
+  const explanations: Record<string, string> = {
+    'longest_distance': `${name} cycled the furthest of everyone tonight${value ? ` — a full ${value}` : ''}! 🚴‍♂️`,
+    'shortest_distance': `${name} had the shortest ride of the evening${value ? ` — just ${value}` : ''}. Sometimes the closest way is best! 🎯`,
+    'average_distance': `${name} cycled exactly the right distance${value ? ` (${value})` : ''} — perfectly average! ⚖️`,
+    'first_signup': `${name} was the first to sign up. Enthusiasm pays off! 🥇`,
+    'last_signup': `${name} was the last to sign up. Better late than never! ⏰`,
+    'oldest': `${name} is tonight's most experienced participant${value ? ` (${value})` : ''}. Wisdom and experience! 🦉`,
+    'youngest': `${name} is tonight's youngest participant${value ? ` (${value})` : ''}. The future is bright! ✨`,
+    'most_fun_facts': `${name} shared the most fun facts${value ? ` (${value})` : ''}. Entertaining! 🎭`,
+    'master_detective': `${name} cracked the clues fastest in Guess the host${value ? ` — ${value}` : ''}! 🔍`,
+    'clueless': `${name} guessed wrong on every single host${value ? ` (${value})` : ''}. All the bigger the surprise! 🙈`,
+    'wildcard': `${name} gets tonight's wildcard award. Just for being you! 🃏`,
+    'social_butterfly': `${name} talked to the most people tonight. Social butterfly! 🦋`,
+    'mystery_guest': `${name} stayed a little mysterious all evening. Intriguing! 🎭`,
+    'perfect_host': `${name} was a fantastic host! Thanks for the food! 🏠`,
+    'party_starter': `${name} got the party going. Party starter! 🎉`,
+    'night_owl': `${name} stayed the longest. Night owl! 🦉`,
+  };
+
+  return explanations[award.id] || `${name} receives the award "${award.title}"! ${award.emoji}`;
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { drainNotificationQueue } from '@/lib/notifications';
+import { enqueueRevealNotifications } from '@/lib/envelope/notify';
+
+// GET /api/cron/notifications
+// Called by Vercel Cron every minute
+// Queues pushes for envelope reveals that just happened, then sends
+// queued participant notifications that are due (new ones and retries)
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret (Vercel sends this header)
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    // In dev, allow without secret
+    if (process.env.NODE_ENV === 'production') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  const supabase = createAdminClient();
+
+  try {
+    const reveals = await enqueueRevealNotifications(supabase);
+    const results = await drainNotificationQueue(supabase, { limit: 100 });
+
+    return NextResponse.json({
+      reveals,
+      processed: results.length,
+      sent: results.filter(r => r.status === 'sent').length,
+      requeued: results.filter(r => r.status === 'queued').length,
+      bounced: results.filter(r => r.status === 'bounced').length,
+      failed: results.filter(r => r.status === 'failed').length,
+    });
+  } catch (error) {
+    console.error('Notification queue error:', error);
+    return NextResponse.json({ error: 'Database error', details: String(error) }, { status: 500 });
+  }
+}
@@ -1,11 +1,11 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createAdminClient } from '@/lib/supabase/server';
-import { runRematch, setEnvelopeTimes } from '@/lib/matching';
+import { runRematch, setEnvelopeTimes, seedFromString } from '@/lib/matching';
 import { cascadeChanges } from '@/lib/matching/cascade';
 import { getOrganizer, checkEventAccess } from '@/lib/auth';
 import { verifyToken } from '@/lib/tokens';
-import type { Assignment, Couple, Event, Course, MealCourse } from '@/types/database';
+import type { Assignment, Couple, Event, Course, MealCourse, MatchingPreference } from '@/types/database';
 
 /**
  * Dropout API
@@ -212,6 +212,13 @@ export async function POST(request: Request) {
             bp.couple_b_id,
           ]);
           
+          // Fetch couple preferences
+          const { data: preferenceRows } = await supabase
+            .from('couple_preferences')
+            .select('couple_id, target_couple_id, preference')
+            .eq('event_id', event.id)
+            .neq('preference', 'neutral');
+          
           // Determine frozen courses (envelopes already activated)
           const { data: activatedEnvelopes } = await supabase
             .from('envelopes')
@@ -245,8 +252,10 @@ export async function POST(request: Request) {
               couples: activeCouples as Couple[],
               assignments: allAssignments as Assignment[],
               blocked_pairs: blocked,
+              preferences: (preferenceRows || []) as MatchingPreference[],
               frozen_courses: frozenCourses,
               match_plan_id: newPlan.id,
+              optimize: { seed: seedFromString(newPlan.id), timeBudgetMs: 2000 },
             });
 
             const pairingsForDb = rematchResult.course_pairings.map(({ forced, ...rest }) => rest);
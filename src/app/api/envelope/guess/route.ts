@@ -0,0 +1,126 @@
+/**
+ * Living Envelope Guess API
+ *
+ * Guess-the-host: a guest commits (or changes) their guess for who hosts
+ * a course, any time before the envelope opens. The envelope's state at
+ * the time of the guess sets the score (see lib/envelope/guesses).
+ *
+ * POST /api/envelope/guess?eventId=xxx&token=yyy&course=starter
+ * Body: { guessed_couple_id }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { resolveEnvelopeAccess } from '@/lib/envelope/status';
+import { calculateEnvelopeState } from '@/lib/envelope/timing';
+import { GUESS_STATES } from '@/lib/envelope/guesses';
+import type { MealCourse } from '@/types/database';
+
+const MEAL_COURSES: MealCourse[] = ['starter', 'main', 'dessert'];
+
+export async function POST(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const eventId = searchParams.get('eventId');
+  const course = searchParams.get('course') as MealCourse | null;
+
+  const access = await resolveEnvelopeAccess(searchParams);
+
+  if (!eventId || !access) {
+    return NextResponse.json(
+      { error: 'Kunde inte identifiera deltagare. Välj ditt par först.' },
+      { status: 400 }
+    );
+  }
+
+  if (!course || !MEAL_COURSES.includes(course)) {
+    return NextResponse.json({ error: 'Ogiltig rätt' }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const guessedCoupleId = typeof body.guessed_couple_id === 'string' ? body.guessed_couple_id : null;
+  if (!guessedCoupleId || guessedCoupleId === access.coupleId) {
+    return NextResponse.json({ error: 'Välj vilket par ni tror är värd' }, { status: 400 });
+  }
+
+  // Guesses are written on the guest's behalf (host_guesses is service role only)
+  const supabase = createAdminClient();
+
+  try {
+    const { data: event } = await supabase
+      .from('events')
+      .select('active_match_plan_id')
+      .eq('id', eventId)
+      .single();
+
+    if (!event?.active_match_plan_id) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    const [{ data: envelope }, { data: guessed }] = await Promise.all([
+      supabase
+        .from('envelopes')
+        .select('id, host_couple_id, teasing_at, clue_1_at, clue_2_at, street_at, number_at, opened_at')
+        .eq('couple_id', access.coupleId)
+        .eq('match_plan_id', event.active_match_plan_id)
+        .eq('course', course)
+        .neq('cancelled', true)
+        .maybeSingle(),
+      supabase
+        .from('couples')
+        .select('id, invited_name, partner_name')
+        .eq('id', guessedCoupleId)
+        .eq('event_id', eventId)
+        .eq('confirmed', true)
+        .maybeSingle(),
+    ]);
+
+    if (!envelope?.host_couple_id) {
+      return NextResponse.json({ error: 'Envelope not found' }, { status: 404 });
+    }
+    if (!guessed) {
+      return NextResponse.json({ error: 'Paret finns inte med i festen' }, { status: 400 });
+    }
+
+    const state = calculateEnvelopeState(envelope, new Date());
+    if (!GUESS_STATES.includes(state) || envelope.host_couple_id === access.coupleId) {
+      return NextResponse.json({ error: 'Gissningen är stängd för den här rätten' }, { status: 400 });
+    }
+
+    const { data: saved, error: upsertError } = await supabase
+      .from('host_guesses')
+      .upsert({
+        envelope_id: envelope.id,
+        couple_id: access.coupleId,
+        course,
+        guessed_host_couple_id: guessed.id,
+        guessed_state: state,
+        guessed_at: new Date().toISOString(),
+      }, { onConflict: 'envelope_id' })
+      .select('guessed_state, guessed_at')
+      .single();
+
+    if (upsertError) {
+      return NextResponse.json(
+        { error: 'Kunde inte spara gissningen', details: upsertError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      guess: {
+        couple_id: guessed.id,
+        name: guessed.partner_name ? `${guessed.invited_name} & ${guessed.partner_name}` : guessed.invited_name,
+        state: saved.guessed_state,
+        guessed_at: saved.guessed_at,
+        correct: null,
+        points: null,
+      },
+    });
+  } catch (error) {
+    console.error('Envelope guess error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
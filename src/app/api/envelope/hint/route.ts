@@ -0,0 +1,158 @@
+/**
+ * Living Envelope Hint API
+ *
+ * A guest stuck on CLUE_1/CLUE_2 asks for one more hint about their host
+ * (see lib/envelope/hints). Each hint is recorded, so the limit holds and
+ * the wrap can tell who guessed without help.
+ *
+ * POST /api/envelope/hint?eventId=xxx&token=yyy&course=starter
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { resolveEnvelopeAccess } from '@/lib/envelope/status';
+import { calculateEnvelopeState } from '@/lib/envelope/timing';
+import { combineFunFacts } from '@/lib/envelope/clues';
+import { HINT_STATES, getHintLimit, pickNextHint } from '@/lib/envelope/hints';
+import { normaliseLocale } from '@/lib/i18n';
+import type { MealCourse } from '@/types/database';
+
+const MEAL_COURSES: MealCourse[] = ['starter', 'main', 'dessert'];
+
+export async function POST(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const eventId = searchParams.get('eventId');
+  const course = searchParams.get('course') as MealCourse | null;
+
+  const access = await resolveEnvelopeAccess(searchParams);
+
+  if (!eventId || !access) {
+    return NextResponse.json(
+      { error: 'Kunde inte identifiera deltagare. Välj ditt par först.' },
+      { status: 400 }
+    );
+  }
+
+  if (!course || !MEAL_COURSES.includes(course)) {
+    return NextResponse.json({ error: 'Ogiltig rätt' }, { status: 400 });
+  }
+
+  // Hints are written on the guest's behalf (envelope_hints is service role only)
+  const supabase = createAdminClient();
+
+  try {
+    const { data: event } = await supabase
+      .from('events')
+      .select('active_match_plan_id, hint_limits')
+      .eq('id', eventId)
+      .single();
+
+    if (!event?.active_match_plan_id) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    const { data: envelope } = await supabase
+      .from('envelopes')
+      .select('id, host_couple_id, cycling_minutes, teasing_at, clue_1_at, clue_2_at, street_at, number_at, opened_at')
+      .eq('couple_id', access.coupleId)
+      .eq('match_plan_id', event.active_match_plan_id)
+      .eq('course', course)
+      .neq('cancelled', true)
+      .maybeSingle();
+
+    if (!envelope?.host_couple_id) {
+      return NextResponse.json({ error: 'Envelope not found' }, { status: 404 });
+    }
+
+    const state = calculateEnvelopeState(envelope, new Date());
+    if (!HINT_STATES.includes(state) || envelope.host_couple_id === access.coupleId) {
+      return NextResponse.json({ error: 'Extra ledtrådar finns bara medan ni gissar' }, { status: 400 });
+    }
+
+    const limit = getHintLimit(event.hint_limits, course);
+    const { data: usedHints } = await supabase
+      .from('envelope_hints')
+      .select('text, source, fact_index')
+      .eq('envelope_id', envelope.id);
+
+    const used = usedHints ?? [];
+    if (used.length >= limit) {
+      return NextResponse.json(
+        { error: 'Inga fler extra ledtrådar för den här rätten', details: { limit } },
+        { status: 403 }
+      );
+    }
+
+    const [{ data: host }, { data: courseClues }, { data: guest }] = await Promise.all([
+      supabase
+        .from('couples')
+        .select('invited_name, partner_name, invited_birth_year, partner_birth_year, invited_fun_facts, partner_fun_facts')
+        .eq('id', envelope.host_couple_id)
+        .single(),
+      supabase
+        .from('course_clues')
+        .select('clue_indices')
+        .eq('couple_id', envelope.host_couple_id)
+        .eq('course_type', course)
+        .maybeSingle(),
+      supabase
+        .from('couples')
+        .select('locale')
+        .eq('id', access.coupleId)
+        .single(),
+    ]);
+    const locale = normaliseLocale(guest?.locale);
+
+    if (!host) {
+      return NextResponse.json({ error: 'Envelope not found' }, { status: 404 });
+    }
+
+    const hint = pickNextHint(
+      combineFunFacts(host, locale),
+      courseClues?.clue_indices ?? [],
+      used,
+      {
+        hostNames: [host.invited_name, host.partner_name].filter((n): n is string => !!n),
+        cyclingMinutes: envelope.cycling_minutes ?? undefined,
+        birthYears: [host.invited_birth_year, host.partner_birth_year],
+      },
+      locale
+    );
+
+    if (!hint) {
+      return NextResponse.json({ error: 'Vi har inga fler ledtrådar - nu får ni gissa!' }, { status: 404 });
+    }
+
+    const { data: saved, error: insertError } = await supabase
+      .from('envelope_hints')
+      .insert({
+        envelope_id: envelope.id,
+        couple_id: access.coupleId,
+        course,
+        hint_number: used.length + 1,
+        ...hint,
+      })
+      .select('text, requested_at')
+      .single();
+
+    if (insertError) {
+      // Unique (envelope_id, hint_number): a second tap raced this one
+      const status = insertError.code === '23505' ? 409 : 500;
+      return NextResponse.json(
+        { error: 'Kunde inte hämta ledtråd', details: insertError.message },
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      hint: { text: saved.text, revealed_at: saved.requested_at },
+      hints_remaining: Math.max(0, limit - used.length - 1),
+    });
+  } catch (error) {
+    console.error('Envelope hint error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Living Envelope Reveal Key API
+ *
+ * Releases the key for one sealed reveal (see lib/envelope/sealed) once its
+ * time has passed. Deliberately tiny so it gets through on bad coverage.
+ *
+ * GET /api/envelope/key?eventId=xxx&token=yyy&course=starter&state=STREET
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { resolveEnvelopeAccess } from '@/lib/envelope/status';
+import { SEALED_REVEAL_FIELDS, isSealedRevealState } from '@/lib/envelope/sealed';
+import { deriveRevealKey } from '@/lib/tokens';
+import type { Course } from '@/types/database';
+
+const MEAL_COURSES: Course[] = ['starter', 'main', 'dessert'];
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const eventId = searchParams.get('eventId');
+  const course = searchParams.get('course') as Course | null;
+  const state = searchParams.get('state');
+
+  const access = await resolveEnvelopeAccess(searchParams);
+
+  if (!eventId || !access) {
+    return NextResponse.json(
+      { error: 'Kunde inte identifiera deltagare. Välj ditt par först.' },
+      { status: 400 }
+    );
+  }
+
+  if (!course || !MEAL_COURSES.includes(course) || !isSealedRevealState(state)) {
+    return NextResponse.json({ error: 'Ogiltig rätt eller steg' }, { status: 400 });
+  }
+
+  const supabase = access.isOrganizerPreview ? createAdminClient() : await createClient();
+
+  try {
+    const { data: event } = await supabase
+      .from('events')
+      .select('active_match_plan_id')
+      .eq('id', eventId)
+      .single();
+
+    if (!event?.active_match_plan_id) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    const field = SEALED_REVEAL_FIELDS[state];
+    const { data: envelope } = await supabase
+      .from('envelopes')
+      .select(`id, host_couple_id, ${field}`)
+      .eq('couple_id', access.coupleId)
+      .eq('match_plan_id', event.active_match_plan_id)
+      .eq('course', course)
+      .neq('cancelled', true)
+      .maybeSingle();
+
+    const at = (envelope as Record<string, string | null> | null)?.[field];
+    if (!envelope?.host_couple_id || !at) {
+      return NextResponse.json({ error: 'Envelope not found' }, { status: 404 });
+    }
+
+    if (new Date(at) > new Date()) {
+      return NextResponse.json(
+        { error: 'Inte än!', details: { available_at: at } },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { key: deriveRevealKey(envelope.id, envelope.host_couple_id, state, at) },
+      // The key never changes for this host and time - safe to keep offline
+      { headers: { 'Cache-Control': 'private, max-age=86400' } }
+    );
+  } catch (error) {
+    console.error('Envelope key error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
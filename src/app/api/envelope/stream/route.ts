@@ -0,0 +1,179 @@
+/**
+ * Living Envelope Stream API
+ * 
+ * Server-sent events: pushes a `state` event each time one of the
+ * participant's envelopes advances (LOCKED → TEASING → ... → OPEN), carrying
+ * the course exactly as /api/envelope/status would return it. A `resync`
+ * event means envelopes changed (reassign, new times) and the client should
+ * do a full fetch.
+ * 
+ * GET /api/envelope/stream?eventId=xxx&token=yyy
+ * Same access rules as /api/envelope/status.
+ * 
+ * The stream closes before the function time limit; EventSource reconnects
+ * with Last-Event-ID and missed transitions are replayed from the timestamps.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { resolveEnvelopeAccess, buildEnvelopeStatus } from '@/lib/envelope/status';
+import {
+  cursorAt,
+  parseLastEventId,
+  listStateTransitions,
+  nextTransitionAt,
+  envelopeSignature,
+  encodeStreamEvent,
+  type StreamEnvelope,
+} from '@/lib/envelope/stream';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const STREAM_LIFETIME_MS = 280_000; // close before maxDuration
+const CHECK_INTERVAL_MS = 60_000; // re-read envelopes to notice reassigns/delays
+const HEARTBEAT_MS = 25_000; // keep proxies from dropping an idle connection
+const RETRY_MS = 3_000;
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const eventId = searchParams.get('eventId');
+  
+  const access = await resolveEnvelopeAccess(searchParams);
+
+  if (!eventId || !access) {
+    return NextResponse.json(
+      { error: 'Kunde inte identifiera deltagare. Välj ditt par först.' },
+      { status: 400 }
+    );
+  }
+  
+  const { coupleId, isOrganizerPreview } = access;
+  
+  // Use admin client for organizer preview (bypasses RLS), regular client for guests
+  const supabase = isOrganizerPreview ? createAdminClient() : await createClient();
+  
+  const loadEnvelopes = async (): Promise<StreamEnvelope[] | null> => {
+    const { data: event } = await supabase
+      .from('events')
+      .select('active_match_plan_id')
+      .eq('id', eventId)
+      .single();
+    
+    if (!event) return null;
+    
+    const { data: envelopes } = await supabase
+      .from('envelopes')
+      .select('course, host_couple_id, teasing_at, clue_1_at, clue_2_at, street_at, number_at, opened_at')
+      .eq('couple_id', coupleId)
+      .eq('match_plan_id', event.active_match_plan_id)
+      .neq('cancelled', true);
+    
+    return (envelopes ?? []) as StreamEnvelope[];
+  };
+  
+  let envelopes = await loadEnvelopes();
+  if (!envelopes) {
+    return NextResponse.json({ error: 'Couple or event not found' }, { status: 404 });
+  }
+  
+  // Resume after the last event the client saw; a fresh connection starts now
+  // (the client has just done a full fetch)
+  let cursor = parseLastEventId(request.headers.get('last-event-id')) ?? cursorAt(new Date());
+  
+  const encoder = new TextEncoder();
+  let closed = false;
+  let wake: (() => void) | null = null;
+  
+  request.signal.addEventListener('abort', () => {
+    closed = true;
+    wake?.();
+  });
+  
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(() => { wake = null; resolve(); }, ms);
+    wake = () => { clearTimeout(timer); wake = null; resolve(); };
+  });
+  
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      
+      send(`retry: ${RETRY_MS}\n\n`);
+      
+      const startedAt = Date.now();
+      let lastCheck = startedAt;
+      let lastBeat = startedAt;
+      let signature = envelopeSignature(envelopes!);
+      
+      try {
+        while (!closed && Date.now() - startedAt < STREAM_LIFETIME_MS) {
+          const now = new Date();
+          
+          const transitions = listStateTransitions(envelopes!, cursor, now);
+          if (transitions.length > 0) {
+            const status = await buildEnvelopeStatus(supabase, eventId, coupleId, now);
+            for (const transition of transitions) {
+              send(encodeStreamEvent({
+                type: 'state',
+                ...transition,
+                server_time: now.toISOString(),
+                status: status.ok ? status.response.courses.find(c => c.type === transition.course) ?? null : null,
+              }));
+            }
+            cursor = cursorAt(now);
+          }
+          
+          if (Date.now() - lastCheck >= CHECK_INTERVAL_MS) {
+            lastCheck = Date.now();
+            const latest = await loadEnvelopes();
+            if (latest && envelopeSignature(latest) !== signature) {
+              envelopes = latest;
+              signature = envelopeSignature(latest);
+              // The full fetch covers everything up to now
+              cursor = cursorAt(new Date());
+              send(encodeStreamEvent({ type: 'resync', server_time: new Date().toISOString() }));
+            }
+          }
+          
+          if (Date.now() - lastBeat >= HEARTBEAT_MS) {
+            lastBeat = Date.now();
+            send(': ping\n\n');
+          }
+          
+          // Sleep until the next reveal, check or heartbeat - whichever is first
+          const next = nextTransitionAt(envelopes!, new Date());
+          const elapsed = Date.now();
+          const wait = Math.min(
+            next ? next.getTime() - elapsed : Infinity,
+            CHECK_INTERVAL_MS - (elapsed - lastCheck),
+            HEARTBEAT_MS - (elapsed - lastBeat),
+            STREAM_LIFETIME_MS - (elapsed - startedAt)
+          );
+          await sleep(Math.max(250, wait));
+        }
+      } catch (error) {
+        console.error('Envelope stream error:', error);
+      }
+      
+      closed = true;
+      controller.close();
+    },
+    cancel() {
+      closed = true;
+      wake?.();
+    },
+  });
+  
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/server';
+import { verifyToken } from '@/lib/tokens';
+import { getArrivalPhase } from '@/lib/envelope/arrivals';
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface HostContext {
+  hostCoupleId: string;
+  course: string;
+  matchPlanId: string;
+}
+
+// The logged-in couple's host table, or an error response
+async function resolveHost(supabase: AdminClient, slug: string | null): Promise<HostContext | NextResponse> {
+  if (!slug) {
+    return NextResponse.json({ error: 'slug required' }, { status: 400 });
+  }
+
+  const cookieStore = await cookies();
+  const session = cookieStore.get('guest_session')?.value;
+  const payload = session ? verifyToken(session) : null;
+  if (!payload || payload.type !== 'guest') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const guestEmail = payload.email.toLowerCase().trim();
+
+  const { data: event } = await supabase
+    .from('events')
+    .select('id, active_match_plan_id')
+    .eq('slug', slug)
+    .single();
+
+  if (!event?.active_match_plan_id) {
+    return NextResponse.json({ error: 'Event hittades inte' }, { status: 404 });
+  }
+
+  const { data: couple } = await supabase
+    .from('couples')
+    .select('id')
+    .eq('event_id', event.id)
+    .eq('cancelled', false)
+    .or(`invited_email.eq.${guestEmail},partner_email.eq.${guestEmail},replacement_email.eq.${guestEmail}`)
+    .single();
+
+  if (!couple) {
+    return NextResponse.json({ error: 'Inget par kopplat till din email' }, { status: 404 });
+  }
+
+  const { data: assignment } = await supabase
+    .from('assignments')
+    .select('course')
+    .eq('couple_id', couple.id)
+    .single();
+
+  if (!assignment) {
+    return NextResponse.json({ error: 'Ingen värduppgift' }, { status: 404 });
+  }
+
+  return { hostCoupleId: couple.id, course: assignment.course, matchPlanId: event.active_match_plan_id };
+}
+
+// GET /api/guest/host-arrivals?slug=xxx
+// Live status of the guest couples on their way to the logged-in host's table.
+// Guests stay anonymous (numbered) until the host checks them in.
+export async function GET(request: NextRequest) {
+  const supabase = createAdminClient();
+  const host = await resolveHost(supabase, request.nextUrl.searchParams.get('slug'));
+  if (host instanceof NextResponse) return host;
+
+  const { data: envelopes } = await supabase
+    .from('envelopes')
+    .select('couple_id, teasing_at, clue_1_at, clue_2_at, street_at, number_at, opened_at, arrived_at')
+    .eq('match_plan_id', host.matchPlanId)
+    .eq('host_couple_id', host.hostCoupleId)
+    .eq('course', host.course)
+    .neq('couple_id', host.hostCoupleId)
+    .neq('cancelled', true)
+    .order('couple_id');
+
+  const { data: couples } = envelopes?.length
+    ? await supabase
+        .from('couples')
+        .select('id, invited_name, partner_name, person_count')
+        .in('id', envelopes.map(e => e.couple_id))
+    : { data: [] };
+  const coupleById = new Map((couples ?? []).map(c => [c.id, c]));
+
+  const now = new Date();
+  const guests = (envelopes ?? []).map(e => {
+    const couple = coupleById.get(e.couple_id);
+    return {
+      couple_id: e.couple_id,
+      person_count: couple?.person_count ?? (couple?.partner_name ? 2 : 1),
+      phase: getArrivalPhase(e, now),
+      arrived_at: e.arrived_at,
+      name: e.arrived_at && couple
+        ? (couple.partner_name ? `${couple.invited_name} & ${couple.partner_name}` : couple.invited_name)
+        : null,
+      opens_at: e.opened_at,
+    };
+  });
+
+  return NextResponse.json({ course: host.course, server_time: now.toISOString(), guests });
+}
+
+// POST /api/guest/host-arrivals?slug=xxx
+// Body: { guest_couple_id, arrived } - check a guest couple in (or undo it)
+export async function POST(request: NextRequest) {
+  const supabase = createAdminClient();
+  const host = await resolveHost(supabase, request.nextUrl.searchParams.get('slug'));
+  if (host instanceof NextResponse) return host;
+
+  const { guest_couple_id, arrived } = await request.json().catch(() => ({}));
+  if (!guest_couple_id || typeof arrived !== 'boolean') {
+    return NextResponse.json({ error: 'guest_couple_id and arrived required' }, { status: 400 });
+  }
+
+  const { data: updated, error } = await supabase
+    .from('envelopes')
+    .update({ arrived_at: arrived ? new Date().toISOString() : null })
+    .eq('match_plan_id', host.matchPlanId)
+    .eq('host_couple_id', host.hostCoupleId)
+    .eq('course', host.course)
+    .eq('couple_id', guest_couple_id)
+    .neq('cancelled', true)
+    .select('couple_id, arrived_at');
+
+  if (error) {
+    return NextResponse.json({ error: 'Kunde inte checka in', details: error.message }, { status: 500 });
+  }
+  if (!updated?.length) {
+    return NextResponse.json({ error: 'Gästen ska inte till ert bord' }, { status: 404 });
+  }
+
+  return NextResponse.json({ guest: updated[0] });
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/server';
+import { verifyToken } from '@/lib/tokens';
+import type { PersonType } from '@/lib/recipients';
+
+// POST /api/guest/push-subscription?slug=xxx  { subscription }
+// Stores the browser's push subscription for the logged-in guest, so the
+// envelope reveals can be pushed (see lib/envelope/notify).
+// DELETE /api/guest/push-subscription?slug=xxx  { endpoint }
+// Turns push off for that browser.
+
+type GuestLookup =
+  | { coupleId: string; personType: PersonType; error?: never }
+  | { error: NextResponse };
+
+async function findGuest(request: NextRequest): Promise<GuestLookup> {
+  const slug = request.nextUrl.searchParams.get('slug');
+  if (!slug) {
+    return { error: NextResponse.json({ error: 'slug required' }, { status: 400 }) };
+  }
+
+  const cookieStore = await cookies();
+  const session = cookieStore.get('guest_session')?.value;
+  const payload = session ? verifyToken(session) : null;
+  if (!payload || payload.type !== 'guest') {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const guestEmail = payload.email.toLowerCase().trim();
+  const supabase = createAdminClient();
+
+  const { data: event } = await supabase
+    .from('events')
+    .select('id')
+    .eq('slug', slug)
+    .single();
+
+  if (!event) {
+    return { error: NextResponse.json({ error: 'Event hittades inte' }, { status: 404 }) };
+  }
+
+  const { data: couple } = await supabase
+    .from('couples')
+    .select('id, invited_email')
+    .eq('event_id', event.id)
+    .eq('cancelled', false)
+    .or(`invited_email.eq.${guestEmail},partner_email.eq.${guestEmail},replacement_email.eq.${guestEmail}`)
+    .limit(1)
+    .single();
+
+  if (!couple) {
+    return { error: NextResponse.json({ error: 'Inget par kopplat till din email' }, { status: 404 }) };
+  }
+
+  const personType: PersonType = couple.invited_email?.toLowerCase().trim() === guestEmail ? 'invited' : 'partner';
+  return { coupleId: couple.id, personType };
+}
+
+export async function POST(request: NextRequest) {
+  const guest = await findGuest(request);
+  if (guest.error) return guest.error;
+
+  const body = await request.json().catch(() => null);
+  const subscription = body?.subscription;
+  const endpoint = subscription?.endpoint;
+  const p256dh = subscription?.keys?.p256dh;
+  const auth = subscription?.keys?.auth;
+
+  if (typeof endpoint !== 'string' || !endpoint.startsWith('https://') || typeof p256dh !== 'string' || typeof auth !== 'string') {
+    return NextResponse.json({ error: 'Ogiltig push-prenumeration' }, { status: 400 });
+  }
+
+  const supabase = createAdminClient();
+
+  // The same browser subscribing again (or for someone else) moves the row
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .upsert({
+      couple_id: guest.coupleId,
+      person_type: guest.personType,
+      endpoint,
+      p256dh,
+      auth,
+      user_agent: request.headers.get('user-agent'),
+    }, { onConflict: 'endpoint' });
+
+  if (error) {
+    return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+export async function DELETE(request: NextRequest) {
+  const guest = await findGuest(request);
+  if (guest.error) return guest.error;
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.endpoint !== 'string') {
+    return NextResponse.json({ error: 'endpoint required' }, { status: 400 });
+  }
+
+  const supabase = createAdminClient();
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('couple_id', guest.coupleId)
+    .eq('endpoint', body.endpoint);
+
+  if (error) {
+    return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -1,26 +1,22 @@
 import { NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
-import { runFullMatch, setEnvelopeTimes } from '@/lib/matching';
-import { populateLivingEnvelopeData } from '@/lib/envelope';
+import {
+  runFullMatch,
+  optimizeMatching,
+  stepBRandom,
+  planOptimizeOptions,
+  inCoupleOrder,
+  estimateCyclingKm,
+  capacityOf,
+  flexCapacityOf,
+  writePlanEnvelopes,
+} from '@/lib/matching';
 import { requireEventAccess } from '@/lib/auth';
-import type { Couple, Event, Assignment, EventTiming } from '@/types/database';
+import type { Couple, Event, Assignment, MatchingPreference, MealCourse } from '@/types/database';
 import { parsePoint } from '@/lib/geo';
 
 type CoordPair = [number, number];
 
-async function getCyclingDistanceKm(fromCoords: CoordPair, toCoords: CoordPair): Promise<number | null> {
-  const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
-  if (!token) return null;
-  try {
-    const url = `https://api.mapbox.com/directions/v5/mapbox/cycling/${fromCoords[0]},${fromCoords[1]};${toCoords[0]},${toCoords[1]}?overview=false&access_token=${token}`;
-    const res = await fetch(url);
-    const data = await res.json();
-    return data.routes?.[0]?.distance ? Math.round(data.routes[0].distance / 10) / 100 : null;
-  } catch {
-    return null;
-  }
-}
-
 export async function POST(request: Request) {
   try {
     const { event_id } = await request.json();
@@ -87,6 +83,22 @@ export async function POST(request: Request) {
       bp.couple_b_id,
     ]);
     
+    // Fetch couple preferences (avoid = hard block, others = soft score)
+    const { data: preferenceRows, error: prefsError } = await supabase
+      .from('couple_preferences')
+      .select('couple_id, target_couple_id, preference')
+      .eq('event_id', event_id)
+      .neq('preference', 'neutral');
+    
+    if (prefsError && !prefsError.message?.includes('couple_preferences')) {
+      return NextResponse.json(
+        { error: 'Kunde inte hämta preferenser', details: prefsError.message },
+        { status: 500 }
+      );
+    }
+    
+    const preferences = (preferenceRows || []) as MatchingPreference[];
+    
     // Create new match plan
     const { data: existingPlans } = await supabase
       .from('match_plans')
@@ -120,6 +132,9 @@ export async function POST(request: Request) {
       .select('*')
       .eq('event_id', event_id);
     
+    // Seeded from the plan id so a given plan version is reproducible
+    const optimize = planOptimizeOptions(matchPlan.id);
+    
     let matchResult;
     
     if (existingAssignments && existingAssignments.length > 0) {
@@ -127,9 +142,30 @@ export async function POST(request: Request) {
       const { assignCourses } = await import('@/lib/matching');
       const { matchGuestsToHosts } = await import('@/lib/matching');
       
+      // Hosts may have changed their table capacity since Step A ran, so take
+      // it from the couple again (a declared capacity gets no flex seats)
+      const coupleById = new Map((couples as Couple[]).map(c => [c.id, c]));
+      const assignments = (existingAssignments as Assignment[]).map(a => {
+        const couple = coupleById.get(a.couple_id);
+        if (!a.is_host || !couple) return a;
+        return {
+          ...a,
+          max_guests: capacityOf(couple),
+          flex_extra_capacity: Math.min(a.flex_extra_capacity, flexCapacityOf(couple)),
+        };
+      });
+      for (const [i, a] of assignments.entries()) {
+        const stored = existingAssignments[i];
+        if (a.max_guests === stored.max_guests && a.flex_extra_capacity === stored.flex_extra_capacity) continue;
+        await supabase
+          .from('assignments')
+          .update({ max_guests: a.max_guests, flex_extra_capacity: a.flex_extra_capacity })
+          .eq('id', a.id);
+      }
+      
       // Create a "fake" Step A result from existing assignments
       const stepA = {
-        assignments: existingAssignments.map(a => ({
+        assignments: assignments.map(a => ({
           event_id: a.event_id,
           couple_id: a.couple_id,
           course: a.course,
@@ -142,27 +178,36 @@ export async function POST(request: Request) {
         stats: {
           preference_satisfaction: 1,
           capacity_per_course: { starter: 0, main: 0, dessert: 0 },
+          expected_cycling_km: estimateCyclingKm(
+            couples as Couple[],
+            new Map(assignments.filter(a => a.is_host).map(a => [a.couple_id, a.course as MealCourse]))
+          ),
         },
       };
       
-      // Run Step B with existing assignments
-      const stepB = matchGuestsToHosts({
+      // Run Step B with existing assignments, then optimize
+      const stepBInput = inCoupleOrder({
         event_id,
         match_plan_id: matchPlan.id,
-        assignments: existingAssignments as Assignment[],
+        assignments,
         couples: couples as Couple[],
         blocked_pairs: blocked,
+        preferences,
         frozen_courses: [],
       });
+      const optimized = optimizeMatching(stepBInput, matchGuestsToHosts(stepBInput, stepBRandom(optimize)), optimize);
+      const stepB = optimized.output;
       
-      matchResult = { stepA, stepB, warnings: stepB.warnings };
+      matchResult = { stepA, stepB, warnings: stepB.warnings, optimization: optimized.stats };
     } else {
       // First match: Run full matching (Step A + B)
       matchResult = runFullMatch({
         event: event as Event,
         couples: couples as Couple[],
         blocked_pairs: blocked,
+        preferences,
         match_plan_id: matchPlan.id,
+        optimize,
       });
       
       // Save assignments (Step A)
@@ -186,122 +231,16 @@ export async function POST(request: Request) {
       console.error('Pairing error:', pairError);
     }
     
-    // Save envelopes with proper times
-    const envelopesWithTimes = setEnvelopeTimes(
-      matchResult.stepB.envelopes,
-      event as Event
-    );
-    
-    const { error: envError } = await supabase
-      .from('envelopes')
-      .insert(envelopesWithTimes);
-    
-    if (envError) {
-      console.error('Envelope error:', envError);
-    }
-    
-    // === LIVING ENVELOPE: Populate clues, street info, and timing ===
-    
-    // Fetch event timing (or use defaults)
-    const { data: eventTiming } = await supabase
-      .from('event_timing')
-      .select('*')
-      .eq('event_id', event_id)
-      .single();
-    
-    // Populate living envelope data
-    const populateResult = populateLivingEnvelopeData({
+    // Save envelopes (Step C)
+    const envelopeResult = await writePlanEnvelopes({
+      supabase,
       event: event as Event,
       couples: couples as Couple[],
+      matchPlanId: matchPlan.id,
       pairings: pairingsForDb,
       envelopes: matchResult.stepB.envelopes,
-      timing: eventTiming as EventTiming | undefined,
-      // cyclingDistances could be fetched from OpenRouteService here
     });
     
-    // Save course_clues
-    if (populateResult.courseClues.length > 0) {
-      const { error: cluesError } = await supabase
-        .from('course_clues')
-        .upsert(populateResult.courseClues, { 
-          onConflict: 'couple_id,course_type' 
-        });
-      
-      if (cluesError) {
-        console.error('Course clues error:', cluesError);
-      }
-    }
-    
-    // Save street_info
-    if (populateResult.streetInfos.length > 0) {
-      const { error: streetError } = await supabase
-        .from('street_info')
-        .upsert(populateResult.streetInfos, { 
-          onConflict: 'couple_id' 
-        });
-      
-      if (streetError) {
-        console.error('Street info error:', streetError);
-      }
-    }
-    
-    // Update envelopes with living envelope times
-    for (const update of populateResult.envelopeUpdates) {
-      const { error: updateError } = await supabase
-        .from('envelopes')
-        .update({
-          teasing_at: update.teasing_at,
-          clue_1_at: update.clue_1_at,
-          clue_2_at: update.clue_2_at,
-          street_at: update.street_at,
-          number_at: update.number_at,
-          opened_at: update.opened_at,
-          cycling_minutes: update.cycling_minutes,
-          current_state: 'LOCKED',
-        })
-        .eq('match_plan_id', matchPlan.id)
-        .eq('couple_id', update.couple_id)
-        .eq('course', update.course);
-      
-      if (updateError) {
-        console.error('Envelope update error:', updateError);
-      }
-    }
-
-    // Calculate and persist cycling distances per envelope
-    const coupleCoords = new Map<string, CoordPair>();
-    for (const couple of couples as Couple[]) {
-      const parsed = parsePoint(couple.coordinates);
-      if (parsed) coupleCoords.set(couple.id, [parsed.lng, parsed.lat]);
-    }
-
-    const distanceBatch = 10;
-    for (let i = 0; i < envelopesWithTimes.length; i += distanceBatch) {
-      const batch = envelopesWithTimes.slice(i, i + distanceBatch);
-      const distances = await Promise.all(
-        batch.map(async env => {
-          if (!env.host_couple_id) return { env, distanceKm: null };
-          if (env.couple_id === env.host_couple_id) return { env, distanceKm: 0 };
-          const from = coupleCoords.get(env.couple_id);
-          const to = coupleCoords.get(env.host_couple_id);
-          if (!from || !to) return { env, distanceKm: null };
-          const distanceKm = await getCyclingDistanceKm(from, to);
-          return { env, distanceKm };
-        })
-      );
-
-      await Promise.all(
-        distances.map(({ env, distanceKm }) =>
-          supabase
-            .from('envelopes')
-            .update({ cycling_distance_km: distanceKm })
-            .eq('match_plan_id', matchPlan.id)
-            .eq('couple_id', env.couple_id)
-            .eq('course', env.course)
-        )
-      );
-    }
-    
     // Update match plan stats
     await supabase
       .from('match_plans')
@@ -311,6 +250,7 @@ export async function POST(request: Request) {
           preference_satisfaction: matchResult.stepA.stats.preference_satisfaction,
           capacity_utilization: matchResult.stepB.stats.capacity_utilization,
           forced_assignments: matchResult.stepB.stats.forced_assignments,
+          expected_cycling_km: matchResult.stepA.stats.expected_cycling_km,
         },
       })
       .eq('id', matchPlan.id);
@@ -348,6 +288,12 @@ export async function POST(request: Request) {
       const streetAt = minutesToTimestamp(baseMin - 15);     // -15 min: ZONE (~500m radie)
       const numberAt = minutesToTimestamp(baseMin - 5);      // -5 min: CLOSING_IN (~100m radie)
 
+      const coupleCoords = new Map<string, CoordPair>();
+      for (const couple of couples as Couple[]) {
+        const parsed = parsePoint(couple.coordinates);
+        if (parsed) coupleCoords.set(couple.id, [parsed.lng, parsed.lat]);
+      }
+
       // Get dessert host coordinates for cycling distance calculation
       const dessertPairings = matchResult.stepB.course_pairings.filter(p => p.course === 'dessert');
       const dessertHostCoords = new Map<string, CoordPair>();
@@ -444,6 +390,7 @@ export async function POST(request: Request) {
         version: newVersion,
         couples_count: couples.length,
         warnings: matchResult.warnings,
+        optimization: matchResult.optimization,
       },
     });
     
@@ -456,12 +403,13 @@ export async function POST(request: Request) {
         preference_satisfaction: matchResult.stepA.stats.preference_satisfaction,
         capacity_utilization: matchResult.stepB.stats.capacity_utilization,
         forced_assignments: matchResult.stepB.stats.forced_assignments,
+        expected_cycling_km: matchResult.stepA.stats.expected_cycling_km,
         pairings_created: matchResult.stepB.course_pairings.length,
-        envelopes_created: envelopesWithTimes.length,
+        envelopes_created: envelopeResult.envelopesCreated,
         afterparty_envelopes: afterpartyCount,
         // Living Envelope stats
-        clues_allocated: populateResult.courseClues.length,
-        street_infos_created: populateResult.streetInfos.length,
+        clues_allocated: envelopeResult.cluesAllocated,
+        street_infos_created: envelopeResult.streetInfosCreated,
       },
       warnings: matchResult.warnings,
     });
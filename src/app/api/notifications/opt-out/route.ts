@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getAccessFromParams } from '@/lib/tokens';
+import { OPT_OUT_COLUMNS } from '@/lib/recipients';
+
+/**
+ * Notification Opt-out API
+ *
+ * GET  /api/notifications/opt-out?token=xxx - asks "are you sure?"
+ * POST /api/notifications/opt-out?token=xxx - opts out
+ * The unsubscribe link at the bottom of every participant notification.
+ * Mail scanners follow links, so opening the link only shows a button that
+ * posts the opt-out. The signed token says which couple and which person,
+ * so a partner can opt out without affecting the invited person (and vice versa).
+ * The opt-out covers every channel: email, SMS and push.
+ */
+
+const INVALID_LINK = 'Länken är ogiltig eller har gått ut. Kontakta arrangören om du inte vill få fler utskick.';
+
+function page(title: string, content: string, status = 200) {
+  return new NextResponse(
+    `<!doctype html><html lang="sv"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${title}</title></head>` +
+    `<body style="font-family: system-ui, sans-serif; max-width: 480px; margin: 60px auto; padding: 0 20px; text-align: center;">` +
+    `<h1 style="color: #4f46e5;">${title}</h1>${content}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+}
+
+function text(message: string) {
+  return `<p style="color: #4b5563;">${message}</p>`;
+}
+
+export async function GET(request: NextRequest) {
+  if (!getAccessFromParams(request.nextUrl.searchParams)) {
+    return page('Länken fungerar inte', text(INVALID_LINK), 400);
+  }
+
+  // The token is base64url, only the & between parameters needs escaping
+  const action = `/api/notifications/opt-out?${request.nextUrl.searchParams.toString().replace(/&/g, '&amp;')}`;
+
+  return page(
+    'Avregistrera dig?',
+    text('Du slutar få mejl, sms och pushnotiser om festen. Arrangören kan slå på dem igen om du ångrar dig.') +
+    `<form method="post" action="${action}">` +
+    `<button type="submit" style="background: #4f46e5; color: white; border: 0; padding: 14px 28px; border-radius: 8px; font-size: 16px; font-weight: bold; cursor: pointer;">Avregistrera mig</button>` +
+    `</form>`
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const access = getAccessFromParams(request.nextUrl.searchParams);
+  if (!access) {
+    return page('Länken fungerar inte', text(INVALID_LINK), 400);
+  }
+
+  const supabase = createAdminClient();
+  const { error } = await supabase
+    .from('couples')
+    .update({ [OPT_OUT_COLUMNS[access.personType]]: new Date().toISOString() })
+    .eq('id', access.coupleId);
+
+  if (error) {
+    console.error('Opt-out error:', error);
+    return page('Något gick fel', text('Vi kunde inte avregistrera dig just nu. Försök igen om en stund.'), 500);
+  }
+
+  return page('Du är avregistrerad', text('Du får inga fler mejl, sms eller pushnotiser om festen. Arrangören kan slå på dem igen om du ångrar dig.'));
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
-import { sendEmail } from '@/lib/email';
+import { notifyCouples, type NotificationType } from '@/lib/notifications';
 
 /**
  * Send Notifications API
@@ -10,11 +10,11 @@ import { sendEmail } from '@/lib/email';
  * - envelope_ready: "Kuvertet för förrätt är öppet!"
  * - reminder: "Festen börjar om 2 timmar"
  * 
- * Idempotent: checks notification table before sending.
+ * Idempotent: checks notification table before enqueueing.
+ * Each message is queued first and tried once right away; failures stay
+ * queued and are retried by /api/cron/notifications.
  */
 
-type NotificationType = 'assignment' | 'envelope_ready' | 'reminder' | 'envelope_changed';
-
 interface SendNotificationRequest {
   event_id: string;
   notification_type: NotificationType;
@@ -64,96 +64,9 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Inga par att notifiera' }, { status: 400 });
     }
     
-    const results: { couple_id: string; status: string; email?: string }[] = [];
+    const results = await notifyCouples(supabase, event, couples, notification_type, { course });
     const matchPlanId = event.active_match_plan_id;
     
-    for (const couple of couples) {
-      // Create idempotency key
-      const idempotencyKey = `${matchPlanId}:${couple.id}:${notification_type}${course ? `:${course}` : ''}`;
-      
-      // Check if already sent
-      const { data: existing } = await supabase
-        .from('notifications')
-        .select('id')
-        .eq('idempotency_key', idempotencyKey)
-        .single();
-      
-      if (existing) {
-        results.push({ couple_id: couple.id, status: 'already_sent' });
-        continue;
-      }
-      
-      // Build notification content based on type
-      let subject = '';
-      let body = '';
-      const assignment = couple.assignments?.[0];
-      const courseLabels: Record<string, string> = {
-        starter: 'förrätt',
-        main: 'huvudrätt', 
-        dessert: 'efterrätt',
-      };
-      
-      switch (notification_type) {
-        case 'assignment':
-          subject = `🍽️ Din uppgift på ${event.name}`;
-          body = `Hej ${couple.invited_name}!\n\nNi har blivit tilldelade att laga ${courseLabels[assignment?.course] || 'okänd rätt'} på ${event.name}.\n\nLogga in för att se mer detaljer och era gästers allergier.\n\n🔗 ${process.env.NEXT_PUBLIC_APP_URL || 'https://cykelfesten.vercel.app'}/e/${event.slug}/my`;
-          break;
-          
-        case 'envelope_ready':
-          subject = `✉️ Kuvertet för ${courseLabels[course!] || course} är öppet!`;
-          body = `Hej ${couple.invited_name}!\n\nKuvertet för ${courseLabels[course!] || course} är nu öppet. Öppna det för att se var ni ska!\n\n🔗 ${process.env.NEXT_PUBLIC_APP_URL || 'https://cykelfesten.vercel.app'}/e/${event.slug}/my`;
-          break;
-          
-        case 'reminder':
-          subject = `⏰ Påminnelse: ${event.name} börjar snart!`;
-          body = `Hej ${couple.invited_name}!\n\n${event.name} börjar snart. Glöm inte att kolla era kuvert!\n\n🔗 ${process.env.NEXT_PUBLIC_APP_URL || 'https://cykelfesten.vercel.app'}/e/${event.slug}/my`;
-          break;
-          
-        case 'envelope_changed':
-          subject = `📍 Uppdaterad adress för ${courseLabels[course!] || course}`;
-          body = `Hej ${couple.invited_name}!\n\nPå grund av ett avhopp har adressen för ${courseLabels[course!] || course} uppdaterats. Öppna kuvertet för att se den nya adressen.\n\n🔗 ${process.env.NEXT_PUBLIC_APP_URL || 'https://cykelfesten.vercel.app'}/e/${event.slug}/my`;
-          break;
-      }
-      
-      // Store notification record (marks as "to be sent")
-      const { error: insertError } = await supabase
-        .from('notifications')
-        .insert({
-          match_plan_id: matchPlanId,
-          couple_id: couple.id,
-          notification_type,
-          content: { subject, body, course },
-          idempotency_key: idempotencyKey,
-          sent_at: new Date().toISOString(), // For now, mark as sent immediately
-        });
-      
-      if (insertError) {
-        results.push({ couple_id: couple.id, status: 'error', email: couple.invited_email });
-        continue;
-      }
-      
-      const recipientEmail = couple.invited_email;
-      if (recipientEmail) {
-        const html = `<p>${body.replace(/\n/g, '<br/>')}</p>`;
-        const { error: emailError } = await sendEmail({
-          to: recipientEmail,
-          subject,
-          html,
-        });
-
-        if (emailError) {
-          results.push({ couple_id: couple.id, status: 'error', email: recipientEmail });
-          continue;
-        }
-      }
-
-      results.push({
-        couple_id: couple.id,
-        status: 'sent',
-        email: recipientEmail,
-      });
-    }
-    
     // Log notification batch
     await supabase.from('event_log').insert({
       event_id,
@@ -164,6 +77,7 @@ export async function POST(request: Request) {
         course,
         total: results.length,
         sent: results.filter(r => r.status === 'sent').length,
+        queued: results.filter(r => r.status === 'queued').length,
         skipped: results.filter(r => r.status === 'already_sent').length,
       },
     });
@@ -175,8 +89,10 @@ export async function POST(request: Request) {
       summary: {
         total: results.length,
         sent: results.filter(r => r.status === 'sent').length,
+        queued: results.filter(r => r.status === 'queued').length,
         already_sent: results.filter(r => r.status === 'already_sent').length,
-        errors: results.filter(r => r.status === 'error').length,
+        bounced: results.filter(r => r.status === 'bounced').length,
+        errors: results.filter(r => r.status === 'error' || r.status === 'failed').length,
       },
     });
     
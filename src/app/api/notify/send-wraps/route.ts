@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { sendEmail } from '@/lib/email';
+import { emailBranding, formatEmailDate, renderEmail } from '@/lib/emails';
+import { buildTokenUrl } from '@/lib/tokens';
+import { optOutUrl } from '@/lib/notifications';
+import { reachableRecipients } from '@/lib/recipients';
 
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://cykelfesten.vercel.app';
 
@@ -58,12 +62,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No couples found for this event' }, { status: 400 });
     }
     
-    // Format event date
-    const eventDate = new Date(event.event_date).toLocaleDateString('sv-SE', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
+    const branding = emailBranding(event);
+    const eventDate = formatEmailDate(event.event_date);
     
     const results = {
       sent: 0,
@@ -74,37 +74,28 @@ export async function POST(request: NextRequest) {
     // Helper to add delay between emails (Resend rate limit: 2/sec)
     const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
     
-    // Send email to each participant
+    // Send email to each participant (invited, partner or replacement)
     for (const couple of couples) {
-      // Send to invited person
-      if (couple.invited_email) {
+      for (const recipient of reachableRecipients(couple)) {
+        if (!recipient.email) continue;
         try {
-          const wrapUrl = `${BASE_URL}/e/${event.slug}/wrap?coupleId=${couple.id}&person=invited`;
-          const awardUrl = `${BASE_URL}/e/${event.slug}/award?coupleId=${couple.id}&person=invited`;
+          const wrapUrl = buildTokenUrl(`${BASE_URL}/e/${event.slug}/wrap`, couple.id, recipient.person_type);
           
-          const { data: emailData, error: emailError } = await sendEmail({
-            to: couple.invited_email,
-            subject: `🎁 Din wrap från ${event.name} är här!`,
-            html: `
-              <div style="font-family: system-ui, sans-serif; max-width: 600px; margin: 0 auto;">
-                <div style="text-align: center; padding: 30px 0;">
-                  <h1 style="color: #4f46e5; margin: 0;">🎉 Din Wrap är här!</h1>
-                  <p style="color: #6b7280; margin: 10px 0 0 0;">${event.name} • ${eventDate}</p>
-                </div>
-                <p>Hej ${couple.invited_name}!</p>
-                <p>Tack för en fantastisk kväll! Nu är din personliga wrap-sammanfattning redo.</p>
-                ${event.thank_you_message ? `<div style="background: #fef3c7; padding: 15px 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f59e0b;"><p style="margin: 0; font-style: italic;">"${event.thank_you_message}"</p><p style="margin: 10px 0 0 0; font-size: 14px; color: #92400e;">– Arrangörerna</p></div>` : ''}
-                <p style="text-align: center; margin: 30px 0;">
-                  <a href="${wrapUrl}" style="display: inline-block; background: #4f46e5; color: white; padding: 15px 30px; border-radius: 8px; text-decoration: none; font-weight: bold; font-size: 18px;">🎁 Öppna din Wrap</a>
-                </p>
-                <p style="color: #9ca3af; font-size: 12px; text-align: center;">Du får detta mail för att du deltog i ${event.name}</p>
-              </div>
-            `,
+          const email = await renderEmail('wrap', {
+            branding,
+            participantName: recipient.name,
+            eventDate,
+            wrapUrl,
+            hasAward: false,
+            thankYouMessage: event.thank_you_message,
+            optOutUrl: optOutUrl(recipient),
           });
+
+          const { data: emailData, error: emailError } = await sendEmail({ to: recipient.email, ...email });
           
           if (emailError) {
             results.failed++;
-            results.errors.push(`${couple.invited_email}: ${emailError.message}`);
+            results.errors.push(`${recipient.email}: ${emailError.message}`);
           } else {
             results.sent++;
             // Log the email
@@ -112,55 +103,7 @@ export async function POST(request: NextRequest) {
               event_id: eventId,
               couple_id: couple.id,
               email_type: 'participant_wrap',
-              recipient_email: couple.invited_email,
-              resend_id: emailData?.id,
-            });
-          }
-          // Rate limit: wait 600ms between emails
-          await delay(600);
-        } catch (err) {
-          results.failed++;
-          results.errors.push(`${couple.invited_email}: ${err}`);
-        }
-      }
-      
-      // Send to partner if exists
-      if (couple.partner_email) {
-        try {
-          const wrapUrl = `${BASE_URL}/e/${event.slug}/wrap?coupleId=${couple.id}&person=partner`;
-          const awardUrl = `${BASE_URL}/e/${event.slug}/award?coupleId=${couple.id}&person=partner`;
-          
-          const partnerName = couple.partner_name || 'Partner';
-          const { data: emailData, error: emailError } = await sendEmail({
-            to: couple.partner_email,
-            subject: `🎁 Din wrap från ${event.name} är här!`,
-            html: `
-              <div style="font-family: system-ui, sans-serif; max-width: 600px; margin: 0 auto;">
-                <div style="text-align: center; padding: 30px 0;">
-                  <h1 style="color: #4f46e5; margin: 0;">🎉 Din Wrap är här!</h1>
-                  <p style="color: #6b7280; margin: 10px 0 0 0;">${event.name} • ${eventDate}</p>
-                </div>
-                <p>Hej ${partnerName}!</p>
-                <p>Tack för en fantastisk kväll! Nu är din personliga wrap-sammanfattning redo.</p>
-                ${event.thank_you_message ? `<div style="background: #fef3c7; padding: 15px 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f59e0b;"><p style="margin: 0; font-style: italic;">"${event.thank_you_message}"</p><p style="margin: 10px 0 0 0; font-size: 14px; color: #92400e;">– Arrangörerna</p></div>` : ''}
-                <p style="text-align: center; margin: 30px 0;">
-                  <a href="${wrapUrl}" style="display: inline-block; background: #4f46e5; color: white; padding: 15px 30px; border-radius: 8px; text-decoration: none; font-weight: bold; font-size: 18px;">🎁 Öppna din Wrap</a>
-                </p>
-                <p style="color: #9ca3af; font-size: 12px; text-align: center;">Du får detta mail för att du deltog i ${event.name}</p>
-              </div>
-            `,
-          });
-          
-          if (emailError) {
-            results.failed++;
-            results.errors.push(`${couple.partner_email}: ${emailError.message}`);
-          } else {
-            results.sent++;
-            await supabase.from('email_log').insert({
-              event_id: eventId,
-              couple_id: couple.id,
-              email_type: 'participant_wrap',
-              recipient_email: couple.partner_email,
+              recipient_email: recipient.email,
               resend_id: emailData?.id,
             });
           }
@@ -168,7 +111,7 @@ export async function POST(request: NextRequest) {
           await delay(600);
         } catch (err) {
           results.failed++;
-          results.errors.push(`${couple.partner_email}: ${err}`);
+          results.errors.push(`${recipient.email}: ${err}`);
         }
       }
     }
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getOrganizer } from '@/lib/auth';
+import { notifyChangedEnvelopes } from '@/lib/envelope/notify';
 import { cascadeChanges } from '@/lib/matching/cascade';
 import { checkDuplicateAddressWarning, checkRevealFreezeWarning } from '@/lib/matching/policy';
+import { parseMaxGuests, MAX_GUESTS_ERROR } from '@/lib/matching/step-a';
+import { normaliseLocale } from '@/lib/i18n';
 
 async function geocodeAddress(address: string): Promise<{ lat: number; lng: number } | null> {
   const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
@@ -98,7 +101,9 @@ export async function PATCH(
     'partner_name', 'partner_email', 'partner_phone', 'partner_allergies',
     'partner_birth_year', 'partner_fun_facts', 'partner_pet_allergy',
     'address', 'address_unit', 'address_notes', 'course_preference',
-    'instagram_handle', 'accessibility_needs', 'accessibility_ok',
+    'instagram_handle', 'accessibility_needs', 'accessibility_ok', 'max_guests',
+    'host_hazards', 'locale',
+    'invited_notifications_opt_out_at', 'partner_notifications_opt_out_at',
   ];
 
   const filtered: Record<string, any> = {};
@@ -106,6 +111,15 @@ export async function PATCH(
     if (key in updates) filtered[key] = updates[key];
   }
 
+  if ('locale' in filtered) filtered.locale = normaliseLocale(filtered.locale);
+
+  if ('max_guests' in filtered) {
+    filtered.max_guests = parseMaxGuests(filtered.max_guests);
+    if (filtered.max_guests === undefined) {
+      return NextResponse.json({ error: MAX_GUESTS_ERROR }, { status: 400 });
+    }
+  }
+
   // Handle coordinates from address autocomplete
   if (updates.address_coordinates && typeof updates.address_coordinates === 'object') {
     const { lat, lng } = updates.address_coordinates;
@@ -155,7 +169,7 @@ export async function PATCH(
         warnings.push(revealWarning.message);
       }
 
-      await cascadeChanges({
+      const cascade = await cascadeChanges({
         supabase,
         eventId: event.id,
         matchPlanId: event.active_match_plan_id,
@@ -166,6 +180,8 @@ export async function PATCH(
           newAddressNotes: data.address_notes ?? null,
         },
       });
+
+      await notifyChangedEnvelopes(supabase, event.id, cascade.changedEnvelopes);
     }
 
     const duplicateWarning = await checkDuplicateAddressWarning({
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+import { getArrivalPhase, isTableComplete, type ArrivalPhase } from '@/lib/envelope/arrivals';
+import type { MealCourse } from '@/types/database';
+
+const COURSE_ORDER: MealCourse[] = ['starter', 'main', 'dessert'];
+
+/**
+ * GET /api/organizer/events/[eventId]/arrivals
+ *
+ * Per host table: how many guest couples the host has checked in.
+ * Returns { tables: [{ host_couple_id, host_name, course, guests, arrived, complete, phases }] }
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params;
+
+  const auth = await requireEventAccess(eventId);
+  if (!auth.success) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: event } = await supabase
+    .from('events')
+    .select('active_match_plan_id')
+    .eq('id', eventId)
+    .single();
+
+  if (!event?.active_match_plan_id) {
+    return NextResponse.json({ tables: [] });
+  }
+
+  const [{ data: envelopes }, { data: couples }] = await Promise.all([
+    supabase
+      .from('envelopes')
+      .select('couple_id, host_couple_id, course, teasing_at, clue_1_at, clue_2_at, street_at, number_at, opened_at, arrived_at')
+      .eq('match_plan_id', event.active_match_plan_id)
+      .in('course', COURSE_ORDER)
+      .neq('cancelled', true),
+    supabase
+      .from('couples')
+      .select('id, invited_name, partner_name')
+      .eq('event_id', eventId),
+  ]);
+
+  const names = new Map((couples ?? []).map(c => [
+    c.id,
+    c.partner_name ? `${c.invited_name} & ${c.partner_name}` : c.invited_name,
+  ]));
+
+  const now = new Date();
+  type TablePhases = { host_couple_id: string; course: MealCourse; phases: ArrivalPhase[] };
+  const phasesByTable = new Map<string, TablePhases>();
+  for (const envelope of envelopes ?? []) {
+    if (!envelope.host_couple_id || envelope.host_couple_id === envelope.couple_id) continue;
+    const key = `${envelope.course}:${envelope.host_couple_id}`;
+    const table: TablePhases = phasesByTable.get(key) ?? { host_couple_id: envelope.host_couple_id, course: envelope.course as MealCourse, phases: [] };
+    table.phases.push(getArrivalPhase(envelope, now));
+    phasesByTable.set(key, table);
+  }
+
+  const tables = [...phasesByTable.values()]
+    .map(table => ({
+      host_couple_id: table.host_couple_id,
+      host_name: names.get(table.host_couple_id) ?? '?',
+      course: table.course,
+      guests: table.phases.length,
+      arrived: table.phases.filter(p => p === 'arrived').length,
+      complete: isTableComplete(table.phases),
+      phases: table.phases,
+    }))
+    .sort((a, b) => COURSE_ORDER.indexOf(a.course) - COURSE_ORDER.indexOf(b.course) || a.host_name.localeCompare(b.host_name, 'sv'));
+
+  return NextResponse.json({ tables });
+}
@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+import { planEnvelopeDelay, isDelayScope, type DelayScope } from '@/lib/envelope/delay';
+import type { CourseTimingOffsets } from '@/lib/envelope/timing';
+import { notifyCouples } from '@/lib/notifications';
+import { RECIPIENT_COLUMNS } from '@/lib/recipients';
+import type { MealCourse } from '@/types/database';
+
+const MAX_DELAY_MINUTES = 180;
+const COURSE_ORDER: MealCourse[] = ['starter', 'main', 'dessert'];
+
+/**
+ * GET /api/organizer/events/[eventId]/delay
+ *
+ * Host tables that can be delayed on their own: [{ id, name, course }]
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params;
+
+  const auth = await requireEventAccess(eventId);
+  if (!auth.success) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const supabase = createAdminClient();
+  const [{ data: assignments }, { data: couples }] = await Promise.all([
+    supabase
+      .from('assignments')
+      .select('couple_id, course')
+      .eq('event_id', eventId)
+      .eq('is_host', true)
+      .in('course', COURSE_ORDER),
+    supabase
+      .from('couples')
+      .select('id, invited_name, partner_name')
+      .eq('event_id', eventId)
+      .eq('cancelled', false),
+  ]);
+
+  const names = new Map((couples ?? []).map(c => [
+    c.id,
+    c.partner_name ? `${c.invited_name} & ${c.partner_name}` : c.invited_name,
+  ]));
+  const hosts = (assignments ?? [])
+    .filter(a => names.has(a.couple_id))
+    .map(a => ({ id: a.couple_id as string, name: names.get(a.couple_id) as string, course: a.course as MealCourse }))
+    .sort((a, b) => COURSE_ORDER.indexOf(a.course) - COURSE_ORDER.indexOf(b.course) || a.name.localeCompare(b.name, 'sv'));
+
+  return NextResponse.json({ hosts });
+}
+
+/**
+ * POST /api/organizer/events/[eventId]/delay
+ *
+ * "Running late" control for the live evening. Pushes one course, one host's
+ * table or everything that hasn't opened yet back by delay_minutes and
+ * recomputes the reveal times.
+ *
+ * Body: { scope: DelayScope, delay_minutes, reason?, preview? }
+ * - preview: true returns the new times without saving anything
+ * - otherwise saves, logs envelopes_delayed and sends envelope_changed
+ *   to every affected couple (once, for their next affected course)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params;
+
+  const auth = await requireEventAccess(eventId);
+  if (!auth.success) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json();
+  const { scope, delay_minutes, reason, preview } = body as {
+    scope: DelayScope;
+    delay_minutes: number;
+    reason?: string;
+    preview?: boolean;
+  };
+
+  const delayMinutes = Number(delay_minutes);
+  if (!isDelayScope(scope) || !Number.isInteger(delayMinutes) || delayMinutes <= 0 || delayMinutes > MAX_DELAY_MINUTES) {
+    return NextResponse.json(
+      { error: `scope och delay_minutes (1-${MAX_DELAY_MINUTES}) krävs` },
+      { status: 400 }
+    );
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: event } = await supabase
+    .from('events')
+    .select('id, name, slug, active_match_plan_id, notification_channels, email_branding, course_timing_offsets, time_offset_minutes')
+    .eq('id', eventId)
+    .single();
+
+  if (!event?.active_match_plan_id) {
+    return NextResponse.json({ error: 'Ingen aktiv matchning' }, { status: 400 });
+  }
+
+  const [{ data: envelopes, error: envelopesError }, { data: timing }, { data: couples }] = await Promise.all([
+    supabase
+      .from('envelopes')
+      .select('id, couple_id, course, host_couple_id, scheduled_at, cycling_minutes, teasing_at, clue_1_at, clue_2_at, street_at, number_at, opened_at')
+      .eq('match_plan_id', event.active_match_plan_id)
+      .neq('cancelled', true),
+    supabase
+      .from('event_timing')
+      .select('*')
+      .eq('event_id', eventId)
+      .single(),
+    supabase
+      .from('couples')
+      .select(RECIPIENT_COLUMNS)
+      .eq('event_id', eventId),
+  ]);
+
+  if (envelopesError) {
+    return NextResponse.json(
+      { error: 'Kunde inte hämta kuvert', details: envelopesError.message },
+      { status: 500 }
+    );
+  }
+
+  const now = new Date();
+  const courseOffsets: CourseTimingOffsets = event.course_timing_offsets || {};
+  const changes = planEnvelopeDelay(envelopes ?? [], scope, delayMinutes, timing ?? {}, courseOffsets, now);
+
+  const names = new Map((couples ?? []).map(c => [
+    c.id,
+    c.partner_name ? `${c.invited_name} & ${c.partner_name}` : c.invited_name,
+  ]));
+  const affectedCouples = [...new Set(changes.map(c => c.couple_id))];
+
+  if (preview) {
+    return NextResponse.json({
+      preview: true,
+      delay_minutes: delayMinutes,
+      affected_couples: affectedCouples.length,
+      changes: changes.map(change => ({
+        ...change,
+        couple_name: names.get(change.couple_id) ?? change.couple_id,
+        host_name: change.host_couple_id ? names.get(change.host_couple_id) ?? null : null,
+      })),
+    });
+  }
+
+  if (changes.length === 0) {
+    return NextResponse.json({ success: true, updated: 0, notified: 0 });
+  }
+
+  const results = await Promise.all(
+    changes.map(change =>
+      supabase
+        .from('envelopes')
+        .update(change.scheduled_at ? { scheduled_at: change.scheduled_at, ...change.after } : change.after)
+        .eq('id', change.envelope_id)
+    )
+  );
+  const failed = results.filter(r => r.error);
+  if (failed.length > 0) {
+    console.error('Delay update errors:', failed.map(r => r.error?.message));
+  }
+
+  // The whole rest of the evening: show the delay on the public event page too
+  let newOffset: number | null = null;
+  if (scope.type === 'all') {
+    newOffset = (event.time_offset_minutes || 0) + delayMinutes;
+    await supabase
+      .from('events')
+      .update({
+        time_offset_minutes: newOffset,
+        time_offset_updated_at: now.toISOString(),
+      })
+      .eq('id', eventId);
+  }
+
+  await supabase.from('event_log').insert({
+    event_id: eventId,
+    match_plan_id: event.active_match_plan_id,
+    action: 'envelopes_delayed',
+    actor_id: auth.organizer.id,
+    details: {
+      scope,
+      host_name: scope.type === 'host' ? names.get(scope.host_couple_id) ?? null : null,
+      delay_minutes: delayMinutes,
+      new_offset: newOffset,
+      affected_envelopes: changes.length - failed.length,
+      affected_couples: affectedCouples.length,
+      reason: reason || 'Arrangören sköt upp kuvert',
+    },
+  });
+
+  // One message per couple, about the next course that moved
+  const nextCourse = new Map<string, MealCourse>();
+  for (const change of changes) {
+    const current = nextCourse.get(change.couple_id);
+    if (!current || COURSE_ORDER.indexOf(change.course) < COURSE_ORDER.indexOf(current)) {
+      nextCourse.set(change.couple_id, change.course);
+    }
+  }
+
+  let notified = 0;
+  for (const course of COURSE_ORDER) {
+    const recipients = (couples ?? []).filter(c => nextCourse.get(c.id) === course);
+    if (recipients.length === 0) continue;
+    const sent = await notifyCouples(supabase, event, recipients, 'envelope_changed', {
+      course,
+      delayMinutes,
+      idempotencySuffix: `delay-${now.getTime()}`,
+    });
+    // Queued ones are retried by the notification cron
+    notified += sent.filter(r => r.status === 'sent' || r.status === 'queued').length;
+  }
+
+  return NextResponse.json({
+    success: failed.length === 0,
+    updated: changes.length - failed.length,
+    failed: failed.length,
+    notified,
+    new_offset: newOffset,
+  });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+import { loadPreviewEmail, parsePreviewRequest } from '@/lib/emails/preview';
+
+// POST /api/organizer/events/[eventId]/emails/preview
+// { template, couple_id, person_type?, notification_type?, message?, email_branding? }
+// Renders a participant email for one of the event's couples; email_branding
+// previews unsaved branding.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params;
+  const auth = await requireEventAccess(eventId);
+  if (!auth.success) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const preview = parsePreviewRequest(await request.json().catch(() => null));
+  if (!preview) {
+    return NextResponse.json({ error: 'template och couple_id krävs' }, { status: 400 });
+  }
+
+  const email = await loadPreviewEmail(createAdminClient(), eventId, preview);
+  if (!email) {
+    return NextResponse.json({ error: 'Paret hittades inte' }, { status: 404 });
+  }
+
+  return NextResponse.json({ subject: email.subject, html: email.html });
+}
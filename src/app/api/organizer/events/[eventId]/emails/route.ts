@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+import { normaliseEmailBranding } from '@/lib/emails/settings';
+
+// GET /api/organizer/events/[eventId]/emails
+// Branding and the couples the templates can be previewed with
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params;
+  const auth = await requireEventAccess(eventId);
+  if (!auth.success) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: event } = await supabase
+    .from('events')
+    .select('id, name, email_branding')
+    .eq('id', eventId)
+    .single();
+
+  if (!event) return NextResponse.json({ error: 'Event hittades inte' }, { status: 404 });
+
+  const { data: couples, error } = await supabase
+    .from('couples')
+    .select('id, invited_name, partner_name, replacement_name')
+    .eq('event_id', eventId)
+    .eq('cancelled', false)
+    .order('invited_name');
+
+  if (error) {
+    return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    event: { id: event.id, name: event.name },
+    email_branding: event.email_branding ?? {},
+    couples: couples ?? [],
+    test_recipient: auth.organizer.email,
+  });
+}
+
+// PATCH /api/organizer/events/[eventId]/emails  { email_branding }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params;
+  const auth = await requireEventAccess(eventId);
+  if (!auth.success) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => null);
+  const emailBranding = normaliseEmailBranding(body?.email_branding);
+
+  const supabase = createAdminClient();
+  const { error } = await supabase
+    .from('events')
+    .update({ email_branding: emailBranding })
+    .eq('id', eventId);
+
+  if (error) {
+    return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, email_branding: emailBranding });
+}
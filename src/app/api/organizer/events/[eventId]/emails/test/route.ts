@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+import { sendEmail } from '@/lib/email';
+import { loadPreviewEmail, parsePreviewRequest } from '@/lib/emails/preview';
+
+// POST /api/organizer/events/[eventId]/emails/test
+// Same body as /emails/preview; sends the rendered email to the logged-in
+// organizer instead of the couple, with links that carry no token of theirs.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params;
+  const auth = await requireEventAccess(eventId);
+  if (!auth.success) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const preview = parsePreviewRequest(await request.json().catch(() => null));
+  if (!preview) {
+    return NextResponse.json({ error: 'template och couple_id krävs' }, { status: 400 });
+  }
+
+  const email = await loadPreviewEmail(createAdminClient(), eventId, { ...preview, inertLinks: true });
+  if (!email) {
+    return NextResponse.json({ error: 'Paret hittades inte' }, { status: 404 });
+  }
+
+  const { error } = await sendEmail({
+    to: auth.organizer.email,
+    subject: `[Test] ${email.subject}`,
+    html: email.html,
+    text: email.text,
+  });
+
+  if (error) {
+    return NextResponse.json({ error: 'Kunde inte skicka testmejlet', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, sent_to: auth.organizer.email });
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+import { scoreHostGuesses } from '@/lib/envelope/guesses';
+
+/**
+ * GET /api/organizer/events/[eventId]/guesses
+ *
+ * Guess-the-host leaderboard for the live view. Scores count guesses on
+ * envelopes that haven't opened yet too - the organizer knows the hosts.
+ *
+ * Returns { scores: [{ couple_id, name, points, correct, guesses }], guessed, guest_envelopes }
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params;
+
+  const auth = await requireEventAccess(eventId);
+  if (!auth.success) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: event } = await supabase
+    .from('events')
+    .select('active_match_plan_id')
+    .eq('id', eventId)
+    .single();
+
+  if (!event?.active_match_plan_id) {
+    return NextResponse.json({ scores: [], guessed: 0, guest_envelopes: 0 });
+  }
+
+  const [{ data: envelopes }, { data: couples }] = await Promise.all([
+    supabase
+      .from('envelopes')
+      .select('id, couple_id, host_couple_id, course')
+      .eq('match_plan_id', event.active_match_plan_id)
+      .in('course', ['starter', 'main', 'dessert'])
+      .neq('cancelled', true),
+    supabase
+      .from('couples')
+      .select('id, invited_name, partner_name')
+      .eq('event_id', eventId),
+  ]);
+
+  const guestEnvelopes = (envelopes ?? []).filter(e => e.host_couple_id && e.host_couple_id !== e.couple_id);
+  const { data: guesses } = guestEnvelopes.length
+    ? await supabase
+        .from('host_guesses')
+        .select('envelope_id, couple_id, guessed_host_couple_id, guessed_state')
+        .in('envelope_id', guestEnvelopes.map(e => e.id))
+    : { data: [] };
+
+  const names = new Map((couples ?? []).map(c => [
+    c.id,
+    c.partner_name ? `${c.invited_name} & ${c.partner_name}` : c.invited_name,
+  ]));
+  const hostByEnvelope = new Map(guestEnvelopes.map(e => [e.id, e.host_couple_id as string | null]));
+
+  const scores = scoreHostGuesses(guesses ?? [], hostByEnvelope).map(score => ({
+    ...score,
+    name: names.get(score.couple_id) ?? '?',
+  }));
+
+  return NextResponse.json({
+    scores,
+    guessed: guesses?.length ?? 0,
+    guest_envelopes: guestEnvelopes.length,
+  });
+}
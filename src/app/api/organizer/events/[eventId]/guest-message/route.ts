@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { Resend } from 'resend';
+import { emailBranding, renderEmail } from '@/lib/emails';
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 const fromEmail = process.env.RESEND_FROM || 'Cykelfesten <noreply@molt.isaksson.cc>';
@@ -22,7 +23,7 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ eve
   // Get event info
   const { data: event, error: eventError } = await supabase
     .from('events')
-    .select('id, name, active_match_plan_id')
+    .select('id, name, active_match_plan_id, email_branding')
     .eq('id', eventId)
     .single();
 
@@ -85,25 +86,12 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ eve
 
   for (const { to, name } of emails) {
     try {
-      await resend.emails.send({
-        from: fromEmail,
-        to,
-        subject: `📢 Meddelande från ${event.name}`,
-        html: `
-          <div style="font-family: -apple-system, sans-serif; max-width: 480px; margin: 0 auto; padding: 20px;">
-            <div style="background: #FEF3C7; border-radius: 12px; padding: 20px; border: 1px solid #FCD34D;">
-              <h2 style="margin: 0 0 8px 0; font-size: 18px;">📢 Meddelande från arrangören</h2>
-              <p style="margin: 0 0 16px 0; color: #92400E; font-size: 14px;">${event.name}</p>
-              <div style="background: white; border-radius: 8px; padding: 16px; font-size: 15px; line-height: 1.5;">
-                ${message.trim().replace(/\n/g, '<br>')}
-              </div>
-            </div>
-            <p style="margin-top: 16px; font-size: 12px; color: #9CA3AF; text-align: center;">
-              Detta meddelande skickades av arrangören för ${event.name}
-            </p>
-          </div>
-        `,
+      const email = await renderEmail('guest_message', {
+        branding: emailBranding(event),
+        name,
+        message,
       });
+      await resend.emails.send({ from: fromEmail, to, ...email });
       sent++;
     } catch (e: any) {
       errors.push(`${to}: ${e.message || 'unknown'}`);
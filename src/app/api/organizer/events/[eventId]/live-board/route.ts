@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+import { buildLiveBoard, BOARD_COURSES } from '@/lib/envelope/board';
+
+/**
+ * GET /api/organizer/events/[eventId]/live-board
+ *
+ * Everything the live operations board shows (see lib/envelope/board):
+ * { server_time, event_status, courses: [...], dropouts: [...] }
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params;
+
+  const auth = await requireEventAccess(eventId);
+  if (!auth.success) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: event } = await supabase
+    .from('events')
+    .select('status, active_match_plan_id')
+    .eq('id', eventId)
+    .single();
+
+  if (!event) {
+    return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+  }
+
+  const now = new Date();
+  if (!event.active_match_plan_id) {
+    return NextResponse.json({ server_time: now.toISOString(), event_status: event.status, courses: [], dropouts: [] });
+  }
+
+  const [{ data: envelopes, error: envelopesError }, { data: couples }] = await Promise.all([
+    supabase
+      .from('envelopes')
+      .select('id, couple_id, host_couple_id, course, teasing_at, clue_1_at, clue_2_at, street_at, number_at, opened_at, arrived_at')
+      .eq('match_plan_id', event.active_match_plan_id)
+      .in('course', BOARD_COURSES)
+      .neq('cancelled', true),
+    supabase
+      .from('couples')
+      .select('id, invited_name, partner_name, person_count, confirmed, cancelled, cancelled_at')
+      .eq('event_id', eventId),
+  ]);
+
+  if (envelopesError) {
+    return NextResponse.json({ error: 'Failed to fetch envelopes', details: envelopesError.message }, { status: 500 });
+  }
+
+  const board = buildLiveBoard(
+    envelopes ?? [],
+    (couples ?? []).map(c => ({
+      id: c.id,
+      name: c.partner_name ? `${c.invited_name} & ${c.partner_name}` : c.invited_name,
+      person_count: c.person_count,
+      confirmed: c.confirmed,
+      cancelled: c.cancelled,
+      cancelled_at: c.cancelled_at,
+    })),
+    now
+  );
+
+  return NextResponse.json({ server_time: now.toISOString(), event_status: event.status, ...board });
+}
@@ -93,7 +93,7 @@ export async function GET(request: Request, context: RouteContext) {
 
     const { data: couples, error } = await supabase
       .from('couples')
-      .select('id, invited_name, partner_name, address, coordinates, role, confirmed, cancelled, person_count, invited_allergies, partner_allergies')
+      .select('id, invited_name, partner_name, address, coordinates, role, confirmed, cancelled, person_count, invited_allergies, partner_allergies, accessibility_needs, accessibility_ok')
       .eq('event_id', eventId)
       .order('invited_name');
 
@@ -105,7 +105,7 @@ export async function GET(request: Request, context: RouteContext) {
     const withCoords: Array<{
       id: string; name: string; address: string; lat: number; lng: number;
       isHost: boolean; isConfirmed: boolean; isCancelled: boolean; personCount: number;
-      allergies: string[];
+      allergies: string[]; accessibilityNeeds: string | null; accessible: boolean;
     }> = [];
     const missingCoords: Array<{ id: string; name: string; address: string }> = [];
 
@@ -125,6 +125,8 @@ export async function GET(request: Request, context: RouteContext) {
           isCancelled: !!c.cancelled,
           personCount: c.person_count ?? (c.partner_name ? 2 : 1),
           allergies,
+          accessibilityNeeds: c.accessibility_needs?.trim() || null,
+          accessible: c.accessibility_ok === true,
         });
       } else if (c.confirmed && !c.cancelled) {
         missingCoords.push({ id: c.id, name, address: c.address });
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+import { buildEnvelopesFromPairings, writePlanEnvelopes } from '@/lib/matching';
+import type { Couple, Event } from '@/types/database';
+
+/**
+ * POST /api/organizer/events/[eventId]/match-plans/[planId]/restore
+ *
+ * Re-activate an older plan version. The current plan is superseded (its meal
+ * envelopes cancelled) and the restored plan's meal envelopes are regenerated
+ * from its pairings.
+ *
+ * Body: { confirm_version: number, force?: boolean }
+ * - confirm_version must equal the restored plan's version
+ * - force is required when envelopes of the current plan are already activated
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string; planId: string }> }
+) {
+  try {
+    const { eventId, planId } = await params;
+
+    const auth = await requireEventAccess(eventId);
+    if (!auth.success) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const supabase = createAdminClient();
+
+    const { data: event } = await supabase
+      .from('events')
+      .select('*')
+      .eq('id', eventId)
+      .single();
+
+    if (!event) {
+      return NextResponse.json({ error: 'Event hittades inte' }, { status: 404 });
+    }
+
+    const { data: plan } = await supabase
+      .from('match_plans')
+      .select('id, version, status')
+      .eq('id', planId)
+      .eq('event_id', eventId)
+      .single();
+
+    if (!plan) {
+      return NextResponse.json({ error: 'Matchplan hittades inte' }, { status: 404 });
+    }
+
+    if (body.confirm_version !== plan.version) {
+      return NextResponse.json(
+        { error: `Bekräfta genom att ange versionsnummer ${plan.version}` },
+        { status: 400 }
+      );
+    }
+
+    if (plan.id === event.active_match_plan_id) {
+      return NextResponse.json({ error: 'Planen är redan aktiv' }, { status: 409 });
+    }
+
+    const { data: pairings } = await supabase
+      .from('course_pairings')
+      .select('course, host_couple_id, guest_couple_id')
+      .eq('match_plan_id', planId);
+
+    if (!pairings || pairings.length === 0) {
+      return NextResponse.json({ error: 'Planen saknar placeringar' }, { status: 409 });
+    }
+
+    const { data: couples } = await supabase
+      .from('couples')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('cancelled', false)
+      .eq('confirmed', true);
+
+    // Plans from before a dropout still point at couples that are gone
+    const activeCoupleIds = new Set((couples || []).map(c => c.id));
+    const missing = [...new Set(
+      pairings.flatMap(p => [p.host_couple_id, p.guest_couple_id]).filter(id => !activeCoupleIds.has(id))
+    )];
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Planen innehåller ${missing.length} par som har avanmält sig`, couple_ids: missing },
+        { status: 409 }
+      );
+    }
+
+    // Hosts without guests in the plan still get their own envelope
+    const { data: assignments } = await supabase
+      .from('assignments')
+      .select('couple_id, course, is_host')
+      .eq('event_id', eventId)
+      .eq('is_host', true);
+
+    const previousPlanId: string | null = event.active_match_plan_id;
+
+    if (previousPlanId && body.force !== true) {
+      const { data: activated } = await supabase
+        .from('envelopes')
+        .select('id')
+        .eq('match_plan_id', previousPlanId)
+        .not('activated_at', 'is', null)
+        .eq('cancelled', false);
+
+      if (activated && activated.length > 0) {
+        return NextResponse.json(
+          {
+            error: `⚠️ ${activated.length} kuvert har redan aktiverats — gäster kan ha sett gamla adressen`,
+            activated_envelopes: activated.length,
+            requires_force: true,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Supersede the current plan
+    if (previousPlanId) {
+      await supabase
+        .from('match_plans')
+        .update({
+          status: 'superseded',
+          superseded_at: new Date().toISOString(),
+          superseded_by: planId,
+        })
+        .eq('id', previousPlanId);
+
+      // Its meal envelopes must not keep revealing next to the restored plan's
+      await supabase
+        .from('envelopes')
+        .update({ cancelled: true })
+        .eq('match_plan_id', previousPlanId)
+        .neq('course', 'afterparty');
+    }
+
+    // Stale envelopes of the restored plan are replaced, afterparty is kept
+    await supabase
+      .from('envelopes')
+      .delete()
+      .eq('match_plan_id', planId)
+      .neq('course', 'afterparty');
+
+    const envelopeResult = await writePlanEnvelopes({
+      supabase,
+      event: event as Event,
+      couples: couples as Couple[],
+      matchPlanId: planId,
+      pairings,
+      envelopes: buildEnvelopesFromPairings(planId, pairings, couples as Couple[], assignments || []),
+    });
+
+    await supabase
+      .from('match_plans')
+      .update({ status: 'active', superseded_at: null, superseded_by: null })
+      .eq('id', planId);
+
+    await supabase
+      .from('events')
+      .update({ active_match_plan_id: planId })
+      .eq('id', eventId);
+
+    await supabase.from('event_log').insert({
+      event_id: eventId,
+      match_plan_id: planId,
+      action: 'match_plan_restored',
+      actor_id: auth.organizer.id,
+      details: {
+        version: plan.version,
+        previous_match_plan_id: previousPlanId,
+        envelopes_created: envelopeResult.envelopesCreated,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      match_plan_id: planId,
+      version: plan.version,
+      envelopes_created: envelopeResult.envelopesCreated,
+    });
+  } catch (error) {
+    console.error('Restore match plan error:', error);
+    return NextResponse.json({ error: 'Kunde inte återställa matchplan', details: String(error) }, { status: 500 });
+  }
+}
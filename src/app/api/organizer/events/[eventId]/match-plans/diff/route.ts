@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+import { diffMatchPlans } from '@/lib/matching';
+
+/**
+ * GET /api/organizer/events/[eventId]/match-plans/diff?from=<planId>&to=<planId>
+ *
+ * Side-by-side comparison of two plan versions' course_pairings.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+    const from = request.nextUrl.searchParams.get('from');
+    const to = request.nextUrl.searchParams.get('to');
+
+    if (!from || !to) {
+      return NextResponse.json({ error: 'from och to krävs' }, { status: 400 });
+    }
+
+    const auth = await requireEventAccess(eventId);
+    if (!auth.success) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: plans } = await supabase
+      .from('match_plans')
+      .select('id, version, stats')
+      .eq('event_id', eventId)
+      .in('id', [from, to]);
+
+    const fromPlan = plans?.find(p => p.id === from);
+    const toPlan = plans?.find(p => p.id === to);
+    if (!fromPlan || !toPlan) {
+      return NextResponse.json({ error: 'Matchplan hittades inte' }, { status: 404 });
+    }
+
+    const { data: pairings } = await supabase
+      .from('course_pairings')
+      .select('match_plan_id, course, host_couple_id, guest_couple_id')
+      .in('match_plan_id', [from, to]);
+
+    const { data: envelopes } = await supabase
+      .from('envelopes')
+      .select('match_plan_id, couple_id, course, host_couple_id')
+      .in('match_plan_id', [from, to])
+      .eq('cancelled', false)
+      .neq('course', 'afterparty');
+
+    const snapshot = (planId: string) => ({
+      pairings: (pairings || []).filter(p => p.match_plan_id === planId),
+      envelopes: (envelopes || []).filter(e => e.match_plan_id === planId),
+    });
+    const before = snapshot(from);
+    const after = snapshot(to);
+
+    return NextResponse.json({
+      from: { ...fromPlan, pairings: before.pairings },
+      to: { ...toPlan, pairings: after.pairings },
+      diff: diffMatchPlans(before, after),
+    });
+  } catch (error) {
+    console.error('Diff match plans error:', error);
+    return NextResponse.json({ error: 'Internt fel' }, { status: 500 });
+  }
+}
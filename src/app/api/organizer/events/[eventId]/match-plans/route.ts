@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+
+/**
+ * GET /api/organizer/events/[eventId]/match-plans
+ *
+ * Every match plan version for the event, newest first, with stats.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+
+    const auth = await requireEventAccess(eventId);
+    if (!auth.success) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: event } = await supabase
+      .from('events')
+      .select('id, active_match_plan_id')
+      .eq('id', eventId)
+      .single();
+
+    if (!event) {
+      return NextResponse.json({ error: 'Event hittades inte' }, { status: 404 });
+    }
+
+    const { data: plans, error } = await supabase
+      .from('match_plans')
+      .select('id, version, status, created_at, superseded_at, superseded_by, stats')
+      .eq('event_id', eventId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      return NextResponse.json({ error: 'Kunde inte hämta matchplaner', details: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      active_match_plan_id: event.active_match_plan_id,
+      plans: (plans || []).map(plan => ({
+        ...plan,
+        is_active: plan.id === event.active_match_plan_id,
+      })),
+    });
+  } catch (error) {
+    console.error('List match plans error:', error);
+    return NextResponse.json({ error: 'Internt fel' }, { status: 500 });
+  }
+}
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+import { runWhatIf, diffMatchPlans, planOptimizeOptions, type WhatIfChanges, type PlanSnapshot } from '@/lib/matching';
+import type { Assignment, Couple, Event, MatchingPreference, MealCourse } from '@/types/database';
+
+const MEAL_COURSES: MealCourse[] = ['starter', 'main', 'dessert'];
+const PREFERENCES = ['avoid', 'low', 'neutral', 'preferred', 'known'];
+
+function parseChanges(body: Record<string, unknown>): WhatIfChanges | string {
+  const changes: WhatIfChanges = {};
+
+  if (body.exclude_couple_ids !== undefined) {
+    if (!Array.isArray(body.exclude_couple_ids) || !body.exclude_couple_ids.every(id => typeof id === 'string')) {
+      return 'exclude_couple_ids måste vara en lista med id:n';
+    }
+    changes.exclude_couple_ids = body.exclude_couple_ids;
+  }
+
+  if (body.add_blocks !== undefined) {
+    if (!Array.isArray(body.add_blocks) || !body.add_blocks.every(b => Array.isArray(b) && b.length === 2)) {
+      return 'add_blocks måste vara en lista med [a, b]-par';
+    }
+    changes.add_blocks = body.add_blocks as [string, string][];
+  }
+
+  if (body.preferences !== undefined) {
+    if (!Array.isArray(body.preferences) || !body.preferences.every(p =>
+      p && typeof p.couple_id === 'string' && typeof p.target_couple_id === 'string' && PREFERENCES.includes(p.preference)
+    )) {
+      return 'Ogiltig preferens';
+    }
+    changes.preferences = body.preferences as MatchingPreference[];
+  }
+
+  if (body.force_courses !== undefined) {
+    const forced = body.force_courses as Record<string, unknown>;
+    if (typeof forced !== 'object' || forced === null ||
+        !Object.values(forced).every(c => MEAL_COURSES.includes(c as MealCourse))) {
+      return 'force_courses måste ange förrätt, huvudrätt eller efterrätt';
+    }
+    changes.force_courses = forced as Record<string, MealCourse>;
+  }
+
+  return changes;
+}
+
+/**
+ * POST /api/organizer/events/[eventId]/matching/simulate
+ *
+ * Dry-run matching with modified inputs and diff against the active plan.
+ * Writes nothing.
+ *
+ * Body: { exclude_couple_ids?, add_blocks?, preferences?, force_courses? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+
+    const auth = await requireEventAccess(eventId);
+    if (!auth.success) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const changes = parseChanges(body);
+    if (typeof changes === 'string') {
+      return NextResponse.json({ error: changes }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: event } = await supabase
+      .from('events')
+      .select('*')
+      .eq('id', eventId)
+      .single();
+
+    if (!event) {
+      return NextResponse.json({ error: 'Event hittades inte' }, { status: 404 });
+    }
+
+    const { data: couples } = await supabase
+      .from('couples')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('cancelled', false)
+      .eq('confirmed', true);
+
+    const { data: assignments } = await supabase
+      .from('assignments')
+      .select('*')
+      .eq('event_id', eventId);
+
+    const { data: blockedPairs } = await supabase
+      .from('blocked_pairs')
+      .select('couple_a_id, couple_b_id')
+      .eq('event_id', eventId);
+
+    const { data: preferenceRows } = await supabase
+      .from('couple_preferences')
+      .select('couple_id, target_couple_id, preference')
+      .eq('event_id', eventId)
+      .neq('preference', 'neutral');
+
+    const activeCoupleIds = new Set((couples || []).map(c => c.id));
+
+    let whatIf;
+    try {
+      whatIf = runWhatIf({
+        event: event as Event,
+        couples: (couples || []) as Couple[],
+        // Skip assignments for couples that have since cancelled
+        assignments: ((assignments || []) as Assignment[]).filter(a => activeCoupleIds.has(a.couple_id)),
+        blocked_pairs: (blockedPairs || []).map(bp => [bp.couple_a_id, bp.couple_b_id] as [string, string]),
+        preferences: (preferenceRows || []) as MatchingPreference[],
+        changes,
+        // Optimized the way /api/matching optimized the active plan, so only
+        // the changes themselves show up in the diff
+        optimize: planOptimizeOptions(event.active_match_plan_id ?? eventId),
+      });
+    } catch (err) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : 'Simuleringen misslyckades' },
+        { status: 400 }
+      );
+    }
+
+    // Current active plan to diff against
+    let current: PlanSnapshot = { pairings: [], envelopes: [] };
+    let statsBefore = null;
+
+    if (event.active_match_plan_id) {
+      const { data: plan } = await supabase
+        .from('match_plans')
+        .select('stats')
+        .eq('id', event.active_match_plan_id)
+        .single();
+      statsBefore = plan?.stats ?? null;
+
+      const { data: pairings } = await supabase
+        .from('course_pairings')
+        .select('course, host_couple_id, guest_couple_id')
+        .eq('match_plan_id', event.active_match_plan_id);
+
+      const { data: envelopes } = await supabase
+        .from('envelopes')
+        .select('couple_id, course, host_couple_id')
+        .eq('match_plan_id', event.active_match_plan_id)
+        .eq('cancelled', false)
+        .neq('course', 'afterparty');
+
+      current = { pairings: pairings || [], envelopes: envelopes || [] };
+    }
+
+    const diff = diffMatchPlans(current, {
+      pairings: whatIf.stepB.course_pairings,
+      envelopes: whatIf.stepB.envelopes,
+    });
+
+    return NextResponse.json({
+      has_active_plan: !!event.active_match_plan_id,
+      diff,
+      stats_before: statsBefore,
+      stats_after: whatIf.stats,
+      warnings: whatIf.warnings,
+    });
+  } catch (error) {
+    console.error('Simulate matching error:', error);
+    return NextResponse.json(
+      { error: 'Simuleringen misslyckades', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
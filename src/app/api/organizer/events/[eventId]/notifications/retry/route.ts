@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getOrganizer, checkEventAccess } from '@/lib/auth';
+import { drainNotificationQueue } from '@/lib/notifications';
+import { reachableRecipients, RECIPIENT_COLUMNS, type RecipientCouple } from '@/lib/recipients';
+
+// POST /api/organizer/events/[eventId]/notifications/retry
+// Body: { notification_id } for one message, or {} for every bounced/failed one.
+// Requeues with fresh attempts and the person's current email or phone (the
+// organizer may have fixed a bounced address), then tries once right away.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params;
+  const organizer = await getOrganizer();
+  if (!organizer) return NextResponse.json({ error: 'Not logged in' }, { status: 401 });
+
+  const access = await checkEventAccess(organizer.id, eventId);
+  if (!access.hasAccess) return NextResponse.json({ error: 'No access' }, { status: 403 });
+
+  const body = await request.json().catch(() => ({}));
+  const notificationId: string | undefined = body.notification_id;
+
+  const supabase = createAdminClient();
+
+  let query = supabase
+    .from('notifications')
+    .select('id, couple_id, person_type, channel')
+    .eq('event_id', eventId)
+    .in('status', ['bounced', 'failed']);
+  if (notificationId) query = query.eq('id', notificationId);
+
+  const { data: rows, error } = await query;
+  if (error) return NextResponse.json({ error: 'Kunde inte hämta utskick', details: error.message }, { status: 500 });
+  if (!rows?.length) return NextResponse.json({ error: 'Inga misslyckade utskick att försöka igen' }, { status: 404 });
+
+  const { data: couples } = await supabase
+    .from('couples')
+    .select(RECIPIENT_COLUMNS)
+    .in('id', [...new Set(rows.map(r => r.couple_id))]);
+  const addresses = new Map<string, string>();
+  for (const couple of (couples ?? []) as RecipientCouple[]) {
+    for (const recipient of reachableRecipients(couple)) {
+      if (recipient.email) addresses.set(`${couple.id}:${recipient.person_type}:email`, recipient.email);
+      if (recipient.phone) addresses.set(`${couple.id}:${recipient.person_type}:sms`, recipient.phone);
+    }
+  }
+
+  const now = new Date();
+  const requeued: string[] = [];
+  for (const row of rows) {
+    // Opted out since, or the address was removed (a dropped push subscription is gone for good)
+    const address = addresses.get(`${row.couple_id}:${row.person_type}:${row.channel}`);
+    if (!address) continue;
+
+    const { error: updateError } = await supabase
+      .from('notifications')
+      .update({
+        status: 'queued',
+        attempts: 0,
+        next_attempt_at: now.toISOString(),
+        last_error: null,
+        ...(row.channel === 'sms' ? { recipient_phone: address } : { recipient_email: address }),
+      })
+      .eq('id', row.id);
+    if (!updateError) requeued.push(row.id);
+  }
+
+  try {
+    const results = await drainNotificationQueue(supabase, { ids: requeued, limit: requeued.length, now });
+    return NextResponse.json({
+      success: true,
+      requeued: requeued.length,
+      skipped: rows.length - requeued.length,
+      sent: results.filter(r => r.status === 'sent').length,
+      queued: results.filter(r => r.status === 'queued').length,
+      failed: results.filter(r => r.status === 'bounced' || r.status === 'failed').length,
+    });
+  } catch (err) {
+    return NextResponse.json({ error: 'Kunde inte skicka', details: String(err) }, { status: 500 });
+  }
+}
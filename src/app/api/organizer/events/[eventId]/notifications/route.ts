@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getOrganizer, checkEventAccess } from '@/lib/auth';
+import { normaliseNotificationChannels } from '@/lib/channels';
 
 // GET /api/organizer/events/[eventId]/notifications
 export async function GET(
@@ -47,7 +48,32 @@ export async function GET(
     .order('sent_at', { ascending: false })
     .limit(50);
 
-  return NextResponse.json({ event, stats, emailLog: emailLog || [] });
+  // Participant notification queue
+  const { data: notifications } = await supabase
+    .from('notifications')
+    .select('id, couple_id, person_type, channel, notification_type, content, recipient_email, recipient_phone, status, attempts, next_attempt_at, last_error, sent_at, created_at')
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  const names = new Map<string, string>();
+  if (notifications?.length) {
+    const { data: recipients } = await supabase
+      .from('couples')
+      .select('id, invited_name, partner_name')
+      .in('id', [...new Set(notifications.map(n => n.couple_id))]);
+    for (const c of recipients ?? []) {
+      names.set(c.id, c.partner_name ? `${c.invited_name} & ${c.partner_name}` : c.invited_name);
+    }
+  }
+
+  const deliveries = (notifications ?? []).map(n => ({ ...n, couple_name: names.get(n.couple_id) ?? null }));
+  const deliveryStats = { queued: 0, sent: 0, bounced: 0, failed: 0 };
+  for (const n of deliveries) {
+    if (n.status in deliveryStats) deliveryStats[n.status as keyof typeof deliveryStats]++;
+  }
+
+  return NextResponse.json({ event, stats, emailLog: emailLog || [], deliveries, deliveryStats });
 }
 
 // PATCH /api/organizer/events/[eventId]/notifications — save settings
@@ -63,12 +89,16 @@ export async function PATCH(
   if (!access.hasAccess) return NextResponse.json({ error: 'No access' }, { status: 403 });
 
   const updates = await request.json();
-  const allowed = ['organizer_email', 'wrap_reminder_time'];
+  const allowed = ['organizer_email', 'wrap_reminder_time', 'notification_channels'];
   const filtered: Record<string, any> = {};
   for (const key of allowed) {
     if (key in updates) filtered[key] = updates[key];
   }
 
+  if ('notification_channels' in filtered) {
+    filtered.notification_channels = normaliseNotificationChannels(filtered.notification_channels);
+  }
+
   const supabase = createAdminClient();
   const { error } = await supabase.from('events').update(filtered).eq('id', eventId);
 
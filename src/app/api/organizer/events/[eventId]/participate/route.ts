@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getOrganizer, checkEventAccess } from '@/lib/auth';
 import { signToken } from '@/lib/tokens';
+import { parseMaxGuests, MAX_GUESTS_ERROR } from '@/lib/matching/step-a';
 import { cookies } from 'next/headers';
 
 /**
@@ -108,6 +109,11 @@ export async function POST(
       );
     }
 
+    const maxGuests = parseMaxGuests(body.max_guests);
+    if (maxGuests === undefined) {
+      return NextResponse.json({ error: MAX_GUESTS_ERROR }, { status: 400 });
+    }
+
     // Check if already participating
     const { data: existing } = await supabase
       .from('couples')
@@ -176,6 +182,8 @@ export async function POST(
         course_preference: body.course_preference || null,
         accessibility_ok: body.accessibility_ok ?? true,
         accessibility_needs: body.accessibility_needs || null,
+        max_guests: maxGuests,
+        host_hazards: body.host_hazards || [],
         confirmed: true,
         cancelled: false,
         role: 'organizer',
@@ -251,7 +259,7 @@ export async function PATCH(
       'invited_name', 'invited_phone', 'partner_name', 'partner_email', 'partner_phone',
       'address', 'address_unit', 'address_notes', 'course_preference',
       'invited_allergies', 'partner_allergies', 'invited_fun_facts', 'partner_fun_facts',
-      'accessibility_ok', 'accessibility_needs',
+      'accessibility_ok', 'accessibility_needs', 'max_guests', 'host_hazards',
     ];
 
     const updates: Record<string, any> = {};
@@ -259,6 +267,13 @@ export async function PATCH(
       if (key in body) updates[key] = body[key];
     }
 
+    if ('max_guests' in updates) {
+      updates.max_guests = parseMaxGuests(updates.max_guests);
+      if (updates.max_guests === undefined) {
+        return NextResponse.json({ error: MAX_GUESTS_ERROR }, { status: 400 });
+      }
+    }
+
     // Handle coordinates
     if (body.coordinates && typeof body.coordinates.lat === 'number' && typeof body.coordinates.lng === 'number') {
       updates.coordinates = `(${body.coordinates.lng},${body.coordinates.lat})`;
@@ -6,6 +6,7 @@ import {
   parseCourseSchedules,
   type CourseTimingOffsets,
 } from '@/lib/envelope/timing';
+import { notifyChangedEnvelopes } from '@/lib/envelope/notify';
 import { cascadeChanges } from '@/lib/matching/cascade';
 import { parsePoint } from '@/lib/geo';
 import type { Course } from '@/types/database';
@@ -351,10 +352,17 @@ export async function POST(
     },
   });
 
+  const notified = await notifyChangedEnvelopes(
+    supabase,
+    eventId,
+    placements.map(p => ({ couple_id: p.guest_couple_id, course: p.course }))
+  );
+
   return NextResponse.json({
     success: true,
     pairings_created: placements.length,
     envelopes_created: envelopesToInsert.length,
     afterparty_envelopes_created: afterpartyCreated,
+    notified: notified.filter(r => r.status === 'sent' || r.status === 'queued').length,
   });
 }
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getOrganizer, checkEventAccess } from '@/lib/auth';
-import { parsePoint, getCyclingDistance, type Coordinates } from '@/lib/geo';
+import { parsePoint, type Coordinates } from '@/lib/geo';
+import { getCyclingRoutes } from '@/lib/routing';
 
 interface RouteContext {
   params: Promise<{ eventId: string }>;
@@ -67,26 +68,19 @@ export async function GET(request: Request, context: RouteContext) {
   // Calculate cycling distances for all other couples
   const others = (couples || []).filter((c: any) => c.id !== coupleId);
   
-  // Build distances: use ORS cycling for each pair (parallel, max 5 concurrent)
+  // Build distances: cycling route to each couple (cached, parallel)
   const distanceMap = new Map<string, { km: number; min: number; source: string }>();
   
   if (sourceCoords) {
     const targets = others
       .map(c => ({ id: c.id, coords: parsePoint(c.coordinates) }))
-      .filter(t => t.coords !== null);
+      .filter((t): t is { id: string; coords: Coordinates } => t.coords !== null);
     
-    // Batch parallel requests (5 at a time to stay within rate limits)
-    const BATCH_SIZE = 5;
-    for (let i = 0; i < targets.length; i += BATCH_SIZE) {
-      const batch = targets.slice(i, i + BATCH_SIZE);
-      const results = await Promise.all(
-        batch.map(async (t) => {
-          const dist = await getCyclingDistance(sourceCoords, t.coords!);
-          return { id: t.id, dist };
-        })
-      );
-      results.forEach(r => distanceMap.set(r.id, { km: r.dist.distance_km, min: r.dist.duration_min, source: r.dist.source }));
-    }
+    const routes = await getCyclingRoutes(
+      targets.map(t => ({ from: sourceCoords, to: t.coords })),
+      { supabase, concurrency: 5 }
+    );
+    targets.forEach((t, i) => distanceMap.set(t.id, { km: routes[i].distance_km, min: routes[i].duration_min, source: routes[i].source }));
   }
 
   const otherCouples = others.map((c: any) => {
@@ -176,4 +170,4 @@ export async function PUT(request: Request, context: RouteContext) {
   return NextResponse.json({ ok: true });
 }
 
-// (haversine removed - using getCyclingDistance from @/lib/geo instead)
+// (haversine removed - using getCyclingRoutes from @/lib/routing instead)
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { requireEventAccess } from '@/lib/auth';
 import { cascadeChanges } from '@/lib/matching/cascade';
+import { capacityOf } from '@/lib/matching/step-a';
 import {
   calculateEnvelopeTimes,
   parseCourseSchedules,
@@ -66,7 +67,7 @@ export async function POST(
   // Validate the couple exists, is not cancelled, and has an address
   const { data: couple } = await supabase
     .from('couples')
-    .select('id, invited_name, partner_name, address, address_notes, cancelled, coordinates')
+    .select('id, invited_name, partner_name, address, address_notes, cancelled, coordinates, max_guests')
     .eq('id', couple_id)
     .eq('event_id', eventId)
     .single();
@@ -95,9 +96,6 @@ export async function POST(
     return NextResponse.json({ error: 'Couple is already a host for this course' }, { status: 400 });
   }
 
-  // Default max_guests for a new host (generous default)
-  const maxGuests = couple.partner_name ? 8 : 6;
-
   // Create host assignment
   const { error: assignmentError } = await supabase
     .from('assignments')
@@ -106,7 +104,7 @@ export async function POST(
       couple_id: couple_id,
       course,
       is_host: true,
-      max_guests: maxGuests,
+      max_guests: capacityOf(couple),
       is_flex_host: false,
       flex_extra_capacity: 0,
       is_emergency_host: false,
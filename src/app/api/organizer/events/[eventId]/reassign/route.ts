@@ -6,10 +6,14 @@ import {
   parseCourseSchedules,
   type CourseTimingOffsets,
 } from '@/lib/envelope/timing';
-import { parsePoint, getCyclingDistance, type Coordinates } from '@/lib/geo';
+import { parsePoint, type Coordinates } from '@/lib/geo';
+import { routeEnvelopeLegs, legKey } from '@/lib/envelope/legs';
+import { notifyChangedEnvelopes } from '@/lib/envelope/notify';
 import { cascadeChanges } from '@/lib/matching/cascade';
-import { checkCapacityWarning } from '@/lib/matching/policy';
-import type { Course } from '@/types/database';
+import { checkAllergyWarning, checkCapacityWarning } from '@/lib/matching/policy';
+import type { Course, MealCourse } from '@/types/database';
+
+const COURSE_ORDER: MealCourse[] = ['starter', 'main', 'dessert'];
 
 /**
  * POST /api/organizer/events/[eventId]/reassign
@@ -19,6 +23,7 @@ import type { Course } from '@/types/database';
  *
  * - Deletes old pairing + cancels old envelope
  * - Creates new pairing + envelope with correct timing
+ * - Re-times the guest's next-course envelope for the leg from the new host
  * - If guest has no existing pairing for the course, just places them (like /place)
  */
 export async function POST(
@@ -117,6 +122,14 @@ export async function POST(
   });
   const overCapacity = Boolean(capacityWarning);
 
+  // Check allergies vs host's home (warn but don't block - organizer decides)
+  const allergyWarning = await checkAllergyWarning({
+    supabase,
+    eventId,
+    hostCoupleId: new_host_couple_id,
+    guestCoupleId: guest_couple_id,
+  });
+
   // --- Remove old pairing + envelope for this guest + course ---
   let oldHostName: string | null = null;
 
@@ -176,20 +189,35 @@ export async function POST(
 
   const courseOffsets: CourseTimingOffsets = event.course_timing_offsets || {};
 
-  // Calculate cycling distance between guest and new host
-  const guestCoords = parsePoint(guestCouple.coordinates);
-  const hostCoords = parsePoint(newHostCouple.coordinates);
-  let cyclingDistanceKm: number | null = null;
-  let cyclingMinutes: number | null = null;
-
-  if (guestCoords && hostCoords) {
-    try {
-      const dist = await getCyclingDistance(guestCoords, hostCoords);
-      cyclingDistanceKm = dist.distance_km;
-      cyclingMinutes = dist.duration_min;
-    } catch { /* fallback to null */ }
+  // Cycling leg from wherever the guest has the previous course (home before the starter)
+  const { data: guestEnvelopes } = await supabase
+    .from('envelopes')
+    .select('id, couple_id, course, host_couple_id')
+    .eq('match_plan_id', matchPlanId)
+    .eq('couple_id', guest_couple_id)
+    .neq('course', course)
+    .neq('cancelled', true);
+
+  const legEnvelopes = [
+    ...(guestEnvelopes ?? []),
+    { couple_id: guest_couple_id, course, host_couple_id: new_host_couple_id },
+  ];
+  const { data: legCouples } = await supabase
+    .from('couples')
+    .select('id, coordinates')
+    .in('id', [...new Set([guest_couple_id, ...legEnvelopes.map(e => e.host_couple_id).filter(Boolean)])]);
+
+  const coordinates = new Map<string, Coordinates>();
+  for (const c of legCouples ?? []) {
+    const coords = parsePoint(c.coordinates);
+    if (coords) coordinates.set(c.id, coords);
   }
 
+  const legs = await routeEnvelopeLegs(legEnvelopes, coordinates, { supabase });
+  const leg = legs.get(legKey(guest_couple_id, course));
+  const cyclingDistanceKm = leg?.distance_km ?? null;
+  const cyclingMinutes = leg?.duration_min ?? null;
+
   const times = calculateEnvelopeTimes(
     courseStartTimes[course],
     timing ?? {},
@@ -226,6 +254,29 @@ export async function POST(
     );
   }
 
+  // The guest now cycles to the following course from the new host
+  const nextCourse = COURSE_ORDER[COURSE_ORDER.indexOf(course as MealCourse) + 1];
+  const nextEnvelope = nextCourse && guestEnvelopes?.find(e => e.course === nextCourse);
+  if (nextEnvelope) {
+    const nextLeg = legs.get(legKey(guest_couple_id, nextCourse));
+    const nextTimes = calculateEnvelopeTimes(
+      courseStartTimes[nextCourse],
+      timing ?? {},
+      nextLeg?.duration_min,
+      courseOffsets[nextCourse]
+    );
+
+    await supabase
+      .from('envelopes')
+      .update({
+        cycling_distance_km: nextLeg?.distance_km ?? null,
+        cycling_minutes: nextLeg?.duration_min ?? null,
+        street_at: nextTimes.street_at.toISOString(),
+        number_at: nextTimes.number_at.toISOString(),
+      })
+      .eq('id', nextEnvelope.id);
+  }
+
   // Log
   const guestName = guestCouple.partner_name
     ? `${guestCouple.invited_name} & ${guestCouple.partner_name}`
@@ -247,9 +298,13 @@ export async function POST(
       new_host: newHostName,
       over_capacity: overCapacity,
       capacity_warning: capacityWarning?.message ?? null,
+      allergy_warning: allergyWarning?.message ?? null,
     },
   });
 
+  // A guest who already got clues about the old host hears about the move
+  const notified = await notifyChangedEnvelopes(supabase, eventId, [{ couple_id: guest_couple_id, course }]);
+
   return NextResponse.json({
     success: true,
     guest_name: guestName,
@@ -258,5 +313,7 @@ export async function POST(
     new_host: newHostName,
     over_capacity: overCapacity,
     capacity_warning: capacityWarning?.message ?? null,
+    allergy_warning: allergyWarning?.message ?? null,
+    notified: notified.filter(r => r.status === 'sent' || r.status === 'queued').length,
   });
 }
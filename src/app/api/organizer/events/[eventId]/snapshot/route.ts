@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requireEventAccess } from '@/lib/auth';
+import type { MatchSnapshot } from '@/lib/matching';
+import type { MatchingPreference } from '@/types/database';
+
+// Matching never looks at contact details - keep them out of exported files
+const CONTACT_FIELDS = [
+  'invited_email',
+  'invited_phone',
+  'partner_email',
+  'partner_phone',
+  'invited_user_id',
+] as const;
+
+/**
+ * GET /api/organizer/events/[eventId]/snapshot
+ *
+ * Everything matching needs for this event as one JSON file, for running
+ * scripts/match-offline.ts locally when reproducing a bug report.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+
+    const auth = await requireEventAccess(eventId);
+    if (!auth.success) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: event } = await supabase
+      .from('events')
+      .select('*')
+      .eq('id', eventId)
+      .single();
+
+    if (!event) {
+      return NextResponse.json({ error: 'Event hittades inte' }, { status: 404 });
+    }
+
+    const { data: couples, error: couplesError } = await supabase
+      .from('couples')
+      .select('*')
+      .eq('event_id', eventId);
+
+    if (couplesError) {
+      return NextResponse.json({ error: 'Kunde inte hämta par', details: couplesError.message }, { status: 500 });
+    }
+
+    const { data: assignments } = await supabase
+      .from('assignments')
+      .select('*')
+      .eq('event_id', eventId);
+
+    const { data: blockedPairs } = await supabase
+      .from('blocked_pairs')
+      .select('couple_a_id, couple_b_id')
+      .eq('event_id', eventId);
+
+    const { data: preferences } = await supabase
+      .from('couple_preferences')
+      .select('couple_id, target_couple_id, preference')
+      .eq('event_id', eventId)
+      .neq('preference', 'neutral');
+
+    const snapshot: MatchSnapshot = {
+      exported_at: new Date().toISOString(),
+      event,
+      couples: (couples || []).map(couple => {
+        const stripped = { ...couple };
+        for (const field of CONTACT_FIELDS) stripped[field] = null;
+        return stripped;
+      }),
+      assignments: assignments || [],
+      blocked_pairs: (blockedPairs || []).map(bp => [bp.couple_a_id, bp.couple_b_id] as [string, string]),
+      preferences: (preferences || []) as MatchingPreference[],
+    };
+
+    return new NextResponse(JSON.stringify(snapshot, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="snapshot-${event.slug || eventId}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export snapshot error:', error);
+    return NextResponse.json({ error: 'Internt fel' }, { status: 500 });
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getOrganizer, checkEventAccess } from '@/lib/auth';
+import type { CourseTimingOffsets } from '@/lib/envelope/timing';
+import { sanitizeHintLimits } from '@/lib/envelope/hints';
+import type { MealCourse } from '@/types/database';
 
 const DEFAULT_TIMING = {
   teasing_minutes_before: 360,
@@ -12,6 +15,28 @@ const DEFAULT_TIMING = {
   distance_adjustment_enabled: true,
 };
 
+const OFFSET_FIELDS = [
+  'teasing_minutes_before', 'clue_1_minutes_before', 'clue_2_minutes_before',
+  'street_minutes_before', 'number_minutes_before',
+] as const;
+
+// Keep only known courses/fields with non-negative whole minutes
+function sanitizeCourseOffsets(value: unknown): CourseTimingOffsets {
+  const offsets: CourseTimingOffsets = {};
+  if (!value || typeof value !== 'object') return offsets;
+  for (const course of ['starter', 'main', 'dessert'] as MealCourse[]) {
+    const input = (value as Record<string, Record<string, unknown> | undefined>)[course];
+    if (!input || typeof input !== 'object') continue;
+    const courseOffsets: NonNullable<CourseTimingOffsets[MealCourse]> = {};
+    for (const field of OFFSET_FIELDS) {
+      const minutes = input[field];
+      if (typeof minutes === 'number' && Number.isInteger(minutes) && minutes >= 0) courseOffsets[field] = minutes;
+    }
+    if (Object.keys(courseOffsets).length > 0) offsets[course] = courseOffsets;
+  }
+  return offsets;
+}
+
 // GET /api/organizer/events/[eventId]/timing
 export async function GET(
   request: NextRequest,
@@ -26,7 +51,11 @@ export async function GET(
 
   const supabase = createAdminClient();
 
-  const { data: event } = await supabase.from('events').select('name').eq('id', eventId).single();
+  const { data: event } = await supabase
+    .from('events')
+    .select('name, event_date, starter_time, main_time, dessert_time, active_match_plan_id, course_timing_offsets, hint_limits')
+    .eq('id', eventId)
+    .single();
 
   let { data: timing } = await supabase
     .from('event_timing')
@@ -44,7 +73,39 @@ export async function GET(
     timing = newTiming;
   }
 
-  return NextResponse.json({ timing, eventName: event?.name || '' });
+  // Everyone's envelopes, so the page can preview the timeline before saving
+  const { data: envelopes } = event?.active_match_plan_id
+    ? await supabase
+      .from('envelopes')
+      .select('couple_id, course, cycling_distance_km, cycling_minutes')
+      .eq('match_plan_id', event.active_match_plan_id)
+      .in('course', ['starter', 'main', 'dessert'])
+      .neq('cancelled', true)
+    : { data: [] };
+
+  const { data: couples } = await supabase
+    .from('couples')
+    .select('id, invited_name, partner_name')
+    .eq('event_id', eventId)
+    .eq('cancelled', false);
+
+  return NextResponse.json({
+    timing,
+    eventName: event?.name || '',
+    courseOffsets: event?.course_timing_offsets || {},
+    hintLimits: event?.hint_limits || {},
+    schedule: event ? {
+      event_date: event.event_date,
+      starter_time: event.starter_time,
+      main_time: event.main_time,
+      dessert_time: event.dessert_time,
+    } : null,
+    envelopes: envelopes ?? [],
+    couples: (couples ?? []).map(c => ({
+      id: c.id,
+      name: c.partner_name ? `${c.invited_name} & ${c.partner_name}` : c.invited_name,
+    })),
+  });
 }
 
 // PATCH /api/organizer/events/[eventId]/timing
@@ -71,6 +132,24 @@ export async function PATCH(
   }
 
   const supabase = createAdminClient();
+
+  // Per-course overrides live on the event, not in event_timing
+  if ('course_timing_offsets' in updates) {
+    const { error: offsetsError } = await supabase
+      .from('events')
+      .update({ course_timing_offsets: sanitizeCourseOffsets(updates.course_timing_offsets) })
+      .eq('id', eventId);
+    if (offsetsError) return NextResponse.json({ error: offsetsError.message }, { status: 500 });
+  }
+
+  if ('hint_limits' in updates) {
+    const { error: hintsError } = await supabase
+      .from('events')
+      .update({ hint_limits: sanitizeHintLimits(updates.hint_limits) })
+      .eq('id', eventId);
+    if (hintsError) return NextResponse.json({ error: hintsError.message }, { status: 500 });
+  }
+
   const { data: timing, error } = await supabase
     .from('event_timing')
     .update(filtered)
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { requireEventAccess } from '@/lib/auth';
-import { cascadeChanges } from '@/lib/matching/cascade';
+import { notifyChangedEnvelopes } from '@/lib/envelope/notify';
+import { cascadeChanges, type CascadeResult } from '@/lib/matching/cascade';
 import type { Course } from '@/types/database';
 
 /**
@@ -92,6 +93,7 @@ export async function POST(
   }
 
   const results: string[] = [];
+  const changedEnvelopes: CascadeResult['changedEnvelopes'] = [];
 
   for (const course of courses) {
     const cascade = await cascadeChanges({
@@ -116,11 +118,14 @@ export async function POST(
       continue;
     }
 
+    changedEnvelopes.push(...cascade.changedEnvelopes);
     results.push(
       `✅ ${course}: Värdskap överfört (${cascade.pairingsCreated} pairings, ${cascade.envelopesUpdated} kuvert)`
     );
   }
 
+  const notified = await notifyChangedEnvelopes(supabase, eventId, changedEnvelopes);
+
   // Log
   const fromName = fromCouple.partner_name
     ? `${fromCouple.invited_name} & ${fromCouple.partner_name}`
@@ -150,5 +155,6 @@ export async function POST(
     to_name: toName,
     courses,
     results,
+    notified: notified.filter(r => r.status === 'sent' || r.status === 'queued').length,
   });
 }
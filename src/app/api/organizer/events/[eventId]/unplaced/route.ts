@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { requireEventAccess } from '@/lib/auth';
-import type { Course } from '@/types/database';
+import { findPlacementBlockers, describeHazards } from '@/lib/matching/hazards';
+import type { Couple, Course } from '@/types/database';
 
 /**
  * GET /api/organizer/events/[eventId]/unplaced
  * 
  * Returns couples that have no pairings in the active match plan,
  * plus available hosts per course with current guest counts.
+ * Missing placements carry a reason when accessibility or allergies
+ * rule out every host that still has room.
  */
 export async function GET(
   request: NextRequest,
@@ -41,7 +44,7 @@ export async function GET(
   // Get all active (non-cancelled) couples
   const { data: allCouples } = await supabase
     .from('couples')
-    .select('id, invited_name, partner_name, address, person_count')
+    .select('id, invited_name, partner_name, address, person_count, accessibility_needs, accessibility_ok, invited_allergies, invited_pet_allergy, partner_allergies, partner_pet_allergy, replacement_name, replacement_allergies, host_hazards')
     .eq('event_id', eventId)
     .eq('cancelled', false)
     .eq('confirmed', true)
@@ -102,6 +105,7 @@ export async function GET(
     address: string;
     current_guests: number;
     max_guests: number;
+    accessible: boolean;
   }>> = { starter: [], main: [], dessert: [] };
 
   for (const a of assignments ?? []) {
@@ -122,6 +126,7 @@ export async function GET(
       address: couple.address,
       current_guests: currentGuests,
       max_guests: a.max_guests,
+      accessible: couple.accessibility_ok === true,
     });
   }
 
@@ -188,6 +193,7 @@ export async function GET(
       : c.invited_name,
     address: c.address,
     person_count: c.person_count,
+    accessibility_needs: c.accessibility_needs,
   }));
 
   // --- Per-course gaps: couples missing placement on specific courses ---
@@ -212,8 +218,27 @@ export async function GET(
     name: string;
     person_count: number;
     current_host_on_course: string | null;
+    reason: string | null;
   }>> = { starter: [], main: [], dessert: [] };
 
+  // Why nobody with room could take this couple (null = plain capacity)
+  const reasonFor = (c: typeof allCouples[number], course: Course): string | null => {
+    const hostsWithRoom = hostsByCourse[course]
+      .filter(h => h.couple_id !== c.id && h.max_guests - h.current_guests >= c.person_count)
+      .map(h => coupleMap.get(h.couple_id) as Couple);
+    if (hostsWithRoom.length === 0) return null;
+
+    const blockers = findPlacementBlockers(c as Couple, hostsWithRoom);
+    const reasons: string[] = [];
+    if (blockers.accessibility.length > 0) {
+      reasons.push(`♿ Behöver tillgänglig bostad (${c.accessibility_needs}) – ${blockers.accessibility.length} av ${hostsWithRoom.length} värdar med plats är inte tillgängliga`);
+    }
+    if (blockers.allergy.length > 0) {
+      reasons.push(`⚠️ Allergi: ${blockers.allergy.length} av ${hostsWithRoom.length} värdar med plats har ${describeHazards(blockers.hazards)}`);
+    }
+    return reasons.length > 0 ? reasons.join('. ') : null;
+  };
+
   // Build a lookup: coupleId:course -> host name (for context)
   const guestToHost = new Map<string, string>();
   for (const p of allPairingsDetailed ?? []) {
@@ -238,6 +263,7 @@ export async function GET(
           name: displayName,
           person_count: c.person_count,
           current_host_on_course: null,
+          reason: reasonFor(c, course),
         });
       }
     }
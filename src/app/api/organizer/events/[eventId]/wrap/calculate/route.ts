@@ -2,44 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { getOrganizer, checkEventAccess } from '@/lib/auth';
 import { countFunFacts } from '@/lib/fun-facts';
-import { parsePoint } from '@/lib/geo';
+import { calculateHaversineDistance, parsePoint } from '@/lib/geo';
+import { getCyclingRoutes } from '@/lib/routing';
+import { routeEnvelopeLegs, legKey } from '@/lib/envelope/legs';
 
-// 228 Mapbox requests in batches of 10 = ~25 seconds needed
+// 228 Mapbox requests in batches of 10 = ~25 seconds needed (uncached)
 export const maxDuration = 60;
 
 type Coord = { lat: number; lng: number };
 
-function haversineMeters(a: Coord, b: Coord): number {
-  const R = 6371000;
-  const dLat = (b.lat - a.lat) * Math.PI / 180;
-  const dLng = (b.lng - a.lng) * Math.PI / 180;
-  const x = Math.sin(dLat / 2) ** 2 +
-    Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) *
-    Math.sin(dLng / 2) ** 2;
-  return R * 2 * Math.atan2(Math.sqrt(x), Math.sqrt(1 - x));
-}
-
-async function getCyclingMeters(from: Coord, to: Coord): Promise<number> {
-  // Skip zero-distance legs (same location, e.g. hosting at home)
-  if (haversineMeters(from, to) < 10) return 0;
-  
-  const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
-  if (!token) return haversineMeters(from, to);
-  try {
-    const url = `https://api.mapbox.com/directions/v5/mapbox/cycling/${from.lng},${from.lat};${to.lng},${to.lat}?overview=false&access_token=${token}`;
-    const res = await fetch(url);
-    if (!res.ok) throw new Error();
-    const data = await res.json();
-    return data.routes?.[0]?.distance ?? haversineMeters(from, to);
-  } catch {
-    return haversineMeters(from, to);
-  }
-}
-
-function metersToKm(meters: number): number {
-  return Math.round(meters / 10) / 100;
-}
-
 interface CoupleRoute {
   coupleId: string;
   name: string;
@@ -97,7 +68,7 @@ export async function POST(
   const { data: envelopes } = matchPlanId
     ? await supabase
         .from('envelopes')
-        .select('couple_id, host_couple_id, course')
+        .select('id, couple_id, host_couple_id, course, cancelled')
         .eq('match_plan_id', matchPlanId)
     : { data: [] };
 
@@ -122,32 +93,25 @@ export async function POST(
     coupleHosts.get(e.couple_id)!.set(e.course, e.host_couple_id);
   });
 
-  // Backfill envelope cycling distances (home → host)
+  // Backfill envelope legs (previous course → host)
   if (matchPlanId && envelopes?.length) {
+    const legs = await routeEnvelopeLegs(envelopes, coupleCoords, { supabase });
     const BATCH = 10;
     for (let i = 0; i < envelopes.length; i += BATCH) {
       const chunk = envelopes.slice(i, i + BATCH);
-      const distances = await Promise.all(
-        chunk.map(async (env: any) => {
-          if (!env.host_couple_id) return { env, distanceKm: null };
-          if (env.couple_id === env.host_couple_id) return { env, distanceKm: 0 };
-          const from = coupleCoords.get(env.couple_id);
-          const to = coupleCoords.get(env.host_couple_id);
-          if (!from || !to) return { env, distanceKm: null };
-          const meters = await getCyclingMeters(from, to);
-          return { env, distanceKm: metersToKm(meters) };
-        })
-      );
-
       await Promise.all(
-        distances.map(({ env, distanceKm }) =>
-          supabase
+        chunk.map((env: any) => {
+          const leg = legs.get(legKey(env.couple_id, env.course));
+          return supabase
             .from('envelopes')
-            .update({ cycling_distance_km: distanceKm })
+            .update({
+              cycling_distance_km: leg?.distance_km ?? null,
+              cycling_minutes: leg?.duration_min ?? null,
+            })
             .eq('match_plan_id', matchPlanId)
             .eq('couple_id', env.couple_id)
-            .eq('course', env.course)
-        )
+            .eq('course', env.course);
+        })
       );
     }
   }
@@ -221,20 +185,9 @@ export async function POST(
     coupleRoutes.push({ coupleId: couple.id, name, legs, totalMeters: 0, hostingCourse });
   }
 
-  // Batch cycling distance calculation (25 concurrent for speed)
-  const BATCH = 25;
-  const legDistances = new Map<number, number>(); // index → meters
-  
-  for (let i = 0; i < allLegs.length; i += BATCH) {
-    const chunk = allLegs.slice(i, i + BATCH);
-    const results = await Promise.all(
-      chunk.map(async (leg, j) => ({
-        index: i + j,
-        meters: await getCyclingMeters(leg.from, leg.to),
-      }))
-    );
-    results.forEach(r => legDistances.set(r.index, r.meters));
-  }
+  // Cycling distance per leg (25 concurrent for speed)
+  const legRoutes = await getCyclingRoutes(allLegs, { supabase, concurrency: 25 });
+  const legDistances = new Map<number, number>(legRoutes.map((r, i) => [i, r.distance_km * 1000])); // index → meters
 
   // Sum per couple
   let legIndex = 0;
@@ -335,7 +288,7 @@ export async function POST(
     const coupleIdList = [...coupleCoords.keys()];
     for (let i = 0; i < coupleIdList.length; i++) {
       for (let j = i + 1; j < coupleIdList.length; j++) {
-        const d = haversineMeters(coupleCoords.get(coupleIdList[i])!, coupleCoords.get(coupleIdList[j])!);
+        const d = calculateHaversineDistance(coupleCoords.get(coupleIdList[i])!, coupleCoords.get(coupleIdList[j])!) * 1000;
         if (d > maxSpanMeters) {
           maxSpanMeters = d;
           spanPairNames = [coupleNames.get(coupleIdList[i]) || '?', coupleNames.get(coupleIdList[j]) || '?'];
@@ -413,6 +366,18 @@ export async function POST(
     }
   }
 
+  // --- Extra hints: guest envelopes guessed without asking for one ---
+  const guestEnvelopes = envelopeList.filter(e =>
+    !e.cancelled && e.course !== 'afterparty' && e.host_couple_id && e.host_couple_id !== e.couple_id
+  );
+  const { data: hints } = guestEnvelopes.length
+    ? await supabase
+        .from('envelope_hints')
+        .select('envelope_id')
+        .in('envelope_id', guestEnvelopes.map(e => e.id))
+    : { data: [] };
+  const hintedEnvelopes = new Set((hints ?? []).map(h => h.envelope_id));
+
   const existing = event?.wrap_stats || {};
 
   // Build person-weighted total: couples ride together, so multiply by persons in each couple
@@ -445,6 +410,9 @@ export async function POST(
     neighbor_pairs: neighborPairs.slice(0, 10), // top 10
     fun_facts_count: funFactsCount,
     couples_with_routes: distances.length,
+    hints_used: hints?.length ?? 0,
+    guest_envelopes: guestEnvelopes.length,
+    solved_without_hints: guestEnvelopes.filter(e => !hintedEnvelopes.has(e.id)).length,
     distance_source: 'cycling',
     // Preserve manual fields
     last_guest_departure: existing.last_guest_departure || null,
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { sendEmail } from '@/lib/email';
+import { emailBranding, formatEmailDate, renderEmail } from '@/lib/emails';
 import { randomBytes } from 'crypto';
 import { getOrganizer, checkEventAccess } from '@/lib/auth';
 import { verifyToken } from '@/lib/tokens';
@@ -26,7 +27,7 @@ export async function POST(request: Request) {
     // Get couple
     const { data: couple, error: coupleError } = await supabase
       .from('couples')
-      .select('*, events(slug, name)')
+      .select('*, events(id, slug, name, event_date, email_branding)')
       .eq('id', couple_id)
       .eq('cancelled', false)
       .single();
@@ -100,16 +101,17 @@ export async function POST(request: Request) {
     
     const partnerEmail = couple.partner_email;
     const partnerName = couple.partner_name;
-    const invitedName = couple.invited_name;
-    const eventName = couple.events?.name || 'Cykelfesten';
-    const profileUrl = inviteUrl;
 
-    const { error: emailError } = await sendEmail({
-      to: partnerEmail,
-      subject: `${invitedName} har anmält er till ${eventName}`,
-      html: `<p>Hej ${partnerName}!</p><p>${invitedName} har anmält er till <strong>${eventName}</strong>.</p><p>Fyll i din profil här: <a href="${profileUrl}">${profileUrl}</a></p>`,
+    const email = await renderEmail('partner_invite', {
+      branding: emailBranding(couple.events),
+      partnerName,
+      invitedName: couple.invited_name,
+      eventDate: formatEmailDate(couple.events.event_date),
+      profileUrl: inviteUrl,
     });
 
+    const { error: emailError } = await sendEmail({ to: partnerEmail, ...email });
+
     if (emailError) {
       console.error('Partner invite email error:', emailError);
       return NextResponse.json({ error: 'Kunde inte skicka inbjudan' }, { status: 500 });
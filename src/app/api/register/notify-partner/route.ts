@@ -3,6 +3,7 @@ import { createAdminClient } from '@/lib/supabase/server';
 import { resend, FROM_EMAIL } from '@/lib/resend';
 import { randomBytes } from 'crypto';
 import { checkRateLimit, getClientIp } from '@/lib/rate-limit';
+import { emailBranding, formatEmailDate, renderEmail } from '@/lib/emails';
 
 // POST /api/register/notify-partner
 // Called after registration to send partner invite email
@@ -33,7 +34,7 @@ export async function POST(request: NextRequest) {
 
     const { data: couple, error: coupleError } = await supabase
       .from('couples')
-      .select('id, invited_name, partner_name, partner_email, partner_invite_token, events(slug, name, event_date)')
+      .select('id, invited_name, partner_name, partner_email, partner_invite_token, events(slug, name, event_date, email_branding)')
       .eq('id', couple_id)
       .single();
 
@@ -60,33 +61,18 @@ export async function POST(request: NextRequest) {
     const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://cykelfesten.vercel.app';
     const partnerUrl = `${baseUrl}/e/${event.slug}/partner?token=${token}`;
 
-    const eventDate = new Date(event.event_date).toLocaleDateString('sv-SE', {
-      weekday: 'long',
-      day: 'numeric',
-      month: 'long',
-      year: 'numeric',
+    const email = await renderEmail('partner_invite', {
+      branding: emailBranding(event),
+      partnerName: couple.partner_name,
+      invitedName: couple.invited_name,
+      eventDate: formatEmailDate(event.event_date),
+      profileUrl: partnerUrl,
     });
 
     const { error: emailError } = await resend.emails.send({
       from: FROM_EMAIL,
       to: couple.partner_email,
-      subject: `🚴 ${couple.invited_name} har anmält er till ${event.name}!`,
-      html: `
-        <div style="font-family: system-ui, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h1 style="color: #7c3aed;">🚴 Cykelfesten</h1>
-          <p>Hej ${couple.partner_name}!</p>
-          <p><strong>${couple.invited_name}</strong> har anmält er till <strong>${event.name}</strong> den ${eventDate}.</p>
-          <p>Klicka på knappen nedan för att fylla i din egen profil — allergier, mysterieprofil och annat roligt:</p>
-          <p style="text-align: center; margin: 30px 0;">
-            <a href="${partnerUrl}" style="display: inline-block; background: #7c3aed; color: white; padding: 15px 30px; border-radius: 8px; text-decoration: none; font-weight: bold;">
-              Fyll i din profil →
-            </a>
-          </p>
-          <p style="color: #6b7280; font-size: 14px;">
-            Du kan uppdatera dina uppgifter när som helst innan festen.
-          </p>
-        </div>
-      `,
+      ...email,
     });
 
     if (emailError) {
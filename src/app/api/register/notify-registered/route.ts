@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { resend, FROM_EMAIL } from '@/lib/resend';
 import { checkRateLimit, getClientIp } from '@/lib/rate-limit';
+import { emailBranding, formatEmailDate, renderEmail } from '@/lib/emails';
 
 // POST /api/register/notify-registered
 // Sends confirmation email to the person who registered
@@ -32,7 +33,7 @@ export async function POST(request: NextRequest) {
 
     const { data: couple, error: coupleError } = await supabase
       .from('couples')
-      .select('id, invited_name, invited_email, partner_name, events(name, slug, event_date, starter_time, main_time, dessert_time)')
+      .select('id, invited_name, invited_email, partner_name, events(name, slug, event_date, starter_time, main_time, dessert_time, email_branding)')
       .eq('id', couple_id)
       .single();
 
@@ -46,42 +47,17 @@ export async function POST(request: NextRequest) {
     }
 
     const event = couple.events as any;
-    const eventDate = new Date(event.event_date).toLocaleDateString('sv-SE', {
-      weekday: 'long',
-      day: 'numeric',
-      month: 'long',
-      year: 'numeric',
+    const email = await renderEmail('registration_confirmed', {
+      branding: emailBranding(event),
+      name: couple.invited_name,
+      partnerName: couple.partner_name,
+      eventDate: formatEmailDate(event.event_date),
     });
 
-    const partnerLine = couple.partner_name
-      ? `<p>Du och <strong>${couple.partner_name}</strong> är nu anmälda! 🎉</p>`
-      : `<p>Du är nu anmäld! 🎉</p>`;
-
     const { error: emailError } = await resend.emails.send({
       from: FROM_EMAIL,
       to: couple.invited_email,
-      subject: `✅ Anmälan bekräftad — ${event.name}`,
-      html: `
-        <div style="font-family: system-ui, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h1 style="color: #d97706;">🚴 Cykelfesten</h1>
-          <p>Hej ${couple.invited_name}!</p>
-          ${partnerLine}
-          <div style="background: #fffbeb; border-radius: 12px; padding: 20px; margin: 20px 0;">
-            <h2 style="margin: 0 0 8px; color: #92400e;">${event.name}</h2>
-            <p style="margin: 0; color: #78350f;">${eventDate}</p>
-          </div>
-          <h3 style="color: #92400e;">Vad händer nu?</h3>
-          <ol style="color: #78350f;">
-            <li>Arrangören samlar in fler anmälningar</li>
-            <li>Matchningen körs — du får veta vilken rätt du lagar</li>
-            <li>Kvällen innan: förbered din rätt!</li>
-            <li>Festdagen: öppna kuvert och cykla! 🚴</li>
-          </ol>
-          <p style="color: #6b7280; font-size: 14px;">
-            Du kan alltid hitta din länk via event-sidan om du tappar bort den.
-          </p>
-        </div>
-      `,
+      ...email,
     });
 
     if (emailError) {
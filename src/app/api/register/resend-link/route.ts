@@ -3,6 +3,7 @@ import { createAdminClient } from '@/lib/supabase/server';
 import { resend, FROM_EMAIL } from '@/lib/resend';
 import { randomBytes } from 'crypto';
 import { createToken } from '@/lib/tokens';
+import { emailBranding, formatEmailDate, renderEmail } from '@/lib/emails';
 
 // POST /api/register/resend-link
 // Universal "send me my link" for guests and partners
@@ -22,7 +23,7 @@ export async function POST(request: NextRequest) {
     // Find event
     const { data: event } = await supabase
       .from('events')
-      .select('id, name, slug, event_date')
+      .select('id, name, slug, event_date, email_branding')
       .eq('slug', slug)
       .single();
 
@@ -32,7 +33,8 @@ export async function POST(request: NextRequest) {
     }
 
     const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://cykelfesten.vercel.app';
-    const links: string[] = [];
+    let guestUrl: string | null = null;
+    let partnerUrl: string | null = null;
     let recipientName = '';
 
     // Check if they're the invited person
@@ -47,7 +49,7 @@ export async function POST(request: NextRequest) {
     if (asInvited) {
       recipientName = asInvited.invited_name;
       const token = createToken(asInvited.id, 'invited');
-      links.push(`${baseUrl}/e/${event.slug}/live?token=${token}`);
+      guestUrl = `${baseUrl}/e/${event.slug}/live?token=${token}`;
     }
 
     // Check if they're a partner
@@ -70,47 +72,26 @@ export async function POST(request: NextRequest) {
           .update({ partner_invite_token: partnerToken })
           .eq('id', asPartner.id);
       }
-      links.push(`${baseUrl}/e/${event.slug}/partner?token=${partnerToken}`);
+      partnerUrl = `${baseUrl}/e/${event.slug}/partner?token=${partnerToken}`;
     }
 
-    if (links.length === 0) {
+    if (!guestUrl && !partnerUrl) {
       // Don't reveal whether email exists — always say "sent"
       return NextResponse.json({ success: true, message: 'Om din email finns i systemet får du en länk.' });
     }
 
-    // Build email
-    const eventDate = new Date(event.event_date).toLocaleDateString('sv-SE', {
-      weekday: 'long',
-      day: 'numeric',
-      month: 'long',
+    const linkEmail = await renderEmail('guest_link', {
+      branding: emailBranding(event),
+      name: recipientName,
+      eventDate: formatEmailDate(event.event_date),
+      guestUrl,
+      partnerUrl,
     });
 
-    const linksHtml = links.map((url, i) => {
-      const label = links.length === 1
-        ? 'Min sida →'
-        : i === 0 ? 'Min gästsida →' : 'Min partnerprofil →';
-      return `<p style="text-align: center; margin: 15px 0;">
-        <a href="${url}" style="display: inline-block; background: #d97706; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: bold;">
-          ${label}
-        </a>
-      </p>`;
-    }).join('');
-
     await resend.emails.send({
       from: FROM_EMAIL,
       to: normalizedEmail,
-      subject: `🔑 Din länk till ${event.name}`,
-      html: `
-        <div style="font-family: system-ui, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h1 style="color: #d97706;">🚴 Cykelfesten</h1>
-          <p>Hej${recipientName ? ` ${recipientName}` : ''}!</p>
-          <p>Här är din länk till <strong>${event.name}</strong> (${eventDate}):</p>
-          ${linksHtml}
-          <p style="color: #6b7280; font-size: 14px;">
-            Om du inte begärde denna länk kan du ignorera detta mail.
-          </p>
-        </div>
-      `,
+      ...linkEmail,
     });
 
     return NextResponse.json({ success: true, message: 'Om din email finns i systemet får du en länk.' });
@@ -3,6 +3,9 @@ import { createAdminClient } from '@/lib/supabase/server';
 import { verifyInviteToken } from '@/lib/tokens';
 import { checkRateLimit, getClientIp } from '@/lib/rate-limit';
 import { geocodeAddress } from '@/lib/geocode';
+import { HOST_HAZARDS } from '@/lib/matching/hazards';
+import { parseMaxGuests, MAX_GUESTS_ERROR } from '@/lib/matching/step-a';
+import { normaliseLocale } from '@/lib/i18n';
 
 // POST /api/register
 // Server-side registration: insert couple + trigger emails
@@ -20,7 +23,7 @@ const ALLOWED_FIELDS = new Set([
   'partner_birth_year', 'partner_fun_facts', 'partner_pet_allergy',
   'address', 'address_unit', 'address_notes', 'course_preference',
   'instagram_handle', 'accessibility_needs', 'accessibility_ok',
-  'coordinates',
+  'coordinates', 'max_guests', 'host_hazards', 'locale',
 ]);
 
 function validateAndSanitize(formData: Record<string, unknown>): { clean: Record<string, unknown>; errors: string[] } {
@@ -101,11 +104,22 @@ function validateAndSanitize(formData: Record<string, unknown>): { clean: Record
     }
   }
 
+  // Table capacity when hosting (2-20 guests, empty = default)
+  const seats = parseMaxGuests(clean.max_guests);
+  if (seats === undefined) {
+    errors.push(MAX_GUESTS_ERROR);
+  } else {
+    clean.max_guests = seats;
+  }
+
   // course_preference enum
   if (clean.course_preference && !['starter', 'main', 'dessert'].includes(clean.course_preference as string)) {
     clean.course_preference = null;
   }
 
+  // locale enum (unknown → Swedish)
+  clean.locale = normaliseLocale(clean.locale);
+
   // pet_allergy enum
   for (const field of ['invited_pet_allergy', 'partner_pet_allergy']) {
     if (clean[field] && !['none', 'cat', 'dog', 'both'].includes(clean[field] as string)) {
@@ -113,6 +127,13 @@ function validateAndSanitize(formData: Record<string, unknown>): { clean: Record
     }
   }
 
+  // host_hazards: subset of known hazards
+  if (clean.host_hazards !== undefined) {
+    clean.host_hazards = Array.isArray(clean.host_hazards)
+      ? [...new Set(clean.host_hazards.filter(h => (HOST_HAZARDS as unknown[]).includes(h)))]
+      : [];
+  }
+
   return { clean, errors };
 }
 
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { resend } from '@/lib/resend';
+
+// POST /api/webhooks/resend
+// Resend reports bounces after it accepted the email; mark those
+// notifications bounced so the organizer sees the bad address.
+// Subscribe to email.bounced and set RESEND_WEBHOOK_SECRET.
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: 'Webhook not configured' }, { status: 503 });
+  }
+
+  const payload = await request.text();
+
+  let event;
+  try {
+    event = resend.webhooks.verify({
+      payload,
+      headers: {
+        id: request.headers.get('svix-id') ?? '',
+        timestamp: request.headers.get('svix-timestamp') ?? '',
+        signature: request.headers.get('svix-signature') ?? '',
+      },
+      webhookSecret: secret,
+    });
+  } catch {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  if (event.type !== 'email.bounced') {
+    return NextResponse.json({ ignored: event.type });
+  }
+
+  const supabase = createAdminClient();
+  const { error } = await supabase
+    .from('notifications')
+    .update({ status: 'bounced', last_error: `bounce: ${event.data.bounce.message}` })
+    .eq('provider_message_id', event.data.email_id);
+
+  if (error) {
+    return NextResponse.json({ error: 'Database error', details: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
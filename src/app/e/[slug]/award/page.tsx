@@ -27,6 +27,7 @@ const DEFAULT_ENABLED_AWARDS = [
   'first_signup', 'last_signup',
   'furthest_from_center', 'closest_to_center',
   'most_fun_facts',
+  'master_detective',
   'wildcard', 'social_butterfly', 'mystery_guest',
   'perfect_host', 'party_starter', 'night_owl',
 ];
@@ -143,6 +144,12 @@ export default function AwardPage() {
       case 'only_vegetarian':
         return `${displayName} representerar det gröna på bordet! Tack för att du visar att god mat kan vara hållbar.`;
       
+      case 'master_detective':
+        return `${displayName} listade ut värden före alla andra${value ? ` — ${value}` : ''}. Sherlock skulle vara stolt!`;
+      
+      case 'clueless':
+        return `${displayName} gissade fel på varenda värd. Men tänk så roligt det var att bli överraskad!`;
+      
       case 'wildcard':
         return `${displayName} drog wildcarden! Slumpen valde dig till något alldeles speciellt.`;
       
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { countFunFacts, normaliseFunFacts } from '@/lib/fun-facts';
+import { HostArrivals } from '@/components/envelope/HostArrivals';
 
 // Age clue generator
 function getAgeClue(birthYear: number): string {
@@ -222,6 +223,9 @@ export default function HostPage() {
           </div>
         </div>
         
+        {/* Live arrivals + check-in */}
+        <HostArrivals slug={slug} />
+        
         {/* Guest clues */}
         <div className="bg-gradient-to-br from-purple-50 to-indigo-50 rounded-xl p-6 shadow-lg mb-6 border border-purple-100">
           <h2 className="text-lg font-semibold text-purple-900 mb-2">
@@ -5,6 +5,7 @@
  * 
  * Shows the guest's envelope with progressive reveals.
  * Auth: reads guest_session cookie via /api/guest/couple server-side route.
+ * A ?token= link (notifications, guest link email) is exchanged for that session first.
  */
 
 import { useParams, useSearchParams } from 'next/navigation';
@@ -31,11 +32,20 @@ export default function LiveEnvelopePage() {
 
   // Support organizer preview: ?coupleId=xxx overrides guest_session lookup
   const previewCoupleId = searchParams.get('coupleId');
+  const token = searchParams.get('token');
 
   useEffect(() => {
     async function load() {
       setLoading(true);
       try {
+        if (token && !previewCoupleId) {
+          await fetch('/api/auth/guest-token', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ token }),
+          });
+        }
+
         const url = previewCoupleId
           ? `/api/guest/couple?slug=${encodeURIComponent(slug)}&coupleId=${encodeURIComponent(previewCoupleId)}`
           : `/api/guest/couple?slug=${encodeURIComponent(slug)}`;
@@ -71,7 +81,7 @@ export default function LiveEnvelopePage() {
     }
 
     load();
-  }, [slug, previewCoupleId]);
+  }, [slug, previewCoupleId, token]);
 
   if (loading) {
     return (
@@ -165,6 +175,7 @@ export default function LiveEnvelopePage() {
             coupleId={couple.id}
             pollInterval={30000}
             simulateTime={searchParams.get('simulateTime') || undefined}
+            pushSubscriptionUrl={previewCoupleId ? undefined : `/api/guest/push-subscription?slug=${encodeURIComponent(slug)}`}
           />
         )}
       </div>
@@ -62,6 +62,16 @@ export default function MyPage() {
     setError(null);
 
     try {
+      // Links in notifications carry ?token=; swap it for a guest session first
+      const token = new URLSearchParams(window.location.search).get('token');
+      if (token) {
+        await fetch('/api/auth/guest-token', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+      }
+
       const res = await fetch(`/api/guest/my-data?slug=${encodeURIComponent(slug)}`);
       const data = await res.json();
 
@@ -3,8 +3,9 @@
 import { useState, useEffect, Suspense } from 'react';
 import Link from 'next/link';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
-import type { Course } from '@/types/database';
+import type { Course, HostHazard, Locale } from '@/types/database';
 import AddressAutocomplete from '@/components/AddressAutocomplete';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_LABELS } from '@/lib/i18n';
 
 export default function RegisterPage() {
   return (
@@ -68,11 +69,14 @@ function RegisterForm() {
     address_unit: '',
     address_notes: '',
     course_preference: '' as Course | '',
+    locale: DEFAULT_LOCALE as Locale,
     instagram_handle: '',
     invited_pet_allergy: 'none',
     partner_pet_allergy: 'none',
     accessibility_needs: '',
     accessibility_ok: true,
+    max_guests: '',
+    host_hazards: [] as HostHazard[],
   });
   
   // Verify invite token on mount
@@ -149,11 +153,14 @@ function RegisterForm() {
           address_unit: form.address_unit || null,
           address_notes: form.address_notes || null,
           course_preference: form.course_preference || null,
+          locale: form.locale,
           instagram_handle: form.instagram_handle || null,
           invited_pet_allergy: form.invited_pet_allergy,
           partner_pet_allergy: hasPartner ? form.partner_pet_allergy : 'none',
           accessibility_needs: form.accessibility_needs || null,
           accessibility_ok: form.accessibility_ok,
+          max_guests: form.max_guests ? parseInt(form.max_guests) : null,
+          host_hazards: form.host_hazards,
         }),
       });
       
@@ -330,8 +337,9 @@ function RegisterForm() {
                   className="w-full px-4 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
                 >
                   <option value="none">Ingen djurallergi</option>
-                  <option value="mild">Mild (klarar kortare besök)</option>
-                  <option value="severe">Allvarlig (undvik helt)</option>
+                  <option value="cat">Katt</option>
+                  <option value="dog">Hund</option>
+                  <option value="both">Katt & hund</option>
                 </select>
               </div>
             </div>
@@ -399,8 +407,9 @@ function RegisterForm() {
                     className="w-full px-4 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
                   >
                     <option value="none">Ingen djurallergi</option>
-                    <option value="mild">Mild (klarar kortare besök)</option>
-                    <option value="severe">Allvarlig (undvik helt)</option>
+                    <option value="cat">Katt</option>
+                    <option value="dog">Hund</option>
+                    <option value="both">Katt & hund</option>
                   </select>
                 </div>
               </div>
@@ -773,6 +782,72 @@ function RegisterForm() {
                 </select>
               </div>
               
+              <div>
+                <label className="block text-sm font-medium text-amber-700 mb-1">
+                  Så många gäster får plats vid vårt bord
+                </label>
+                <select
+                  name="max_guests"
+                  value={form.max_guests}
+                  onChange={handleChange}
+                  className="w-full px-4 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+                >
+                  <option value="">Vet inte (vi löser det)</option>
+                  {[2, 4, 6, 8, 10, 12].map(n => (
+                    <option key={n} value={n}>{n} gäster</option>
+                  ))}
+                </select>
+                <p className="text-xs text-amber-600 mt-1">
+                  Räkna gästerna utöver er själva.
+                </p>
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-amber-700 mb-1">
+                  Finns något av detta hemma hos er?
+                </label>
+                <div className="flex flex-wrap gap-4">
+                  {([['cat', '🐈 Katt'], ['dog', '🐕 Hund'], ['nuts', '🥜 Vi lagar med nötter']] as [HostHazard, string][]).map(([hazard, label]) => (
+                    <label key={hazard} className="flex items-center gap-2 text-amber-900">
+                      <input
+                        type="checkbox"
+                        checked={form.host_hazards.includes(hazard)}
+                        onChange={(e) => setForm(prev => ({
+                          ...prev,
+                          host_hazards: e.target.checked
+                            ? [...prev.host_hazards, hazard]
+                            : prev.host_hazards.filter(h => h !== hazard),
+                        }))}
+                        className="w-5 h-5 rounded border-amber-300 text-amber-500 focus:ring-amber-500"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-amber-600 mt-1">
+                  Gäster med allergi mot detta placeras inte hos er.
+                </p>
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-amber-700 mb-1">
+                  Språk för kuvert och ledtrådar / Language
+                </label>
+                <select
+                  name="locale"
+                  value={form.locale}
+                  onChange={handleChange}
+                  className="w-full px-4 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+                >
+                  {LOCALES.map(locale => (
+                    <option key={locale} value={locale}>{LOCALE_LABELS[locale]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-amber-600 mt-1">
+                  Choose English if you&apos;d rather get your envelope and clues in English.
+                </p>
+              </div>
+              
               <div>
                 <label className="block text-sm font-medium text-amber-700 mb-1">
                   Instagram (valfritt)
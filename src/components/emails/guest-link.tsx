@@ -0,0 +1,35 @@
+import * as React from 'react';
+import type { EmailBranding } from '@/lib/emails/settings';
+import { EmailButton, EmailLayout } from './layout';
+
+export interface GuestLinkEmailProps {
+  branding: EmailBranding;
+  name?: string | null;
+  eventDate: string;
+  /** Live page link when the address is the invited person's */
+  guestUrl?: string | null;
+  /** Partner profile link when the address is the partner's */
+  partnerUrl?: string | null;
+}
+
+export function GuestLinkEmail({ branding, name, eventDate, guestUrl, partnerUrl }: GuestLinkEmailProps) {
+  const both = !!guestUrl && !!partnerUrl;
+
+  return (
+    <EmailLayout
+      branding={branding}
+      preview={`Din länk till ${branding.eventName}`}
+      footer={<p style={{ margin: 0 }}>Om du inte begärde denna länk kan du ignorera detta mail.</p>}
+    >
+      <p>Hej{name ? ` ${name}` : ''}!</p>
+      <p>Här är din länk till <strong>{branding.eventName}</strong> ({eventDate}):</p>
+
+      {guestUrl && (
+        <EmailButton href={guestUrl} color={branding.accentColor}>{both ? 'Min gästsida →' : 'Min sida →'}</EmailButton>
+      )}
+      {partnerUrl && (
+        <EmailButton href={partnerUrl} color={branding.accentColor}>{both ? 'Min partnerprofil →' : 'Min sida →'}</EmailButton>
+      )}
+    </EmailLayout>
+  );
+}
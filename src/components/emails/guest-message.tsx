@@ -0,0 +1,26 @@
+import * as React from 'react';
+import type { EmailBranding } from '@/lib/emails/settings';
+import { EmailLayout, EmailPanel, Paragraphs } from './layout';
+
+export interface GuestMessageEmailProps {
+  branding: EmailBranding;
+  name?: string | null;
+  message: string;
+}
+
+/** Free text the organizer sends to all guests or one course */
+export function GuestMessageEmail({ branding, name, message }: GuestMessageEmailProps) {
+  return (
+    <EmailLayout
+      branding={branding}
+      preview={message.slice(0, 120)}
+      footer={<p style={{ margin: 0 }}>Detta meddelande skickades av arrangören för {branding.eventName}</p>}
+    >
+      <p>Hej{name ? ` ${name}` : ''}!</p>
+      <h2 style={{ margin: '0 0 8px', fontSize: '18px' }}>📢 Meddelande från arrangören</h2>
+      <EmailPanel color={branding.accentColor}>
+        <Paragraphs text={message.trim()} style={{ margin: '0 0 8px' }} />
+      </EmailPanel>
+    </EmailLayout>
+  );
+}
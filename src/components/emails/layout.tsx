@@ -0,0 +1,100 @@
+import * as React from 'react';
+import type { EmailBranding } from '@/lib/emails/settings';
+
+/**
+ * Shared frame for the participant emails: event header (logo or name in the
+ * accent colour), the organizer's sign-off and a footer. Inline styles only,
+ * mail clients drop <style>.
+ */
+
+interface EmailLayoutProps {
+  branding: EmailBranding;
+  /** Inbox preview line, hidden in the mail itself */
+  preview: string;
+  /** Why the person gets this mail, opt-out link etc. */
+  footer?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+export function EmailLayout({ branding, preview, footer, children }: EmailLayoutProps) {
+  return (
+    <html lang="sv">
+      <body style={{ margin: 0, padding: '20px 0', background: '#f9fafb' }}>
+        <div data-skip-in-text="true" style={{ display: 'none', overflow: 'hidden', maxHeight: 0, opacity: 0 }}>
+          {preview}
+        </div>
+        <div style={{ fontFamily: 'system-ui, sans-serif', maxWidth: '600px', margin: '0 auto', background: '#ffffff', borderRadius: '12px', overflow: 'hidden', color: '#1f2937' }}>
+          <div style={{ borderTop: `6px solid ${branding.accentColor}`, padding: '24px 24px 0' }}>
+            {branding.logoUrl ? (
+              // Mail clients can't load next/image
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={branding.logoUrl} alt={branding.eventName} style={{ maxHeight: '60px', maxWidth: '240px' }} />
+            ) : (
+              <h1 style={{ color: branding.accentColor, margin: 0, fontSize: '24px' }}>🚴 {branding.eventName}</h1>
+            )}
+          </div>
+
+          <div style={{ padding: '8px 24px 24px', fontSize: '16px', lineHeight: 1.5 }}>
+            {children}
+            {branding.signOff && (
+              <Paragraphs text={branding.signOff} style={{ margin: '24px 0 0', color: '#4b5563' }} />
+            )}
+          </div>
+        </div>
+
+        <div style={{ fontFamily: 'system-ui, sans-serif', maxWidth: '600px', margin: '0 auto', padding: '16px 24px', color: '#9ca3af', fontSize: '12px', textAlign: 'center' }}>
+          {footer}
+          <p style={{ margin: '8px 0 0' }}>Skickat från Cykelfesten</p>
+        </div>
+      </body>
+    </html>
+  );
+}
+
+export function EmailButton({ href, color, children }: { href: string; color: string; children: React.ReactNode }) {
+  return (
+    <p style={{ textAlign: 'center', margin: '28px 0' }}>
+      <a
+        href={href}
+        style={{
+          display: 'inline-block',
+          background: color,
+          color: '#ffffff',
+          padding: '14px 28px',
+          borderRadius: '8px',
+          textDecoration: 'none',
+          fontWeight: 'bold',
+        }}
+      >
+        {children}
+      </a>
+    </p>
+  );
+}
+
+/** Highlighted box, e.g. the event date or the organizer's own words */
+export function EmailPanel({ color, children }: { color: string; children: React.ReactNode }) {
+  return (
+    <div style={{ background: '#f9fafb', borderLeft: `4px solid ${color}`, borderRadius: '8px', padding: '16px 20px', margin: '20px 0' }}>
+      {children}
+    </div>
+  );
+}
+
+/** Plain text with blank lines between paragraphs and single line breaks kept */
+export function Paragraphs({ text, style }: { text: string; style?: React.CSSProperties }) {
+  return (
+    <>
+      {text.split(/\n\s*\n/).map((paragraph, i) => (
+        <p key={i} style={style}>
+          {paragraph.split('\n').map((line, j) => (
+            <React.Fragment key={j}>
+              {j > 0 && <br />}
+              {line}
+            </React.Fragment>
+          ))}
+        </p>
+      ))}
+    </>
+  );
+}
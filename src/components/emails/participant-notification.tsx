@@ -0,0 +1,33 @@
+import * as React from 'react';
+import type { EmailBranding } from '@/lib/emails/settings';
+import { EmailButton, EmailLayout, Paragraphs } from './layout';
+
+export interface ParticipantNotificationEmailProps {
+  branding: EmailBranding;
+  /** The message from lib/notifications, greeting included */
+  message: string;
+  link: string;
+  linkLabel: string;
+  optOutUrl: string;
+}
+
+/** Queued notifications (assignment, envelope open, reminder, changed envelope) */
+export function ParticipantNotificationEmail({ branding, message, link, linkLabel, optOutUrl }: ParticipantNotificationEmailProps) {
+  const paragraphs = message.split(/\n\s*\n/);
+
+  return (
+    <EmailLayout
+      branding={branding}
+      preview={paragraphs[1] ?? paragraphs[0]}
+      footer={
+        <p style={{ margin: 0 }}>
+          Vill du inte få fler utskick om {branding.eventName}?{' '}
+          <a href={optOutUrl} style={{ color: '#9ca3af' }}>Avregistrera dig här</a>
+        </p>
+      }
+    >
+      <Paragraphs text={message} />
+      <EmailButton href={link} color={branding.accentColor}>{linkLabel}</EmailButton>
+    </EmailLayout>
+  );
+}
@@ -0,0 +1,29 @@
+import * as React from 'react';
+import type { EmailBranding } from '@/lib/emails/settings';
+import { EmailButton, EmailLayout } from './layout';
+
+export interface PartnerInviteEmailProps {
+  branding: EmailBranding;
+  partnerName: string;
+  invitedName: string;
+  eventDate: string;
+  profileUrl: string;
+}
+
+export function PartnerInviteEmail({ branding, partnerName, invitedName, eventDate, profileUrl }: PartnerInviteEmailProps) {
+  return (
+    <EmailLayout branding={branding} preview={`Fyll i din profil inför ${branding.eventName}`}>
+      <p>Hej {partnerName}!</p>
+      <p>
+        <strong>{invitedName}</strong> har anmält er till <strong>{branding.eventName}</strong> den {eventDate}.
+      </p>
+      <p>Klicka på knappen nedan för att fylla i din egen profil — allergier, mysterieprofil och annat roligt:</p>
+
+      <EmailButton href={profileUrl} color={branding.accentColor}>Fyll i din profil →</EmailButton>
+
+      <p style={{ color: '#6b7280', fontSize: '14px' }}>
+        Du kan uppdatera dina uppgifter när som helst innan festen.
+      </p>
+    </EmailLayout>
+  );
+}
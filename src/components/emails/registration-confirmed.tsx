@@ -0,0 +1,42 @@
+import * as React from 'react';
+import type { EmailBranding } from '@/lib/emails/settings';
+import { EmailLayout, EmailPanel } from './layout';
+
+export interface RegistrationConfirmedEmailProps {
+  branding: EmailBranding;
+  name: string;
+  partnerName?: string | null;
+  eventDate: string;
+}
+
+export function RegistrationConfirmedEmail({ branding, name, partnerName, eventDate }: RegistrationConfirmedEmailProps) {
+  const accent = branding.accentColor;
+
+  return (
+    <EmailLayout branding={branding} preview={`Välkommen till ${branding.eventName}, ${eventDate}`}>
+      <p>Hej {name}!</p>
+      {partnerName ? (
+        <p>Du och <strong>{partnerName}</strong> är nu anmälda! 🎉</p>
+      ) : (
+        <p>Du är nu anmäld! 🎉</p>
+      )}
+
+      <EmailPanel color={accent}>
+        <h2 style={{ margin: '0 0 8px', fontSize: '20px' }}>{branding.eventName}</h2>
+        <p style={{ margin: 0, color: '#4b5563' }}>{eventDate}</p>
+      </EmailPanel>
+
+      <h3 style={{ color: accent }}>Vad händer nu?</h3>
+      <ol>
+        <li>Arrangören samlar in fler anmälningar</li>
+        <li>Matchningen körs — du får veta vilken rätt du lagar</li>
+        <li>Kvällen innan: förbered din rätt!</li>
+        <li>Festdagen: öppna kuvert och cykla! 🚴</li>
+      </ol>
+
+      <p style={{ color: '#6b7280', fontSize: '14px' }}>
+        Du kan alltid hitta din länk via event-sidan om du tappar bort den.
+      </p>
+    </EmailLayout>
+  );
+}
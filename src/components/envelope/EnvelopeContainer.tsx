@@ -4,22 +4,27 @@
  * EnvelopeContainer - Fetches and displays all envelopes for a participant
  * 
  * Features:
- * - Auto-polling for state updates
+ * - Live state updates over /api/envelope/stream (polling only as fallback)
+ * - Offline: service worker keeps the last envelope, sealed reveals open with a key fetch
+ * - Opt-in web push for the reveals (PushToggle)
  * - Server time synchronization
  * - Smooth transitions between states
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { LiveEnvelope } from './LiveEnvelope';
 import { AfterpartyCard } from './AfterpartyCard';
-import { createClient } from '@/lib/supabase/client';
-import type { EnvelopeStatusResponse, CourseEnvelopeStatus } from '@/types/database';
+import { PushToggle } from './PushToggle';
+import { getEnvelopeMessages } from '@/lib/envelope/messages';
+import { dateLocale } from '@/lib/i18n';
+import type { EnvelopeStatusResponse, CourseEnvelopeStatus, EnvelopeStateEvent, Locale } from '@/types/database';
 
 interface EnvelopeContainerProps {
   eventId: string;
   coupleId: string;
-  pollInterval?: number; // ms, default 30s
+  pollInterval?: number; // ms, default 30s - only while the live stream is unavailable
   simulateTime?: string; // ISO datetime for organizer preview
+  pushSubscriptionUrl?: string; // /api/guest/push-subscription for the guest, none in preview
 }
 
 export function EnvelopeContainer({ 
@@ -27,33 +32,39 @@ export function EnvelopeContainer({
   coupleId, 
   pollInterval = 30000,
   simulateTime,
+  pushSubscriptionUrl,
 }: EnvelopeContainerProps) {
   const [data, setData] = useState<EnvelopeStatusResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
-  const supabase = useMemo(() => createClient(), []);
+  const [streaming, setStreaming] = useState(false);
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  // Language of the last status, for errors on later refreshes
+  const localeRef = useRef<Locale | undefined>(undefined);
 
   // Fetch envelope status
   const fetchStatus = useCallback(async () => {
     if (!eventId || !coupleId) return;
     try {
-      const timeParam = simulateTime ? `&simulateTime=${encodeURIComponent(simulateTime)}` : '';
+      const timeParam = simulateTime ? `&simulateTime=${encodeURIComponent(simulateTime)}` : '&offline=1';
       const res = await fetch(
         `/api/envelope/status?eventId=${eventId}&coupleId=${coupleId}${timeParam}`
       );
       
       if (!res.ok) {
         const err = await res.json();
-        throw new Error(err.error || 'Kunde inte hämta kuvert');
+        throw new Error(err.error || getEnvelopeMessages(localeRef.current).container.fetchFailed);
       }
       
       const newData: EnvelopeStatusResponse = await res.json();
       setData(newData);
+      localeRef.current = newData.locale;
+      setClockOffsetMs(new Date(newData.server_time).getTime() - Date.now());
       setLastUpdate(new Date());
       setError(null);
     } catch (e) {
-      setError(e instanceof Error ? e.message : 'Något gick fel');
+      setError(e instanceof Error ? e.message : getEnvelopeMessages(localeRef.current).container.somethingWrong);
     } finally {
       setLoading(false);
     }
@@ -64,37 +75,67 @@ export function EnvelopeContainer({
     fetchStatus();
   }, [fetchStatus]);
 
-  // Realtime updates (skip in preview mode)
+  // Cache the envelope for offline use (not in preview - nothing to keep)
   useEffect(() => {
-    if (!eventId || !coupleId || simulateTime) return;
-
-    const channel = supabase
-      .channel(`envelope-updates-${coupleId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'envelopes',
-          filter: `couple_id=eq.${coupleId}`,
-        },
-        () => {
-          fetchStatus();
-        }
-      )
-      .subscribe();
+    if (simulateTime || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/envelope-sw.js').catch(err => {
+      console.warn('Service worker registration failed:', err);
+    });
+  }, [simulateTime]);
+
+  // Live stream of state changes (skip in preview mode - simulated time stands still)
+  useEffect(() => {
+    if (!eventId || !coupleId || simulateTime || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(`/api/envelope/stream?eventId=${eventId}&coupleId=${coupleId}`);
+    let connectedBefore = false;
+
+    source.onopen = () => {
+      setStreaming(true);
+      // Reconnected: missed reveals are replayed, but catch anything else that changed
+      if (connectedBefore) fetchStatus();
+      connectedBefore = true;
+    };
+
+    source.addEventListener('state', (message) => {
+      const event: EnvelopeStateEvent = JSON.parse((message as MessageEvent<string>).data);
+      const status = event.status;
+      if (!status) {
+        fetchStatus();
+        return;
+      }
+      setData(prev => prev && {
+        ...prev,
+        server_time: event.server_time,
+        // Stream statuses aren't sealed - keep the reveals we already hold
+        courses: prev.courses.map(course => course.type === event.course
+          ? { ...status, sealed_reveals: status.sealed_reveals ?? course.sealed_reveals }
+          : course),
+      });
+      setLastUpdate(new Date());
+    });
+
+    source.addEventListener('resync', () => {
+      fetchStatus();
+    });
+
+    source.onerror = () => {
+      // CLOSED = server refused the stream; fall back to polling
+      if (source.readyState === EventSource.CLOSED) setStreaming(false);
+    };
 
     return () => {
-      supabase.removeChannel(channel);
+      source.close();
+      setStreaming(false);
     };
-  }, [eventId, coupleId, simulateTime, supabase, fetchStatus]);
+  }, [eventId, coupleId, simulateTime, fetchStatus]);
 
-  // Polling fallback (skip if pollInterval is 0 or falsy)
+  // Polling fallback (skip if pollInterval is 0 or falsy, or while streaming)
   useEffect(() => {
-    if (!pollInterval) return;
+    if (!pollInterval || streaming) return;
     const interval = setInterval(fetchStatus, pollInterval);
     return () => clearInterval(interval);
-  }, [fetchStatus, pollInterval]);
+  }, [fetchStatus, pollInterval, streaming]);
 
   if (loading) {
     return (
@@ -108,7 +149,8 @@ export function EnvelopeContainer({
     );
   }
 
-  if (error) {
+  // Keep showing what we have when a refresh fails (e.g. no coverage)
+  if (error && !data) {
     return (
       <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-center">
         <p className="text-red-700">❌ {error}</p>
@@ -116,7 +158,7 @@ export function EnvelopeContainer({
           onClick={fetchStatus}
           className="mt-2 text-sm text-red-600 underline hover:no-underline"
         >
-          Försök igen
+          {getEnvelopeMessages().container.retry}
         </button>
       </div>
     );
@@ -128,15 +170,27 @@ export function EnvelopeContainer({
 
   const mealCourses = data.courses.filter(course => course.type !== 'afterparty');
   const afterpartyEnvelope = data.courses.find(course => course.type === 'afterparty');
+  const t = getEnvelopeMessages(data.locale).container;
 
   return (
     <div className="space-y-4">
+      {pushSubscriptionUrl && !simulateTime && (
+        <PushToggle subscriptionUrl={pushSubscriptionUrl} locale={data.locale} />
+      )}
+
       {/* Envelopes */}
       {mealCourses.map((course) => (
         <LiveEnvelope
           key={course.type}
           course={course}
           isPreview={!!simulateTime}
+          revealKeyUrl={`/api/envelope/key?eventId=${eventId}&coupleId=${coupleId}&course=${course.type}`}
+          clockOffsetMs={clockOffsetMs}
+          hintUrl={`/api/envelope/hint?eventId=${eventId}&coupleId=${coupleId}&course=${course.type}`}
+          onHintUsed={fetchStatus}
+          guessUrl={`/api/envelope/guess?eventId=${eventId}&coupleId=${coupleId}&course=${course.type}`}
+          onGuessed={fetchStatus}
+          locale={data.locale}
         />
       ))}
 
@@ -151,9 +205,15 @@ export function EnvelopeContainer({
 
       {/* Debug/status info */}
       <div className="text-xs text-gray-400 text-center pt-4">
-        Senast uppdaterad: {lastUpdate?.toLocaleTimeString('sv-SE')}
+        {t.lastUpdated}: {lastUpdate?.toLocaleTimeString(dateLocale(data.locale))}
         <br />
-        Servertid: {new Date(data.server_time).toLocaleTimeString('sv-SE')}
+        {t.serverTime}: {new Date(data.server_time).toLocaleTimeString(dateLocale(data.locale))}
+        {error && (
+          <>
+            <br />
+            📵 {t.offline}
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,139 @@
+'use client';
+
+/**
+ * HostArrivals - the host's live view of guests on their way.
+ *
+ * Each guest couple shows how far their envelope has come (still at the
+ * previous course, street revealed, address revealed) until the host checks
+ * them in. Names stay hidden until check-in to keep the surprise.
+ * Polls every 30 s.
+ */
+
+import { useEffect, useState } from 'react';
+import type { ArrivalPhase } from '@/lib/envelope/arrivals';
+
+interface HostArrivalsProps {
+  slug: string;
+}
+
+interface ArrivingGuest {
+  couple_id: string;
+  person_count: number;
+  phase: ArrivalPhase;
+  arrived_at: string | null;
+  name: string | null;
+  opens_at: string | null;
+}
+
+const POLL_INTERVAL_MS = 30_000;
+
+const PHASES: Record<ArrivalPhase, { label: string; emoji: string; className: string }> = {
+  previous_course: { label: 'Inte på väg än', emoji: '🍽️', className: 'bg-gray-100 text-gray-600' },
+  street: { label: 'Vet gatan', emoji: '📍', className: 'bg-blue-100 text-blue-700' },
+  address: { label: 'Vet adressen - på väg!', emoji: '🚴', className: 'bg-amber-100 text-amber-800' },
+  arrived: { label: 'Har kommit', emoji: '✅', className: 'bg-green-100 text-green-700' },
+};
+
+export function HostArrivals({ slug }: HostArrivalsProps) {
+  const [guests, setGuests] = useState<ArrivingGuest[] | null>(null);
+  const [course, setCourse] = useState<string | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const url = `/api/guest/host-arrivals?slug=${encodeURIComponent(slug)}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => fetch(url)
+      .then(res => res.ok ? res.json() : null)
+      .then(data => {
+        if (cancelled || !data) return;
+        setGuests(data.guests);
+        setCourse(data.course);
+      })
+      .catch(() => { /* keep the last known state */ });
+
+    load();
+    const interval = setInterval(load, POLL_INTERVAL_MS);
+    return () => { cancelled = true; clearInterval(interval); };
+  }, [url]);
+
+  async function toggleArrived(guest: ArrivingGuest) {
+    setSaving(guest.couple_id);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ guest_couple_id: guest.couple_id, arrived: !guest.arrived_at }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || 'Kunde inte checka in');
+        return;
+      }
+      const refreshed = await fetch(url).then(r => r.json());
+      setGuests(refreshed.guests);
+      setCourse(refreshed.course);
+    } catch {
+      setError('Nätverksfel - försök igen');
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  if (!guests || guests.length === 0) return null;
+
+  const arrivedCount = guests.filter(g => g.phase === 'arrived').length;
+  const fmtTime = (iso: string) => new Date(iso).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-amber-900">🚪 Ankomster</h2>
+        <span className={`text-sm font-medium px-2 py-0.5 rounded-full ${
+          arrivedCount === guests.length ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'
+        }`}>
+          {arrivedCount}/{guests.length} på plats
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {guests.map((guest, index) => {
+          const phase = PHASES[guest.phase];
+          return (
+            <div key={guest.couple_id} className="flex items-center gap-3 rounded-lg border border-amber-100 px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-amber-900 truncate">
+                  {guest.name ?? `Sällskap ${index + 1}`}
+                  <span className="text-amber-500 font-normal text-sm"> · {guest.person_count} pers</span>
+                </p>
+                <span className={`inline-block text-xs px-2 py-0.5 rounded-full mt-1 ${phase.className}`}>
+                  {phase.emoji} {guest.arrived_at ? `${phase.label} ${fmtTime(guest.arrived_at)}` : phase.label}
+                </span>
+              </div>
+              <button
+                onClick={() => toggleArrived(guest)}
+                disabled={saving === guest.couple_id}
+                className={`text-sm px-3 py-2 rounded-lg font-medium transition disabled:opacity-50 ${
+                  guest.arrived_at
+                    ? 'bg-white border border-gray-200 text-gray-500 hover:bg-gray-50'
+                    : 'bg-green-600 text-white hover:bg-green-700'
+                }`}
+              >
+                {saving === guest.couple_id ? '...' : guest.arrived_at ? 'Ångra' : 'Har kommit'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+      {course && guests.some(g => g.phase === 'previous_course') && (
+        <p className="text-xs text-amber-500 mt-3">
+          {course === 'starter' ? 'Gästerna är hemma' : 'Gästerna sitter vid förra rätten'} tills gatunamnet avslöjas.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+/**
+ * HostGuess - guess-the-host inside an envelope.
+ *
+ * While guessing is open (TEASING → NUMBER) the guest picks a couple;
+ * changing the guess is allowed but scores from the state it was changed in.
+ * At OPEN it shows whether the guess was right.
+ */
+
+import { useState } from 'react';
+import { GUESS_POINTS } from '@/lib/envelope/guesses';
+import { getEnvelopeMessages } from '@/lib/envelope/messages';
+import type { CourseEnvelopeStatus, Locale } from '@/types/database';
+
+interface HostGuessProps {
+  course: CourseEnvelopeStatus;
+  /** /api/envelope/guess URL for this course; without it the guess is read-only */
+  guessUrl?: string;
+  onGuessed?: () => void;
+  locale?: Locale;
+}
+
+export function HostGuess({ course, guessUrl, onGuessed, locale }: HostGuessProps) {
+  const { guess, guess_candidates: candidates } = course;
+  const t = getEnvelopeMessages(locale).guess;
+  const [selected, setSelected] = useState(guess?.couple_id ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (course.state === 'OPEN') {
+    if (!guess) return null;
+    return guess.correct ? (
+      <div className="bg-emerald-50 rounded-lg p-3 text-center border border-emerald-200">
+        <p className="text-sm text-emerald-800 font-medium">🎯 {t.correct(guess.points ?? 0)}</p>
+      </div>
+    ) : (
+      <div className="bg-gray-50 rounded-lg p-3 text-center">
+        <p className="text-sm text-gray-600">🙈 {t.wrong(guess.name)}</p>
+      </div>
+    );
+  }
+
+  if (!candidates || candidates.length === 0) return null;
+
+  const pointsNow = GUESS_POINTS[course.state] ?? 0;
+  const unchanged = selected === (guess?.couple_id ?? '');
+
+  // Don't toggle the envelope when interacting with the form inside it
+  const submit = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!guessUrl || !selected || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(guessUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ guessed_couple_id: selected }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || t.saveFailed);
+        return;
+      }
+      onGuessed?.();
+    } catch {
+      setError(getEnvelopeMessages(locale).noConnection);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-violet-50 rounded-lg p-3 space-y-2" onClick={(e) => e.stopPropagation()}>
+      <h4 className="text-sm font-medium text-violet-700">🕵️ {t.title}</h4>
+      {guess && (
+        <p className="text-xs text-violet-600">
+          {t.yourGuess}: <span className="font-semibold">{guess.name}</span> ({t.pointsIfRight(GUESS_POINTS[guess.state] ?? 0)})
+        </p>
+      )}
+      {guessUrl && (
+        <>
+          <div className="flex gap-2">
+            <select
+              value={selected}
+              onChange={(e) => setSelected(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-violet-200 rounded-lg bg-white"
+            >
+              <option value="">{t.choose}</option>
+              {candidates.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+            <button
+              onClick={submit}
+              disabled={!selected || unchanged || saving}
+              className="text-sm bg-violet-600 text-white px-3 py-1.5 rounded-lg hover:bg-violet-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? '...' : guess ? t.change : t.submit}
+            </button>
+          </div>
+          <p className="text-xs text-violet-500">
+            {t.pointsNow(pointsNow)}
+          </p>
+        </>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
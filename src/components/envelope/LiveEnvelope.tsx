@@ -10,12 +10,17 @@
  * - Vibration + glow on new clues
  * - Letter peek animation
  * - Confetti burst on full reveal
+ * - Local countdown, and offline unlocking of sealed reveals
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence, Variants } from 'framer-motion';
 import confetti from 'canvas-confetti';
-import type { EnvelopeState, CourseEnvelopeStatus, Course } from '@/types/database';
+import { useSealedReveals } from '@/hooks/useSealedReveals';
+import { HostGuess } from './HostGuess';
+import { getEnvelopeMessages, type EnvelopeMessages } from '@/lib/envelope/messages';
+import { DEFAULT_LOCALE, dateLocale } from '@/lib/i18n';
+import type { CourseEnvelopeStatus, Course, Locale } from '@/types/database';
 
 // ============================================
 // Props & Types
@@ -31,6 +36,18 @@ interface LiveEnvelopeProps {
   onOpen?: () => void;
   className?: string;
   isPreview?: boolean;
+  /** /api/envelope/key URL for this course - lets sealed reveals open offline */
+  revealKeyUrl?: string;
+  /** Server time minus local time, for the local countdown */
+  clockOffsetMs?: number;
+  /** /api/envelope/hint URL for this course - lets a stuck guest ask for one more hint */
+  hintUrl?: string;
+  onHintUsed?: () => void;
+  /** /api/envelope/guess URL for this course - guess-the-host */
+  guessUrl?: string;
+  onGuessed?: () => void;
+  /** The couple's language; organizer custom messages are only used for the default */
+  locale?: Locale;
   messages?: {
     host_self: CustomMessage[];
     lips_sealed: CustomMessage[];
@@ -41,6 +58,12 @@ interface LiveEnvelopeProps {
 interface EnvelopeContentProps {
   course: CourseEnvelopeStatus;
   isOpen: boolean;
+  hintUrl?: string;
+  onHintUsed?: () => void;
+  guessUrl?: string;
+  onGuessed?: () => void;
+  t: EnvelopeMessages;
+  locale: Locale;
   hostSelfMessages: CustomMessage[];
   lipsSealedMessages: CustomMessage[];
   mysteryHostMessages: CustomMessage[];
@@ -147,89 +170,13 @@ function getCourseEmoji(course: Course): string {
   }
 }
 
-function getCourseName(course: Course): string {
-  switch (course) {
-    case 'starter': return 'Förrätt';
-    case 'main': return 'Huvudrätt';
-    case 'dessert': return 'Dessert';
-    default: return course;
-  }
-}
-
-function getStateMessage(state: EnvelopeState, clueCount: number = 0): string {
-  switch (state) {
-    case 'LOCKED': return 'Kommer snart...';
-    case 'TEASING': return 'Nyfiken? 🤫';
-    case 'CLUE_1': return clueCount > 0 ? 'En ledtråd!' : 'Hemligt... 🤫';
-    case 'CLUE_2': return clueCount > 1 ? 'Ännu en ledtråd!' : 'Hemligt... 🤐';
-    case 'STREET': return 'Nu vet du gatan!';
-    case 'NUMBER': return 'Snart framme!';
-    case 'OPEN': return 'Välkommen!';
-    default: return '';
-  }
-}
-
-// "Lips sealed" messages when no clue available (host HAS fun facts but we can't reveal more)
-const LIPS_SEALED_MESSAGES = [
-  { emoji: '🤫', text: 'Our lips are sealed — avslöjar vi en ledtråd kan ni gissa vem!' },
-  { emoji: '🤐', text: 'Tyst som en mus — vi kan inte säga mer utan att avslöja!' },
-  { emoji: '🤫', text: 'Vi håller tyst den här gången... annars blir det för lätt!' },
-  { emoji: '🤐', text: 'Inga fler ledtrådar — nu får ni gissa!' },
-];
-
-// Mystery messages when host has NO fun facts at all
-const MYSTERY_HOST_MESSAGES = [
-  { emoji: '🎭', text: 'Dina värdar är ett mysterium! Vem kan det vara?' },
-  { emoji: '✨', text: 'Överraskning väntar — vi avslöjar inget!' },
-  { emoji: '🔮', text: 'Ödet har talat. Mer får ni inte veta.' },
-  { emoji: '🎪', text: 'Vem döljer sig bakom dörren? Spännande!' },
-  { emoji: '🌟', text: 'Stjärnorna är tysta ikväll...' },
-];
-
-// Fun messages when YOU are the host (about yourself!)
-const HOST_SELF_MESSAGES = [
-  { emoji: '👑', text: 'Psst... värden är faktiskt ganska fantastisk. (Det är du!)' },
-  { emoji: '🪞', text: 'Ledtråd: Värden tittar på dig i spegeln varje morgon.' },
-  { emoji: '🦸', text: 'Breaking news: Kvällens värd är en hjälte i förklädnad!' },
-  { emoji: '🎭', text: 'Mystisk värd sökes... Hittad! (Kolla i spegeln)' },
-  { emoji: '🌟', text: 'Fun fact: Din värd är extremt bra på att vara du.' },
-  { emoji: '🏆', text: 'Grattis! Du har vunnit världens bästa värd. Spoiler: det är du.' },
-  { emoji: '🎪', text: 'Cirkusen är i stan! Och du är ringmastern ikväll.' },
-  { emoji: '🦄', text: 'Ledtråd: Värden är lika unik som en enhörning. Titta ner.' },
-  { emoji: '🎬', text: 'I huvudrollen ikväll: DU! Applåder tack.' },
-  { emoji: '🌈', text: 'Värden? Åh, bara den mest underbara personen du känner. Dig själv!' },
-];
-
-// "All revealed" message when we've shown everything we have
-const ALL_REVEALED_MESSAGES = [
-  { emoji: '🤷', text: 'Det var allt vi visste! Resten får ni upptäcka själva.' },
-  { emoji: '📭', text: 'Tomt på ledtrådar! Men snart får ni veta gatan...' },
-  { emoji: '🎁', text: 'Inga fler ledtrådar — men överraskningen väntar!' },
-];
-
-function getLipsSealedMessage(index: number) {
-  return LIPS_SEALED_MESSAGES[index % LIPS_SEALED_MESSAGES.length];
-}
-
-function getMysteryHostMessage(index: number) {
-  return MYSTERY_HOST_MESSAGES[index % MYSTERY_HOST_MESSAGES.length];
-}
-
-function getHostSelfMessage(index: number) {
-  return HOST_SELF_MESSAGES[index % HOST_SELF_MESSAGES.length];
-}
-
-function getAllRevealedMessage(index: number) {
-  return ALL_REVEALED_MESSAGES[index % ALL_REVEALED_MESSAGES.length];
-}
-
-function formatTime(isoString: string): string {
+function formatTime(isoString: string, locale: Locale): string {
   const date = new Date(isoString);
-  return date.toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
+  return date.toLocaleTimeString(dateLocale(locale), { hour: '2-digit', minute: '2-digit' });
 }
 
-function formatCountdown(seconds: number): string {
-  if (seconds <= 0) return 'Nu!';
+function formatCountdown(seconds: number, t: EnvelopeMessages): string {
+  if (seconds <= 0) return t.now;
   if (seconds < 60) return `${seconds}s`;
   if (seconds < 3600) return `${Math.floor(seconds / 60)}min`;
   return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}min`;
@@ -264,8 +211,31 @@ function fireConfetti() {
 // Envelope Content Component
 // ============================================
 
-function EnvelopeContent({ course, isOpen, hostSelfMessages, lipsSealedMessages, mysteryHostMessages }: EnvelopeContentProps) {
+function EnvelopeContent({ course, isOpen, hintUrl, onHintUsed, guessUrl, onGuessed, t, locale, hostSelfMessages, lipsSealedMessages, mysteryHostMessages }: EnvelopeContentProps) {
   const state = course.state;
+  const [hintLoading, setHintLoading] = useState(false);
+  const [hintError, setHintError] = useState<string | null>(null);
+  
+  // Don't toggle the envelope when tapping the button inside it
+  const requestHint = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!hintUrl || hintLoading) return;
+    setHintLoading(true);
+    setHintError(null);
+    try {
+      const res = await fetch(hintUrl, { method: 'POST' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setHintError(data.error || t.hintFailed);
+        return;
+      }
+      onHintUsed?.();
+    } catch {
+      setHintError(t.noConnection);
+    } finally {
+      setHintLoading(false);
+    }
+  };
   
   // Helper to get message by index
   const getHostSelfMsg = (i: number) => hostSelfMessages[i % hostSelfMessages.length];
@@ -283,10 +253,10 @@ function EnvelopeContent({ course, isOpen, hostSelfMessages, lipsSealedMessages,
       <motion.div variants={itemVariants} className="text-center">
         <span className="text-2xl">{getCourseEmoji(course.type)}</span>
         <h3 className="text-lg font-semibold text-gray-800">
-          {getCourseName(course.type)}
+          {t.courseNames[course.type]}
         </h3>
         <p className="text-sm text-gray-500">
-          Startar {formatTime(course.starts_at)}
+          {t.startsAt(formatTime(course.starts_at, locale))}
         </p>
       </motion.div>
 
@@ -294,7 +264,7 @@ function EnvelopeContent({ course, isOpen, hostSelfMessages, lipsSealedMessages,
       {course.clues.length > 0 && (
         <motion.div variants={itemVariants} className="space-y-2">
           <h4 className="text-sm font-medium text-amber-700 flex items-center gap-1">
-            🔮 Ledtrådar
+            🔮 {t.clues}
           </h4>
           <ul className="space-y-1">
             {course.clues.map((clue, i) => (
@@ -306,14 +276,44 @@ function EnvelopeContent({ course, isOpen, hostSelfMessages, lipsSealedMessages,
         </motion.div>
       )}
 
+      {/* Extra hints the guest asked for */}
+      {course.hints && course.hints.length > 0 && (
+        <motion.div variants={itemVariants} className="space-y-2">
+          <h4 className="text-sm font-medium text-amber-700 flex items-center gap-1">
+            💡 {t.extraHints}
+          </h4>
+          <ul className="space-y-1">
+            {course.hints.map((hint, i) => (
+              <li key={i} className="text-sm text-gray-700 pl-4 border-l-2 border-yellow-300">
+                {hint.text}
+              </li>
+            ))}
+          </ul>
+        </motion.div>
+      )}
+
+      {/* Stuck? Ask for one more hint */}
+      {hintUrl && !!course.hints_remaining && (
+        <motion.div variants={itemVariants} className="text-center">
+          <button
+            onClick={requestHint}
+            disabled={hintLoading}
+            className="text-sm bg-amber-500 text-white px-3 py-2 rounded-lg hover:bg-amber-600 disabled:opacity-50 transition-colors"
+          >
+            {hintLoading ? t.hintLoading : t.askHint(course.hints_remaining)}
+          </button>
+          {hintError && <p className="text-xs text-red-600 mt-1">{hintError}</p>}
+        </motion.div>
+      )}
+
       {/* CLUE_1 with clue pool: Show all participants' clues shuffled */}
       {state === 'CLUE_1' && course.clue_pool && course.clue_pool.length > 0 && (
         <motion.div variants={itemVariants} className="space-y-3">
           <h4 className="text-sm font-medium text-amber-700 flex items-center gap-1">
-            🎭 Kvällens deltagare — vem är vem?
+            🎭 {t.cluePoolTitle}
           </h4>
           <p className="text-xs text-gray-500 mb-2">
-            Någon av dessa är era värdar ikväll...
+            {t.cluePoolSubtitle}
           </p>
           <div className="flex flex-wrap gap-2">
             {course.clue_pool.map((clue, i) => (
@@ -357,10 +357,10 @@ function EnvelopeContent({ course, isOpen, hostSelfMessages, lipsSealedMessages,
         <motion.div variants={itemVariants} className="bg-blue-50 rounded-lg p-4 text-center space-y-2">
           <p className="text-3xl mb-1">🗺️</p>
           <p className="text-sm text-blue-700">
-            Ni ska till någon som just nu är på <span className="font-bold">{course.street?.name || 'en hemlig gata'}</span>.
+            {t.onStreet} <span className="font-bold">{course.street?.name || t.secretStreet}</span>.
           </p>
           {course.cycling_meters && (
-            <p className="text-xs text-blue-600">🚴 Ca {course.cycling_meters} meter att cykla</p>
+            <p className="text-xs text-blue-600">🚴 {t.cyclingMeters(course.cycling_meters)}</p>
           )}
         </motion.div>
       )}
@@ -377,14 +377,14 @@ function EnvelopeContent({ course, isOpen, hostSelfMessages, lipsSealedMessages,
       {course.street && state !== 'OPEN' && (
         <motion.div variants={itemVariants} className="bg-blue-50 rounded-lg p-3">
           <h4 className="text-sm font-medium text-blue-700 flex items-center gap-1">
-            📍 Adress
+            📍 {t.address}
           </h4>
           <p className="text-blue-900 font-medium">
             {course.street.name} {course.number ?? course.street.range}
           </p>
           {course.street.cycling_minutes > 0 && (
             <p className="text-xs text-blue-600">
-              🚴 {course.street.cycling_minutes} min cykel
+              🚴 {t.cyclingMinutes(course.street.cycling_minutes)}
             </p>
           )}
         </motion.div>
@@ -393,19 +393,19 @@ function EnvelopeContent({ course, isOpen, hostSelfMessages, lipsSealedMessages,
       {/* Full address (OPEN state) */}
       {state === 'OPEN' && course.full_address && (
         <motion.div variants={itemVariants} className="bg-green-50 rounded-lg p-3 space-y-2">
-          <h4 className="text-sm font-medium text-green-700">🎉 Full adress</h4>
+          <h4 className="text-sm font-medium text-green-700">🎉 {t.fullAddress}</h4>
           <p className="text-green-900 font-semibold">
             {course.full_address.street} {course.full_address.number}
             {course.full_address.apartment && `, ${course.full_address.apartment}`}
           </p>
           {course.full_address.door_code && (
             <p className="text-sm text-green-700">
-              Portkod: <span className="font-mono">{course.full_address.door_code}</span>
+              {t.doorCode}: <span className="font-mono">{course.full_address.door_code}</span>
             </p>
           )}
           {course.host_names && course.host_names.length > 0 && (
             <p className="text-sm text-green-600">
-              👋 {course.host_names.length === 1 ? 'Värd' : 'Värdar'}:{' '}
+              👋 {t.hosts(course.host_names.length)}:{' '}
               {course.host_names.map((name, i) => (
                 <span key={i}>
                   {i > 0 && ' & '}
@@ -423,16 +423,22 @@ function EnvelopeContent({ course, isOpen, hostSelfMessages, lipsSealedMessages,
             rel="noopener noreferrer"
             className="inline-flex items-center gap-1 text-sm bg-green-600 text-white px-3 py-2 rounded-lg hover:bg-green-700 transition-colors"
           >
-            🗺️ Öppna i kartan
+            🗺️ {t.openMap}
           </a>
         </motion.div>
       )}
 
+      {/* Guess the host (result at OPEN) */}
+      {!course.is_self_host && (course.guess || course.guess_candidates) && (
+        <motion.div variants={itemVariants}>
+          <HostGuess course={course} guessUrl={guessUrl} onGuessed={onGuessed} locale={locale} />
+        </motion.div>
+      )}
+
       {/* Next reveal countdown */}
       {course.next_reveal && (
         <motion.div variants={itemVariants} className="text-center text-sm text-gray-500">
-          ⏱️ Nästa: {getStateMessage(course.next_reveal.type)} om{' '}
-          <span className="font-medium">{formatCountdown(course.next_reveal.in_seconds)}</span>
+          ⏱️ {t.nextReveal(t.state(course.next_reveal.type, 0), formatCountdown(course.next_reveal.in_seconds, t))}
         </motion.div>
       )}
 
@@ -442,15 +448,15 @@ function EnvelopeContent({ course, isOpen, hostSelfMessages, lipsSealedMessages,
       {state === 'TEASING' && course.is_self_host && (
         <motion.div variants={itemVariants} className="bg-green-50 rounded-lg p-4 text-center border border-green-200">
           <p className="text-3xl mb-2">🏠</p>
-          <p className="text-sm text-green-700 font-medium">Du är värd för denna rätt!</p>
-          <p className="text-xs text-green-600 mt-1">Ledtrådarna handlar om... dig själv 😄</p>
+          <p className="text-sm text-green-700 font-medium">{t.selfHostTitle}</p>
+          <p className="text-xs text-green-600 mt-1">{t.selfHostSubtitle}</p>
         </motion.div>
       )}
       {state === 'TEASING' && !course.is_self_host && course.clues.length === 0 && (
         <motion.div variants={itemVariants} className="text-center py-4">
           <p className="text-lg">🤫</p>
-          <p className="text-gray-600">Nyfiken?</p>
-          <p className="text-sm text-gray-400">Mer händer snart...</p>
+          <p className="text-gray-600">{t.curious}</p>
+          <p className="text-sm text-gray-400">{t.moreSoon}</p>
         </motion.div>
       )}
 
@@ -458,7 +464,7 @@ function EnvelopeContent({ course, isOpen, hostSelfMessages, lipsSealedMessages,
       {state === 'LOCKED' && (
         <motion.div variants={itemVariants} className="text-center py-4 text-gray-400">
           <p className="text-2xl">🔒</p>
-          <p>Kommer snart...</p>
+          <p>{t.comingSoon}</p>
         </motion.div>
       )}
     </motion.div>
@@ -469,11 +475,29 @@ function EnvelopeContent({ course, isOpen, hostSelfMessages, lipsSealedMessages,
 // Main Component
 // ============================================
 
-export function LiveEnvelope({ course, onOpen, className = '', isPreview = false, messages }: LiveEnvelopeProps) {
-  // Use custom messages or fall back to defaults
-  const hostSelfMessages = messages?.host_self ?? HOST_SELF_MESSAGES;
-  const lipsSealedMessages = messages?.lips_sealed ?? LIPS_SEALED_MESSAGES;
-  const mysteryHostMessages = messages?.mystery_host ?? MYSTERY_HOST_MESSAGES;
+export function LiveEnvelope({
+  course: serverCourse,
+  onOpen,
+  className = '',
+  isPreview = false,
+  revealKeyUrl,
+  clockOffsetMs,
+  hintUrl,
+  onHintUsed,
+  guessUrl,
+  onGuessed,
+  locale = DEFAULT_LOCALE,
+  messages,
+}: LiveEnvelopeProps) {
+  // Count down locally and open sealed reveals even when the status fetch can't get through
+  const course = useSealedReveals(serverCourse, { keyUrl: revealKeyUrl, clockOffsetMs, paused: isPreview });
+
+  // Organizer custom messages are written in Swedish; other languages get the built-in ones
+  const t = getEnvelopeMessages(locale);
+  const customMessages = locale === DEFAULT_LOCALE ? messages : undefined;
+  const hostSelfMessages = customMessages?.host_self ?? t.hostSelf;
+  const lipsSealedMessages = customMessages?.lips_sealed ?? t.lipsSealed;
+  const mysteryHostMessages = customMessages?.mystery_host ?? t.mysteryHost;
   const [isOpen, setIsOpen] = useState(false);
   const [hasAnimated, setHasAnimated] = useState(false);
   const [animationState, setAnimationState] = useState<'idle' | 'curious' | 'vibrate' | 'glow'>('idle');
@@ -562,7 +586,7 @@ export function LiveEnvelope({ course, onOpen, className = '', isPreview = false
             animate={{ scale: 1 }}
             className="absolute -top-2 -right-2 bg-red-500 text-white text-xs font-bold px-2 py-1 rounded-full z-10"
           >
-            Nytt!
+            {t.newBadge}
           </motion.div>
         )}
 
@@ -571,8 +595,8 @@ export function LiveEnvelope({ course, onOpen, className = '', isPreview = false
           <div className="flex items-center gap-2">
             <span className="text-2xl">{getCourseEmoji(course.type)}</span>
             <div>
-              <h3 className="font-semibold text-gray-800">{getCourseName(course.type)}</h3>
-              <p className="text-xs text-gray-500">{getStateMessage(state, course.clues.length)}</p>
+              <h3 className="font-semibold text-gray-800">{t.courseNames[course.type]}</h3>
+              <p className="text-xs text-gray-500">{t.state(state, course.clues.length)}</p>
             </div>
           </div>
           
@@ -600,6 +624,12 @@ export function LiveEnvelope({ course, onOpen, className = '', isPreview = false
               <EnvelopeContent 
                 course={course} 
                 isOpen={isOpen}
+                hintUrl={isPreview ? undefined : hintUrl}
+                onHintUsed={onHintUsed}
+                guessUrl={isPreview ? undefined : guessUrl}
+                onGuessed={onGuessed}
+                t={t}
+                locale={locale}
                 hostSelfMessages={hostSelfMessages}
                 lipsSealedMessages={lipsSealedMessages}
                 mysteryHostMessages={mysteryHostMessages}
@@ -0,0 +1,132 @@
+'use client';
+
+/**
+ * PushToggle - opt in to web push for the envelope reveals.
+ *
+ * Subscribes this browser through the envelope service worker and hands the
+ * subscription to the server; turning it off unsubscribes both. Renders
+ * nothing where push isn't available (no VAPID key, old browser, iOS
+ * outside an installed web app).
+ */
+
+import { useState, useEffect } from 'react';
+import { getEnvelopeMessages } from '@/lib/envelope/messages';
+import type { Locale } from '@/types/database';
+
+interface PushToggleProps {
+  /** /api/guest/push-subscription URL for this event */
+  subscriptionUrl: string;
+  locale?: Locale;
+}
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+// pushManager.subscribe wants the key as bytes, VAPID keys are base64url
+function keyToBytes(base64url: string): Uint8Array<ArrayBuffer> {
+  const base64 = (base64url + '='.repeat((4 - (base64url.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+export function PushToggle({ subscriptionUrl, locale }: PushToggleProps) {
+  const t = getEnvelopeMessages(locale).push;
+  const [supported, setSupported] = useState(false);
+  const [subscription, setSubscription] = useState<PushSubscription | null>(null);
+  const [denied, setDenied] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!VAPID_PUBLIC_KEY || !('serviceWorker' in navigator) || !('PushManager' in window)) return;
+    setSupported(true);
+    setDenied(Notification.permission === 'denied');
+    navigator.serviceWorker.ready
+      .then(registration => registration.pushManager.getSubscription())
+      .then(setSubscription)
+      .catch(() => { /* stays off */ });
+  }, []);
+
+  if (!supported || !VAPID_PUBLIC_KEY) return null;
+
+  const enable = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        setDenied(permission === 'denied');
+        return;
+      }
+
+      const registration = await navigator.serviceWorker.register('/envelope-sw.js');
+      await navigator.serviceWorker.ready;
+      const sub = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: keyToBytes(VAPID_PUBLIC_KEY),
+      });
+
+      const res = await fetch(subscriptionUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subscription: sub.toJSON() }),
+      });
+      if (!res.ok) {
+        await sub.unsubscribe();
+        setError(t.failed);
+        return;
+      }
+      setSubscription(sub);
+    } catch {
+      setError(t.failed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const disable = async () => {
+    if (!subscription) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await fetch(subscriptionUrl, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endpoint: subscription.endpoint }),
+      });
+      await subscription.unsubscribe();
+      setSubscription(null);
+    } catch {
+      setError(t.failed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (denied && !subscription) {
+    return <p className="text-xs text-amber-700 text-center">{t.denied}</p>;
+  }
+
+  return (
+    <div className="text-center">
+      {subscription ? (
+        <p className="text-sm text-amber-800">
+          {t.enabled}{' '}
+          <button onClick={disable} disabled={busy} className="text-amber-600 underline disabled:opacity-50">
+            {t.disable}
+          </button>
+        </p>
+      ) : (
+        <button
+          onClick={enable}
+          disabled={busy}
+          className="bg-amber-500 hover:bg-amber-600 text-white text-sm font-medium px-4 py-2 rounded-full disabled:opacity-50"
+        >
+          {t.enable}
+        </button>
+      )}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
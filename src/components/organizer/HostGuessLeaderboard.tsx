@@ -0,0 +1,94 @@
+'use client';
+
+/**
+ * HostGuessLeaderboard - guess-the-host scores in the organizer live view.
+ */
+
+import { useEffect, useState } from 'react';
+import type { GuessScore } from '@/lib/envelope/guesses';
+
+interface HostGuessLeaderboardProps {
+  eventId: string;
+}
+
+type LeaderboardRow = GuessScore & { name: string };
+
+interface LeaderboardData {
+  scores: LeaderboardRow[];
+  guessed: number;
+  guest_envelopes: number;
+}
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+export function HostGuessLeaderboard({ eventId }: HostGuessLeaderboardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [data, setData] = useState<LeaderboardData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function load() {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/organizer/events/${eventId}/guesses`);
+      if (res.ok) setData(await res.json());
+    } catch { /* keep the last scores */ }
+    finally { setLoading(false); }
+  }
+
+  useEffect(() => {
+    fetch(`/api/organizer/events/${eventId}/guesses`)
+      .then(res => res.ok ? res.json() : null)
+      .then(json => { if (json) setData(json); })
+      .catch(() => { /* leaderboard is optional */ });
+  }, [eventId]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-3 p-5 w-full text-left hover:bg-gray-50/50 transition"
+      >
+        <span className="text-2xl">🕵️</span>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-gray-900">Gissa värden</h3>
+          <p className="text-xs text-gray-500">
+            {data ? `${data.guessed} av ${data.guest_envelopes} kuvert gissade` : 'Poängställning för gästernas gissningar'}
+          </p>
+        </div>
+        <span className={`text-gray-400 transition-transform duration-200 ${expanded ? 'rotate-180' : ''}`}>
+          ▼
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-5 pb-5 border-t border-gray-100 pt-4 space-y-3">
+          {!data || data.scores.length === 0 ? (
+            <p className="text-sm text-gray-500">Inga gissningar än.</p>
+          ) : (
+            <ol className="divide-y divide-gray-100">
+              {data.scores.map((row, i) => (
+                <li key={row.couple_id} className="py-1.5 flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate text-gray-800">
+                    <span className="inline-block w-6">{MEDALS[i] ?? `${i + 1}.`}</span>
+                    {row.name}
+                  </span>
+                  <span className="whitespace-nowrap text-gray-500">
+                    <span className="font-semibold text-violet-700">{row.points} p</span>
+                    {' · '}{row.correct}/{row.guesses} rätt
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+          <p className="text-xs text-gray-400">
+            Rätt gissning ger 5 p vid teasern, sedan 4-3-2-1 p per avslöjande fram till husnumret.
+          </p>
+          <button onClick={load} disabled={loading}
+            className="px-3 py-1.5 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 disabled:opacity-40 text-sm transition">
+            {loading ? '...' : '🔄 Uppdatera'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
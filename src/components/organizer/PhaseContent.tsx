@@ -6,6 +6,9 @@ import Link from 'next/link';
 import { InviteLinkSection } from '@/components/organizer/InviteLinkSection';
 import { InlineGuestList } from '@/components/organizer/InlineGuestList';
 import { OrganizerParticipation } from '@/components/organizer/OrganizerParticipation';
+import { RunningLateControl } from '@/components/organizer/RunningLateControl';
+import { HostGuessLeaderboard } from '@/components/organizer/HostGuessLeaderboard';
+import { TableArrivalsPanel } from '@/components/organizer/TableArrivalsPanel';
 import AddressAutocomplete from '@/components/AddressAutocomplete';
 
 interface Props {
@@ -80,9 +83,18 @@ export function PhaseContent({ phase, eventId, eventSlug, eventStatus, couplesCo
               ⏳ Live-vyn aktiveras automatiskt när eventet sätts till &quot;Pågår&quot;.
             </div>
           )}
+          <ActionCard
+            href={`/organizer/event/${eventId}/live`}
+            title="Live-tavla"
+            description="Kuvert, ankomster och avhopp per bord — med snabbåtgärder"
+            icon="📡"
+            disabled={!hasMatching}
+          />
           <LiveControlPanel eventId={eventId} isActive={isActive} />
+          <TableArrivalsPanel eventId={eventId} />
           <UnplacedCouplesPanel eventId={eventId} />
           <GuestMessagePanel eventId={eventId} isActive={isActive} />
+          <HostGuessLeaderboard eventId={eventId} />
           <ActionCard
             href={`/organizer/event/${eventId}/map`}
             title="Live-karta"
@@ -283,7 +295,6 @@ function LiveControlPanel({ eventId, isActive }: { eventId: string; isActive: bo
   const [expandedCourse, setExpandedCourse] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [delaying, setDelaying] = useState(false);
   const [activating, setActivating] = useState<string | null>(null);
   const [afterpartyStatus, setAfterpartyStatus] = useState<{ teasing: boolean; revealed: boolean }>({ teasing: false, revealed: false });
   const [message, setMessage] = useState('');
@@ -342,24 +353,6 @@ function LiveControlPanel({ eventId, isActive }: { eventId: string; isActive: bo
     finally { setSaving(false); }
   }
 
-  async function adjustAllTimes(minutes: number) {
-    setDelaying(true); setMessage('');
-    try {
-      const res = await fetch('/api/admin/delay-envelopes', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ event_id: eventId, delay_minutes: minutes }),
-      });
-      if (res.ok) {
-        await loadData();
-        const dir = minutes > 0 ? 'fram' : 'tillbaka';
-        setMessage(`✅ Alla kuverttider ${dir} ${Math.abs(minutes)} min`);
-        setTimeout(() => setMessage(''), 3000);
-      } else setMessage('❌ Kunde inte justera');
-    } catch { setMessage('❌ Nätverksfel'); }
-    finally { setDelaying(false); }
-  }
-
   async function activateCourse(course: string) {
     const label = course === 'starter' ? 'förrätt' : course === 'main' ? 'huvudrätt' : 'dessert';
     if (!confirm(`Aktivera kuvert för ${label} nu?`)) return;
@@ -605,6 +598,12 @@ function LiveControlPanel({ eventId, isActive }: { eventId: string; isActive: bo
             </div>
           )}
 
+          {/* Running late */}
+          <div>
+            <p className="text-xs text-gray-500 font-medium mb-2">⏱️ Försenat?</p>
+            <RunningLateControl eventId={eventId} disabled={!isActive} onDelayed={loadData} />
+          </div>
+
           {/* Manual activation */}
           <div>
             <p className="text-xs text-gray-500 font-medium mb-2">📤 Aktivera kuvert manuellt</p>
@@ -725,6 +724,7 @@ interface UnplacedCouple {
   name: string;
   address: string;
   person_count: number;
+  accessibility_needs: string | null;
 }
 
 interface HostOption {
@@ -733,6 +733,7 @@ interface HostOption {
   address: string;
   current_guests: number;
   max_guests: number;
+  accessible: boolean;
 }
 
 interface PotentialHost {
@@ -746,6 +747,7 @@ interface MissingCouple {
   name: string;
   person_count: number;
   current_host_on_course: string | null;
+  reason: string | null;
 }
 
 interface UnplacedData {
@@ -982,6 +984,7 @@ function UnplacedCouplesPanel({ eventId }: { eventId: string }) {
                 {data.unplaced.map(couple => {
                   const sel = selections[couple.id];
                   const isSelectedForThisCourse = sel?.course === course;
+                  const reason = missingByCourse[course]?.find(m => m.id === couple.id)?.reason;
 
                   return (
                     <div
@@ -994,6 +997,7 @@ function UnplacedCouplesPanel({ eventId }: { eventId: string }) {
                           {couple.name}
                         </p>
                         <p className="text-xs text-gray-400 truncate">{couple.address}</p>
+                        {reason && <p className="text-xs text-amber-700">{reason}</p>}
                       </div>
 
                       {/* Host dropdown */}
@@ -1014,6 +1018,7 @@ function UnplacedCouplesPanel({ eventId }: { eventId: string }) {
                             >
                               {host.name} — {host.address} ({host.current_guests}/{host.max_guests} pers)
                               {!hasRoom ? ' ⛔' : ''}
+                              {couple.accessibility_needs && !host.accessible ? ' ♿✗' : ''}
                             </option>
                           );
                         })}
@@ -1080,6 +1085,7 @@ function UnplacedCouplesPanel({ eventId }: { eventId: string }) {
                           <div className="flex-1 min-w-0">
                             <p className="text-sm font-medium text-gray-900 truncate">{couple.name}</p>
                             <p className="text-xs text-gray-400">{couple.person_count} pers</p>
+                            {couple.reason && <p className="text-xs text-amber-700">{couple.reason}</p>}
                           </div>
                           <select
                             value={sel?.hostId ?? ''}
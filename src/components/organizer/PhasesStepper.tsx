@@ -130,6 +130,15 @@ export function PhasesStepper({
 
             {/* Inline guest list with Lista/Karta tabs */}
             <InlineGuestList eventId={eventId} />
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <ActionCard
+                href={`/organizer/event/${eventId}/emails`}
+                title="E-postmallar"
+                description="Utseende, förhandsvisning och testmejl"
+                icon="🎨"
+              />
+            </div>
           </div>
         );
       })(),
@@ -0,0 +1,149 @@
+'use client';
+
+/**
+ * RevealTimeline - Gantt view of every couple's envelope reveals
+ *
+ * One row per couple with a lane per course (starter, main, dessert from the
+ * top) running TEASING → OPEN, course starts as vertical lines and schedule
+ * conflicts highlighted in red.
+ */
+
+import { useState } from 'react';
+import type { CoupleTimeline, ScheduleConflict } from '@/lib/envelope/schedule';
+import type { EnvelopeTimes } from '@/lib/envelope/timing';
+import type { MealCourse } from '@/types/database';
+
+interface RevealTimelineProps {
+  timelines: CoupleTimeline[];
+  conflicts: ScheduleConflict[];
+  courseStarts: Record<MealCourse, Date>;
+}
+
+const COURSE_EMOJI: Record<MealCourse, string> = {
+  starter: '🥗',
+  main: '🍖',
+  dessert: '🍰',
+};
+
+// Segment from one reveal to the next, coloured by the state it starts
+const SEGMENTS: { from: keyof EnvelopeTimes; to: keyof EnvelopeTimes; color: string; label: string }[] = [
+  { from: 'teasing_at', to: 'clue_1_at', color: 'bg-gray-300', label: 'Nyfiken?' },
+  { from: 'clue_1_at', to: 'clue_2_at', color: 'bg-amber-300', label: 'Ledtråd 1' },
+  { from: 'clue_2_at', to: 'street_at', color: 'bg-amber-500', label: 'Ledtråd 2' },
+  { from: 'street_at', to: 'number_at', color: 'bg-blue-400', label: 'Gatunamn' },
+  { from: 'number_at', to: 'opened_at', color: 'bg-blue-600', label: 'Husnummer' },
+];
+
+const fmt = (date: Date) => date.toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Stockholm' });
+
+export function RevealTimeline({ timelines, conflicts, courseStarts }: RevealTimelineProps) {
+  const [onlyConflicts, setOnlyConflicts] = useState(false);
+
+  if (timelines.length === 0) {
+    return <p className="text-sm text-gray-500">Tidslinjen visas när matchningen är klar och kuverten är skapade.</p>;
+  }
+
+  const allTimes = timelines.flatMap(t => t.courses.flatMap(c => Object.values(c.times).map(d => d.getTime())));
+  const start = Math.min(...allTimes);
+  const end = Math.max(...allTimes) + 30 * 60_000;
+  const position = (date: Date) => ((date.getTime() - start) / (end - start)) * 100;
+
+  const hours: Date[] = [];
+  for (let h = Math.ceil(start / 3_600_000) * 3_600_000; h <= end; h += 3_600_000) hours.push(new Date(h));
+
+  const conflictsByCouple = new Map<string, ScheduleConflict[]>();
+  for (const conflict of conflicts) {
+    conflictsByCouple.set(conflict.couple_id, [...(conflictsByCouple.get(conflict.couple_id) ?? []), conflict]);
+  }
+  const rows = onlyConflicts ? timelines.filter(t => conflictsByCouple.has(t.couple_id)) : timelines;
+
+  return (
+    <div className="space-y-4">
+      {conflicts.length > 0 ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          <p className="font-medium mb-1">⚠️ {conflicts.length} konflikt{conflicts.length === 1 ? '' : 'er'} för {conflictsByCouple.size} par</p>
+          <ul className="list-disc list-inside space-y-0.5 max-h-32 overflow-y-auto">
+            {[...new Set(conflicts.map(c => c.message))].map(message => <li key={message}>{message}</li>)}
+          </ul>
+        </div>
+      ) : (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">✅ Inga konflikter</div>
+      )}
+
+      <div className="flex items-center justify-between gap-4 text-xs text-gray-500">
+        <div className="flex flex-wrap gap-3">
+          {SEGMENTS.map(s => (
+            <span key={s.from} className="inline-flex items-center gap-1"><span className={`w-3 h-2 rounded-sm ${s.color}`} />{s.label}</span>
+          ))}
+        </div>
+        {conflicts.length > 0 && (
+          <label className="inline-flex items-center gap-1 cursor-pointer whitespace-nowrap">
+            <input type="checkbox" checked={onlyConflicts} onChange={(e) => setOnlyConflicts(e.target.checked)} />
+            Bara konflikter
+          </label>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[640px]">
+          {/* Hour axis */}
+          <div className="flex">
+            <div className="w-36 flex-shrink-0" />
+            <div className="relative flex-1 h-5 text-[10px] text-gray-400">
+              {hours.map(h => (
+                <span key={h.getTime()} className="absolute -translate-x-1/2" style={{ left: `${position(h)}%` }}>{fmt(h)}</span>
+              ))}
+            </div>
+          </div>
+
+          <div className="max-h-[480px] overflow-y-auto">
+            {rows.map(timeline => {
+              const coupleConflicts = conflictsByCouple.get(timeline.couple_id) ?? [];
+              return (
+                <div key={timeline.couple_id} className="flex items-center border-t border-gray-100 py-1">
+                  <div className={`w-36 flex-shrink-0 pr-2 text-xs truncate ${coupleConflicts.length ? 'text-red-600 font-medium' : 'text-gray-700'}`} title={timeline.name}>
+                    {timeline.name}
+                  </div>
+                  <div className="relative flex-1">
+                    {/* Course starts */}
+                    {Object.entries(courseStarts).map(([course, at]) => (
+                      <div key={course} className="absolute inset-y-0 border-l border-dashed border-green-400" style={{ left: `${position(at)}%` }} />
+                    ))}
+                    {timeline.courses.map(({ course, times }) => {
+                      const courseConflicts = coupleConflicts.filter(c => c.course === course);
+                      return (
+                        <div key={course} className="relative h-3 my-0.5">
+                          {SEGMENTS.map(segment => {
+                            const from = times[segment.from];
+                            const to = times[segment.to];
+                            if (to <= from) return null;
+                            return (
+                              <div
+                                key={segment.from}
+                                className={`absolute inset-y-0 ${segment.color}`}
+                                style={{ left: `${position(from)}%`, width: `${position(to) - position(from)}%` }}
+                                title={`${COURSE_EMOJI[course]} ${segment.label}: ${fmt(from)}–${fmt(to)}`}
+                              />
+                            );
+                          })}
+                          {courseConflicts.map(conflict => (
+                            <div
+                              key={`${conflict.type}-${conflict.state}`}
+                              className="absolute -inset-y-0.5 w-1.5 -translate-x-1/2 rounded-sm bg-red-600 ring-2 ring-red-300"
+                              style={{ left: `${position(conflict.at)}%` }}
+                              title={`${fmt(conflict.at)}: ${conflict.message}`}
+                            />
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+/**
+ * RunningLateControl - push the rest of the evening, one course or one
+ * host's table back while the event is live.
+ *
+ * Always previews the new reveal times before anything is saved (changing
+ * the choice throws the preview away); confirming saves them and notifies
+ * the affected couples.
+ */
+
+import { useEffect, useState } from 'react';
+import type { DelayScope, EnvelopeDelayChange } from '@/lib/envelope/delay';
+import type { MealCourse } from '@/types/database';
+
+interface RunningLateControlProps {
+  eventId: string;
+  disabled?: boolean;
+  onDelayed?: () => void;
+}
+
+interface HostTable {
+  id: string;
+  name: string;
+  course: MealCourse;
+}
+
+type PreviewChange = EnvelopeDelayChange & { couple_name: string; host_name: string | null };
+
+const COURSE_LABELS: Record<MealCourse, string> = {
+  starter: '🥗 Förrätt',
+  main: '🍖 Huvudrätt',
+  dessert: '🍰 Efterrätt',
+};
+
+const QUICK_MINUTES = [5, 10, 15, 30];
+
+const fmt = (iso: string | null | undefined) => iso
+  ? new Date(iso).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Stockholm' })
+  : '–';
+
+export function RunningLateControl({ eventId, disabled, onDelayed }: RunningLateControlProps) {
+  const [scopeType, setScopeType] = useState<DelayScope['type']>('all');
+  const [course, setCourse] = useState<MealCourse>('starter');
+  const [hostId, setHostId] = useState('');
+  const [hosts, setHosts] = useState<HostTable[]>([]);
+  const [minutes, setMinutes] = useState(10);
+  const [preview, setPreview] = useState<PreviewChange[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetch(`/api/organizer/events/${eventId}/delay`)
+      .then(res => res.ok ? res.json() : { hosts: [] })
+      .then(data => setHosts(data.hosts || []))
+      .catch(() => { /* host list is optional */ });
+  }, [eventId]);
+
+  const scope: DelayScope | null = scopeType === 'course'
+    ? { type: 'course', course }
+    : scopeType === 'host'
+      ? (hostId ? { type: 'host', host_couple_id: hostId } : null)
+      : { type: 'all' };
+
+  async function submit(isPreview: boolean) {
+    if (!scope) return;
+    setBusy(true); setMessage('');
+    try {
+      const res = await fetch(`/api/organizer/events/${eventId}/delay`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope, delay_minutes: minutes, preview: isPreview }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(`❌ ${data.error || 'Kunde inte skjuta upp'}`);
+        return;
+      }
+      if (isPreview) {
+        setPreview(data.changes);
+        return;
+      }
+      setPreview(null);
+      setMessage(`✅ ${data.updated} kuvert försenade ${minutes} min · ${data.notified} par notifierade`);
+      onDelayed?.();
+    } catch { setMessage('❌ Nätverksfel'); }
+    finally { setBusy(false); }
+  }
+
+  const previewCouples = preview ? new Set(preview.map(c => c.couple_id)).size : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {([
+          ['all', 'Allt från nu'],
+          ['course', 'En rätt'],
+          ['host', 'Ett värdbord'],
+        ] as [DelayScope['type'], string][]).map(([type, label]) => (
+          <button key={type} onClick={() => { setScopeType(type); setPreview(null); }}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition ${
+              scopeType === type ? 'bg-orange-500 text-white' : 'bg-orange-50 text-orange-700 hover:bg-orange-100'
+            }`}>
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {scopeType === 'course' && (
+        <select value={course} onChange={(e) => { setCourse(e.target.value as MealCourse); setPreview(null); }}
+          className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm">
+          {(Object.keys(COURSE_LABELS) as MealCourse[]).map(c => (
+            <option key={c} value={c}>{COURSE_LABELS[c]}</option>
+          ))}
+        </select>
+      )}
+
+      {scopeType === 'host' && (
+        <select value={hostId} onChange={(e) => { setHostId(e.target.value); setPreview(null); }}
+          className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm">
+          <option value="">Välj värdpar…</option>
+          {hosts.map(h => (
+            <option key={`${h.id}-${h.course}`} value={h.id}>{COURSE_LABELS[h.course]} · {h.name}</option>
+          ))}
+        </select>
+      )}
+
+      <div className="flex items-center gap-1.5 flex-wrap">
+        {QUICK_MINUTES.map(m => (
+          <button key={m} onClick={() => { setMinutes(m); setPreview(null); }}
+            className={`px-2.5 py-1 rounded-lg text-xs font-medium transition ${
+              minutes === m ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}>
+            +{m}
+          </button>
+        ))}
+        <input type="number" min={1} max={180} value={minutes}
+          onChange={(e) => { setMinutes(Math.max(1, Math.min(180, Number(e.target.value) || 1))); setPreview(null); }}
+          className="w-16 px-2 py-1 border border-gray-200 rounded-lg text-xs text-center" />
+        <span className="text-xs text-gray-500">min</span>
+      </div>
+
+      {!preview ? (
+        <button onClick={() => submit(true)} disabled={disabled || busy || !scope}
+          className="px-3 py-1.5 bg-orange-50 text-orange-700 rounded-lg hover:bg-orange-100 disabled:opacity-40 text-sm font-medium transition">
+          {busy ? '...' : '👀 Förhandsgranska'}
+        </button>
+      ) : preview.length === 0 ? (
+        <p className="text-xs text-gray-500">Inga kuvert påverkas - allt i det valet är redan öppnat.</p>
+      ) : (
+        <div className="border border-orange-200 rounded-lg overflow-hidden">
+          <p className="text-xs font-medium text-orange-800 bg-orange-50 px-3 py-2">
+            {preview.length} kuvert för {previewCouples} par flyttas {minutes} min
+          </p>
+          <div className="max-h-56 overflow-y-auto divide-y divide-gray-100">
+            {preview.map(change => (
+              <div key={change.envelope_id} className="px-3 py-1.5 text-xs flex items-center justify-between gap-2">
+                <span className="truncate text-gray-700">
+                  {COURSE_LABELS[change.course]} · {change.couple_name}
+                  {change.host_name && change.host_couple_id !== change.couple_id && (
+                    <span className="text-gray-400"> → {change.host_name}</span>
+                  )}
+                </span>
+                <span className="font-mono text-gray-500 whitespace-nowrap">
+                  {change.after.street_at
+                    ? <>📍 {fmt(change.before.street_at)} → <span className="text-orange-700 font-semibold">{fmt(change.after.street_at)}</span></>
+                    : '📍 redan avslöjad'}
+                  {' · '}🍽️ {fmt(change.before.opened_at)} → <span className="text-orange-700 font-semibold">{fmt(change.after.opened_at)}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 px-3 py-2 bg-gray-50">
+            <button onClick={() => submit(false)} disabled={disabled || busy}
+              className="px-3 py-1.5 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-40 text-sm font-medium transition">
+              {busy ? '...' : `⏱️ Skjut upp ${minutes} min`}
+            </button>
+            <button onClick={() => setPreview(null)} disabled={busy}
+              className="px-3 py-1.5 bg-white text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-100 text-sm transition">
+              Avbryt
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.startsWith('✅') ? 'text-green-700' : 'text-red-700'}`}>{message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+/**
+ * TableArrivalsPanel - which host tables are complete, from the hosts'
+ * check-ins in the host view (e/[slug]/host).
+ */
+
+import { useEffect, useState } from 'react';
+import type { ArrivalPhase } from '@/lib/envelope/arrivals';
+import type { MealCourse } from '@/types/database';
+
+interface TableArrivalsPanelProps {
+  eventId: string;
+}
+
+interface TableArrivals {
+  host_couple_id: string;
+  host_name: string;
+  course: MealCourse;
+  guests: number;
+  arrived: number;
+  complete: boolean;
+  phases: ArrivalPhase[];
+}
+
+const COURSE_LABELS: Record<MealCourse, string> = {
+  starter: '🥗 Förrätt',
+  main: '🍖 Huvudrätt',
+  dessert: '🍰 Efterrätt',
+};
+
+export function TableArrivalsPanel({ eventId }: TableArrivalsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [tables, setTables] = useState<TableArrivals[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function load() {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/organizer/events/${eventId}/arrivals`);
+      if (res.ok) setTables((await res.json()).tables);
+    } catch { /* keep the last state */ }
+    finally { setLoading(false); }
+  }
+
+  useEffect(() => {
+    fetch(`/api/organizer/events/${eventId}/arrivals`)
+      .then(res => res.ok ? res.json() : null)
+      .then(data => { if (data) setTables(data.tables); })
+      .catch(() => { /* panel is optional */ });
+  }, [eventId]);
+
+  const completeCount = tables?.filter(t => t.complete).length ?? 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-3 p-5 w-full text-left hover:bg-gray-50/50 transition"
+      >
+        <span className="text-2xl">🚪</span>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-gray-900">Ankomster</h3>
+          <p className="text-xs text-gray-500">
+            {tables?.length ? `${completeCount} av ${tables.length} bord kompletta` : 'Värdarna checkar in sina gäster'}
+          </p>
+        </div>
+        <span className={`text-gray-400 transition-transform duration-200 ${expanded ? 'rotate-180' : ''}`}>
+          ▼
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-5 pb-5 border-t border-gray-100 pt-4 space-y-4">
+          {!tables || tables.length === 0 ? (
+            <p className="text-sm text-gray-500">Inga bord än.</p>
+          ) : (
+            (Object.keys(COURSE_LABELS) as MealCourse[]).map(course => {
+              const courseTables = tables.filter(t => t.course === course);
+              if (courseTables.length === 0) return null;
+              return (
+                <div key={course}>
+                  <p className="text-xs text-gray-500 font-medium mb-1">{COURSE_LABELS[course]}</p>
+                  <div className="divide-y divide-gray-100">
+                    {courseTables.map(table => (
+                      <div key={table.host_couple_id} className="py-1.5 flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate text-gray-800">{table.host_name}</span>
+                        <span className={`whitespace-nowrap text-xs px-2 py-0.5 rounded-full font-medium ${
+                          table.complete ? 'bg-green-100 text-green-700'
+                            : table.arrived > 0 ? 'bg-amber-100 text-amber-700'
+                            : 'bg-gray-100 text-gray-500'
+                        }`}>
+                          {table.complete ? '✅ Komplett' : `${table.arrived}/${table.guests} på plats`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+          <button onClick={load} disabled={loading}
+            className="px-3 py-1.5 bg-gray-100 text-gray-600 rounded-lg hover:bg-gray-200 disabled:opacity-40 text-sm transition">
+            {loading ? '...' : '🔄 Uppdatera'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useState } from 'react';
+
+interface CoupleOption {
+  id: string;
+  invited_name: string;
+  partner_name: string | null;
+}
+
+type MealCourse = 'starter' | 'main' | 'dessert';
+type Preference = 'avoid' | 'low' | 'neutral' | 'preferred' | 'known';
+
+interface PairingChange {
+  course: string;
+  guest_couple_id: string;
+  from_host_couple_id: string | null;
+  to_host_couple_id: string | null;
+}
+
+interface PlanStats {
+  couples_matched: number;
+  preference_satisfaction: number;
+  capacity_utilization: number;
+  forced_assignments?: number;
+  expected_cycling_km?: number;
+}
+
+interface SimulationResult {
+  has_active_plan: boolean;
+  diff: {
+    changed: PairingChange[];
+    unchanged_count: number;
+    envelopes_cancelled: number;
+    envelopes_created: number;
+  };
+  stats_before: PlanStats | null;
+  stats_after: PlanStats;
+  warnings: { type: string; message: string }[];
+}
+
+interface Props {
+  eventId: string;
+  couples: CoupleOption[];
+}
+
+const COURSE_LABELS: Record<string, string> = {
+  starter: '🥗 Förrätt',
+  main: '🍖 Huvudrätt',
+  dessert: '🍰 Efterrätt',
+};
+
+const PREFERENCE_LABELS: Record<Preference, string> = {
+  avoid: '⛔ Ej mötas',
+  low: '👎 Låg prio',
+  neutral: '➖ Neutral',
+  preferred: '👍 Prioriterat',
+  known: '🔄 Träffats förut',
+};
+
+const STAT_ROWS: { key: keyof PlanStats; label: string; format: (v: number) => string }[] = [
+  { key: 'couples_matched', label: 'Par matchade', format: v => String(v) },
+  { key: 'capacity_utilization', label: 'Kapacitetsutnyttjande', format: v => `${Math.round(v * 100)}%` },
+  { key: 'forced_assignments', label: 'Tvingade placeringar', format: v => String(v) },
+  { key: 'expected_cycling_km', label: 'Förväntad cykelsträcka', format: v => `${v} km` },
+];
+
+const selectClass = 'px-2 py-1.5 border border-gray-200 rounded-lg text-sm bg-white';
+
+export function WhatIfPanel({ eventId, couples }: Props) {
+  const [open, setOpen] = useState(false);
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [blocks, setBlocks] = useState<[string, string][]>([]);
+  const [preferences, setPreferences] = useState<{ couple_id: string; target_couple_id: string; preference: Preference }[]>([]);
+  const [forced, setForced] = useState<Record<string, MealCourse>>({});
+  const [draft, setDraft] = useState({ a: '', b: '', preference: 'avoid' as Preference, course: 'starter' as MealCourse });
+  const [simulating, setSimulating] = useState(false);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState('');
+
+  const nameOf = (id: string | null) => {
+    if (!id) return '—';
+    const c = couples.find(c => c.id === id);
+    return c ? `${c.invited_name}${c.partner_name ? ` & ${c.partner_name}` : ''}` : id;
+  };
+
+  const hasChanges = excluded.length > 0 || blocks.length > 0 || preferences.length > 0 || Object.keys(forced).length > 0;
+
+  async function simulate() {
+    setSimulating(true);
+    setError('');
+    try {
+      const res = await fetch(`/api/organizer/events/${eventId}/matching/simulate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          exclude_couple_ids: excluded,
+          add_blocks: blocks,
+          preferences,
+          force_courses: forced,
+        }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setResult(data);
+      } else {
+        setError(data.error || 'Simuleringen misslyckades');
+        setResult(null);
+      }
+    } catch {
+      setError('Nätverksfel');
+    } finally {
+      setSimulating(false);
+    }
+  }
+
+  function reset() {
+    setExcluded([]);
+    setBlocks([]);
+    setPreferences([]);
+    setForced({});
+    setResult(null);
+    setError('');
+  }
+
+  const coupleSelect = (value: string, onChange: (id: string) => void, placeholder: string) => (
+    <select value={value} onChange={e => onChange(e.target.value)} className={selectClass}>
+      <option value="">{placeholder}</option>
+      {couples.map(c => (
+        <option key={c.id} value={c.id}>{nameOf(c.id)}</option>
+      ))}
+    </select>
+  );
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="w-full mb-6 px-4 py-3 bg-white rounded-xl shadow-sm text-left text-gray-700 hover:bg-gray-50"
+      >
+        🧪 Testa ändringar innan du matchar (what-if)
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-sm mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">🧪 What-if</h2>
+        <button onClick={() => setOpen(false)} className="text-sm text-gray-400 hover:text-gray-700">Stäng</button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Provkör matchningen med ändrade förutsättningar. Inget sparas och aktiv matchplan påverkas inte.
+      </p>
+
+      <div className="space-y-3 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-28 text-gray-600">Exkludera</span>
+          {coupleSelect(draft.a, a => setDraft(d => ({ ...d, a })), 'Välj par')}
+          <button
+            disabled={!draft.a}
+            onClick={() => { setExcluded(prev => [...new Set([...prev, draft.a])]); setDraft(d => ({ ...d, a: '' })); }}
+            className="px-3 py-1.5 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+          >
+            Lägg till
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-28 text-gray-600">Par ↔ par</span>
+          {coupleSelect(draft.a, a => setDraft(d => ({ ...d, a })), 'Par A')}
+          {coupleSelect(draft.b, b => setDraft(d => ({ ...d, b })), 'Par B')}
+          <select
+            value={draft.preference}
+            onChange={e => setDraft(d => ({ ...d, preference: e.target.value as Preference }))}
+            className={selectClass}
+          >
+            <option value="avoid">🚫 Blockera</option>
+            {(Object.keys(PREFERENCE_LABELS) as Preference[]).filter(p => p !== 'avoid').map(p => (
+              <option key={p} value={p}>{PREFERENCE_LABELS[p]}</option>
+            ))}
+          </select>
+          <button
+            disabled={!draft.a || !draft.b || draft.a === draft.b}
+            onClick={() => {
+              if (draft.preference === 'avoid') {
+                setBlocks(prev => [...prev, [draft.a, draft.b]]);
+              } else {
+                setPreferences(prev => [
+                  ...prev.filter(p => !(p.couple_id === draft.a && p.target_couple_id === draft.b)),
+                  { couple_id: draft.a, target_couple_id: draft.b, preference: draft.preference },
+                ]);
+              }
+              setDraft(d => ({ ...d, a: '', b: '' }));
+            }}
+            className="px-3 py-1.5 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+          >
+            Lägg till
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-28 text-gray-600">Tvinga rätt</span>
+          {coupleSelect(draft.a, a => setDraft(d => ({ ...d, a })), 'Välj par')}
+          <select
+            value={draft.course}
+            onChange={e => setDraft(d => ({ ...d, course: e.target.value as MealCourse }))}
+            className={selectClass}
+          >
+            {(['starter', 'main', 'dessert'] as const).map(c => (
+              <option key={c} value={c}>{COURSE_LABELS[c]}</option>
+            ))}
+          </select>
+          <button
+            disabled={!draft.a}
+            onClick={() => { setForced(prev => ({ ...prev, [draft.a]: draft.course })); setDraft(d => ({ ...d, a: '' })); }}
+            className="px-3 py-1.5 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+          >
+            Lägg till
+          </button>
+        </div>
+      </div>
+
+      {hasChanges && (
+        <ul className="mt-4 space-y-1 text-sm text-gray-700">
+          {excluded.map(id => <li key={`x-${id}`}>➖ Utan {nameOf(id)}</li>)}
+          {blocks.map(([a, b], i) => <li key={`b-${i}`}>🚫 {nameOf(a)} och {nameOf(b)} blockeras</li>)}
+          {preferences.map(p => (
+            <li key={`p-${p.couple_id}-${p.target_couple_id}`}>
+              {PREFERENCE_LABELS[p.preference]}: {nameOf(p.couple_id)} → {nameOf(p.target_couple_id)}
+            </li>
+          ))}
+          {Object.entries(forced).map(([id, course]) => (
+            <li key={`f-${id}`}>📌 {nameOf(id)} lagar {COURSE_LABELS[course]}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={simulate}
+          disabled={simulating}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {simulating ? '⏳ Simulerar...' : '▶️ Simulera'}
+        </button>
+        {hasChanges && (
+          <button onClick={reset} className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200">
+            Rensa
+          </button>
+        )}
+      </div>
+
+      {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg mt-4 text-sm">{error}</div>}
+
+      {result && (
+        <div className="mt-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="bg-amber-50 rounded-lg p-3 text-center">
+              <div className="text-2xl font-bold text-amber-700">{result.diff.changed.length}</div>
+              <div className="text-xs text-amber-700">Ändrade placeringar</div>
+            </div>
+            <div className="bg-red-50 rounded-lg p-3 text-center">
+              <div className="text-2xl font-bold text-red-700">{result.diff.envelopes_cancelled}</div>
+              <div className="text-xs text-red-700">Kuvert som makuleras</div>
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-medium py-1"></th>
+                <th className="text-right font-medium py-1">Nu</th>
+                <th className="text-right font-medium py-1">What-if</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {STAT_ROWS.map(({ key, label, format }) => {
+                const before = result.stats_before?.[key];
+                const after = result.stats_after[key];
+                return (
+                  <tr key={key}>
+                    <td className="py-1 text-gray-600">{label}</td>
+                    <td className="py-1 text-right">{before != null ? format(before) : '—'}</td>
+                    <td className={`py-1 text-right ${before != null && after !== before ? 'font-semibold text-indigo-700' : ''}`}>
+                      {after != null ? format(after) : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {result.diff.changed.length > 0 && (
+            <div>
+              <h3 className="font-medium text-gray-900 mb-2">Ändrade placeringar</h3>
+              <ul className="space-y-1 text-sm max-h-64 overflow-y-auto">
+                {result.diff.changed.map(c => (
+                  <li key={`${c.course}-${c.guest_couple_id}`} className="text-gray-700">
+                    <span className="text-gray-400">{COURSE_LABELS[c.course]}</span>{' '}
+                    {nameOf(c.guest_couple_id)}: {nameOf(c.from_host_couple_id)} → {nameOf(c.to_host_couple_id)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {result.warnings.length > 0 && (
+            <div className="bg-amber-50 text-amber-800 rounded-lg p-3 text-sm space-y-1">
+              {result.warnings.map((w, i) => <div key={i}>⚠️ {w.message}</div>)}
+            </div>
+          )}
+
+          {!result.has_active_plan && (
+            <p className="text-xs text-gray-400">Ingen aktiv matchplan ännu – alla placeringar räknas som nya.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { applyOpenedReveals, openSealedReveal } from '@/lib/envelope/sealed';
+import type { CourseEnvelopeStatus, SealedReveal, SealedRevealContent, SealedRevealState } from '@/types/database';
+
+const KEY_RETRY_MS = 10_000;
+
+type OpenedReveals = Partial<Record<SealedRevealState, SealedRevealContent>>;
+
+const NONE_OPENED: OpenedReveals = {};
+
+interface SealedRevealOptions {
+  /** /api/envelope/key URL for this course, without &state */
+  keyUrl?: string;
+  /** Server time minus local time, so the countdown follows the server clock */
+  clockOffsetMs?: number;
+  /** Show the course exactly as given (organizer preview with simulated time) */
+  paused?: boolean;
+}
+
+/**
+ * Keeps an envelope moving between server updates: ticks the countdown
+ * locally and, once a sealed reveal is due, fetches its key and decrypts it -
+ * so the reveal shows up even if the full status fetch doesn't get through.
+ *
+ * What was opened belongs to the sealed reveals it came from. A new status
+ * brings new ones (a delay moved the times, a cascade changed the host), and
+ * then nothing opened before is shown or retried against them.
+ */
+export function useSealedReveals(
+  course: CourseEnvelopeStatus,
+  { keyUrl, clockOffsetMs = 0, paused = false }: SealedRevealOptions = {}
+): CourseEnvelopeStatus {
+  const [now, setNow] = useState(() => Date.now() + clockOffsetMs);
+  const sealedReveals = course.sealed_reveals;
+  const [openedFor, setOpenedFor] = useState<{ sealed?: SealedReveal[]; opened: OpenedReveals }>({ opened: {} });
+  const opened = openedFor.sealed === sealedReveals ? openedFor.opened : NONE_OPENED;
+  const attempts = useRef<{ sealed?: SealedReveal[]; at: Map<SealedRevealState, number> }>({ at: new Map() });
+
+  const ticking = !paused && (!!course.next_reveal || !!sealedReveals?.length);
+
+  useEffect(() => {
+    if (!ticking) return;
+    const interval = setInterval(() => setNow(Date.now() + clockOffsetMs), 1000);
+    return () => clearInterval(interval);
+  }, [ticking, clockOffsetMs]);
+
+  useEffect(() => {
+    if (paused || !keyUrl) return;
+    if (attempts.current.sealed !== sealedReveals) attempts.current = { sealed: sealedReveals, at: new Map() };
+
+    for (const sealed of sealedReveals ?? []) {
+      if (opened[sealed.state] || new Date(sealed.at).getTime() > now) continue;
+      const lastAttempt = attempts.current.at.get(sealed.state);
+      if (lastAttempt && now - lastAttempt < KEY_RETRY_MS) continue;
+      attempts.current.at.set(sealed.state, now);
+
+      fetch(`${keyUrl}&state=${sealed.state}`)
+        .then(res => (res.ok ? res.json() : null))
+        .then(body => (body?.key ? openSealedReveal(body.key, sealed) : null))
+        .then(content => {
+          // Dropped if newer sealed reveals came in meanwhile
+          if (!content || attempts.current.sealed !== sealedReveals) return;
+          setOpenedFor(prev => ({
+            sealed: sealedReveals,
+            opened: { ...(prev.sealed === sealedReveals ? prev.opened : {}), [sealed.state]: content },
+          }));
+        })
+        .catch(() => {
+          // Still offline - retried on a later tick
+        });
+    }
+  }, [sealedReveals, keyUrl, paused, now, opened]);
+
+  if (paused) return course;
+  return applyOpenedReveals(course, opened, new Date(now));
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MAX_NOTIFICATION_ATTEMPTS,
+  deliveryOutcome,
+  notificationBackoffMs,
+  notificationIdempotencyKey,
+} from '../notifications';
+
+// The Resend client needs an API key at import time; these tests never send
+vi.mock('@/lib/email', () => ({ sendEmail: vi.fn() }));
+
+const now = new Date('2026-06-15T17:00:00.000Z');
+
+describe('notificationBackoffMs', () => {
+  it('doubles from a minute and stops at an hour', () => {
+    expect([1, 2, 3, 4].map(notificationBackoffMs)).toEqual([60_000, 120_000, 240_000, 480_000]);
+    expect(notificationBackoffMs(20)).toBe(60 * 60_000);
+  });
+});
+
+describe('deliveryOutcome', () => {
+  it('requeues a temporary error after the backoff', () => {
+    expect(deliveryOutcome(2, { name: 'rate_limit_exceeded', message: 'Too many requests' }, now)).toEqual({
+      status: 'queued',
+      next_attempt_at: '2026-06-15T17:02:00.000Z',
+      last_error: 'rate_limit_exceeded: Too many requests',
+    });
+  });
+
+  it('marks a rejected address bounced at once', () => {
+    expect(deliveryOutcome(1, { name: 'validation_error', message: 'Invalid `to` field' }, now).status).toBe('bounced');
+    expect(deliveryOutcome(1, { name: 'subscription_gone', message: 'Gone' }, now).status).toBe('bounced');
+  });
+
+  it('gives up after the last attempt', () => {
+    expect(deliveryOutcome(MAX_NOTIFICATION_ATTEMPTS, { message: 'fetch failed' }, now)).toMatchObject({
+      status: 'failed',
+      last_error: 'fetch failed',
+    });
+  });
+});
+
+describe('notificationIdempotencyKey', () => {
+  it('includes course, suffix, partner and SMS only when given', () => {
+    expect(notificationIdempotencyKey('plan', 'c1', 'reminder')).toBe('plan:c1:reminder');
+    expect(notificationIdempotencyKey('plan', 'c1', 'envelope_changed', { course: 'main', idempotencySuffix: 'delay-1' }))
+      .toBe('plan:c1:envelope_changed:main:delay-1');
+    expect(notificationIdempotencyKey('plan', 'c1', 'reminder', {}, 'partner')).toBe('plan:c1:reminder:partner');
+    expect(notificationIdempotencyKey('plan', 'c1', 'reminder', {}, 'partner', 'sms')).toBe('plan:c1:reminder:partner:sms');
+  });
+
+  it('keys a reveal push by state, reveal time and browser', () => {
+    expect(notificationIdempotencyKey('plan', 'c1', 'envelope_reveal', { course: 'main', state: 'STREET', idempotencySuffix: '1781542800000' }, 'invited', 'push', 'sub1'))
+      .toBe('plan:c1:envelope_reveal:main:STREET:1781542800000:push:sub1');
+  });
+});
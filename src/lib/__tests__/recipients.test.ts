@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { reachableRecipients, resolveRecipients } from '../recipients';
+
+const couple = {
+  id: 'c1',
+  invited_name: 'Anna',
+  invited_email: 'anna@example.com',
+  partner_name: 'Bo',
+  partner_email: 'bo@example.com',
+};
+
+describe('resolveRecipients', () => {
+  it('lists both partners with their own person type', () => {
+    expect(resolveRecipients(couple).map(r => [r.person_type, r.name, r.email])).toEqual([
+      ['invited', 'Anna', 'anna@example.com'],
+      ['partner', 'Bo', 'bo@example.com'],
+    ]);
+  });
+
+  it('sends the partner seat to a replacement', () => {
+    const replaced = { ...couple, replacement_name: 'Cia', replacement_email: 'cia@example.com' };
+    expect(resolveRecipients(replaced)[1]).toMatchObject({ person_type: 'partner', name: 'Cia', email: 'cia@example.com' });
+
+    // A replacement without an email can't be reached - the old partner isn't asked instead
+    expect(resolveRecipients({ ...couple, replacement_name: 'Cia' })).toHaveLength(1);
+  });
+
+  it('lists a shared address once', () => {
+    expect(resolveRecipients({ ...couple, partner_email: ' Anna@Example.com' })).toHaveLength(1);
+  });
+
+  it('keeps a partner who only has a phone, for SMS', () => {
+    const shared = { ...couple, invited_phone: '070-111 11 11', partner_email: 'anna@example.com', partner_phone: '0702222222' };
+    expect(resolveRecipients(shared).map(r => [r.person_type, r.email, r.phone])).toEqual([
+      ['invited', 'anna@example.com', '+46701111111'],
+      ['partner', null, '+46702222222'],
+    ]);
+  });
+});
+
+describe('reachableRecipients', () => {
+  it('leaves out only the person who opted out', () => {
+    const optedOut = { ...couple, partner_notifications_opt_out_at: '2026-06-01T10:00:00.000Z' };
+    expect(resolveRecipients(optedOut)[1].opted_out).toBe(true);
+    expect(reachableRecipients(optedOut).map(r => r.person_type)).toEqual(['invited']);
+  });
+});
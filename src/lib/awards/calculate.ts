@@ -5,6 +5,8 @@
  * Each person gets exactly ONE award (most unique first).
  */
 
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
+
 export interface Participant {
   couple_id: string;
   names: string;
@@ -16,6 +18,9 @@ export interface Participant {
   is_vegetarian: boolean;
   registered_at: string;
   address_distance_from_center: number; // km from city center
+  guess_points: number; // guess-the-host score (lib/envelope/guesses)
+  correct_guesses: number;
+  guesses_made: number;
 }
 
 export interface Award {
@@ -54,6 +59,10 @@ export const AWARDS: Award[] = [
   { id: 'only_vegetarian', emoji: '🌿', title: 'Gröna Hjälten', subtitle: 'Enda vegetarianen — trendsättare!', color_from: 'from-lime-500', color_to: 'to-green-500' },
   { id: 'most_allergies', emoji: '🦸', title: 'Överlevaren', subtitle: 'Flest allergier — men du fixade det!', color_from: 'from-red-500', color_to: 'to-orange-500' },
   
+  // Guess the host
+  { id: 'master_detective', emoji: '🔍', title: 'Mästerdetektiven', subtitle: 'Flest poäng i Gissa värden!', color_from: 'from-violet-600', color_to: 'to-fuchsia-500' },
+  { id: 'clueless', emoji: '🙈', title: 'Blindtrevaren', subtitle: 'Gissade fel på varenda värd — men med stil!', color_from: 'from-stone-500', color_to: 'to-amber-500' },
+  
   // Random/social
   { id: 'wildcard', emoji: '🎲', title: 'Wildcard', subtitle: 'Slumpen valde dig — grattis!', color_from: 'from-purple-500', color_to: 'to-indigo-500' },
   { id: 'social_butterfly', emoji: '🦋', title: 'Social Butterfly', subtitle: 'Du pratade med alla!', color_from: 'from-sky-400', color_to: 'to-indigo-400' },
@@ -63,6 +72,41 @@ export const AWARDS: Award[] = [
   { id: 'night_owl', emoji: '🦉', title: 'Nattuggle', subtitle: 'Sist kvar på efterfesten!', color_from: 'from-indigo-600', color_to: 'to-violet-500' },
 ];
 
+/** English titles and subtitles; AWARDS itself is the Swedish original */
+const AWARD_TEXT_EN: Record<string, Pick<Award, 'title' | 'subtitle'>> = {
+  longest_distance: { title: 'The Marathoner', subtitle: 'You cycled the furthest of all!' },
+  shortest_distance: { title: 'The Tourist', subtitle: 'Shortest ride — lucky you!' },
+  average_distance: { title: 'Goldilocks', subtitle: 'Just right — exactly average!' },
+  oldest: { title: 'The Veteran', subtitle: 'Most experienced at the party!' },
+  youngest: { title: 'Rookie', subtitle: 'Youngest and freshest!' },
+  average_age: { title: 'The Statistician', subtitle: 'Exactly average age — you ARE the norm!' },
+  first_signup: { title: 'The Enthusiast', subtitle: 'First to sign up!' },
+  last_signup: { title: 'Fashionably Late', subtitle: 'Last in — but with style!' },
+  furthest_from_center: { title: 'The Adventurer', subtitle: 'You travelled furthest to be here!' },
+  closest_to_center: { title: 'The Local', subtitle: 'Closest to the centre — convenient!' },
+  most_fun_facts: { title: 'The Storyteller', subtitle: 'Most fun facts — love to share!' },
+  least_fun_facts: { title: 'The Mystic', subtitle: 'Fewest facts — most mysterious!' },
+  only_vegetarian: { title: 'Green Hero', subtitle: 'The only vegetarian — trendsetter!' },
+  most_allergies: { title: 'The Survivor', subtitle: 'Most allergies — but you made it!' },
+  master_detective: { title: 'Master Detective', subtitle: 'Most points in Guess the host!' },
+  clueless: { title: 'Clueless', subtitle: 'Guessed wrong on every host — but with style!' },
+  wildcard: { title: 'Wildcard', subtitle: 'Chance picked you — congratulations!' },
+  social_butterfly: { title: 'Social Butterfly', subtitle: 'You talked to everyone!' },
+  mystery_guest: { title: 'Mystery Guest', subtitle: 'Nobody knew who you were — now they do!' },
+  perfect_host: { title: 'Master Host', subtitle: 'Your guests loved you!' },
+  party_starter: { title: 'Party Starter', subtitle: 'You set the mood!' },
+  night_owl: { title: 'Night Owl', subtitle: 'Last one standing at the afterparty!' },
+};
+
+/** The award with its title and subtitle in the participant's language */
+export function localizeAward(award: Award, locale: Locale = DEFAULT_LOCALE): Award {
+  const text = locale === 'en' ? AWARD_TEXT_EN[award.id] : undefined;
+  return text ? { ...award, ...text } : award;
+}
+
+/** Only given to whoever earned them, never handed out as a wildcard */
+export const GUESS_AWARD_IDS = ['master_detective', 'clueless'];
+
 export interface AwardAssignment {
   couple_id: string;
   names: string;
@@ -215,8 +259,24 @@ export function calculateAwards(participants: Participant[]): AwardAssignment[]
     tryAssign(closestToAvgAge.couple_id, 'average_age', `${closestToAvgAge.age} år`);
   }
   
-  // 15-20. Fill remaining with wildcards
-  const remainingAwards = AWARDS.filter(a => !assignedAwardIds.has(a.id));
+  // 15. Guess the host: most points
+  const byGuessPoints = [...participants]
+    .filter(p => p.guess_points > 0)
+    .sort((a, b) => b.guess_points - a.guess_points || b.correct_guesses - a.correct_guesses);
+  if (byGuessPoints.length > 0) {
+    tryAssign(byGuessPoints[0].couple_id, 'master_detective', `${byGuessPoints[0].guess_points} poäng`);
+  }
+  
+  // 16. Guessed on several courses, never right
+  const clueless = [...participants]
+    .filter(p => p.guesses_made >= 2 && p.correct_guesses === 0)
+    .sort((a, b) => b.guesses_made - a.guesses_made);
+  if (clueless.length > 0) {
+    tryAssign(clueless[0].couple_id, 'clueless', `0 av ${clueless[0].guesses_made} rätt`);
+  }
+  
+  // 17-22. Fill remaining with wildcards
+  const remainingAwards = AWARDS.filter(a => !assignedAwardIds.has(a.id) && !GUESS_AWARD_IDS.includes(a.id));
   const remainingParticipants = participants.filter(p => !assignedCoupleIds.has(p.couple_id));
   
   // Shuffle remaining for fairness
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  SMS_MAX_LENGTH,
+  channelsFor,
+  clearFakeOutbox,
+  getChannelProvider,
+  getFakeOutbox,
+  normaliseNotificationChannels,
+  normalisePhone,
+  subscriptionAddress,
+  toPushText,
+  toSmsText,
+} from '..';
+
+// The Resend client needs an API key at import time; these tests never send email
+vi.mock('@/lib/email', () => ({ sendEmail: vi.fn() }));
+
+describe('normalisePhone', () => {
+  it('turns Swedish numbers into E.164', () => {
+    expect(normalisePhone('070-123 45 67')).toBe('+46701234567');
+    expect(normalisePhone('0046 70 123 45 67')).toBe('+46701234567');
+    expect(normalisePhone('+47 912 34 567')).toBe('+4791234567');
+  });
+
+  it('rejects what cannot be a number', () => {
+    expect(normalisePhone('ring mig')).toBeNull();
+    expect(normalisePhone('')).toBeNull();
+    expect(normalisePhone(null)).toBeNull();
+  });
+});
+
+describe('toSmsText', () => {
+  it('shortens the subject but never the link', () => {
+    const link = 'https://cykelfesten.vercel.app/e/fest/live?token=abc';
+    const text = toSmsText('x'.repeat(400), link);
+    expect(text.length).toBe(SMS_MAX_LENGTH);
+    expect(text.endsWith(`…\n${link}`)).toBe(true);
+  });
+});
+
+describe('notification channel settings', () => {
+  it('defaults to email and keeps a type switched off', () => {
+    const settings = normaliseNotificationChannels({
+      envelope_changed: ['sms', 'email', 'sms', 'pigeon'],
+      reminder: [],
+      unknown: ['sms'],
+    });
+    expect(settings).toEqual({ envelope_changed: ['email', 'sms'], reminder: [] });
+    expect(channelsFor(settings, 'assignment')).toEqual(['email']);
+    expect(channelsFor(settings, 'reminder')).toEqual([]);
+  });
+});
+
+describe('push', () => {
+  it('drops the greeting and keeps the message on one line', () => {
+    expect(toPushText('Hej Anna!\n\nNu står gatan i kuvertet.\nDags att cykla!')).toBe('Nu står gatan i kuvertet. Dags att cykla!');
+    expect(toPushText('Hi Anna!\n\nThe street is out.')).toBe('The street is out.');
+  });
+
+  it('sends to the subscription as web-push expects it', () => {
+    expect(JSON.parse(subscriptionAddress({ endpoint: 'https://push.example/1', p256dh: 'key', auth: 'secret' })))
+      .toEqual({ endpoint: 'https://push.example/1', keys: { p256dh: 'key', auth: 'secret' } });
+  });
+
+  it('is on by default for envelope changes and reveals only', () => {
+    expect(channelsFor({}, 'envelope_changed')).toEqual(['email', 'push']);
+    expect(channelsFor({}, 'envelope_reveal')).toEqual(['push']);
+    expect(channelsFor({}, 'reminder')).toEqual(['email']);
+    expect(channelsFor({ envelope_reveal: [] }, 'envelope_reveal')).toEqual([]);
+  });
+});
+
+describe('fake provider', () => {
+  beforeEach(() => clearFakeOutbox());
+
+  it('is the SMS provider outside production and keeps what it sends', async () => {
+    const sms = getChannelProvider('sms');
+    expect(sms.name).toBe('fake');
+
+    const sent = await sms.send({ to: '+46701234567', subject: 'Ny adress', text: 'Ny adress\nhttps://…' });
+    expect(sent.error).toBeNull();
+    expect(getFakeOutbox()).toMatchObject([{ id: sent.id, channel: 'sms', to: '+46701234567' }]);
+  });
+
+  it('rejects numbers ending in 000 like a bad address', async () => {
+    const sent = await getChannelProvider('sms').send({ to: '+46701234000', subject: 'x', text: 'x' });
+    expect(sent.error?.name).toBe('invalid_recipient');
+    expect(getFakeOutbox()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Email channel: the existing Resend sender behind the channel interface.
+ */
+
+import { sendEmail } from '@/lib/email';
+import type { ChannelProvider } from './types';
+
+export function textToHtml(text: string): string {
+  return `<p>${text.replace(/\n/g, '<br/>')}</p>`;
+}
+
+export const resendEmailProvider: ChannelProvider = {
+  channel: 'email',
+  name: 'resend',
+  async send({ to, subject, text, html }) {
+    const { data, error } = await sendEmail({ to, subject, html: html ?? textToHtml(text), text });
+    if (error) return { id: null, error: { name: error.name, message: error.message } };
+    return { id: data?.id ?? null, error: null };
+  },
+};
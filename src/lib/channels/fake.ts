@@ -0,0 +1,42 @@
+/**
+ * Fake provider for development and tests
+ *
+ * Nothing leaves the machine: messages land in an in-memory outbox and
+ * the dev server log. Numbers ending in 000 fail like a rejected number,
+ * so the bounce path can be tried locally.
+ */
+
+import type { Channel, ChannelProvider, OutboundMessage } from './types';
+
+export interface FakeOutboxEntry extends OutboundMessage {
+  id: string;
+  channel: Channel;
+  sent_at: string;
+}
+
+const outbox: FakeOutboxEntry[] = [];
+
+export function getFakeOutbox(): readonly FakeOutboxEntry[] {
+  return outbox;
+}
+
+export function clearFakeOutbox(): void {
+  outbox.length = 0;
+}
+
+export function createFakeProvider(channel: Channel): ChannelProvider {
+  return {
+    channel,
+    name: 'fake',
+    async send(message) {
+      if (message.to.endsWith('000')) {
+        return { id: null, error: { name: 'invalid_recipient', message: `Fake ${channel}: ${message.to} rejected` } };
+      }
+
+      const entry = { ...message, id: `fake-${channel}-${outbox.length + 1}`, channel, sent_at: new Date().toISOString() };
+      outbox.push(entry);
+      console.log(`[fake ${channel}] → ${message.to}: ${message.subject}`);
+      return { id: entry.id, error: null };
+    },
+  };
+}
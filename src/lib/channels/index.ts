@@ -0,0 +1,41 @@
+/**
+ * Outbound channels
+ *
+ * Participant notifications go out through one or more channels per
+ * notification type, picked by the organizer (events.notification_channels).
+ * Providers are chosen from the environment:
+ *   EMAIL_PROVIDER = resend (default) | fake
+ *   SMS_PROVIDER   = 46elks | fake (default outside production)
+ *   PUSH_PROVIDER  = web-push | fake (default outside production)
+ */
+
+import { resendEmailProvider } from './email';
+import { elksSmsProvider } from './sms';
+import { webPushProvider } from './push';
+import { createFakeProvider } from './fake';
+import type { Channel, ChannelProvider } from './types';
+
+export * from './types';
+export * from './settings';
+export { normalisePhone, toSmsText, SMS_MAX_LENGTH } from './sms';
+export { textToHtml } from './email';
+export { subscriptionAddress, toPushText, vapidPublicKey, type PushPayload } from './push';
+export { getFakeOutbox, clearFakeOutbox, type FakeOutboxEntry } from './fake';
+
+const fakeProviders: Record<Channel, ChannelProvider> = {
+  email: createFakeProvider('email'),
+  sms: createFakeProvider('sms'),
+  push: createFakeProvider('push'),
+};
+
+export function getChannelProvider(channel: Channel): ChannelProvider {
+  if (channel === 'sms') {
+    const provider = process.env.SMS_PROVIDER || (process.env.NODE_ENV === 'production' ? '46elks' : 'fake');
+    return provider === '46elks' ? elksSmsProvider : fakeProviders.sms;
+  }
+  if (channel === 'push') {
+    const provider = process.env.PUSH_PROVIDER || (process.env.NODE_ENV === 'production' ? 'web-push' : 'fake');
+    return provider === 'web-push' ? webPushProvider : fakeProviders.push;
+  }
+  return process.env.EMAIL_PROVIDER === 'fake' ? fakeProviders.email : resendEmailProvider;
+}
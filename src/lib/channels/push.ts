@@ -0,0 +1,77 @@
+/**
+ * Web push channel
+ *
+ * For guests who keep the live envelope open all evening: a push when the
+ * next part of the address is revealed, so they can put the phone away.
+ * Guests opt in per browser (push_subscriptions); `to` is the subscription
+ * as JSON. Signed with VAPID keys - generate them once with
+ * `npx web-push generate-vapid-keys`.
+ */
+
+import { sendNotification, WebPushError, type PushSubscription } from 'web-push';
+import type { WebPushSubscription } from '@/types/database';
+import type { ChannelProvider } from './types';
+
+// A reveal that arrives after the course has started is noise
+const PUSH_TTL_SECONDS = 60 * 60;
+
+/** What the service worker (public/envelope-sw.js) shows */
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string;
+}
+
+export function vapidPublicKey(): string | null {
+  return process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || null;
+}
+
+/** Stored subscription → the JSON the provider sends to */
+export function subscriptionAddress(subscription: Pick<WebPushSubscription, 'endpoint' | 'p256dh' | 'auth'>): string {
+  const address: PushSubscription = {
+    endpoint: subscription.endpoint,
+    keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+  };
+  return JSON.stringify(address);
+}
+
+/** Email body → notification text: without the greeting, on one line */
+export function toPushText(body: string): string {
+  const paragraphs = body.split('\n\n').map(p => p.trim()).filter(Boolean);
+  const rest = /^(Hej|Hi)\b.*!$/.test(paragraphs[0] ?? '') ? paragraphs.slice(1) : paragraphs;
+  return rest.join(' ').replace(/\s*\n\s*/g, ' ');
+}
+
+export const webPushProvider: ChannelProvider = {
+  channel: 'push',
+  name: 'web-push',
+  async send({ to, subject, text, url }) {
+    const publicKey = vapidPublicKey();
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) {
+      return { id: null, error: { name: 'missing_api_key', message: 'VAPID keys not set' } };
+    }
+
+    const payload: PushPayload = { title: subject, body: text, url };
+
+    try {
+      await sendNotification(JSON.parse(to) as PushSubscription, JSON.stringify(payload), {
+        vapidDetails: {
+          subject: process.env.VAPID_SUBJECT || 'mailto:noreply@molt.isaksson.cc',
+          publicKey,
+          privateKey,
+        },
+        TTL: PUSH_TTL_SECONDS,
+        urgency: 'high',
+      });
+      return { id: null, error: null };
+    } catch (err) {
+      if (err instanceof WebPushError) {
+        // 404/410: the browser unsubscribed or the subscription expired
+        const gone = err.statusCode === 404 || err.statusCode === 410;
+        return { id: null, error: { name: gone ? 'subscription_gone' : `http_${err.statusCode}`, message: err.body || err.message } };
+      }
+      throw err;
+    }
+  },
+};
@@ -0,0 +1,64 @@
+/**
+ * Which channels the organizer picked per notification type.
+ * No provider imports here - the organizer page uses this in the browser.
+ */
+
+import type { NotificationType } from '@/lib/notifications';
+import type { Channel } from './types';
+
+export const CHANNELS: Channel[] = ['email', 'sms', 'push'];
+
+export const CHANNEL_LABELS: Record<Channel, string> = {
+  email: '📧 Mejl',
+  sms: '📱 SMS',
+  push: '🔔 Push',
+};
+
+/** Channels per notification type; a missing type means its default (TYPE_DEFAULT_CHANNELS or DEFAULT_CHANNELS) */
+export type NotificationChannels = Partial<Record<NotificationType, Channel[]>>;
+
+export const DEFAULT_CHANNELS: Channel[] = ['email'];
+
+/**
+ * Push only reaches guests who turned it on at the live envelope, so it is
+ * on by default where it matters during the evening. A reveal is not worth an email.
+ */
+export const TYPE_DEFAULT_CHANNELS: NotificationChannels = {
+  envelope_changed: ['email', 'push'],
+  envelope_reveal: ['push'],
+};
+
+export const NOTIFICATION_TYPES: NotificationType[] = ['assignment', 'envelope_ready', 'reminder', 'envelope_changed', 'envelope_reveal'];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  assignment: '🍽️ Uppgift',
+  envelope_ready: '✉️ Kuvert öppet',
+  reminder: '⏰ Påminnelse',
+  envelope_changed: '📍 Ändrat kuvert',
+  envelope_reveal: '🔓 Gata/nummer avslöjat',
+};
+
+export function isChannel(value: unknown): value is Channel {
+  return typeof value === 'string' && (CHANNELS as string[]).includes(value);
+}
+
+/** Channels to use for one notification type */
+export function channelsFor(settings: NotificationChannels | null | undefined, type: NotificationType): Channel[] {
+  return settings?.[type] ?? TYPE_DEFAULT_CHANNELS[type] ?? DEFAULT_CHANNELS;
+}
+
+/**
+ * Organizer input → stored settings: known types only, known channels only,
+ * no duplicates. An empty list is kept (that type is switched off).
+ */
+export function normaliseNotificationChannels(raw: unknown): NotificationChannels {
+  const settings: NotificationChannels = {};
+  if (!raw || typeof raw !== 'object') return settings;
+
+  for (const type of NOTIFICATION_TYPES) {
+    const value = (raw as Record<string, unknown>)[type];
+    if (!Array.isArray(value)) continue;
+    settings[type] = CHANNELS.filter(channel => value.includes(channel));
+  }
+  return settings;
+}
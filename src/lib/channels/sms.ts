@@ -0,0 +1,72 @@
+/**
+ * SMS channel
+ *
+ * Short messages for things that can't wait for someone to check their
+ * inbox - an address change at 19:45. 46elks (Swedish, plain HTTP API) is
+ * the real provider; see fake.ts for development.
+ */
+
+import type { ChannelProvider } from './types';
+
+// Longer texts are split into several (billed) SMS by the provider
+export const SMS_MAX_LENGTH = 306;
+
+const ELKS_API_URL = 'https://api.46elks.com/a1/sms';
+
+/**
+ * Any way people type a phone number → E.164, assuming Sweden without a
+ * country code. Returns null for something that can't be a number.
+ *   "070-123 45 67" → "+46701234567", "0046 70 1234567" → "+46701234567"
+ */
+export function normalisePhone(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  let digits = raw.trim().replace(/[\s\-().]/g, '');
+
+  if (digits.startsWith('00')) digits = `+${digits.slice(2)}`;
+  else if (digits.startsWith('0')) digits = `+46${digits.slice(1)}`;
+  else if (!digits.startsWith('+')) digits = `+46${digits}`;
+
+  return /^\+\d{8,15}$/.test(digits) ? digits : null;
+}
+
+/** Subject and the link line - the full email body is too long for an SMS. The link is never cut. */
+export function toSmsText(subject: string, link?: string): string {
+  const room = link ? SMS_MAX_LENGTH - link.length - 1 : SMS_MAX_LENGTH;
+  const head = subject.length > room ? `${subject.slice(0, Math.max(0, room - 1))}…` : subject;
+  return link ? `${head}\n${link}` : head;
+}
+
+export const elksSmsProvider: ChannelProvider = {
+  channel: 'sms',
+  name: '46elks',
+  async send({ to, text }) {
+    const username = process.env.ELKS_API_USERNAME;
+    const password = process.env.ELKS_API_PASSWORD;
+    if (!username || !password) {
+      return { id: null, error: { name: 'missing_api_key', message: '46elks credentials not set' } };
+    }
+
+    const res = await fetch(ELKS_API_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        from: process.env.SMS_FROM || 'Cykelfest',
+        to,
+        message: text,
+      }),
+    });
+
+    if (!res.ok) {
+      const message = await res.text().catch(() => res.statusText);
+      // 4xx other than rate limiting means the number (or message) is rejected
+      const permanent = res.status >= 400 && res.status < 500 && res.status !== 429;
+      return { id: null, error: { name: permanent ? 'invalid_recipient' : `http_${res.status}`, message } };
+    }
+
+    const data = await res.json() as { id?: string };
+    return { id: data.id ?? null, error: null };
+  },
+};
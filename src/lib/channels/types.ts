@@ -0,0 +1,38 @@
+/**
+ * Outbound channel types
+ */
+
+import type { NotificationChannel } from '@/types/database';
+
+export type Channel = NotificationChannel;
+
+export interface OutboundMessage {
+  /** Email address, E.164 phone number or push subscription JSON, depending on the channel */
+  to: string;
+  subject: string;
+  /** Plain text; the email channel turns it into simple HTML unless `html` is given */
+  text: string;
+  /** Email only: the rendered template, `text` is then its plain-text part */
+  html?: string;
+  /** Page a push notification opens when tapped */
+  url?: string;
+}
+
+export interface ChannelError {
+  /** Provider error code; permanent ones (bad address) are not retried */
+  name?: string;
+  message: string;
+}
+
+export interface ChannelSendResult {
+  /** Provider's message id, null when the send failed */
+  id: string | null;
+  error: ChannelError | null;
+}
+
+export interface ChannelProvider {
+  channel: Channel;
+  /** e.g. 'resend', '46elks', 'fake' - shown in logs */
+  name: string;
+  send(message: OutboundMessage): Promise<ChannelSendResult>;
+}
@@ -0,0 +1,217 @@
+/**
+ * English age references for clues
+ *
+ * Same years as AGE_REFERENCES in age-references.ts, written for guests
+ * who don't speak Swedish. Keep the "Was N when" phrasing - getAgeReference
+ * adjusts the age in it for nearby birth years.
+ */
+
+import type { AgeReference } from './age-references';
+
+export const AGE_REFERENCES_EN: AgeReference[] = [
+  // 1940s
+  { year: 1940, references: [
+    "Was 5 when World War II ended",
+    "Grew up with ration cards",
+  ]},
+  { year: 1945, references: [
+    "Born the year peace came",
+    "A peace baby — World War II had just ended",
+  ]},
+
+  // 1950s
+  { year: 1950, references: [
+    "Was 8 when TV came to Sweden",
+    "A 50s kid — the rock'n'roll generation",
+  ]},
+  { year: 1955, references: [
+    "Was 14 when Apollo 11 landed on the moon",
+    "Experienced the Beatles for real",
+  ]},
+  { year: 1958, references: [
+    "Was 8 when Sweden got colour TV",
+    "Probably remembers the Hylands hörna TV show",
+  ]},
+
+  // 1960s
+  { year: 1960, references: [
+    "Was 9 when Sweden switched to driving on the right",
+    "A 60s kid — the Beatles generation",
+  ]},
+  { year: 1963, references: [
+    "Was 6 when Sweden switched to driving on the right",
+    "Probably doesn't remember the Kennedy assassination",
+  ]},
+  { year: 1965, references: [
+    "Was 2 when Sweden's Dagen H traffic switch happened",
+    "Saw the moon landing as a 4-year-old",
+  ]},
+  { year: 1967, references: [
+    "A Dagen H baby — Sweden switched sides of the road that year",
+    "Was 2 when the moon landing happened",
+  ]},
+  { year: 1969, references: [
+    "Born the year of the moon landing",
+    "Woodstock vintage",
+  ]},
+
+  // 1970s
+  { year: 1970, references: [
+    "Was 4 when ABBA won Eurovision",
+    "A 70s kid — the ABBA generation",
+  ]},
+  { year: 1972, references: [
+    "Was 2 when ABBA was formed",
+    "Probably remembers Pippi Longstocking on TV",
+  ]},
+  { year: 1974, references: [
+    "Born the year ABBA won Eurovision",
+    "Waterloo vintage",
+  ]},
+  { year: 1975, references: [
+    "Was 5 when ABBA was at its biggest",
+    "Lived through Björn Borg's glory days",
+  ]},
+  { year: 1976, references: [
+    "Was 4 when Björn Borg won his first Wimbledon",
+    "A child of the Palme era",
+  ]},
+  { year: 1978, references: [
+    "Was 2 when Sweden lost the World Cup final",
+    "The TV test card generation",
+  ]},
+  { year: 1979, references: [
+    "Was 1 when Ingemar Stenmark ruled the slopes",
+    "Disco vintage",
+  ]},
+
+  // 1980s
+  { year: 1980, references: [
+    "Wasn't born yet when John Lennon was shot",
+    "An 80s kid — synth and neon",
+  ]},
+  { year: 1981, references: [
+    "Was 5 when Olof Palme was assassinated",
+    "The MTV generation",
+  ]},
+  { year: 1982, references: [
+    "Was 3 when the Commodore 64 came out",
+    "E.T. vintage",
+  ]},
+  { year: 1983, references: [
+    "Was 3 when Olof Palme was assassinated",
+    "Was 6 when the Berlin Wall fell",
+  ]},
+  { year: 1984, references: [
+    "Orwell vintage",
+    "Was 5 when the Wall fell",
+  ]},
+  { year: 1985, references: [
+    "Herreys won Eurovision the same year",
+    "Was 4 when the Berlin Wall fell",
+  ]},
+  { year: 1986, references: [
+    "Born the year Olof Palme was assassinated",
+    "Chernobyl vintage",
+  ]},
+  { year: 1987, references: [
+    "Was 2 when the Wall fell",
+    "Doesn't remember the fall of the Berlin Wall",
+  ]},
+  { year: 1988, references: [
+    "Was 1 when the Berlin Wall fell",
+    "Was 6 when Kurt Cobain died",
+  ]},
+  { year: 1989, references: [
+    "Born the year the Berlin Wall fell",
+    "Fall-of-the-Wall vintage",
+  ]},
+
+  // 1990s
+  { year: 1990, references: [
+    "A 90s kid — the Mulle Meck generation",
+    "Never saw the Berlin Wall standing",
+  ]},
+  { year: 1991, references: [
+    "Born as the Soviet Union fell",
+    "Was 3 when Kurt Cobain died",
+  ]},
+  { year: 1992, references: [
+    "Was 2 when Kurt Cobain died",
+    "Was 4 when Sweden took Olympic football bronze",
+  ]},
+  { year: 1993, references: [
+    "Was 1 when Kurt Cobain died",
+    "Jurassic Park vintage",
+  ]},
+  { year: 1994, references: [
+    "Born the year Kurt Cobain died",
+    "Doesn't remember Sweden's World Cup bronze",
+  ]},
+  { year: 1995, references: [
+    "Was 3 when Titanic hit the cinemas",
+    "Windows 95 vintage",
+  ]},
+  { year: 1996, references: [
+    "Was 2 when Titanic sank (at the cinema)",
+    "The Tamagotchi generation",
+  ]},
+  { year: 1997, references: [
+    "Was 0 when Titanic premiered",
+    "Harry Potter book vintage",
+  ]},
+  { year: 1998, references: [
+    "Wasn't born yet when Titanic premiered",
+    "Google vintage",
+  ]},
+  { year: 1999, references: [
+    "Y2K was a mystery to this baby",
+    "Matrix vintage",
+  ]},
+
+  // 2000s
+  { year: 2000, references: [
+    "A millennium baby — Y2K wasn't their problem",
+    "Born in the new millennium",
+  ]},
+  { year: 2001, references: [
+    "Was a baby on 9/11",
+    "The iPod generation",
+  ]},
+  { year: 2002, references: [
+    "Doesn't remember 9/11",
+    "Has never known a world without smartphones",
+  ]},
+  { year: 2003, references: [
+    "Was 4 when the iPhone launched",
+    "Has never rented a VHS",
+  ]},
+  { year: 2004, references: [
+    "Was 3 when the iPhone arrived",
+    "Facebook vintage",
+  ]},
+  { year: 2005, references: [
+    "Has never known a world without YouTube",
+    "Was 2 when the iPhone changed everything",
+  ]},
+  { year: 2006, references: [
+    "Was 1 when the iPhone launched",
+    "Twitter vintage",
+  ]},
+  { year: 2007, references: [
+    "Born the same year as the iPhone",
+    "Never had to blow into a Nintendo cartridge",
+  ]},
+  { year: 2008, references: [
+    "Financial crisis vintage",
+    "The Spotify generation",
+  ]},
+  { year: 2009, references: [
+    "Was 3 when Instagram launched",
+    "Doesn't remember a world without apps",
+  ]},
+  { year: 2010, references: [
+    "iPad vintage",
+    "Was 2 when Instagram arrived",
+  ]},
+];
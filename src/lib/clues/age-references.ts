@@ -2,9 +2,13 @@
  * Åldersreferenser för "På spåret"-ledtrådar
  * 
  * 200+ svenska kulturella och historiska referenser
- * baserade på födelseår.
+ * baserade på födelseår. Engelska motsvarigheter finns
+ * i age-references-en.ts.
  */
 
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
+import { AGE_REFERENCES_EN } from './age-references-en';
+
 export interface AgeReference {
   year: number;
   references: string[];
@@ -219,18 +223,57 @@ export const AGE_REFERENCES: AgeReference[] = [
   ]},
 ];
 
+// Referenstabell och "Var N år"-mönster per språk
+const REFERENCE_TABLES: Record<Locale, AgeReference[]> = {
+  sv: AGE_REFERENCES,
+  en: AGE_REFERENCES_EN,
+};
+
+const AGE_PATTERNS: Record<Locale, { pattern: RegExp; format: (age: number) => string }> = {
+  sv: { pattern: /Var (\d+) år/g, format: (age) => `Var ${age} år` },
+  en: { pattern: /Was (\d+) when/g, format: (age) => `Was ${age} when` },
+};
+
+// Generiska åldersledtrådar när inget år ligger nära
+const AGE_BRACKETS: Record<Locale, { young: (age: number) => string; brackets: string[] }> = {
+  sv: {
+    young: (age) => `Ung och energisk — ${age} år`,
+    brackets: [
+      '20-talist med livet framför sig',
+      '30-nånting — mitt i karriären',
+      '40-talist — erfaren och vis',
+      '50-plussare — vet hur världen funkar',
+      '60-talist — pensionen hägrar',
+      '70+ — har sett det mesta',
+    ],
+  },
+  en: {
+    young: (age) => `Young and energetic — ${age} years old`,
+    brackets: [
+      'In their twenties with life ahead of them',
+      'Thirty-something — mid-career',
+      'In their forties — experienced and wise',
+      'Fifty-plus — knows how the world works',
+      'In their sixties — retirement beckons',
+      '70+ — has seen it all',
+    ],
+  },
+};
+
 /**
  * Hämta åldersreferens för ett specifikt födelseår
  */
-export function getAgeReference(birthYear: number): string {
+export function getAgeReference(birthYear: number, locale: Locale = DEFAULT_LOCALE): string {
+  const table = REFERENCE_TABLES[locale];
+
   // Hitta exakt match
-  const exact = AGE_REFERENCES.find(r => r.year === birthYear);
+  const exact = table.find(r => r.year === birthYear);
   if (exact) {
     return exact.references[Math.floor(Math.random() * exact.references.length)];
   }
   
   // Hitta närmaste år
-  const sorted = AGE_REFERENCES.sort((a, b) => 
+  const sorted = [...table].sort((a, b) => 
     Math.abs(a.year - birthYear) - Math.abs(b.year - birthYear)
   );
   const closest = sorted[0];
@@ -239,34 +282,24 @@ export function getAgeReference(birthYear: number): string {
     // Anpassa referensen
     const diff = birthYear - closest.year;
     const ref = closest.references[Math.floor(Math.random() * closest.references.length)];
+    const { pattern, format } = AGE_PATTERNS[locale];
     
     // Försök justera ålder i referensen
-    return ref.replace(/Var (\d+) år/g, (match, age) => {
-      const newAge = parseInt(age) - diff;
-      return `Var ${newAge} år`;
-    });
+    return ref.replace(pattern, (match, age) => format(parseInt(age) - diff));
   }
   
   // Fallback - generera baserat på ålder
   const currentYear = new Date().getFullYear();
   const age = currentYear - birthYear;
+  const { young, brackets } = AGE_BRACKETS[locale];
   
-  if (age < 20) return `Ung och energisk — ${age} år`;
-  if (age < 30) return `20-talist med livet framför sig`;
-  if (age < 40) return `30-nånting — mitt i karriären`;
-  if (age < 50) return `40-talist — erfaren och vis`;
-  if (age < 60) return `50-plussare — vet hur världen funkar`;
-  if (age < 70) return `60-talist — pensionen hägrar`;
-  return `70+ — har sett det mesta`;
+  if (age < 20) return young(age);
+  return brackets[Math.min(Math.floor(age / 10) - 2, brackets.length - 1)];
 }
 
-/**
- * Generera "musikval"-ledtråd baserat på ålderskillnad
- */
-export function getMusicClue(birthYear1: number, birthYear2?: number): string {
-  if (!birthYear2) {
-    const decade = Math.floor(birthYear1 / 10) * 10;
-    const decades: Record<number, string> = {
+const MUSIC_CLUES: Record<Locale, { decades: Record<number, string>; eclectic: string; gaps: string[] }> = {
+  sv: {
+    decades: {
       1950: "Elvis och rock'n'roll",
       1960: "Beatles och Rolling Stones",
       1970: "ABBA och disco",
@@ -274,19 +307,55 @@ export function getMusicClue(birthYear1: number, birthYear2?: number): string {
       1990: "grunge och eurodance",
       2000: "R&B och indie",
       2010: "EDM och streaming",
-    };
-    return decades[decade] || "eklektisk musiksmak";
+    },
+    eclectic: "eklektisk musiksmak",
+    gaps: [
+      "Samma musiksmak — easy listening",
+      "Någorlunda samma era — funkar fint",
+      "Generationsglapp — kompromissa på Spotify",
+      "Knepigt musikval — barnbarn och farfar-vibbar",
+    ],
+  },
+  en: {
+    decades: {
+      1950: "Elvis and rock'n'roll",
+      1960: "the Beatles and the Rolling Stones",
+      1970: "ABBA and disco",
+      1980: "synth-pop and hard rock",
+      1990: "grunge and eurodance",
+      2000: "R&B and indie",
+      2010: "EDM and streaming",
+    },
+    eclectic: "eclectic taste in music",
+    gaps: [
+      "Same taste in music — easy listening",
+      "Roughly the same era — works fine",
+      "Generation gap — compromise on Spotify",
+      "Tricky playlist — grandchild and grandpa vibes",
+    ],
+  },
+};
+
+/**
+ * Generera "musikval"-ledtråd baserat på ålderskillnad
+ */
+export function getMusicClue(birthYear1: number, birthYear2?: number, locale: Locale = DEFAULT_LOCALE): string {
+  const { decades, eclectic, gaps } = MUSIC_CLUES[locale];
+
+  if (!birthYear2) {
+    const decade = Math.floor(birthYear1 / 10) * 10;
+    return decades[decade] || eclectic;
   }
   
   const diff = Math.abs(birthYear1 - birthYear2);
   
   if (diff < 5) {
-    return "Samma musiksmak — easy listening";
+    return gaps[0];
   } else if (diff < 10) {
-    return "Någorlunda samma era — funkar fint";
+    return gaps[1];
   } else if (diff < 20) {
-    return "Generationsglapp — kompromissa på Spotify";
+    return gaps[2];
   } else {
-    return "Knepigt musikval — barnbarn och farfar-vibbar";
+    return gaps[3];
   }
 }
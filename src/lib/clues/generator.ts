@@ -6,6 +6,7 @@
  */
 
 import { getAgeReference, getMusicClue } from './age-references';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
 
 export interface GuestProfile {
   personCount: number;
@@ -65,39 +66,125 @@ function formatDistance(km: number): string {
   return `${km.toFixed(1)}km`;
 }
 
+// Ledtrådsmallar per språk
+interface ClueTemplates {
+  petNamed: (type: string, name: string) => string;
+  pet: (type: string) => string;
+  talent: (talent: string) => string;
+  firstJob: (job: string) => string;
+  dreamDestination: (place: string) => string;
+  instruments: (instruments: string[]) => string;
+  sport: (sport: string) => string;
+  importantYearReason: (year: number, reason: string) => string;
+  importantYear: (year: number) => string;
+  musicDecades: Record<string, string>;
+  musicPrefers: (music: string | undefined) => string;
+  twoAges: (age1: number, age2: number, music: string) => string;
+  bothAround: (age: number) => string;
+  singleAge: (age: number) => string;
+  neighbours: string;
+  cyclesShort: (distance: string) => string;
+  cyclesLong: (distance: string) => string;
+  partner: (clue: string) => string;
+  comesAlone: string;
+  hungrySouls: (count: number) => string;
+}
+
+const CLUE_TEMPLATES: Record<Locale, ClueTemplates> = {
+  sv: {
+    petNamed: (type, name) => `Bor med en ${type} vid namn ${name}`,
+    pet: (type) => `Har en ${type} hemma`,
+    talent: (talent) => `Hemligt talent: ${talent}`,
+    firstJob: (job) => `Första jobbet: ${job}`,
+    dreamDestination: (place) => `Drömmer om att resa till ${place}`,
+    instruments: (instruments) => `Spelar ${instruments.join(' och ')}`,
+    sport: (sport) => `Gillar ${sport}`,
+    importantYearReason: (year, reason) => `${year} var ett viktigt år (${reason})`,
+    importantYear: (year) => `${year} var ett speciellt år`,
+    musicDecades: {
+      '60': '60-talslåtar',
+      '70': 'ABBA och disco',
+      '80': 'synthpop',
+      '90': '90-talshits',
+      '00': '2000-talsmusik',
+      '10': '2010-talets hits',
+      '20': 'dagens musik',
+    },
+    musicPrefers: (music) => `Föredrar ${music || 'okänt årtionde'}`,
+    twoAges: (age1, age2, music) => `${age1} och ${age2} år. ${music}`,
+    bothAround: (age) => `Båda runt ${age} år`,
+    singleAge: (age) => `${age} år gammal`,
+    neighbours: 'Bor grannarna — under 500m bort',
+    cyclesShort: (distance) => `Cyklar ${distance} för att nå er`,
+    cyclesLong: (distance) => `Trampar ${distance} hit`,
+    partner: (clue) => `Partnern: ${clue}`,
+    comesAlone: 'Kommer ensam men social',
+    hungrySouls: (count) => `${count} hungriga själar`,
+  },
+  en: {
+    petNamed: (type, name) => `Lives with a ${type} called ${name}`,
+    pet: (type) => `Has a ${type} at home`,
+    talent: (talent) => `Secret talent: ${talent}`,
+    firstJob: (job) => `First job: ${job}`,
+    dreamDestination: (place) => `Dreams of travelling to ${place}`,
+    instruments: (instruments) => `Plays ${instruments.join(' and ')}`,
+    sport: (sport) => `Enjoys ${sport}`,
+    importantYearReason: (year, reason) => `${year} was an important year (${reason})`,
+    importantYear: (year) => `${year} was a special year`,
+    musicDecades: {
+      '60': '60s songs',
+      '70': 'ABBA and disco',
+      '80': 'synth-pop',
+      '90': '90s hits',
+      '00': '2000s music',
+      '10': 'the hits of the 2010s',
+      '20': "today's music",
+    },
+    musicPrefers: (music) => `Prefers ${music || 'an unknown decade'}`,
+    twoAges: (age1, age2, music) => `${age1} and ${age2} years old. ${music}`,
+    bothAround: (age) => `Both around ${age}`,
+    singleAge: (age) => `${age} years old`,
+    neighbours: 'Practically neighbours — under 500m away',
+    cyclesShort: (distance) => `Cycles ${distance} to reach you`,
+    cyclesLong: (distance) => `Pedals ${distance} to get here`,
+    partner: (clue) => `Their partner: ${clue}`,
+    comesAlone: 'Coming alone but sociable',
+    hungrySouls: (count) => `${count} hungry souls`,
+  },
+};
+
 /**
  * Generera fun fact-ledtråd
  */
-function getFunFactClue(facts: FunFacts): string | null {
+function getFunFactClue(facts: FunFacts, t: ClueTemplates): string | null {
   const clues: string[] = [];
   
   if (facts.pet) {
     if (facts.pet.name) {
-      clues.push(`Bor med en ${facts.pet.type} vid namn ${facts.pet.name}`);
+      clues.push(t.petNamed(facts.pet.type, facts.pet.name));
     } else {
-      clues.push(`Har en ${facts.pet.type} hemma`);
+      clues.push(t.pet(facts.pet.type));
     }
   }
   
   if (facts.talent) {
-    clues.push(`Hemligt talent: ${facts.talent}`);
+    clues.push(t.talent(facts.talent));
   }
   
   if (facts.firstJob) {
-    clues.push(`Första jobbet: ${facts.firstJob}`);
+    clues.push(t.firstJob(facts.firstJob));
   }
   
   if (facts.dreamDestination) {
-    clues.push(`Drömmer om att resa till ${facts.dreamDestination}`);
+    clues.push(t.dreamDestination(facts.dreamDestination));
   }
   
   if (facts.instruments?.length) {
-    const instr = facts.instruments.join(' och ');
-    clues.push(`Spelar ${instr}`);
+    clues.push(t.instruments(facts.instruments));
   }
   
   if (facts.sport) {
-    clues.push(`Gillar ${facts.sport}`);
+    clues.push(t.sport(facts.sport));
   }
   
   if (facts.unknownFact) {
@@ -107,23 +194,14 @@ function getFunFactClue(facts: FunFacts): string | null {
   if (facts.importantYear) {
     const y = facts.importantYear;
     if (y.reason) {
-      clues.push(`${y.year} var ett viktigt år (${y.reason})`);
+      clues.push(t.importantYearReason(y.year, y.reason));
     } else {
-      clues.push(`${y.year} var ett speciellt år`);
+      clues.push(t.importantYear(y.year));
     }
   }
   
   if (facts.musicDecade) {
-    const decades: Record<string, string> = {
-      '60': '60-talslåtar',
-      '70': 'ABBA och disco',
-      '80': 'synthpop',
-      '90': '90-talshits',
-      '00': '2000-talsmusik',
-      '10': '2010-talets hits',
-      '20': 'dagens musik',
-    };
-    clues.push(`Föredrar ${decades[facts.musicDecade] || 'okänt årtionde'}`);
+    clues.push(t.musicPrefers(t.musicDecades[facts.musicDecade]));
   }
   
   if (clues.length === 0) return null;
@@ -139,8 +217,10 @@ export function generateClues(
   guest: GuestProfile,
   context: ClueContext,
   guestCoordinates?: { lat: number; lon: number },
-  hostCoordinates?: { lat: number; lon: number }
+  hostCoordinates?: { lat: number; lon: number },
+  locale: Locale = DEFAULT_LOCALE
 ): string[] {
+  const t = CLUE_TEMPLATES[locale];
   const clues: string[] = [];
   const currentYear = new Date().getFullYear();
   
@@ -153,17 +233,17 @@ export function generateClues(
       
       // Båda åldrar
       if (Math.abs(age1 - age2) > 10) {
-        clues.push(`${age1} och ${age2} år. ${getMusicClue(guest.invited.birthYear, guest.partner.birthYear)}`);
+        clues.push(t.twoAges(age1, age2, getMusicClue(guest.invited.birthYear, guest.partner.birthYear, locale)));
       } else {
-        clues.push(`Båda runt ${Math.round((age1 + age2) / 2)} år`);
+        clues.push(t.bothAround(Math.round((age1 + age2) / 2)));
       }
       
       // Åldersreferens för en av dem
-      clues.push(getAgeReference(guest.invited.birthYear));
+      clues.push(getAgeReference(guest.invited.birthYear, locale));
     } else {
       // Singel
-      clues.push(getAgeReference(guest.invited.birthYear));
-      clues.push(`${age1} år gammal`);
+      clues.push(getAgeReference(guest.invited.birthYear, locale));
+      clues.push(t.singleAge(age1));
     }
   }
   
@@ -175,30 +255,30 @@ export function generateClues(
     );
     
     if (distance < 0.5) {
-      clues.push(`Bor grannarna — under 500m bort`);
+      clues.push(t.neighbours);
     } else if (distance < 1) {
-      clues.push(`Cyklar ${formatDistance(distance)} för att nå er`);
+      clues.push(t.cyclesShort(formatDistance(distance)));
     } else {
-      clues.push(`Trampar ${formatDistance(distance)} hit`);
+      clues.push(t.cyclesLong(formatDistance(distance)));
     }
   }
   
   // === FUN FACTS ===
   if (guest.invited.funFacts) {
-    const funClue = getFunFactClue(guest.invited.funFacts);
+    const funClue = getFunFactClue(guest.invited.funFacts, t);
     if (funClue) clues.push(funClue);
   }
   
   if (guest.partner?.funFacts) {
-    const partnerClue = getFunFactClue(guest.partner.funFacts);
-    if (partnerClue) clues.push(`Partnern: ${partnerClue}`);
+    const partnerClue = getFunFactClue(guest.partner.funFacts, t);
+    if (partnerClue) clues.push(t.partner(partnerClue));
   }
   
   // === ANTAL ===
   if (guest.personCount === 1) {
-    clues.push('Kommer ensam men social');
+    clues.push(t.comesAlone);
   } else {
-    clues.push(`${guest.personCount} hungriga själar`);
+    clues.push(t.hungrySouls(guest.personCount));
   }
   
   // Slumpa ordning och välj 2-4 ledtrådar
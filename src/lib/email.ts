@@ -9,6 +9,8 @@ export async function sendEmail(opts: {
   to: string;
   subject: string;
   html: string;
+  /** Plain-text part; left out, Resend derives one from the HTML */
+  text?: string;
   replyTo?: string;
 }) {
   const from = process.env.RESEND_FROM_EMAIL || FROM;
@@ -17,6 +19,7 @@ export async function sendEmail(opts: {
     to: opts.to,
     subject: opts.subject,
     html: opts.html,
+    text: opts.text,
     replyTo: opts.replyTo,
   });
 }
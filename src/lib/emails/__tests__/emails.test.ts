@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_ACCENT_COLOR, emailBranding, normaliseEmailBranding, renderEmail } from '..';
+import { previewRecipient, parsePreviewRequest, renderPreviewEmail } from '../preview';
+
+// The Resend client needs an API key at import time; these tests never send
+vi.mock('@/lib/email', () => ({ sendEmail: vi.fn() }));
+
+const event = { name: 'Vårfesten', email_branding: {} };
+
+describe('normaliseEmailBranding', () => {
+  it('keeps a hex colour, an https logo and a trimmed sign-off', () => {
+    expect(normaliseEmailBranding({
+      accent_color: ' #7C3AED ',
+      logo_url: 'https://example.com/logo.png',
+      sign_off: '  Hälsningar, festkommittén ',
+    })).toEqual({
+      accent_color: '#7c3aed',
+      logo_url: 'https://example.com/logo.png',
+      sign_off: 'Hälsningar, festkommittén',
+    });
+  });
+
+  it('drops anything it cannot use', () => {
+    expect(normaliseEmailBranding({
+      accent_color: 'red',
+      logo_url: 'javascript:alert(1)',
+      sign_off: '   ',
+      footer: 'ignored',
+    })).toEqual({});
+    expect(normaliseEmailBranding({ logo_url: 'http://example.com/logo.png' })).toEqual({});
+    expect(normaliseEmailBranding(null)).toEqual({});
+  });
+});
+
+describe('emailBranding', () => {
+  it('falls back to the Cykelfesten defaults', () => {
+    expect(emailBranding(event)).toEqual({
+      eventName: 'Vårfesten',
+      accentColor: DEFAULT_ACCENT_COLOR,
+      logoUrl: null,
+      signOff: null,
+    });
+  });
+});
+
+describe('renderEmail', () => {
+  it('renders the template with the event branding, subject and a text part', async () => {
+    const email = await renderEmail('registration_confirmed', {
+      branding: emailBranding({ name: 'Vårfesten', email_branding: { accent_color: '#7c3aed', sign_off: 'Vi ses!' } }),
+      name: 'Anna',
+      partnerName: 'Erik',
+      eventDate: 'lördag 14 mars 2026',
+    });
+
+    expect(email.subject).toBe('✅ Anmälan bekräftad — Vårfesten');
+    expect(email.html).toContain('#7c3aed');
+    expect(email.html).toContain('Vi ses!');
+    expect(email.text).toContain('Hej Anna!');
+    expect(email.text).toContain('Erik');
+  });
+
+  it('shows the logo instead of the event name', async () => {
+    const email = await renderEmail('guest_link', {
+      branding: emailBranding({ name: 'Vårfesten', email_branding: { logo_url: 'https://example.com/logo.png' } }),
+      name: 'Anna',
+      eventDate: 'lördag 14 mars 2026',
+      guestUrl: 'https://example.com/e/varfesten/live?token=abc',
+    });
+
+    expect(email.html).toContain('src="https://example.com/logo.png"');
+    expect(email.html).toContain('Min sida →');
+  });
+
+  it('escapes what guests and organizers typed', async () => {
+    const email = await renderEmail('guest_message', {
+      branding: emailBranding(event),
+      name: '<b>Anna</b>',
+      message: 'Ta med <script>alert(1)</script>\n\nVi ses!',
+    });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).not.toContain('<b>Anna</b>');
+    expect(email.text).toContain('Vi ses!');
+  });
+});
+
+describe('preview', () => {
+  const couple = { id: 'c1', invited_name: 'Anna', invited_email: null, partner_name: 'Erik', replacement_name: 'Sara' };
+
+  it('previews a person even without an address, the replacement in the partner seat', () => {
+    expect(previewRecipient(couple, 'partner')).toMatchObject({ person_type: 'partner', name: 'Sara', email: null });
+    expect(previewRecipient(couple, 'invited')).toMatchObject({ person_type: 'invited', name: 'Anna' });
+  });
+
+  it('leaves the couple\'s tokens out of a test send', async () => {
+    const previewEvent = { id: 'e1', name: 'Vårfesten', slug: 'varfesten', event_date: '2026-06-15', active_match_plan_id: null };
+
+    for (const template of ['notification', 'wrap'] as const) {
+      const live = await renderPreviewEmail(template, previewEvent, couple);
+      const inert = await renderPreviewEmail(template, previewEvent, couple, { inertLinks: true });
+
+      expect(live.html).toContain('token=');
+      expect(inert.html).not.toContain('token=');
+      expect(inert.html).toContain('/api/notifications/opt-out');
+    }
+  });
+
+  it('rejects an unknown template', () => {
+    expect(parsePreviewRequest({ template: 'nope', couple_id: 'c1' })).toBeNull();
+    expect(parsePreviewRequest({ template: 'wrap', couple_id: 'c1', email_branding: { accent_color: 'red' } })).toEqual({
+      template: 'wrap',
+      coupleId: 'c1',
+      personType: 'invited',
+      notificationType: undefined,
+      message: undefined,
+      branding: {},
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Participant emails
+ *
+ * Every email a guest gets is a React template in src/components/emails on
+ * the shared EmailLayout, branded per event (events.email_branding). Routes
+ * render here and send the result with their usual sender; the organizer
+ * previews the same templates with a real couple (see ./preview).
+ */
+
+import { createElement, type FunctionComponent } from 'react';
+import { render } from '@react-email/render';
+import { RegistrationConfirmedEmail, type RegistrationConfirmedEmailProps } from '@/components/emails/registration-confirmed';
+import { PartnerInviteEmail, type PartnerInviteEmailProps } from '@/components/emails/partner-invite';
+import { GuestLinkEmail, type GuestLinkEmailProps } from '@/components/emails/guest-link';
+import { ParticipantNotificationEmail, type ParticipantNotificationEmailProps } from '@/components/emails/participant-notification';
+import { GuestMessageEmail, type GuestMessageEmailProps } from '@/components/emails/guest-message';
+import { ParticipantWrapEmail, type ParticipantWrapEmailProps } from '@/components/emails/participant-wrap';
+import type { EmailTemplateId } from './settings';
+
+export * from './settings';
+
+export interface EmailTemplateProps {
+  registration_confirmed: RegistrationConfirmedEmailProps;
+  partner_invite: PartnerInviteEmailProps;
+  guest_link: GuestLinkEmailProps;
+  /** The subject comes from lib/notifications along with the message */
+  notification: ParticipantNotificationEmailProps & { subject: string };
+  guest_message: GuestMessageEmailProps;
+  wrap: ParticipantWrapEmailProps;
+}
+
+interface EmailTemplate<P> {
+  subject: (props: P) => string;
+  component: FunctionComponent<P>;
+}
+
+const EMAIL_TEMPLATES: { [K in EmailTemplateId]: EmailTemplate<EmailTemplateProps[K]> } = {
+  registration_confirmed: {
+    subject: ({ branding }) => `✅ Anmälan bekräftad — ${branding.eventName}`,
+    component: RegistrationConfirmedEmail,
+  },
+  partner_invite: {
+    subject: ({ branding, invitedName }) => `🚴 ${invitedName} har anmält er till ${branding.eventName}!`,
+    component: PartnerInviteEmail,
+  },
+  guest_link: {
+    subject: ({ branding }) => `🔑 Din länk till ${branding.eventName}`,
+    component: GuestLinkEmail,
+  },
+  notification: {
+    subject: ({ subject }) => subject,
+    component: ParticipantNotificationEmail,
+  },
+  guest_message: {
+    subject: ({ branding }) => `📢 Meddelande från ${branding.eventName}`,
+    component: GuestMessageEmail,
+  },
+  wrap: {
+    subject: ({ branding }) => `🎁 Din wrap från ${branding.eventName} är här!`,
+    component: ParticipantWrapEmail,
+  },
+};
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  /** Plain-text part, generated from the HTML */
+  text: string;
+}
+
+export async function renderEmail<K extends EmailTemplateId>(id: K, props: EmailTemplateProps[K]): Promise<RenderedEmail> {
+  const template: EmailTemplate<EmailTemplateProps[K]> = EMAIL_TEMPLATES[id];
+  const element = createElement(template.component, props);
+  const [html, text] = await Promise.all([render(element), render(element, { plainText: true })]);
+  return { subject: template.subject(props), html, text };
+}
+
+/** Event date as the emails write it, e.g. "lördag 14 mars 2026" */
+export function formatEmailDate(date: string): string {
+  return new Date(date).toLocaleDateString('sv-SE', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+}
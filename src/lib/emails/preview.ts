@@ -0,0 +1,185 @@
+/**
+ * Organizer preview: each template rendered with a real couple of the event,
+ * the way that person would get it. Links use the couple's own token pages;
+ * the partner invite link leaves out the invite token, which only the partner
+ * should ever receive. Test sends leave the app, so they get the same pages
+ * without any token (see inertLinks).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  buildNotificationContent, optOutUrl,
+  type NotificationCouple, type NotificationEvent, type NotificationType,
+} from '@/lib/notifications';
+import { NOTIFICATION_TYPES } from '@/lib/channels/settings';
+import { RECIPIENT_COLUMNS, resolveRecipients, type PersonType, type Recipient } from '@/lib/recipients';
+import { buildTokenUrl } from '@/lib/tokens';
+import type { EmailBrandingSettings } from '@/types/database';
+import {
+  EMAIL_TEMPLATE_IDS, emailBranding, formatEmailDate, normaliseEmailBranding, renderEmail,
+  type EmailTemplateId, type RenderedEmail,
+} from './index';
+
+export interface PreviewEvent extends NotificationEvent {
+  event_date: string;
+  thank_you_message?: string | null;
+}
+
+export interface PreviewOptions {
+  personType?: PersonType;
+  /** notification template: which message */
+  notificationType?: NotificationType;
+  /** guest_message template: the organizer's draft */
+  message?: string;
+  /** Drop the couple's tokens from every link, e.g. for a test send */
+  inertLinks?: boolean;
+}
+
+const SAMPLE_MESSAGE = 'Glöm inte cykelhjälmen ikväll – och ta gärna med en ficklampa till hemvägen. Vi ses på efterfesten! 🚴';
+
+function appUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'https://cykelfesten.vercel.app';
+}
+
+function withoutToken(url: string): string {
+  const inert = new URL(url);
+  inert.searchParams.delete('token');
+  return inert.toString();
+}
+
+/** The person the preview is for, even without an email address on file */
+export function previewRecipient(couple: NotificationCouple, personType: PersonType): Recipient {
+  return resolveRecipients(couple).find(r => r.person_type === personType) ?? {
+    couple_id: couple.id,
+    person_type: personType,
+    name: personType === 'partner' ? couple.replacement_name || couple.partner_name || couple.invited_name : couple.invited_name,
+    email: null,
+    phone: null,
+    opted_out: false,
+  };
+}
+
+export async function renderPreviewEmail(
+  id: EmailTemplateId,
+  event: PreviewEvent,
+  couple: NotificationCouple,
+  options: PreviewOptions = {}
+): Promise<RenderedEmail> {
+  const recipient = previewRecipient(couple, options.personType ?? 'invited');
+  const branding = emailBranding(event);
+  const eventDate = formatEmailDate(event.event_date);
+  const partnerUrl = `${appUrl()}/e/${event.slug}/partner`;
+  const link = (url: string) => (options.inertLinks ? withoutToken(url) : url);
+
+  switch (id) {
+    case 'registration_confirmed':
+      return renderEmail(id, { branding, name: couple.invited_name, partnerName: couple.partner_name, eventDate });
+
+    case 'partner_invite':
+      return renderEmail(id, {
+        branding,
+        partnerName: couple.partner_name || 'Partner',
+        invitedName: couple.invited_name,
+        eventDate,
+        profileUrl: partnerUrl,
+      });
+
+    case 'guest_link':
+      return renderEmail(id, {
+        branding,
+        name: recipient.name,
+        eventDate,
+        guestUrl: recipient.person_type === 'invited'
+          ? link(buildTokenUrl(`${appUrl()}/e/${event.slug}/live`, couple.id, 'invited'))
+          : null,
+        partnerUrl: recipient.person_type === 'partner' ? partnerUrl : null,
+      });
+
+    case 'notification': {
+      const type = options.notificationType ?? 'envelope_ready';
+      const content = buildNotificationContent(type, event, couple, recipient, {
+        course: couple.assignments?.[0]?.course ?? 'main',
+        state: type === 'envelope_reveal' ? 'STREET' : undefined,
+      });
+      return renderEmail(id, {
+        branding,
+        subject: content.subject,
+        message: content.message,
+        link: link(content.link),
+        linkLabel: content.linkLabel,
+        optOutUrl: link(optOutUrl(recipient)),
+      });
+    }
+
+    case 'guest_message':
+      return renderEmail(id, { branding, name: recipient.name, message: options.message?.trim() || SAMPLE_MESSAGE });
+
+    case 'wrap':
+      return renderEmail(id, {
+        branding,
+        participantName: recipient.name,
+        eventDate,
+        wrapUrl: link(buildTokenUrl(`${appUrl()}/e/${event.slug}/wrap`, couple.id, recipient.person_type)),
+        hasAward: false,
+        thankYouMessage: event.thank_you_message,
+        optOutUrl: link(optOutUrl(recipient)),
+      });
+  }
+}
+
+export interface PreviewRequest extends PreviewOptions {
+  template: EmailTemplateId;
+  coupleId: string;
+  /** Unsaved branding from the organizer's form; the event's own when left out */
+  branding?: EmailBrandingSettings;
+}
+
+/** Load the event and couple and render the preview; null when either is missing */
+export async function loadPreviewEmail(
+  supabase: SupabaseClient,
+  eventId: string,
+  request: PreviewRequest
+): Promise<RenderedEmail | null> {
+  const { data: event } = await supabase
+    .from('events')
+    .select('id, name, slug, event_date, active_match_plan_id, notification_channels, email_branding, thank_you_message')
+    .eq('id', eventId)
+    .single();
+
+  if (!event) return null;
+
+  const { data: couple } = await supabase
+    .from('couples')
+    .select(`${RECIPIENT_COLUMNS}, assignments(course)`)
+    .eq('id', request.coupleId)
+    .eq('event_id', eventId)
+    .single();
+
+  if (!couple) return null;
+
+  return renderPreviewEmail(
+    request.template,
+    { ...event, email_branding: request.branding ?? event.email_branding },
+    couple as NotificationCouple,
+    request
+  );
+}
+
+/** Request body of the preview and test routes → PreviewRequest; null when the template or couple is missing */
+export function parsePreviewRequest(body: unknown): PreviewRequest | null {
+  if (!body || typeof body !== 'object') return null;
+  const { template, couple_id, person_type, notification_type, message, email_branding } = body as Record<string, unknown>;
+
+  if (!EMAIL_TEMPLATE_IDS.includes(template as EmailTemplateId) || typeof couple_id !== 'string') return null;
+
+  return {
+    template: template as EmailTemplateId,
+    coupleId: couple_id,
+    personType: person_type === 'partner' ? 'partner' : 'invited',
+    notificationType: NOTIFICATION_TYPES.includes(notification_type as NotificationType)
+      ? notification_type as NotificationType
+      : undefined,
+    message: typeof message === 'string' ? message : undefined,
+    branding: email_branding === undefined ? undefined : normaliseEmailBranding(email_branding),
+  };
+}
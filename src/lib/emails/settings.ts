@@ -0,0 +1,85 @@
+/**
+ * Participant email templates and the per-event branding they share.
+ * No React or renderer imports here - the organizer page uses this in the browser.
+ */
+
+import type { EmailBrandingSettings } from '@/types/database';
+
+export type EmailTemplateId =
+  | 'registration_confirmed'
+  | 'partner_invite'
+  | 'guest_link'
+  | 'notification'
+  | 'guest_message'
+  | 'wrap';
+
+export const EMAIL_TEMPLATE_IDS: EmailTemplateId[] = [
+  'registration_confirmed',
+  'partner_invite',
+  'guest_link',
+  'notification',
+  'guest_message',
+  'wrap',
+];
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateId, string> = {
+  registration_confirmed: '✅ Anmälan bekräftad',
+  partner_invite: '💌 Inbjudan till partnern',
+  guest_link: '🔑 Min länk',
+  notification: '🔔 Notifikation',
+  guest_message: '📢 Meddelande från arrangören',
+  wrap: '🎁 Wrap',
+};
+
+/** Branding resolved against the defaults, what the templates render with */
+export interface EmailBranding {
+  eventName: string;
+  accentColor: string;
+  logoUrl: string | null;
+  signOff: string | null;
+}
+
+export const DEFAULT_ACCENT_COLOR = '#d97706';
+
+export const MAX_SIGN_OFF_LENGTH = 200;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export function emailBranding(event: { name: string; email_branding?: EmailBrandingSettings | null }): EmailBranding {
+  const settings = event.email_branding ?? {};
+  return {
+    eventName: event.name,
+    accentColor: settings.accent_color ?? DEFAULT_ACCENT_COLOR,
+    logoUrl: settings.logo_url ?? null,
+    signOff: settings.sign_off ?? null,
+  };
+}
+
+/**
+ * Organizer input → stored settings: a #rrggbb colour, an https logo and a
+ * short sign-off. Anything else is dropped, so the default is used.
+ */
+export function normaliseEmailBranding(raw: unknown): EmailBrandingSettings {
+  const settings: EmailBrandingSettings = {};
+  if (!raw || typeof raw !== 'object') return settings;
+  const { accent_color, logo_url, sign_off } = raw as Record<string, unknown>;
+
+  if (typeof accent_color === 'string' && HEX_COLOR.test(accent_color.trim())) {
+    settings.accent_color = accent_color.trim().toLowerCase();
+  }
+  if (typeof logo_url === 'string' && isHttpsUrl(logo_url.trim())) {
+    settings.logo_url = logo_url.trim();
+  }
+  if (typeof sign_off === 'string' && sign_off.trim()) {
+    settings.sign_off = sign_off.trim().slice(0, MAX_SIGN_OFF_LENGTH);
+  }
+  return settings;
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { getArrivalPhase, isTableComplete, type ArrivalEnvelope } from '../arrivals';
+import { calculateEnvelopeTimes } from '../timing';
+
+const start = new Date('2026-06-15T17:00:00.000Z');
+const times = calculateEnvelopeTimes(start, {});
+const envelope: ArrivalEnvelope = {
+  teasing_at: times.teasing_at.toISOString(),
+  clue_1_at: times.clue_1_at.toISOString(),
+  clue_2_at: times.clue_2_at.toISOString(),
+  street_at: times.street_at.toISOString(),
+  number_at: times.number_at.toISOString(),
+  opened_at: times.opened_at.toISOString(),
+  arrived_at: null,
+};
+
+const at = (date: Date, offsetMinutes = 0) => new Date(date.getTime() + offsetMinutes * 60_000);
+
+describe('getArrivalPhase', () => {
+  it('follows the envelope until the street is revealed', () => {
+    expect(getArrivalPhase(envelope, at(times.clue_2_at))).toBe('previous_course');
+    expect(getArrivalPhase(envelope, at(times.street_at))).toBe('street');
+    expect(getArrivalPhase(envelope, at(times.number_at))).toBe('address');
+    expect(getArrivalPhase(envelope, at(start, 20))).toBe('address');
+  });
+
+  it('is arrived once the host checks the guests in, whatever the envelope says', () => {
+    const checkedIn = { ...envelope, arrived_at: at(times.street_at, 1).toISOString() };
+    expect(getArrivalPhase(checkedIn, at(times.street_at, 2))).toBe('arrived');
+  });
+});
+
+describe('isTableComplete', () => {
+  it('needs every guest couple checked in', () => {
+    expect(isTableComplete(['arrived', 'arrived'])).toBe(true);
+    expect(isTableComplete(['arrived', 'address'])).toBe(false);
+    expect(isTableComplete([])).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildLiveBoard, orderedStateCounts, type BoardCouple, type BoardEnvelope } from '../board';
+import { calculateEnvelopeTimes } from '../timing';
+
+const start = new Date('2026-06-15T17:00:00.000Z');
+const times = calculateEnvelopeTimes(start, {});
+const revealTimes = {
+  teasing_at: times.teasing_at.toISOString(),
+  clue_1_at: times.clue_1_at.toISOString(),
+  clue_2_at: times.clue_2_at.toISOString(),
+  street_at: times.street_at.toISOString(),
+  number_at: times.number_at.toISOString(),
+  opened_at: times.opened_at.toISOString(),
+};
+
+const couple = (id: string, overrides: Partial<BoardCouple> = {}): BoardCouple => ({
+  id, name: id.toUpperCase(), person_count: 2, confirmed: true, cancelled: false, cancelled_at: null, ...overrides,
+});
+
+const envelope = (couple_id: string, host_couple_id: string, overrides: Partial<BoardEnvelope> = {}): BoardEnvelope => ({
+  id: `${couple_id}-starter`, couple_id, host_couple_id, course: 'starter', arrived_at: null, ...revealTimes, ...overrides,
+});
+
+describe('buildLiveBoard', () => {
+  const couples = [couple('h'), couple('a'), couple('b'), couple('c')];
+
+  it('counts states, opened and checked-in guests per table, leaving the host out', () => {
+    const later = new Date(times.number_at.getTime() - 60_000);
+    const board = buildLiveBoard([
+      envelope('h', 'h'),
+      envelope('a', 'h', { opened_at: new Date(later.getTime() - 60_000).toISOString(), arrived_at: later.toISOString() }),
+      envelope('b', 'h'),
+    ], couples, later);
+
+    const starter = board.courses[0];
+    expect(starter.tables).toHaveLength(1);
+    expect(starter.tables[0].guests.map(g => g.couple_id)).toEqual(['a', 'b']);
+    expect(starter.states).toEqual({ OPEN: 1, STREET: 1 });
+    expect(starter).toMatchObject({ guests: 2, opened: 1, arrived: 1 });
+    expect(starter.unplaced).toEqual([{ couple_id: 'c', name: 'C' }]);
+  });
+
+  it('lists a cancelled host with the guests still sent there', () => {
+    const board = buildLiveBoard(
+      [envelope('a', 'h'), envelope('b', 'h')],
+      [couple('h', { cancelled: true, cancelled_at: '2026-06-15T16:00:00.000Z' }), couple('a'), couple('b')],
+      start
+    );
+
+    expect(board.courses[0].tables[0].host_cancelled).toBe(true);
+    expect(board.dropouts).toEqual([{
+      couple_id: 'h',
+      name: 'H',
+      cancelled_at: '2026-06-15T16:00:00.000Z',
+      stranded: [
+        { couple_id: 'a', name: 'A', course: 'starter' },
+        { couple_id: 'b', name: 'B', course: 'starter' },
+      ],
+    }]);
+  });
+});
+
+describe('orderedStateCounts', () => {
+  it('follows reveal order and skips empty states', () => {
+    expect(orderedStateCounts({ OPEN: 2, LOCKED: 1, CLUE_1: 0 })).toEqual([
+      { state: 'LOCKED', count: 1 },
+      { state: 'OPEN', count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { planEnvelopeDelay, isDelayScope, type DelayEnvelope } from '../delay';
+import { calculateEnvelopeTimes } from '../timing';
+import type { MealCourse } from '@/types/database';
+
+const courseStarts: Record<MealCourse, Date> = {
+  starter: new Date('2026-06-15T15:30:00.000Z'),
+  main: new Date('2026-06-15T17:00:00.000Z'),
+  dessert: new Date('2026-06-15T18:30:00.000Z'),
+};
+
+// As setEnvelopeTimes stores it: the course start minus envelope_hours_before (default 6)
+const ENVELOPE_HOURS_BEFORE = 6;
+
+function createEnvelope(coupleId: string, course: MealCourse, hostId: string, cyclingMinutes: number | null = null): DelayEnvelope {
+  const times = calculateEnvelopeTimes(courseStarts[course], {}, cyclingMinutes ?? undefined);
+  return {
+    id: `${coupleId}-${course}`,
+    couple_id: coupleId,
+    course,
+    host_couple_id: hostId,
+    scheduled_at: new Date(courseStarts[course].getTime() - ENVELOPE_HOURS_BEFORE * 3_600_000).toISOString(),
+    cycling_minutes: cyclingMinutes,
+    teasing_at: times.teasing_at.toISOString(),
+    clue_1_at: times.clue_1_at.toISOString(),
+    clue_2_at: times.clue_2_at.toISOString(),
+    street_at: times.street_at.toISOString(),
+    number_at: times.number_at.toISOString(),
+    opened_at: times.opened_at.toISOString(),
+  };
+}
+
+const envelopes = [
+  createEnvelope('c1', 'starter', 'h1'),
+  createEnvelope('c1', 'main', 'h2', 25),
+  createEnvelope('c1', 'dessert', 'h3'),
+  createEnvelope('c2', 'main', 'h2'),
+  createEnvelope('c2', 'dessert', 'h4'),
+];
+
+// During the starter, 40 min before the main course
+const now = new Date('2026-06-15T16:20:00.000Z');
+
+describe('Running late', () => {
+  it('should leave envelopes that are already open alone', () => {
+    const changes = planEnvelopeDelay(envelopes, { type: 'all' }, 15, {}, {}, now);
+
+    expect(changes.map(c => c.envelope_id)).toEqual(['c1-main', 'c1-dessert', 'c2-main', 'c2-dessert']);
+  });
+
+  it('should recompute reveal times from the delayed start, keeping the cycling margin', () => {
+    const [main] = planEnvelopeDelay(envelopes, { type: 'course', course: 'main' }, 15, {}, {}, now);
+
+    expect(main.after.opened_at).toBe('2026-06-15T17:15:00.000Z');
+    // 25 min ride + 10 min margin
+    expect(main.after.street_at).toBe('2026-06-15T16:40:00.000Z');
+  });
+
+  it('should take the course start from opened_at and move scheduled_at by the delay', () => {
+    const [main] = planEnvelopeDelay(envelopes, { type: 'course', course: 'main' }, 15, {}, {}, now);
+
+    // scheduled_at is hours before the course, not the course start
+    expect(main.scheduled_at).toBe('2026-06-15T11:15:00.000Z');
+    expect(main.after.number_at).toBe('2026-06-15T16:50:00.000Z');
+    expect(main.after.street_at).toBe('2026-06-15T16:40:00.000Z');
+  });
+
+  it('should not take back reveals guests have already seen', () => {
+    const [main] = planEnvelopeDelay(envelopes, { type: 'course', course: 'main' }, 15, {}, {}, now);
+
+    expect(main.after.clue_1_at).toBeUndefined();
+    expect(main.after.clue_2_at).toBe('2026-06-15T16:45:00.000Z');
+  });
+
+  it('should only delay one host table', () => {
+    const changes = planEnvelopeDelay(envelopes, { type: 'host', host_couple_id: 'h2' }, 10, {}, {}, now);
+
+    expect(changes.map(c => c.couple_id)).toEqual(['c1', 'c2']);
+    expect(changes.every(c => c.course === 'main')).toBe(true);
+  });
+
+  it('should validate scopes', () => {
+    expect(isDelayScope({ type: 'all' })).toBe(true);
+    expect(isDelayScope({ type: 'course', course: 'dessert' })).toBe(true);
+    expect(isDelayScope({ type: 'course', course: 'afterparty' })).toBe(false);
+    expect(isDelayScope({ type: 'host' })).toBe(false);
+    expect(isDelayScope(null)).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { scoreGuess, scoreHostGuesses, GUESS_POINTS, type ScorableGuess } from '../guesses';
+
+const hostByEnvelope = new Map<string, string | null>([
+  ['a-starter', 'host-1'],
+  ['a-main', 'host-2'],
+  ['b-starter', 'host-1'],
+  ['b-main', 'host-2'],
+  ['c-starter', 'host-1'],
+]);
+
+function guess(envelopeId: string, hostId: string, state: ScorableGuess['guessed_state']): ScorableGuess {
+  return {
+    envelope_id: envelopeId,
+    couple_id: envelopeId.split('-')[0],
+    guessed_host_couple_id: hostId,
+    guessed_state: state,
+  };
+}
+
+describe('scoreGuess', () => {
+  it('scores a right guess by how early it was made', () => {
+    expect(scoreGuess(guess('a-starter', 'host-1', 'TEASING'), 'host-1')).toBe(GUESS_POINTS.TEASING);
+    expect(scoreGuess(guess('a-starter', 'host-1', 'NUMBER'), 'host-1')).toBe(GUESS_POINTS.NUMBER);
+    expect(GUESS_POINTS.TEASING!).toBeGreaterThan(GUESS_POINTS.NUMBER!);
+  });
+
+  it('gives nothing for a wrong guess or a missing host', () => {
+    expect(scoreGuess(guess('a-starter', 'host-2', 'TEASING'), 'host-1')).toBe(0);
+    expect(scoreGuess(guess('a-starter', 'host-1', 'TEASING'), null)).toBe(0);
+  });
+});
+
+describe('scoreHostGuesses', () => {
+  it('totals per couple, best first', () => {
+    const scores = scoreHostGuesses([
+      guess('a-starter', 'host-1', 'STREET'),
+      guess('a-main', 'host-3', 'CLUE_1'),
+      guess('b-starter', 'host-1', 'CLUE_1'),
+      guess('b-main', 'host-2', 'CLUE_2'),
+      guess('c-starter', 'host-2', 'TEASING'),
+    ], hostByEnvelope);
+
+    expect(scores.map(s => s.couple_id)).toEqual(['b', 'a', 'c']);
+    expect(scores[0]).toEqual({ couple_id: 'b', points: GUESS_POINTS.CLUE_1! + GUESS_POINTS.CLUE_2!, correct: 2, guesses: 2 });
+    expect(scores[2]).toEqual({ couple_id: 'c', points: 0, correct: 0, guesses: 1 });
+  });
+
+  it('ignores guesses on envelopes that are gone', () => {
+    expect(scoreHostGuesses([guess('d-starter', 'host-1', 'TEASING')], hostByEnvelope)).toEqual([]);
+  });
+});
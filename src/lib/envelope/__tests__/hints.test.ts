@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { pickNextHint, getHintLimit, sanitizeHintLimits, DEFAULT_HINT_LIMIT } from '../hints';
+import { generateFallbackClues } from '../clues';
+
+const facts = ['Har bott i Japan', 'Spelar säckpipa', 'Har en tvilling'];
+const context = { hostNames: ['Anna', 'Bo'], cyclingMinutes: 8, birthYears: [1985, 1987] };
+
+describe('pickNextHint', () => {
+  it('gives a fun fact the guest has not been shown', () => {
+    const hint = pickNextHint(facts, [0, 2], [], context);
+    expect(hint).toEqual({ text: 'Spelar säckpipa', source: 'fun_fact', fact_index: 1 });
+  });
+
+  it('skips facts already given as hints', () => {
+    const used = [{ text: 'Har bott i Japan', source: 'fun_fact' as const, fact_index: 0 }];
+    const hint = pickNextHint(facts, [1], used, context);
+    expect(hint?.fact_index).toBe(2);
+  });
+
+  it('falls back to generated clues once the facts run out', () => {
+    const fallbacks = generateFallbackClues(context);
+    const first = pickNextHint(facts, [0, 1, 2], [], context);
+    expect(first).toEqual({ text: fallbacks[0], source: 'fallback', fact_index: null });
+
+    const second = pickNextHint(facts, [0, 1, 2], [first!], context);
+    expect(second?.text).toBe(fallbacks[1]);
+  });
+
+  it('returns null when there is nothing left to tell', () => {
+    const used = generateFallbackClues(context).map(text => ({ text, source: 'fallback' as const, fact_index: null }));
+    expect(pickNextHint([], [], used, context)).toBeNull();
+  });
+});
+
+describe('hint limits', () => {
+  it('defaults per meal course and never allows hints for the afterparty', () => {
+    expect(getHintLimit({}, 'main')).toBe(DEFAULT_HINT_LIMIT);
+    expect(getHintLimit({ main: 0, dessert: 3 }, 'main')).toBe(0);
+    expect(getHintLimit({ dessert: 3 }, 'dessert')).toBe(3);
+    expect(getHintLimit({ starter: 2 }, 'afterparty')).toBe(0);
+  });
+
+  it('drops unknown courses and out-of-range values', () => {
+    expect(sanitizeHintLimits({ starter: 2, main: -1, dessert: 9, afterparty: 1 })).toEqual({ starter: 2 });
+    expect(sanitizeHintLimits({ main: 1.5 })).toEqual({});
+    expect(sanitizeHintLimits(null)).toEqual({});
+  });
+});
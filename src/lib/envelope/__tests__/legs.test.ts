@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { buildEnvelopeLegs, routeEnvelopeLegs, legKey, type LegEnvelope } from '../legs';
+import { calculateEnvelopeTimes, DEPARTURE_MARGIN_MINUTES } from '../timing';
+import type { Coordinates } from '@/lib/geo';
+
+const coordinates = new Map<string, Coordinates>([
+  ['guest', { lat: 59.3300, lng: 18.0600 }],
+  ['host-a', { lat: 59.3400, lng: 18.0700 }],
+  ['host-b', { lat: 59.3500, lng: 18.0900 }],
+]);
+
+const envelopes: LegEnvelope[] = [
+  { couple_id: 'guest', course: 'starter', host_couple_id: 'host-a' },
+  { couple_id: 'guest', course: 'main', host_couple_id: 'guest' },
+  { couple_id: 'guest', course: 'dessert', host_couple_id: 'host-b' },
+  { couple_id: 'guest', course: 'afterparty', host_couple_id: null },
+];
+
+describe('Envelope legs', () => {
+  it('should start from home, then from the previous course', () => {
+    const legs = buildEnvelopeLegs(envelopes, coordinates);
+
+    expect(legs.map(l => l.course)).toEqual(['starter', 'main', 'dessert']);
+    expect(legs[0]).toMatchObject({ from: coordinates.get('guest'), to: coordinates.get('host-a') });
+    // Hosting the main course: cycle home from the starter
+    expect(legs[1]).toMatchObject({ from: coordinates.get('host-a'), to: coordinates.get('guest') });
+    expect(legs[2]).toMatchObject({ from: coordinates.get('guest'), to: coordinates.get('host-b') });
+  });
+
+  it('should start from home when the previous course is missing', () => {
+    const legs = buildEnvelopeLegs([envelopes[2]], coordinates);
+
+    expect(legs[0].from).toEqual(coordinates.get('guest'));
+  });
+
+  it('should skip legs without coordinates', () => {
+    const legs = buildEnvelopeLegs(
+      [{ couple_id: 'guest', course: 'starter', host_couple_id: 'unknown' }],
+      coordinates
+    );
+
+    expect(legs).toEqual([]);
+  });
+
+  it('should fall back to straight-line estimates without a routing token', async () => {
+    const routes = await routeEnvelopeLegs(envelopes, coordinates);
+    const starter = routes.get(legKey('guest', 'starter'));
+
+    expect(routes.size).toBe(3);
+    expect(starter?.source).toBe('haversine');
+    expect(starter?.duration_min).toBeGreaterThan(0);
+  });
+});
+
+describe('Street reveal margin', () => {
+  const courseStart = new Date('2026-06-15T15:30:00.000Z');
+  const minutesBefore = (date: Date) => (courseStart.getTime() - date.getTime()) / 60_000;
+
+  it('should reveal the street the margin before departure for long rides', () => {
+    for (const cyclingMinutes of [25, 40, 55]) {
+      const times = calculateEnvelopeTimes(courseStart, {}, cyclingMinutes);
+
+      expect(minutesBefore(times.street_at)).toBe(cyclingMinutes + DEPARTURE_MARGIN_MINUTES);
+      expect(minutesBefore(times.number_at)).toBe(cyclingMinutes);
+    }
+  });
+
+  it('should keep the configured timing for short rides', () => {
+    const times = calculateEnvelopeTimes(courseStart, {}, 3);
+
+    expect(minutesBefore(times.street_at)).toBe(15);
+    expect(minutesBefore(times.number_at)).toBe(5);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { combineFunFacts, generateFallbackClues } from '../clues';
+import { pickNextHint } from '../hints';
+import { ENVELOPE_MESSAGES } from '../messages';
+import { normaliseLocale } from '@/lib/i18n';
+import { getAgeReference } from '@/lib/clues/age-references';
+import { AWARDS, localizeAward } from '@/lib/awards/calculate';
+
+const host = {
+  invited_fun_facts: { pet: 'katt', musicDecade: '80' },
+  partner_fun_facts: ['Har träffat kungen'],
+};
+
+describe('normaliseLocale', () => {
+  it('falls back to Swedish for anything unsupported', () => {
+    expect(normaliseLocale('en')).toBe('en');
+    expect(normaliseLocale('de')).toBe('sv');
+    expect(normaliseLocale(null)).toBe('sv');
+  });
+});
+
+describe('localized clues', () => {
+  it('renders structured fun facts in the locale, keeping indices and legacy text', () => {
+    const sv = combineFunFacts(host);
+    const en = combineFunFacts(host, 'en');
+    expect(sv).toEqual(['Tycker att 80-talets musik var bäst', 'Har husdjur: katt', 'Har träffat kungen']);
+    expect(en).toEqual(['Thinks the music of the 80s was the best', 'Has a pet: katt', 'Har träffat kungen']);
+  });
+
+  it('writes fallback clues and hints in the locale', () => {
+    const context = { hostNames: ['Anna', 'Bo'], cyclingMinutes: 4, birthYears: [1984, 1986] };
+    expect(generateFallbackClues(context, 'en')).toEqual([
+      'Your host was born in the 1980s',
+      'You live close to each other – under 5 minutes by bike',
+      'Your hosts have the initials A & B',
+      'Your host loves good food',
+      "You're going to have a great time there",
+    ]);
+    expect(pickNextHint([], [], [], context, 'en')?.text).toBe('Your host was born in the 1980s');
+    expect(generateFallbackClues(context)[0]).toBe('Värden är 1980-talist');
+  });
+
+  it('adjusts the age in nearby English age references', () => {
+    const reference = getAgeReference(1942, 'en');
+    expect(['Was 3 when World War II ended', 'Grew up with ration cards']).toContain(reference);
+  });
+});
+
+describe('envelope messages and awards', () => {
+  it('has every message pool in every locale', () => {
+    for (const messages of Object.values(ENVELOPE_MESSAGES)) {
+      expect(messages.hostSelf.length).toBeGreaterThan(1);
+      expect(messages.lipsSealed.length).toBeGreaterThan(1);
+      expect(messages.mysteryHost.length).toBeGreaterThan(1);
+    }
+  });
+
+  it('translates every award title', () => {
+    for (const award of AWARDS) {
+      expect(localizeAward(award, 'sv')).toBe(award);
+      expect(localizeAward(award, 'en')).not.toBe(award);
+    }
+  });
+});
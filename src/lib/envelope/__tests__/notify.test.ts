@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { calculateEnvelopeTimes } from '../timing';
+
+const { enqueueNotifications } = vi.hoisted(() => ({
+  enqueueNotifications: vi.fn(async () => [{ status: 'queued' }]),
+}));
+
+// Only what gets queued matters here, not how it is sent
+vi.mock('@/lib/notifications', () => ({ enqueueNotifications, notifyCouples: vi.fn() }));
+
+import { enqueueRevealNotifications } from '../notify';
+
+type Row = Record<string, unknown>;
+
+/** Just the filters enqueueRevealNotifications uses */
+function createDb(tables: Record<string, Row[]>) {
+  return {
+    from(table: string) {
+      const filters: ((row: Row) => boolean)[] = [];
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return query; },
+        in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return query; },
+        lte: (column: string, value: string) => { filters.push(row => String(row[column]) <= value); return query; },
+        gt: (column: string, value: string) => { filters.push(row => String(row[column]) > value); return query; },
+        then: (resolve: (result: { data: Row[]; error: null }) => unknown) =>
+          resolve({ data: tables[table].filter(row => filters.every(fn => fn(row))), error: null }),
+      };
+      return query;
+    },
+  } as unknown as SupabaseClient;
+}
+
+function envelopeRow(planId: string, start: Date, timing: Parameters<typeof calculateEnvelopeTimes>[1] = {}): Row {
+  const times = calculateEnvelopeTimes(start, timing);
+  return {
+    match_plan_id: planId,
+    couple_id: 'guest',
+    course: 'main',
+    cancelled: false,
+    ...Object.fromEntries(Object.entries(times).map(([key, value]) => [key, value.toISOString()])),
+  };
+}
+
+const start = new Date('2026-06-15T17:00:00.000Z');
+const event = { id: 'event', name: 'Fest', slug: 'fest', active_match_plan_id: 'new-plan' };
+const couple = { id: 'guest', cancelled: false };
+
+describe('enqueueRevealNotifications', () => {
+  beforeEach(() => enqueueNotifications.mockClear());
+
+  it('pushes the active plan\'s reveal, not an older plan\'s envelope for the same course', async () => {
+    const active = envelopeRow('new-plan', start);
+    const now = new Date(new Date(active.street_at as string).getTime() + 60_000);
+    // The old plan's envelope comes last and reveals the number at the same moment
+    const old = envelopeRow('old-plan', new Date(start.getTime() - 10 * 60_000));
+    const db = createDb({ envelopes: [active, old], events: [event], couples: [couple] });
+
+    expect(await enqueueRevealNotifications(db, now)).toBe(1);
+    expect(enqueueNotifications).toHaveBeenCalledTimes(1);
+    expect(enqueueNotifications).toHaveBeenCalledWith(db, event, [couple], 'envelope_reveal', {
+      course: 'main',
+      state: 'STREET',
+      idempotencySuffix: String(new Date(active.street_at as string).getTime()),
+    });
+  });
+
+  it('skips reveals that only happen in an older plan', async () => {
+    const old = envelopeRow('old-plan', start);
+    const now = new Date(new Date(old.street_at as string).getTime() + 60_000);
+    // The new plan's street went out long ago, the number is still to come
+    const active = envelopeRow('new-plan', new Date(now.getTime() + 20 * 60_000), { street_minutes_before: 60 });
+    const db = createDb({ envelopes: [old, active], events: [event], couples: [couple] });
+
+    expect(await enqueueRevealNotifications(db, now)).toBe(0);
+    expect(enqueueNotifications).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { dueReveals, REVEAL_PUSH_WINDOW_MS, type RevealEnvelope } from '../reveals';
+import { calculateEnvelopeTimes } from '../timing';
+
+const start = new Date('2026-06-15T17:00:00.000Z');
+const times = calculateEnvelopeTimes(start, {});
+const envelope: RevealEnvelope = {
+  couple_id: 'guest',
+  course: 'main',
+  teasing_at: times.teasing_at.toISOString(),
+  clue_1_at: times.clue_1_at.toISOString(),
+  clue_2_at: times.clue_2_at.toISOString(),
+  street_at: times.street_at.toISOString(),
+  number_at: times.number_at.toISOString(),
+  opened_at: times.opened_at.toISOString(),
+};
+
+const at = (date: Date, offsetMinutes = 0) => new Date(date.getTime() + offsetMinutes * 60_000);
+
+describe('dueReveals', () => {
+  it('pushes the street, the number and the open envelope', () => {
+    expect(dueReveals([envelope], at(times.street_at, 1))).toEqual([
+      { couple_id: 'guest', course: 'main', state: 'STREET', revealed_at: envelope.street_at },
+    ]);
+    expect(dueReveals([envelope], at(times.number_at))[0].state).toBe('NUMBER');
+    expect(dueReveals([envelope], at(start, 2))[0].state).toBe('OPEN');
+  });
+
+  it('skips clues and reveals older than the window', () => {
+    expect(dueReveals([envelope], at(times.clue_2_at, 1))).toEqual([]);
+    expect(dueReveals([envelope], new Date(start.getTime() + REVEAL_PUSH_WINDOW_MS + 1))).toEqual([]);
+  });
+
+  it('only pushes the latest reveal after a gap', () => {
+    const late = dueReveals([envelope], at(times.number_at, 1), 30 * 60_000);
+    expect(late.map(r => r.state)).toEqual(['NUMBER']);
+  });
+
+  it('leaves the afterparty out', () => {
+    expect(dueReveals([{ ...envelope, course: 'afterparty' }], at(times.street_at, 1))).toEqual([]);
+  });
+});
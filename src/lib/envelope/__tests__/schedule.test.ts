@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { buildRevealTimeline, findScheduleConflicts, type ScheduleEnvelope } from '../schedule';
+import type { MealCourse } from '@/types/database';
+
+const courseStarts: Record<MealCourse, Date> = {
+  starter: new Date('2026-06-15T15:30:00.000Z'),
+  main: new Date('2026-06-15T17:00:00.000Z'),
+  dessert: new Date('2026-06-15T18:30:00.000Z'),
+};
+
+function createEnvelopes(coupleId: string, cyclingKm: number | null = 1): ScheduleEnvelope[] {
+  return (['starter', 'main', 'dessert'] as MealCourse[]).map(course => ({
+    couple_id: coupleId,
+    course,
+    cycling_distance_km: cyclingKm,
+  }));
+}
+
+const names = new Map([['c1', 'Anna & Bo'], ['c2', 'Cia & Dan']]);
+
+describe('Reveal schedule', () => {
+  it('should build one row per couple with all three courses in order', () => {
+    const envelopes = [...createEnvelopes('c2'), ...createEnvelopes('c1')].reverse();
+    const timelines = buildRevealTimeline(envelopes, courseStarts, {}, {}, names);
+
+    expect(timelines.map(t => t.name)).toEqual(['Anna & Bo', 'Cia & Dan']);
+    expect(timelines[0].courses.map(c => c.course)).toEqual(['starter', 'main', 'dessert']);
+    expect(timelines[0].courses[2].times.opened_at).toEqual(courseStarts.dessert);
+  });
+
+  it('should apply per-course offsets', () => {
+    const timelines = buildRevealTimeline(createEnvelopes('c1'), courseStarts, {}, { dessert: { street_minutes_before: 45 } }, names);
+    const dessert = timelines[0].courses[2];
+
+    expect(dessert.times.street_at).toEqual(new Date('2026-06-15T17:45:00.000Z'));
+  });
+
+  it('should find no conflicts with the default timing', () => {
+    const envelopes = [...createEnvelopes('c1', 1), ...createEnvelopes('c2', 3)];
+    const timelines = buildRevealTimeline(envelopes, courseStarts, {}, {}, names);
+
+    expect(findScheduleConflicts(timelines)).toEqual([]);
+  });
+
+  it('should leave time to cycle when judging when a course ends', () => {
+    // 5 km ≈ 20 min: street is moved to 30 min before, which is when they leave
+    const timelines = buildRevealTimeline(createEnvelopes('c1', 5), courseStarts, {}, {}, names);
+
+    expect(findScheduleConflicts(timelines).filter(c => c.type === 'early_reveal')).toEqual([]);
+  });
+
+  it('should flag a dessert street reveal during the main course', () => {
+    const offsets = { dessert: { clue_2_minutes_before: 60, street_minutes_before: 45 } };
+    const timelines = buildRevealTimeline(createEnvelopes('c1'), courseStarts, {}, offsets, names);
+    const conflicts = findScheduleConflicts(timelines);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ type: 'early_reveal', couple_id: 'c1', course: 'dessert', state: 'STREET' });
+    expect(conflicts[0].message).toContain('30 min innan huvudrätten');
+  });
+
+  it('should not flag the first course, which has nothing before it', () => {
+    const timelines = buildRevealTimeline(createEnvelopes('c1'), courseStarts, {}, { starter: { clue_2_minutes_before: 90, street_minutes_before: 60 } }, names);
+
+    expect(findScheduleConflicts(timelines)).toEqual([]);
+  });
+
+  it('should flag reveals that skip a step', () => {
+    const timelines = buildRevealTimeline(createEnvelopes('c1'), courseStarts, {}, { main: { clue_2_minutes_before: 150 } }, names);
+    const conflicts = findScheduleConflicts(timelines);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ type: 'out_of_order', course: 'main', state: 'CLUE_2' });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { sealReveal, openSealedReveal, applyOpenedReveals } from '../sealed';
+import { deriveRevealKey } from '@/lib/tokens';
+import type { CourseEnvelopeStatus, SealedRevealContent } from '@/types/database';
+
+const STREET_AT = '2026-06-15T17:30:00.000Z';
+const NUMBER_AT = '2026-06-15T17:40:00.000Z';
+
+const streetContent: SealedRevealContent = {
+  street: { name: 'Storgatan', range: '10-20', cycling_minutes: 8 },
+  number: null,
+  full_address: null,
+  host_names: null,
+};
+
+const numberContent: SealedRevealContent = { ...streetContent, number: 14 };
+
+function createCourse(overrides: Partial<CourseEnvelopeStatus> = {}): CourseEnvelopeStatus {
+  return {
+    type: 'starter',
+    state: 'CLUE_2',
+    clues: [],
+    clue_pool: null,
+    street: null,
+    number: null,
+    full_address: null,
+    next_reveal: { type: 'STREET', at: STREET_AT, in_seconds: 600 },
+    starts_at: '2026-06-15T18:00:00',
+    host_names: null,
+    allergies_summary: null,
+    is_self_host: false,
+    host_has_fun_facts: true,
+    cycling_meters: 2000,
+    ...overrides,
+  };
+}
+
+describe('Sealed reveals: encryption', () => {
+  const key = deriveRevealKey('env-1', 'host-1', 'STREET', STREET_AT);
+
+  it('should open with the released key', async () => {
+    const sealed = await sealReveal(key, 'STREET', STREET_AT, streetContent);
+
+    expect(sealed.ciphertext).not.toContain('Storgatan');
+    expect(await openSealedReveal(key, sealed)).toEqual(streetContent);
+  });
+
+  it('should not open after the host or time changed', async () => {
+    const sealed = await sealReveal(key, 'STREET', STREET_AT, streetContent);
+
+    expect(await openSealedReveal(deriveRevealKey('env-1', 'host-2', 'STREET', STREET_AT), sealed)).toBeNull();
+    expect(await openSealedReveal(deriveRevealKey('env-1', 'host-1', 'STREET', NUMBER_AT), sealed)).toBeNull();
+  });
+
+  it('should derive the same key regardless of timestamp format', () => {
+    expect(deriveRevealKey('env-1', 'host-1', 'STREET', '2026-06-15T17:30:00+00:00')).toBe(key);
+  });
+});
+
+describe('Sealed reveals: applying opened content', () => {
+  const sealedCourse = createCourse({
+    sealed_reveals: [
+      { state: 'STREET', at: STREET_AT, iv: '', ciphertext: '' },
+      { state: 'NUMBER', at: NUMBER_AT, iv: '', ciphertext: '' },
+    ],
+  });
+
+  it('should only tick the countdown when nothing is opened', () => {
+    const course = applyOpenedReveals(sealedCourse, {}, new Date('2026-06-15T17:25:00.000Z'));
+
+    expect(course.state).toBe('CLUE_2');
+    expect(course.next_reveal).toEqual({ type: 'STREET', at: STREET_AT, in_seconds: 300 });
+  });
+
+  it('should advance to the furthest opened reveal and count down to the next', () => {
+    const course = applyOpenedReveals(sealedCourse, { STREET: streetContent }, new Date('2026-06-15T17:31:00.000Z'));
+
+    expect(course.state).toBe('STREET');
+    expect(course.street?.name).toBe('Storgatan');
+    expect(course.next_reveal).toEqual({ type: 'NUMBER', at: NUMBER_AT, in_seconds: 540 });
+  });
+
+  it('should never move a course backwards', () => {
+    const server = createCourse({ state: 'NUMBER', number: 14, next_reveal: null });
+
+    expect(applyOpenedReveals(server, { STREET: streetContent }, new Date(NUMBER_AT))).toEqual(server);
+    expect(applyOpenedReveals(server, { NUMBER: numberContent }, new Date(NUMBER_AT)).state).toBe('NUMBER');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cursorAt,
+  parseLastEventId,
+  listStateTransitions,
+  nextTransitionAt,
+  envelopeSignature,
+  encodeStreamEvent,
+  type StreamEnvelope,
+} from '../stream';
+import type { Course } from '@/types/database';
+
+function createEnvelope(course: Course, base: string, overrides: Partial<StreamEnvelope> = {}): StreamEnvelope {
+  const at = (minutes: number) => new Date(new Date(base).getTime() + minutes * 60_000).toISOString();
+  return {
+    course,
+    host_couple_id: 'host-1',
+    teasing_at: at(0),
+    clue_1_at: at(10),
+    clue_2_at: at(20),
+    street_at: at(30),
+    number_at: at(40),
+    opened_at: at(50),
+    ...overrides,
+  };
+}
+
+const t = (time: string) => new Date(`2026-06-15T${time}:00.000Z`);
+
+describe('Envelope stream: state transitions', () => {
+  const envelopes = [
+    createEnvelope('starter', '2026-06-15T15:00:00.000Z'),
+    createEnvelope('main', '2026-06-15T15:25:00.000Z'),
+  ];
+
+  it('should list transitions in the window in time order', () => {
+    const transitions = listStateTransitions(envelopes, cursorAt(t('15:05')), t('15:30'));
+
+    expect(transitions.map(tr => `${tr.course}:${tr.state}`)).toEqual([
+      'starter:CLUE_1',
+      'starter:CLUE_2',
+      'main:TEASING',
+      'starter:STREET',
+    ]);
+  });
+
+  it('should resume exactly after the last event id', () => {
+    const [first, second] = listStateTransitions(envelopes, cursorAt(t('15:05')), t('15:30'));
+    const resumed = listStateTransitions(envelopes, parseLastEventId(first.id)!, t('15:30'));
+
+    expect(resumed[0].id).toBe(second.id);
+    expect(resumed).toHaveLength(3);
+  });
+
+  it('should keep same-millisecond transitions apart when resuming', () => {
+    const together = [
+      createEnvelope('starter', '2026-06-15T15:00:00.000Z'),
+      createEnvelope('main', '2026-06-15T15:00:00.000Z'),
+    ];
+    const [first] = listStateTransitions(together, cursorAt(t('14:59')), t('15:00'));
+    const rest = listStateTransitions(together, parseLastEventId(first.id)!, t('15:00'));
+
+    expect(first.course).toBe('starter');
+    expect(rest.map(tr => tr.course)).toEqual(['main']);
+  });
+
+  it('should skip states overtaken by a later one', () => {
+    const edited = [createEnvelope('starter', '2026-06-15T15:00:00.000Z', { clue_2_at: '2026-06-15T15:05:00.000Z' })];
+    const states = listStateTransitions(edited, cursorAt(t('14:59')), t('15:15')).map(tr => tr.state);
+
+    expect(states).toEqual(['TEASING', 'CLUE_2']);
+  });
+
+  it('should find the next reveal time', () => {
+    expect(nextTransitionAt(envelopes, t('15:22'))).toEqual(t('15:25'));
+    expect(nextTransitionAt(envelopes, t('17:00'))).toBeNull();
+  });
+
+  it('should reject garbled Last-Event-IDs', () => {
+    expect(parseLastEventId(null)).toBeNull();
+    expect(parseLastEventId('abc')).toBeNull();
+    expect(parseLastEventId('123-lunch-OPEN')).toBeNull();
+  });
+
+  it('should change signature when host or times change', () => {
+    const moved = [{ ...envelopes[0], host_couple_id: 'host-2' }, envelopes[1]];
+
+    expect(envelopeSignature([...envelopes].reverse())).toBe(envelopeSignature(envelopes));
+    expect(envelopeSignature(moved)).not.toBe(envelopeSignature(envelopes));
+  });
+
+  it('should only give state events an SSE id', () => {
+    const [transition] = listStateTransitions(envelopes, cursorAt(t('14:59')), t('15:00'));
+    const state = encodeStreamEvent({ type: 'state', ...transition, server_time: '', status: null });
+    const resync = encodeStreamEvent({ type: 'resync', server_time: '' });
+
+    expect(state).toMatch(new RegExp(`^id: ${transition.id}\\nevent: state\\ndata: `));
+    expect(resync).toMatch(/^event: resync\ndata: /);
+    expect(state.endsWith('\n\n')).toBe(true);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Arrivals
+ *
+ * Where a guest couple is on the way to a host's table, as the host sees it:
+ * still at the previous course (or at home), street revealed, full address
+ * revealed, or checked in by the host.
+ */
+
+import { calculateEnvelopeState, type EnvelopeRevealTimes } from './timing';
+
+export type ArrivalPhase = 'previous_course' | 'street' | 'address' | 'arrived';
+
+export type ArrivalEnvelope = EnvelopeRevealTimes & { arrived_at: string | null };
+
+export const ARRIVAL_PHASE_ORDER: ArrivalPhase[] = ['previous_course', 'street', 'address', 'arrived'];
+
+export function getArrivalPhase(envelope: ArrivalEnvelope, now: Date): ArrivalPhase {
+  if (envelope.arrived_at) return 'arrived';
+  const state = calculateEnvelopeState(envelope, now);
+  if (state === 'NUMBER' || state === 'OPEN') return 'address';
+  if (state === 'STREET') return 'street';
+  return 'previous_course';
+}
+
+/** A table is complete once every guest couple is checked in */
+export function isTableComplete(phases: ArrivalPhase[]): boolean {
+  return phases.length > 0 && phases.every(phase => phase === 'arrived');
+}
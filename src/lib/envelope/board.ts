@@ -0,0 +1,161 @@
+/**
+ * Live Board
+ *
+ * The organizer's overview of the evening in one structure: per course and
+ * host table, where every guest couple's envelope is, how many have opened,
+ * who the host has checked in, hosts who dropped out with guests still on
+ * their way, and couples with no place for a course.
+ */
+
+import { calculateEnvelopeState, STATE_ORDER, type EnvelopeRevealTimes } from './timing';
+import type { EnvelopeState, MealCourse } from '@/types/database';
+
+export const BOARD_COURSES: MealCourse[] = ['starter', 'main', 'dessert'];
+
+export type BoardEnvelope = EnvelopeRevealTimes & {
+  id: string;
+  couple_id: string;
+  host_couple_id: string | null;
+  course: string;
+  arrived_at: string | null;
+};
+
+export interface BoardCouple {
+  id: string;
+  name: string;
+  person_count: number;
+  confirmed: boolean;
+  cancelled: boolean;
+  cancelled_at: string | null;
+}
+
+export interface BoardGuest {
+  couple_id: string;
+  name: string;
+  person_count: number;
+  state: EnvelopeState;
+  arrived: boolean;
+}
+
+export type StateCounts = Partial<Record<EnvelopeState, number>>;
+
+export interface BoardTable {
+  host_couple_id: string;
+  host_name: string;
+  host_cancelled: boolean;
+  guests: BoardGuest[];
+  opened: number;
+  arrived: number;
+}
+
+export interface BoardCourse {
+  course: MealCourse;
+  states: StateCounts;
+  guests: number;
+  opened: number;
+  arrived: number;
+  tables: BoardTable[];
+  unplaced: { couple_id: string; name: string }[];
+}
+
+export interface BoardDropout {
+  couple_id: string;
+  name: string;
+  cancelled_at: string | null;
+  /** Guests still sent to this couple's table */
+  stranded: { couple_id: string; name: string; course: MealCourse }[];
+}
+
+export interface LiveBoard {
+  courses: BoardCourse[];
+  dropouts: BoardDropout[];
+}
+
+export function buildLiveBoard(envelopes: BoardEnvelope[], couples: BoardCouple[], now: Date): LiveBoard {
+  const coupleById = new Map(couples.map(c => [c.id, c]));
+  const active = couples.filter(c => c.confirmed && !c.cancelled);
+  const strandedByHost = new Map<string, BoardDropout['stranded']>();
+
+  const courses = BOARD_COURSES.map(course => {
+    const courseEnvelopes = envelopes.filter(e => e.course === course);
+    const tables = new Map<string, BoardTable>();
+    const states: StateCounts = {};
+    let opened = 0;
+    let arrived = 0;
+    let guestCount = 0;
+
+    for (const envelope of courseEnvelopes) {
+      const hostId = envelope.host_couple_id;
+      if (!hostId) continue;
+
+      const host = coupleById.get(hostId);
+      const table = tables.get(hostId) ?? {
+        host_couple_id: hostId,
+        host_name: host?.name ?? '?',
+        host_cancelled: host?.cancelled ?? false,
+        guests: [],
+        opened: 0,
+        arrived: 0,
+      };
+      tables.set(hostId, table);
+
+      // The host's own envelope only puts the table on the board
+      if (hostId === envelope.couple_id) continue;
+
+      const guest = coupleById.get(envelope.couple_id);
+      const state = calculateEnvelopeState(envelope, now);
+      const boardGuest: BoardGuest = {
+        couple_id: envelope.couple_id,
+        name: guest?.name ?? '?',
+        person_count: guest?.person_count ?? 2,
+        state,
+        arrived: !!envelope.arrived_at,
+      };
+      table.guests.push(boardGuest);
+
+      states[state] = (states[state] ?? 0) + 1;
+      guestCount++;
+      if (state === 'OPEN') { opened++; table.opened++; }
+      if (boardGuest.arrived) { arrived++; table.arrived++; }
+
+      if (host?.cancelled) {
+        const stranded = strandedByHost.get(hostId) ?? [];
+        stranded.push({ couple_id: envelope.couple_id, name: boardGuest.name, course });
+        strandedByHost.set(hostId, stranded);
+      }
+    }
+
+    const placed = new Set(courseEnvelopes.map(e => e.couple_id));
+    const unplaced = active
+      .filter(c => !placed.has(c.id))
+      .map(c => ({ couple_id: c.id, name: c.name }));
+
+    return {
+      course,
+      states,
+      guests: guestCount,
+      opened,
+      arrived,
+      tables: [...tables.values()].sort((a, b) => a.host_name.localeCompare(b.host_name, 'sv')),
+      unplaced,
+    };
+  });
+
+  const dropouts = couples
+    .filter(c => c.cancelled && strandedByHost.has(c.id))
+    .map(c => ({
+      couple_id: c.id,
+      name: c.name,
+      cancelled_at: c.cancelled_at,
+      stranded: strandedByHost.get(c.id) ?? [],
+    }));
+
+  return { courses, dropouts };
+}
+
+/** The course's state counts in reveal order, for a stacked bar */
+export function orderedStateCounts(states: StateCounts): { state: EnvelopeState; count: number }[] {
+  return STATE_ORDER
+    .filter(state => (states[state] ?? 0) > 0)
+    .map(state => ({ state, count: states[state] ?? 0 }));
+}
@@ -11,6 +11,7 @@
 
 import type { Course, MealCourse, CourseClues } from '@/types/database';
 import { funFactsToStrings } from '@/lib/fun-facts';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
 
 export interface FunFactsInput {
   invited_fun_facts: unknown;
@@ -24,12 +25,13 @@ export interface AllocatedClues {
 }
 
 /**
- * Combine all fun facts from a couple into a single array
+ * Combine all fun facts from a couple into a single array.
+ * Indices are the same in every locale, so allocations hold across languages.
  */
-export function combineFunFacts(couple: FunFactsInput): string[] {
+export function combineFunFacts(couple: FunFactsInput, locale: Locale = DEFAULT_LOCALE): string[] {
   return [
-    ...funFactsToStrings(couple.invited_fun_facts),
-    ...funFactsToStrings(couple.partner_fun_facts),
+    ...funFactsToStrings(couple.invited_fun_facts, locale),
+    ...funFactsToStrings(couple.partner_fun_facts, locale),
   ];
 }
 
@@ -95,7 +97,34 @@ export interface FallbackClueContext {
   birthYears?: (number | null)[];
 }
 
-export function generateFallbackClues(context: FallbackClueContext): string[] {
+const FALLBACK_TEXT: Record<Locale, {
+  decade: (decade: number) => string;
+  veryClose: string;
+  close: string;
+  minutes: (minutes: number) => string;
+  initials: (initials: string) => string;
+  generic: string[];
+}> = {
+  sv: {
+    decade: (decade) => `Värden är ${decade}-talist`,
+    veryClose: 'Ni bor nära varandra – under 5 minuters cykelväg',
+    close: 'En kort cykeltur dit – under 10 minuter',
+    minutes: (minutes) => `${minutes} minuters cykelväg dit`,
+    initials: (initials) => `Värdarna har initialerna ${initials}`,
+    generic: ['Värden älskar god mat', 'Ni kommer trivas hos dem'],
+  },
+  en: {
+    decade: (decade) => `Your host was born in the ${decade}s`,
+    veryClose: 'You live close to each other – under 5 minutes by bike',
+    close: 'A short bike ride away – under 10 minutes',
+    minutes: (minutes) => `${minutes} minutes by bike`,
+    initials: (initials) => `Your hosts have the initials ${initials}`,
+    generic: ['Your host loves good food', "You're going to have a great time there"],
+  },
+};
+
+export function generateFallbackClues(context: FallbackClueContext, locale: Locale = DEFAULT_LOCALE): string[] {
+  const text = FALLBACK_TEXT[locale];
   const clues: string[] = [];
   
   // Age-based clue
@@ -103,17 +132,17 @@ export function generateFallbackClues(context: FallbackClueContext): string[] {
   if (validBirthYears.length > 0) {
     const avgYear = Math.round(validBirthYears.reduce((a, b) => a + b, 0) / validBirthYears.length);
     const decade = Math.floor(avgYear / 10) * 10;
-    clues.push(`Värden är ${decade}-talist`);
+    clues.push(text.decade(decade));
   }
   
   // Distance-based clue
   if (context.cyclingMinutes) {
     if (context.cyclingMinutes < 5) {
-      clues.push(`Ni bor nära varandra – under 5 minuters cykelväg`);
+      clues.push(text.veryClose);
     } else if (context.cyclingMinutes < 10) {
-      clues.push(`En kort cykeltur dit – under 10 minuter`);
+      clues.push(text.close);
     } else {
-      clues.push(`${context.cyclingMinutes} minuters cykelväg dit`);
+      clues.push(text.minutes(context.cyclingMinutes));
     }
   }
   
@@ -124,13 +153,12 @@ export function generateFallbackClues(context: FallbackClueContext): string[] {
       .map(n => n.charAt(0).toUpperCase())
       .join(' & ');
     if (initials) {
-      clues.push(`Värdarna har initialerna ${initials}`);
+      clues.push(text.initials(initials));
     }
   }
   
   // Generic fallbacks
-  clues.push(`Värden älskar god mat`);
-  clues.push(`Ni kommer trivas hos dem`);
+  clues.push(...text.generic);
   
   return clues;
 }
@@ -142,7 +170,8 @@ export function getCluesForCourse(
   allFacts: string[],
   allocation: AllocatedClues,
   course: MealCourse,
-  fallbackContext?: FallbackClueContext
+  fallbackContext?: FallbackClueContext,
+  locale: Locale = DEFAULT_LOCALE
 ): string[] {
   const indices = allocation[course];
   
@@ -153,7 +182,7 @@ export function getCluesForCourse(
   
   // If we don't have enough clues, add fallbacks
   if (clues.length < 2 && fallbackContext) {
-    const fallbacks = generateFallbackClues(fallbackContext);
+    const fallbacks = generateFallbackClues(fallbackContext, locale);
     while (clues.length < 2 && fallbacks.length > 0) {
       clues.push(fallbacks.shift()!);
     }
@@ -0,0 +1,133 @@
+/**
+ * Running Late
+ *
+ * Push a course, one host's table or the rest of the evening back while the
+ * event is live. Reveal times are recomputed with calculateEnvelopeTimes from
+ * the delayed course start (opened_at - scheduled_at is when the envelope
+ * becomes available, hours before); anything already revealed stays where it
+ * was, and envelopes that are already open aren't touched.
+ */
+
+import { calculateEnvelopeTimes, type CourseTimingOffsets, type EnvelopeTimes } from './timing';
+import type { Course, EventTiming, MealCourse } from '@/types/database';
+
+export type DelayScope =
+  | { type: 'all' }
+  | { type: 'course'; course: MealCourse }
+  | { type: 'host'; host_couple_id: string };
+
+export const DELAY_FIELDS: (keyof EnvelopeTimes)[] = [
+  'teasing_at',
+  'clue_1_at',
+  'clue_2_at',
+  'street_at',
+  'number_at',
+  'opened_at',
+];
+
+export type DelayTimes = Record<keyof EnvelopeTimes, string | null>;
+
+export interface DelayEnvelope extends DelayTimes {
+  id: string;
+  couple_id: string;
+  course: Course;
+  host_couple_id: string | null;
+  scheduled_at: string | null;
+  cycling_minutes: number | null;
+}
+
+export interface EnvelopeDelayChange {
+  envelope_id: string;
+  couple_id: string;
+  course: MealCourse;
+  host_couple_id: string | null;
+  /** Moved by the same delay; null when the envelope had none */
+  scheduled_at: string | null;
+  before: Partial<DelayTimes>;
+  after: Partial<Record<keyof EnvelopeTimes, string>>;
+}
+
+const MEAL_COURSES: Course[] = ['starter', 'main', 'dessert'];
+
+export function isDelayScope(value: unknown): value is DelayScope {
+  if (!value || typeof value !== 'object') return false;
+  const scope = value as Record<string, unknown>;
+  switch (scope.type) {
+    case 'all':
+      return true;
+    case 'course':
+      return MEAL_COURSES.includes(scope.course as Course);
+    case 'host':
+      return typeof scope.host_couple_id === 'string' && scope.host_couple_id.length > 0;
+    default:
+      return false;
+  }
+}
+
+export function matchesDelayScope(envelope: Pick<DelayEnvelope, 'course' | 'host_couple_id'>, scope: DelayScope): boolean {
+  if (!MEAL_COURSES.includes(envelope.course)) return false;
+  if (scope.type === 'course') return envelope.course === scope.course;
+  if (scope.type === 'host') return envelope.host_couple_id === scope.host_couple_id;
+  return true;
+}
+
+/**
+ * New reveal times for every envelope in scope that isn't open yet.
+ * Only changed fields end up in before/after; envelopes without changes are left out.
+ */
+export function planEnvelopeDelay(
+  envelopes: DelayEnvelope[],
+  scope: DelayScope,
+  delayMinutes: number,
+  timing: Partial<EventTiming>,
+  courseOffsets: CourseTimingOffsets,
+  now: Date
+): EnvelopeDelayChange[] {
+  const changes: EnvelopeDelayChange[] = [];
+
+  for (const envelope of envelopes) {
+    if (!matchesDelayScope(envelope, scope)) continue;
+
+    // The envelope opens when the course starts
+    const start = envelope.opened_at;
+    if (!start || new Date(start) <= now) continue;
+
+    const course = envelope.course as MealCourse;
+    const delayMs = delayMinutes * 60_000;
+    const delayedStart = new Date(new Date(start).getTime() + delayMs);
+    const times = calculateEnvelopeTimes(
+      delayedStart,
+      timing,
+      envelope.cycling_minutes ?? undefined,
+      courseOffsets[course]
+    );
+
+    const before: Partial<DelayTimes> = {};
+    const after: Partial<Record<keyof EnvelopeTimes, string>> = {};
+    for (const field of DELAY_FIELDS) {
+      const current = envelope[field];
+      // Already revealed - guests have seen it, don't take it back
+      if (current && new Date(current) <= now) continue;
+      const next = times[field].toISOString();
+      if (current && new Date(current).getTime() === times[field].getTime()) continue;
+      before[field] = current;
+      after[field] = next;
+    }
+
+    if (Object.keys(after).length === 0) continue;
+
+    changes.push({
+      envelope_id: envelope.id,
+      couple_id: envelope.couple_id,
+      course,
+      host_couple_id: envelope.host_couple_id,
+      scheduled_at: envelope.scheduled_at
+        ? new Date(new Date(envelope.scheduled_at).getTime() + delayMs).toISOString()
+        : null,
+      before,
+      after,
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,56 @@
+/**
+ * Guess the Host
+ *
+ * Guests commit a guess for who hosts them any time from TEASING until the
+ * envelope opens. A right guess scores by how early it was made: the state
+ * the envelope was in when the guess was (last) changed.
+ */
+
+import type { EnvelopeState, HostGuess } from '@/types/database';
+
+/** Guessing is open from the first teaser until the envelope opens */
+export const GUESS_STATES: EnvelopeState[] = ['TEASING', 'CLUE_1', 'CLUE_2', 'STREET', 'NUMBER'];
+
+export const GUESS_POINTS: Partial<Record<EnvelopeState, number>> = {
+  TEASING: 5,
+  CLUE_1: 4,
+  CLUE_2: 3,
+  STREET: 2,
+  NUMBER: 1,
+};
+
+export type ScorableGuess = Pick<HostGuess, 'envelope_id' | 'couple_id' | 'guessed_host_couple_id' | 'guessed_state'>;
+
+export interface GuessScore {
+  couple_id: string;
+  points: number;
+  correct: number;
+  guesses: number;
+}
+
+/** Points for one guess against the envelope's actual host (0 when wrong) */
+export function scoreGuess(guess: Pick<HostGuess, 'guessed_host_couple_id' | 'guessed_state'>, hostCoupleId: string | null): number {
+  if (!hostCoupleId || guess.guessed_host_couple_id !== hostCoupleId) return 0;
+  return GUESS_POINTS[guess.guessed_state] ?? 0;
+}
+
+/**
+ * Total per couple, best first (points, then right guesses).
+ * `hostByEnvelope` maps envelope id → current host, so guesses on
+ * reassigned envelopes are scored against the new host.
+ */
+export function scoreHostGuesses(guesses: ScorableGuess[], hostByEnvelope: Map<string, string | null>): GuessScore[] {
+  const scores = new Map<string, GuessScore>();
+
+  for (const guess of guesses) {
+    if (!hostByEnvelope.has(guess.envelope_id)) continue;
+    const score = scores.get(guess.couple_id) ?? { couple_id: guess.couple_id, points: 0, correct: 0, guesses: 0 };
+    const points = scoreGuess(guess, hostByEnvelope.get(guess.envelope_id) ?? null);
+    score.guesses++;
+    score.points += points;
+    if (points > 0) score.correct++;
+    scores.set(guess.couple_id, score);
+  }
+
+  return [...scores.values()].sort((a, b) => b.points - a.points || b.correct - a.correct);
+}
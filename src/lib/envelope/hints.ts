@@ -0,0 +1,65 @@
+/**
+ * Extra Hints
+ *
+ * Guests stuck on CLUE_1/CLUE_2 can ask for one more hint instead of waiting
+ * for the street. Hints are the host's fun facts this guest hasn't been shown,
+ * then generateFallbackClues lines - up to the organizer's per-course limit.
+ */
+
+import { generateFallbackClues, type FallbackClueContext } from './clues';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
+import type { Course, EnvelopeHint, EnvelopeState, HintLimits, MealCourse } from '@/types/database';
+
+export const DEFAULT_HINT_LIMIT = 1;
+export const MAX_HINT_LIMIT = 5;
+
+/** Hints can only be asked for while guessing */
+export const HINT_STATES: EnvelopeState[] = ['CLUE_1', 'CLUE_2'];
+
+export type HintCandidate = Pick<EnvelopeHint, 'text' | 'source' | 'fact_index'>;
+
+export function getHintLimit(limits: HintLimits | null | undefined, course: Course): number {
+  if (course === 'afterparty') return 0;
+  const limit = limits?.[course as MealCourse];
+  return typeof limit === 'number' ? limit : DEFAULT_HINT_LIMIT;
+}
+
+/** Keep only meal courses with a whole number of hints within 0..MAX_HINT_LIMIT */
+export function sanitizeHintLimits(raw: unknown): HintLimits {
+  const limits: HintLimits = {};
+  if (!raw || typeof raw !== 'object') return limits;
+  for (const course of ['starter', 'main', 'dessert'] as MealCourse[]) {
+    const value = (raw as Record<string, unknown>)[course];
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_HINT_LIMIT) {
+      limits[course] = value;
+    }
+  }
+  return limits;
+}
+
+/**
+ * The next hint for a guest, or null when there is nothing left to tell.
+ * `shownIndices` are the fun facts already used as this course's clues.
+ */
+export function pickNextHint(
+  facts: string[],
+  shownIndices: number[],
+  usedHints: HintCandidate[],
+  fallbackContext: FallbackClueContext,
+  locale: Locale = DEFAULT_LOCALE
+): HintCandidate | null {
+  const usedTexts = new Set(usedHints.map(h => h.text));
+  const shown = new Set([
+    ...shownIndices,
+    ...usedHints.map(h => h.fact_index).filter((i): i is number => i !== null),
+  ]);
+  const shownTexts = new Set([...shown].filter(i => i >= 0 && i < facts.length).map(i => facts[i]));
+
+  const factIndex = facts.findIndex((fact, i) => !shown.has(i) && !shownTexts.has(fact) && !usedTexts.has(fact));
+  if (factIndex !== -1) {
+    return { text: facts[factIndex], source: 'fun_fact', fact_index: factIndex };
+  }
+
+  const fallback = generateFallbackClues(fallbackContext, locale).find(text => !usedTexts.has(text));
+  return fallback ? { text: fallback, source: 'fallback', fact_index: null } : null;
+}
@@ -8,3 +8,14 @@
 export * from './timing';
 export * from './clues';
 export * from './populate';
+export * from './stream';
+export * from './sealed';
+export * from './schedule';
+export * from './legs';
+export * from './delay';
+export * from './hints';
+export * from './guesses';
+export * from './arrivals';
+export * from './reveals';
+export * from './board';
+export * from './messages';
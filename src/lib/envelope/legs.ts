@@ -0,0 +1,66 @@
+/**
+ * Envelope Legs
+ *
+ * Where each couple cycles from for every course: home before the starter,
+ * then wherever they had the previous course (their own home when hosting).
+ * The leg's duration decides how early the street is revealed.
+ */
+
+import { getCyclingRoutes, type RoutingOptions } from '@/lib/routing';
+import type { Coordinates, CyclingDistance } from '@/lib/geo';
+import type { Course, MealCourse } from '@/types/database';
+
+const LEG_COURSES: MealCourse[] = ['starter', 'main', 'dessert'];
+
+export interface LegEnvelope {
+  couple_id: string;
+  course: Course;
+  host_couple_id: string | null;
+}
+
+export interface EnvelopeLeg {
+  couple_id: string;
+  course: MealCourse;
+  from: Coordinates;
+  to: Coordinates;
+}
+
+export const legKey = (coupleId: string, course: Course) => `${coupleId}:${course}`;
+
+/**
+ * Leg for every meal envelope whose start and destination are known.
+ * A couple without a previous-course envelope (e.g. not placed) starts from home.
+ */
+export function buildEnvelopeLegs(
+  envelopes: LegEnvelope[],
+  coordinates: Map<string, Coordinates>
+): EnvelopeLeg[] {
+  const hostFor = new Map(envelopes.map(e => [legKey(e.couple_id, e.course), e.host_couple_id]));
+  const legs: EnvelopeLeg[] = [];
+
+  for (const envelope of envelopes) {
+    const course = envelope.course as MealCourse;
+    const index = LEG_COURSES.indexOf(course);
+    if (index === -1 || !envelope.host_couple_id) continue;
+
+    const previousHost = index > 0 ? hostFor.get(legKey(envelope.couple_id, LEG_COURSES[index - 1])) : null;
+    const from = coordinates.get(previousHost ?? envelope.couple_id);
+    const to = coordinates.get(envelope.host_couple_id);
+    if (!from || !to) continue;
+
+    legs.push({ couple_id: envelope.couple_id, course, from, to });
+  }
+
+  return legs;
+}
+
+/** Route every envelope leg; keyed by legKey(couple_id, course) */
+export async function routeEnvelopeLegs(
+  envelopes: LegEnvelope[],
+  coordinates: Map<string, Coordinates>,
+  options: RoutingOptions = {}
+): Promise<Map<string, CyclingDistance>> {
+  const legs = buildEnvelopeLegs(envelopes, coordinates);
+  const routes = await getCyclingRoutes(legs, options);
+  return new Map(legs.map((leg, i) => [legKey(leg.couple_id, leg.course), routes[i]]));
+}
@@ -0,0 +1,280 @@
+/**
+ * Envelope Messages
+ *
+ * Everything the guest-facing envelope says, per locale: course names, state
+ * lines, the fun message pools for edge cases and the labels around clues,
+ * hints and guess-the-host. Components pick the set with getEnvelopeMessages.
+ */
+
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
+import type { Course, CustomMessage, EnvelopeState } from '@/types/database';
+
+export interface EnvelopeMessages {
+  courseNames: Record<Course, string>;
+  /** Short line under the course name; clueCount tells "a clue!" from "secret..." */
+  state: (state: EnvelopeState, clueCount: number) => string;
+  /** Host HAS fun facts but we can't reveal more without giving them away */
+  lipsSealed: CustomMessage[];
+  /** Host has no fun facts at all */
+  mysteryHost: CustomMessage[];
+  /** You are the host (clues about yourself) */
+  hostSelf: CustomMessage[];
+  /** Everything we had has been shown */
+  allRevealed: CustomMessage[];
+  startsAt: (time: string) => string;
+  newBadge: string;
+  clues: string;
+  extraHints: string;
+  hintLoading: string;
+  askHint: (remaining: number) => string;
+  hintFailed: string;
+  noConnection: string;
+  cluePoolTitle: string;
+  cluePoolSubtitle: string;
+  onStreet: string;
+  secretStreet: string;
+  cyclingMeters: (meters: number) => string;
+  address: string;
+  cyclingMinutes: (minutes: number) => string;
+  fullAddress: string;
+  doorCode: string;
+  hosts: (count: number) => string;
+  openMap: string;
+  nextReveal: (what: string, countdown: string) => string;
+  now: string;
+  selfHostTitle: string;
+  selfHostSubtitle: string;
+  curious: string;
+  moreSoon: string;
+  comingSoon: string;
+  guess: {
+    title: string;
+    yourGuess: string;
+    pointsIfRight: (points: number) => string;
+    choose: string;
+    submit: string;
+    change: string;
+    pointsNow: (points: number) => string;
+    correct: (points: number) => string;
+    wrong: (name: string) => string;
+    saveFailed: string;
+  };
+  container: {
+    fetchFailed: string;
+    somethingWrong: string;
+    retry: string;
+    lastUpdated: string;
+    serverTime: string;
+    offline: string;
+  };
+  push: {
+    enable: string;
+    enabled: string;
+    disable: string;
+    denied: string;
+    failed: string;
+  };
+}
+
+export const ENVELOPE_MESSAGES: Record<Locale, EnvelopeMessages> = {
+  sv: {
+    courseNames: { starter: 'Förrätt', main: 'Huvudrätt', dessert: 'Dessert', afterparty: 'Efterfest' },
+    state: (state, clueCount) => {
+      switch (state) {
+        case 'LOCKED': return 'Kommer snart...';
+        case 'TEASING': return 'Nyfiken? 🤫';
+        case 'CLUE_1': return clueCount > 0 ? 'En ledtråd!' : 'Hemligt... 🤫';
+        case 'CLUE_2': return clueCount > 1 ? 'Ännu en ledtråd!' : 'Hemligt... 🤐';
+        case 'STREET': return 'Nu vet du gatan!';
+        case 'NUMBER': return 'Snart framme!';
+        case 'OPEN': return 'Välkommen!';
+        default: return '';
+      }
+    },
+    lipsSealed: [
+      { emoji: '🤫', text: 'Our lips are sealed — avslöjar vi en ledtråd kan ni gissa vem!' },
+      { emoji: '🤐', text: 'Tyst som en mus — vi kan inte säga mer utan att avslöja!' },
+      { emoji: '🤫', text: 'Vi håller tyst den här gången... annars blir det för lätt!' },
+      { emoji: '🤐', text: 'Inga fler ledtrådar — nu får ni gissa!' },
+    ],
+    mysteryHost: [
+      { emoji: '🎭', text: 'Dina värdar är ett mysterium! Vem kan det vara?' },
+      { emoji: '✨', text: 'Överraskning väntar — vi avslöjar inget!' },
+      { emoji: '🔮', text: 'Ödet har talat. Mer får ni inte veta.' },
+      { emoji: '🎪', text: 'Vem döljer sig bakom dörren? Spännande!' },
+      { emoji: '🌟', text: 'Stjärnorna är tysta ikväll...' },
+    ],
+    hostSelf: [
+      { emoji: '👑', text: 'Psst... värden är faktiskt ganska fantastisk. (Det är du!)' },
+      { emoji: '🪞', text: 'Ledtråd: Värden tittar på dig i spegeln varje morgon.' },
+      { emoji: '🦸', text: 'Breaking news: Kvällens värd är en hjälte i förklädnad!' },
+      { emoji: '🎭', text: 'Mystisk värd sökes... Hittad! (Kolla i spegeln)' },
+      { emoji: '🌟', text: 'Fun fact: Din värd är extremt bra på att vara du.' },
+      { emoji: '🏆', text: 'Grattis! Du har vunnit världens bästa värd. Spoiler: det är du.' },
+      { emoji: '🎪', text: 'Cirkusen är i stan! Och du är ringmastern ikväll.' },
+      { emoji: '🦄', text: 'Ledtråd: Värden är lika unik som en enhörning. Titta ner.' },
+      { emoji: '🎬', text: 'I huvudrollen ikväll: DU! Applåder tack.' },
+      { emoji: '🌈', text: 'Värden? Åh, bara den mest underbara personen du känner. Dig själv!' },
+    ],
+    allRevealed: [
+      { emoji: '🤷', text: 'Det var allt vi visste! Resten får ni upptäcka själva.' },
+      { emoji: '📭', text: 'Tomt på ledtrådar! Men snart får ni veta gatan...' },
+      { emoji: '🎁', text: 'Inga fler ledtrådar — men överraskningen väntar!' },
+    ],
+    startsAt: (time) => `Startar ${time}`,
+    newBadge: 'Nytt!',
+    clues: 'Ledtrådar',
+    extraHints: 'Extra ledtrådar',
+    hintLoading: 'Letar...',
+    askHint: (remaining) => `💡 Be om en extra ledtråd (${remaining} kvar)`,
+    hintFailed: 'Kunde inte hämta ledtråd',
+    noConnection: 'Ingen anslutning - försök igen',
+    cluePoolTitle: 'Kvällens deltagare — vem är vem?',
+    cluePoolSubtitle: 'Någon av dessa är era värdar ikväll...',
+    onStreet: 'Ni ska till någon som just nu är på',
+    secretStreet: 'en hemlig gata',
+    cyclingMeters: (meters) => `Ca ${meters} meter att cykla`,
+    address: 'Adress',
+    cyclingMinutes: (minutes) => `${minutes} min cykel`,
+    fullAddress: 'Full adress',
+    doorCode: 'Portkod',
+    hosts: (count) => count === 1 ? 'Värd' : 'Värdar',
+    openMap: 'Öppna i kartan',
+    nextReveal: (what, countdown) => `Nästa: ${what} om ${countdown}`,
+    now: 'Nu!',
+    selfHostTitle: 'Du är värd för denna rätt!',
+    selfHostSubtitle: 'Ledtrådarna handlar om... dig själv 😄',
+    curious: 'Nyfiken?',
+    moreSoon: 'Mer händer snart...',
+    comingSoon: 'Kommer snart...',
+    guess: {
+      title: 'Gissa värden',
+      yourGuess: 'Er gissning',
+      pointsIfRight: (points) => `${points} p om den stämmer`,
+      choose: 'Välj par…',
+      submit: 'Gissa',
+      change: 'Ändra',
+      pointsNow: (points) => `Rätt gissning nu ger ${points} p - ju tidigare, desto fler poäng.`,
+      correct: (points) => `Rätt gissat! +${points} poäng`,
+      wrong: (name) => `Ni gissade på ${name}`,
+      saveFailed: 'Kunde inte spara gissningen',
+    },
+    container: {
+      fetchFailed: 'Kunde inte hämta kuvert',
+      somethingWrong: 'Något gick fel',
+      retry: 'Försök igen',
+      lastUpdated: 'Senast uppdaterad',
+      serverTime: 'Servertid',
+      offline: 'Ingen anslutning just nu - visar sparat kuvert',
+    },
+    push: {
+      enable: '🔔 Få en notis när adressen avslöjas',
+      enabled: '🔔 Notiser på - vi säger till när gatan, numret och kuvertet avslöjas',
+      disable: 'Stäng av',
+      denied: 'Notiser är blockerade i webbläsaren - ändra i dess inställningar för att slå på dem',
+      failed: 'Kunde inte slå på notiser',
+    },
+  },
+  en: {
+    courseNames: { starter: 'Starter', main: 'Main course', dessert: 'Dessert', afterparty: 'Afterparty' },
+    state: (state, clueCount) => {
+      switch (state) {
+        case 'LOCKED': return 'Coming soon...';
+        case 'TEASING': return 'Curious? 🤫';
+        case 'CLUE_1': return clueCount > 0 ? 'A clue!' : 'Top secret... 🤫';
+        case 'CLUE_2': return clueCount > 1 ? 'Another clue!' : 'Top secret... 🤐';
+        case 'STREET': return 'Now you know the street!';
+        case 'NUMBER': return 'Almost there!';
+        case 'OPEN': return 'Welcome!';
+        default: return '';
+      }
+    },
+    lipsSealed: [
+      { emoji: '🤫', text: 'Our lips are sealed — one more clue and you would guess who!' },
+      { emoji: '🤐', text: 'Quiet as a mouse — we can’t say more without giving it away!' },
+      { emoji: '🤫', text: 'We’re keeping quiet this time... otherwise it would be too easy!' },
+      { emoji: '🤐', text: 'No more clues — time to guess!' },
+    ],
+    mysteryHost: [
+      { emoji: '🎭', text: 'Your hosts are a mystery! Who could it be?' },
+      { emoji: '✨', text: 'A surprise awaits — we’re not telling!' },
+      { emoji: '🔮', text: 'Fate has spoken. That’s all you get to know.' },
+      { emoji: '🎪', text: 'Who is hiding behind the door? Exciting!' },
+      { emoji: '🌟', text: 'The stars are silent tonight...' },
+    ],
+    hostSelf: [
+      { emoji: '👑', text: 'Psst... the host is actually pretty amazing. (It’s you!)' },
+      { emoji: '🪞', text: 'Clue: The host looks at you in the mirror every morning.' },
+      { emoji: '🦸', text: 'Breaking news: Tonight’s host is a hero in disguise!' },
+      { emoji: '🎭', text: 'Mysterious host wanted... Found! (Check the mirror)' },
+      { emoji: '🌟', text: 'Fun fact: Your host is extremely good at being you.' },
+      { emoji: '🏆', text: 'Congratulations! You won the world’s best host. Spoiler: it’s you.' },
+      { emoji: '🎪', text: 'The circus is in town! And you’re the ringmaster tonight.' },
+      { emoji: '🦄', text: 'Clue: The host is as unique as a unicorn. Look down.' },
+      { emoji: '🎬', text: 'Starring tonight: YOU! Applause, please.' },
+      { emoji: '🌈', text: 'The host? Oh, just the most wonderful person you know. Yourself!' },
+    ],
+    allRevealed: [
+      { emoji: '🤷', text: 'That’s all we knew! The rest is up to you.' },
+      { emoji: '📭', text: 'Out of clues! But the street is coming soon...' },
+      { emoji: '🎁', text: 'No more clues — but the surprise awaits!' },
+    ],
+    startsAt: (time) => `Starts ${time}`,
+    newBadge: 'New!',
+    clues: 'Clues',
+    extraHints: 'Extra clues',
+    hintLoading: 'Looking...',
+    askHint: (remaining) => `💡 Ask for an extra clue (${remaining} left)`,
+    hintFailed: 'Could not get a clue',
+    noConnection: 'No connection - try again',
+    cluePoolTitle: 'Tonight’s guests — who is who?',
+    cluePoolSubtitle: 'One of these is your host tonight...',
+    onStreet: 'You’re going to someone who is right now on',
+    secretStreet: 'a secret street',
+    cyclingMeters: (meters) => `About ${meters} metres by bike`,
+    address: 'Address',
+    cyclingMinutes: (minutes) => `${minutes} min by bike`,
+    fullAddress: 'Full address',
+    doorCode: 'Door code',
+    hosts: (count) => count === 1 ? 'Host' : 'Hosts',
+    openMap: 'Open in maps',
+    nextReveal: (what, countdown) => `Next: ${what} in ${countdown}`,
+    now: 'Now!',
+    selfHostTitle: 'You are hosting this course!',
+    selfHostSubtitle: 'The clues are about... yourself 😄',
+    curious: 'Curious?',
+    moreSoon: 'More is coming soon...',
+    comingSoon: 'Coming soon...',
+    guess: {
+      title: 'Guess the host',
+      yourGuess: 'Your guess',
+      pointsIfRight: (points) => `${points} pts if right`,
+      choose: 'Pick a couple…',
+      submit: 'Guess',
+      change: 'Change',
+      pointsNow: (points) => `A right guess now is worth ${points} pts - the earlier, the more points.`,
+      correct: (points) => `Right guess! +${points} points`,
+      wrong: (name) => `You guessed ${name}`,
+      saveFailed: 'Could not save your guess',
+    },
+    container: {
+      fetchFailed: 'Could not load the envelope',
+      somethingWrong: 'Something went wrong',
+      retry: 'Try again',
+      lastUpdated: 'Last updated',
+      serverTime: 'Server time',
+      offline: 'No connection right now - showing the saved envelope',
+    },
+    push: {
+      enable: '🔔 Get notified when the address is revealed',
+      enabled: '🔔 Notifications on - we’ll tell you when the street, number and envelope are revealed',
+      disable: 'Turn off',
+      denied: 'Notifications are blocked in your browser - change its settings to turn them on',
+      failed: 'Could not turn on notifications',
+    },
+  },
+};
+
+export function getEnvelopeMessages(locale: Locale = DEFAULT_LOCALE): EnvelopeMessages {
+  return ENVELOPE_MESSAGES[locale] ?? ENVELOPE_MESSAGES[DEFAULT_LOCALE];
+}
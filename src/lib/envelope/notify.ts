@@ -0,0 +1,126 @@
+/**
+ * Envelope notifications
+ *
+ * Server only (sends through lib/notifications), so not exported from the
+ * envelope index.
+ * - reveal pushes: enqueued by /api/cron/notifications, see reveals.ts
+ * - envelope_changed after a cascade moved guests to another table or address
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { enqueueNotifications, notifyCouples, type NotificationEvent, type NotificationResult } from '@/lib/notifications';
+import { RECIPIENT_COLUMNS } from '@/lib/recipients';
+import type { Course } from '@/types/database';
+import { dueReveals, REVEAL_PUSH_WINDOW_MS, type RevealEnvelope } from './reveals';
+
+const EVENT_COLUMNS = 'id, name, slug, active_match_plan_id, notification_channels, email_branding';
+
+/**
+ * Queue envelope_reveal notifications for reveals that just happened, in
+ * every event's active match plan. The idempotency key holds the reveal
+ * time, so each reveal is pushed once - and again if a delay moves it.
+ * Returns how many were queued; the caller drains the queue.
+ */
+export async function enqueueRevealNotifications(supabase: SupabaseClient, now: Date = new Date()): Promise<number> {
+  // street_at <= number_at <= opened_at, so anything revealed in the window still opens after its start
+  const { data: envelopes, error } = await supabase
+    .from('envelopes')
+    .select('match_plan_id, couple_id, course, teasing_at, clue_1_at, clue_2_at, street_at, number_at, opened_at')
+    .eq('cancelled', false)
+    .lte('street_at', now.toISOString())
+    .gt('opened_at', new Date(now.getTime() - REVEAL_PUSH_WINDOW_MS).toISOString());
+
+  if (error) throw error;
+  if (!envelopes || envelopes.length === 0) return 0;
+
+  const { data: events } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .in('active_match_plan_id', [...new Set(envelopes.map(e => e.match_plan_id as string))]);
+
+  // Envelopes of an old match plan are not what the guest sees
+  const due = (events ?? []).flatMap(event => dueReveals(
+    (envelopes as (RevealEnvelope & { match_plan_id: string })[]).filter(e => e.match_plan_id === event.active_match_plan_id),
+    now
+  ).map(reveal => ({ ...reveal, event: event as NotificationEvent })));
+  if (due.length === 0) return 0;
+
+  const { data: couples } = await supabase
+    .from('couples')
+    .select(RECIPIENT_COLUMNS)
+    .in('id', [...new Set(due.map(d => d.couple_id))])
+    .eq('cancelled', false);
+
+  const coupleById = new Map((couples ?? []).map(c => [c.id, c]));
+
+  let queued = 0;
+  for (const { event, ...reveal } of due) {
+    const couple = coupleById.get(reveal.couple_id);
+    if (!couple) continue;
+
+    const results = await enqueueNotifications(supabase, event, [couple], 'envelope_reveal', {
+      course: reveal.course,
+      state: reveal.state,
+      idempotencySuffix: String(new Date(reveal.revealed_at).getTime()),
+    });
+    queued += results.filter(r => r.status === 'queued').length;
+  }
+
+  return queued;
+}
+
+/**
+ * Tell guests their envelope now leads somewhere else (CascadeResult.changedEnvelopes,
+ * or a replacement envelope). Only once the first clue is out - before that
+ * the guest hasn't seen anything about the old host, and finds the new one
+ * in the envelope like everyone else.
+ */
+export async function notifyChangedEnvelopes(
+  supabase: SupabaseClient,
+  eventId: string,
+  changes: { couple_id: string; course: Course }[],
+  now: Date = new Date()
+): Promise<NotificationResult[]> {
+  if (changes.length === 0) return [];
+
+  const { data: event } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq('id', eventId)
+    .single();
+
+  if (!event?.active_match_plan_id) return [];
+
+  const { data: envelopes } = await supabase
+    .from('envelopes')
+    .select('couple_id, course, clue_1_at')
+    .eq('match_plan_id', event.active_match_plan_id)
+    .in('couple_id', [...new Set(changes.map(c => c.couple_id))])
+    .eq('cancelled', false);
+
+  const changed = new Set(changes.map(c => `${c.couple_id}:${c.course}`));
+  const started = (envelopes ?? []).filter(e =>
+    changed.has(`${e.couple_id}:${e.course}`) && e.clue_1_at && new Date(e.clue_1_at) <= now
+  );
+  if (started.length === 0) return [];
+
+  const { data: couples } = await supabase
+    .from('couples')
+    .select(RECIPIENT_COLUMNS)
+    .in('id', [...new Set(started.map(e => e.couple_id))])
+    .eq('cancelled', false);
+
+  const results: NotificationResult[] = [];
+  for (const course of [...new Set(started.map(e => e.course as Course))]) {
+    const coupleIds = new Set(started.filter(e => e.course === course).map(e => e.couple_id));
+    const recipients = (couples ?? []).filter(c => coupleIds.has(c.id));
+    if (recipients.length === 0) continue;
+
+    results.push(...await notifyCouples(supabase, event, recipients, 'envelope_changed', {
+      course,
+      idempotencySuffix: `cascade-${now.getTime()}`,
+    }));
+  }
+
+  return results;
+}
@@ -25,6 +25,8 @@ import {
   parseCourseSchedules,
   DEFAULT_TIMING,
 } from './timing';
+import { legKey } from './legs';
+import type { CyclingDistance } from '@/lib/geo';
 
 export interface PopulateInput {
   event: {
@@ -39,7 +41,7 @@ export interface PopulateInput {
   pairings: Pick<CoursePairing, 'course' | 'host_couple_id' | 'guest_couple_id'>[];
   envelopes: Pick<LiveEnvelope, 'couple_id' | 'course' | 'host_couple_id'>[];
   timing?: Partial<EventTiming>;
-  cyclingDistances?: Map<string, number>; // "fromId:toId" -> minutes
+  legs?: Map<string, CyclingDistance>; // legKey(coupleId, course) -> route from the previous location
 }
 
 export interface PopulateOutput {
@@ -55,6 +57,7 @@ export interface PopulateOutput {
     number_at: string;
     opened_at: string;
     cycling_minutes: number | null;
+    cycling_distance_km: number | null;
   }[];
 }
 
@@ -62,7 +65,7 @@ export interface PopulateOutput {
  * Main function to populate all living envelope data
  */
 export function populateLivingEnvelopeData(input: PopulateInput): PopulateOutput {
-  const { event, couples, pairings, envelopes, timing = {}, cyclingDistances } = input;
+  const { event, couples, pairings, envelopes, timing = {}, legs } = input;
   
   const coupleMap = new Map(couples.map(c => [c.id, c]));
   
@@ -134,36 +137,12 @@ export function populateLivingEnvelopeData(input: PopulateInput): PopulateOutput
   for (const envelope of envelopes) {
     const { couple_id, course, host_couple_id } = envelope;
     
-    // Skip host's own envelope (they know where they live)
-    if (couple_id === host_couple_id) {
-      // Still set times for consistency
-      const times = calculateEnvelopeTimes(
-        courseStartTimes[course],
-        { ...DEFAULT_TIMING, ...timing },
-        0 // No cycling needed
-      );
-      
-      envelopeUpdates.push({
-        couple_id,
-        course,
-        teasing_at: times.teasing_at.toISOString(),
-        clue_1_at: times.clue_1_at.toISOString(),
-        clue_2_at: times.clue_2_at.toISOString(),
-        street_at: times.street_at.toISOString(),
-        number_at: times.number_at.toISOString(),
-        opened_at: times.opened_at.toISOString(),
-        cycling_minutes: 0,
-      });
-      continue;
-    }
-    
-    // Get cycling distance if available
-    let cyclingMinutes: number | null = null;
-    if (cyclingDistances && host_couple_id) {
-      const key1 = `${couple_id}:${host_couple_id}`;
-      const key2 = `${host_couple_id}:${couple_id}`;
-      cyclingMinutes = cyclingDistances.get(key1) ?? cyclingDistances.get(key2) ?? null;
-    }
+    // Leg from wherever the couple is before this course. Hosts may still
+    // have to cycle home from the previous course; without a known leg they
+    // are assumed to be home already.
+    const leg = legs?.get(legKey(couple_id, course));
+    const isHost = couple_id === host_couple_id;
+    const cyclingMinutes = leg?.duration_min ?? (isHost ? 0 : null);
     
     // Calculate times with distance adjustment
     const times = calculateEnvelopeTimes(
@@ -182,6 +161,7 @@ export function populateLivingEnvelopeData(input: PopulateInput): PopulateOutput
       number_at: times.number_at.toISOString(),
       opened_at: times.opened_at.toISOString(),
       cycling_minutes: cyclingMinutes,
+      cycling_distance_km: leg?.distance_km ?? (isHost ? 0 : null),
     });
   }
   
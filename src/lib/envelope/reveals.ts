@@ -0,0 +1,62 @@
+/**
+ * Reveal pushes
+ *
+ * Which envelopes just reached a state worth a push: the street, the house
+ * number or the whole envelope. The notification cron asks every minute;
+ * a reveal older than the window is left alone so a cron that was down
+ * doesn't push a stale "time to cycle" afterwards.
+ */
+
+import type { MealCourse } from '@/types/database';
+import type { RevealState } from '@/lib/notifications';
+import { calculateEnvelopeState, type EnvelopeRevealTimes } from './timing';
+
+export const REVEAL_PUSH_WINDOW_MS = 10 * 60 * 1000;
+
+const REVEAL_TIMES: Record<RevealState, keyof EnvelopeRevealTimes> = {
+  STREET: 'street_at',
+  NUMBER: 'number_at',
+  OPEN: 'opened_at',
+};
+
+const MEAL_COURSES: string[] = ['starter', 'main', 'dessert'];
+
+export type RevealEnvelope = EnvelopeRevealTimes & { couple_id: string; course: string };
+
+export interface DueReveal {
+  couple_id: string;
+  course: MealCourse;
+  state: RevealState;
+  revealed_at: string;
+}
+
+/**
+ * Envelopes whose latest reveal is a push state reached within the window.
+ * Only the latest one: a guest who missed the street push gets the number, not both.
+ */
+export function dueReveals(
+  envelopes: RevealEnvelope[],
+  now: Date,
+  windowMs: number = REVEAL_PUSH_WINDOW_MS
+): DueReveal[] {
+  const due: DueReveal[] = [];
+
+  for (const envelope of envelopes) {
+    if (!MEAL_COURSES.includes(envelope.course)) continue;
+
+    const state = calculateEnvelopeState(envelope, now);
+    if (!(state in REVEAL_TIMES)) continue;
+
+    const revealedAt = envelope[REVEAL_TIMES[state as RevealState]];
+    if (!revealedAt || now.getTime() - new Date(revealedAt).getTime() > windowMs) continue;
+
+    due.push({
+      couple_id: envelope.couple_id,
+      course: envelope.course as MealCourse,
+      state: state as RevealState,
+      revealed_at: revealedAt,
+    });
+  }
+
+  return due;
+}
@@ -0,0 +1,168 @@
+/**
+ * Reveal Schedule
+ *
+ * Everyone's envelope times across the evening, computed the same way as
+ * /api/admin/recalc-envelope-times, so the timing page can preview a change
+ * before it is saved - and point out where it doesn't fit the evening.
+ */
+
+import {
+  calculateEnvelopeTimes,
+  estimateCyclingMinutes,
+  DEPARTURE_MARGIN_MINUTES,
+  type CourseTimingOffsets,
+  type EnvelopeTimes,
+} from './timing';
+import type { EnvelopeState, EventTiming, MealCourse } from '@/types/database';
+
+export const SCHEDULE_COURSES: MealCourse[] = ['starter', 'main', 'dessert'];
+
+/** Minimum time between leaving one course and the next one starting */
+export const MIN_TRANSFER_MINUTES = 15;
+
+const TIME_STATES: [keyof EnvelopeTimes, EnvelopeState][] = [
+  ['teasing_at', 'TEASING'],
+  ['clue_1_at', 'CLUE_1'],
+  ['clue_2_at', 'CLUE_2'],
+  ['street_at', 'STREET'],
+  ['number_at', 'NUMBER'],
+  ['opened_at', 'OPEN'],
+];
+
+export interface ScheduleEnvelope {
+  couple_id: string;
+  course: MealCourse;
+  cycling_distance_km: number | null;
+  /** Routed leg duration; estimated from the distance when missing */
+  cycling_minutes?: number | null;
+}
+
+export interface CourseTimeline {
+  course: MealCourse;
+  cycling_minutes: number | null;
+  times: EnvelopeTimes;
+}
+
+export interface CoupleTimeline {
+  couple_id: string;
+  name: string;
+  courses: CourseTimeline[];
+}
+
+export interface ScheduleConflict {
+  type: 'early_reveal' | 'out_of_order';
+  couple_id: string;
+  course: MealCourse;
+  state: EnvelopeState;
+  at: Date;
+  message: string;
+}
+
+const STATE_LABELS: Partial<Record<EnvelopeState, string>> = {
+  TEASING: 'Nyfiken?',
+  CLUE_1: 'Ledtråd 1',
+  CLUE_2: 'Ledtråd 2',
+  STREET: 'Gatunamn',
+  NUMBER: 'Husnummer',
+  OPEN: 'Full reveal',
+};
+
+const COURSE_LABELS: Record<MealCourse, string> = {
+  starter: 'förrätten',
+  main: 'huvudrätten',
+  dessert: 'efterrätten',
+};
+
+/**
+ * Reveal times per couple and course with the given settings.
+ * Couples are sorted by name; courses without an envelope are left out.
+ */
+export function buildRevealTimeline(
+  envelopes: ScheduleEnvelope[],
+  courseStarts: Record<MealCourse, Date>,
+  timing: Partial<EventTiming>,
+  courseOffsets: CourseTimingOffsets,
+  names: Map<string, string>
+): CoupleTimeline[] {
+  const byCouple = new Map<string, CourseTimeline[]>();
+
+  for (const envelope of envelopes) {
+    if (!SCHEDULE_COURSES.includes(envelope.course)) continue;
+    const cyclingMinutes = envelope.cycling_minutes ?? estimateCyclingMinutes(envelope.cycling_distance_km);
+    const times = calculateEnvelopeTimes(
+      courseStarts[envelope.course],
+      timing,
+      cyclingMinutes,
+      courseOffsets[envelope.course]
+    );
+    const courses = byCouple.get(envelope.couple_id) ?? [];
+    courses.push({ course: envelope.course, cycling_minutes: cyclingMinutes ?? null, times });
+    byCouple.set(envelope.couple_id, courses);
+  }
+
+  return [...byCouple.entries()]
+    .map(([coupleId, courses]) => ({
+      couple_id: coupleId,
+      name: names.get(coupleId) ?? coupleId,
+      courses: courses.sort((a, b) => SCHEDULE_COURSES.indexOf(a.course) - SCHEDULE_COURSES.indexOf(b.course)),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name, 'sv'));
+}
+
+/**
+ * When a couple has to leave the previous course to make `course` on time:
+ * cycling time plus margin, but never later than MIN_TRANSFER_MINUTES before.
+ */
+export function previousCourseEndsAt(courseStart: Date, cyclingMinutes: number | null): Date {
+  const transfer = Math.max(MIN_TRANSFER_MINUTES, (cyclingMinutes ?? 0) + DEPARTURE_MARGIN_MINUTES);
+  return new Date(courseStart.getTime() - transfer * 60_000);
+}
+
+/**
+ * Places where the schedule doesn't fit the evening:
+ * - early_reveal: the next course's street is revealed while the couple is
+ *   still at the previous course, e.g. dessert's street during the main course
+ * - out_of_order: a reveal lands before an earlier step (a per-course override
+ *   that skips a state), so guests never see that step
+ */
+export function findScheduleConflicts(timelines: CoupleTimeline[]): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+
+  for (const timeline of timelines) {
+    for (const entry of timeline.courses) {
+      const { course, times } = entry;
+
+      for (let i = 1; i < TIME_STATES.length; i++) {
+        const [field, state] = TIME_STATES[i];
+        const [previousField, previousState] = TIME_STATES[i - 1];
+        if (times[field] < times[previousField]) {
+          conflicts.push({
+            type: 'out_of_order',
+            couple_id: timeline.couple_id,
+            course,
+            state,
+            at: times[field],
+            message: `${STATE_LABELS[state]} kommer före ${STATE_LABELS[previousState]} för ${COURSE_LABELS[course]}`,
+          });
+        }
+      }
+
+      const previous = SCHEDULE_COURSES[SCHEDULE_COURSES.indexOf(course) - 1];
+      if (!previous || !timeline.courses.some(c => c.course === previous)) continue;
+      const endsAt = previousCourseEndsAt(times.opened_at, entry.cycling_minutes);
+      if (times.street_at < endsAt) {
+        const minutes = Math.round((endsAt.getTime() - times.street_at.getTime()) / 60_000);
+        conflicts.push({
+          type: 'early_reveal',
+          couple_id: timeline.couple_id,
+          course,
+          state: 'STREET',
+          at: times.street_at,
+          message: `Gatunamnet för ${COURSE_LABELS[course]} avslöjas ${minutes} min innan ${COURSE_LABELS[previous]} är slut`,
+        });
+      }
+    }
+  }
+
+  return conflicts.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
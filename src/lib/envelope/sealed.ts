@@ -0,0 +1,111 @@
+/**
+ * Sealed Reveals
+ *
+ * Lets the envelope keep working with bad coverage: /api/envelope/status can
+ * ship the street, number and full address ahead of time, AES-GCM encrypted.
+ * Each reveal has its own key, released by /api/envelope/key only once the
+ * reveal time has passed - so the client can unlock with a tiny request
+ * instead of a full status fetch, and nobody can peek early.
+ *
+ * Uses WebCrypto so the same code seals on the server and opens in the browser.
+ */
+
+import { STATE_ORDER, type EnvelopeRevealTimes } from './timing';
+import type {
+  CourseEnvelopeStatus,
+  EnvelopeState,
+  SealedReveal,
+  SealedRevealContent,
+  SealedRevealState,
+} from '@/types/database';
+
+export const SEALED_REVEAL_FIELDS: Record<SealedRevealState, keyof EnvelopeRevealTimes> = {
+  STREET: 'street_at',
+  NUMBER: 'number_at',
+  OPEN: 'opened_at',
+};
+
+export const SEALED_REVEAL_STATES = Object.keys(SEALED_REVEAL_FIELDS) as SealedRevealState[];
+
+export function isSealedRevealState(state: string | null): state is SealedRevealState {
+  return !!state && state in SEALED_REVEAL_FIELDS;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function importKey(key: string, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64Url(key), 'AES-GCM', false, [usage]);
+}
+
+/** Encrypt what the course looks like at `state` with that reveal's key (base64url) */
+export async function sealReveal(
+  key: string,
+  state: SealedRevealState,
+  at: string,
+  content: SealedRevealContent
+): Promise<SealedReveal> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(content));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await importKey(key, 'encrypt'), plaintext);
+  return { state, at, iv: toBase64Url(iv), ciphertext: toBase64Url(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Decrypt a sealed reveal. Returns null when the key doesn't fit, e.g. the
+ * host was reassigned or the time moved after the envelope was cached.
+ */
+export async function openSealedReveal(key: string, sealed: SealedReveal): Promise<SealedRevealContent | null> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64Url(sealed.iv) },
+      await importKey(key, 'decrypt'),
+      fromBase64Url(sealed.ciphertext)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext)) as SealedRevealContent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The course as it looks at `now` with the reveals opened so far applied:
+ * state and destination fields from the furthest opened reveal, and a
+ * next_reveal countdown computed against the local clock.
+ */
+export function applyOpenedReveals(
+  course: CourseEnvelopeStatus,
+  opened: Partial<Record<SealedRevealState, SealedRevealContent>>,
+  now: Date
+): CourseEnvelopeStatus {
+  const rank = (state: EnvelopeState) => STATE_ORDER.indexOf(state);
+  let result = course;
+
+  const furthest = SEALED_REVEAL_STATES.filter(state => opened[state]).pop();
+  if (furthest && rank(furthest) > rank(course.state)) {
+    const upcoming = (course.sealed_reveals ?? [])
+      .filter(r => rank(r.state) > rank(furthest))
+      .sort((a, b) => rank(a.state) - rank(b.state))[0];
+    result = {
+      ...course,
+      ...opened[furthest],
+      state: furthest,
+      clue_pool: null,
+      next_reveal: upcoming ? { type: upcoming.state, at: upcoming.at, in_seconds: 0 } : null,
+    };
+  }
+
+  if (!result.next_reveal) return result;
+  const inSeconds = Math.max(0, Math.floor((new Date(result.next_reveal.at).getTime() - now.getTime()) / 1000));
+  return { ...result, next_reveal: { ...result.next_reveal, in_seconds: inSeconds } };
+}
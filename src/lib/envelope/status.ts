@@ -0,0 +1,649 @@
+/**
+ * Living Envelope Status
+ *
+ * Builds what a participant sees for each course at a given moment.
+ * Shared by GET /api/envelope/status (full fetch) and the
+ * /api/envelope/stream push endpoint, so both always agree.
+ *
+ * Backend controls all timing - client only displays what server sends.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAccessFromParams, deriveRevealKey } from '@/lib/tokens';
+import { getOrganizer, checkEventAccess } from '@/lib/auth';
+import { funFactsToStrings, countFunFacts } from '@/lib/fun-facts';
+import { parsePoint } from '@/lib/geo';
+import { STATE_ORDER, calculateEnvelopeState } from './timing';
+import { SEALED_REVEAL_FIELDS, SEALED_REVEAL_STATES, sealReveal } from './sealed';
+import { HINT_STATES, getHintLimit } from './hints';
+import { GUESS_STATES, scoreGuess } from './guesses';
+import { getEnvelopeMessages } from './messages';
+import { DEFAULT_LOCALE, normaliseLocale, type Locale } from '@/lib/i18n';
+import type { 
+  EnvelopeStatusResponse, 
+  CourseEnvelopeStatus, 
+  EnvelopeState,
+  Course,
+  LiveEnvelope,
+  RevealedClue,
+  NextReveal,
+  Couple,
+  SealedReveal,
+  SealedRevealContent,
+  GuessCandidate,
+} from '@/types/database';
+
+
+// Extended envelope type with joined host data
+interface EnvelopeWithHost extends LiveEnvelope {
+  host_couple: Pick<Couple, 
+    'id' | 'invited_name' | 'partner_name' | 'address' | 
+    'address_notes' | 'coordinates'
+  > & {
+    invited_fun_facts: unknown;
+    partner_fun_facts: unknown;
+  } | null;
+}
+
+export interface EnvelopeAccess {
+  coupleId: string;
+  isOrganizerPreview: boolean;
+}
+
+/**
+ * Who is asking: a signed token, or an organizer previewing with a raw coupleId.
+ * Returns null when the participant can't be identified.
+ */
+export async function resolveEnvelopeAccess(searchParams: URLSearchParams): Promise<EnvelopeAccess | null> {
+  const eventId = searchParams.get('eventId');
+  
+  // Check organizer first (needed for access control decisions below)
+  const organizer = await getOrganizer();
+  const isOrganizerPreview = !!organizer;
+
+  // Get coupleId from signed token (preferred) or raw param (organizer-only)
+  let access = getAccessFromParams(searchParams);
+
+  // Raw coupleId param without signed token requires organizer auth
+  const rawCoupleId = searchParams.get('coupleId');
+  const hasSignedToken = !!searchParams.get('token');
+  if (access && rawCoupleId && !hasSignedToken && !isOrganizerPreview) {
+    // Block raw coupleId for non-organizers (security: prevents guessing UUIDs)
+    access = null;
+  }
+  
+  // Organizer preview: allow raw coupleId if authenticated organizer with event access
+  if (!access && rawCoupleId && isOrganizerPreview && eventId) {
+    const eventAccess = await checkEventAccess(organizer!.id, eventId);
+    if (eventAccess.hasAccess) {
+      access = { coupleId: rawCoupleId, personType: 'invited' as const };
+    }
+  }
+
+  if (!eventId || !access) return null;
+
+  return { coupleId: access.coupleId, isOrganizerPreview };
+}
+
+export interface EnvelopeStatusOptions {
+  /** Ship not-yet-reached street/number/address reveals encrypted, for offline use */
+  sealFutureReveals?: boolean;
+}
+
+export type EnvelopeStatusResult =
+  | { ok: true; response: EnvelopeStatusResponse }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Current state of all envelopes for a couple at `now`
+ */
+export async function buildEnvelopeStatus(
+  supabase: SupabaseClient,
+  eventId: string,
+  coupleId: string,
+  now: Date,
+  options: EnvelopeStatusOptions = {}
+): Promise<EnvelopeStatusResult> {
+  // 1. Verify couple exists and load event info in one query
+  const { data: coupleWithEvent, error: coupleError } = await supabase
+    .from('couples')
+    .select(`
+      id,
+      event_id,
+      locale,
+      event:events(
+        id,
+        event_date,
+        starter_time,
+        main_time,
+        dessert_time,
+        active_match_plan_id,
+        afterparty_time,
+        afterparty_door_code,
+        afterparty_byob,
+        afterparty_notes,
+        afterparty_location,
+        afterparty_hosts,
+        afterparty_description,
+        afterparty_teasing_at,
+        afterparty_revealed_at,
+        afterparty_coordinates,
+        host_self_messages,
+        lips_sealed_messages,
+        mystery_host_messages,
+        hint_limits
+      )
+    `)
+    .eq('id', coupleId)
+    .eq('event_id', eventId)
+    .single();
+  
+  if (coupleError || !coupleWithEvent || !coupleWithEvent.event) {
+    return { ok: false, status: 404, error: 'Couple or event not found' };
+  }
+
+  const event = Array.isArray(coupleWithEvent.event) ? coupleWithEvent.event[0] : coupleWithEvent.event;
+  // Clues and fun facts are rendered in the couple's language
+  const locale = normaliseLocale(coupleWithEvent.locale);
+  
+  // 3. Get envelopes for this couple
+  const { data: envelopes, error: envelopesError } = await supabase
+    .from('envelopes')
+    .select(`
+      *,
+      host_couple:couples!envelopes_host_couple_id_fkey (
+        id,
+        invited_name,
+        partner_name,
+        address,
+        address_notes,
+        invited_fun_facts,
+        partner_fun_facts,
+        coordinates
+      )
+    `)
+    .eq('couple_id', coupleId)
+    .eq('match_plan_id', event.active_match_plan_id)
+    .neq('cancelled', true);
+  
+  if (envelopesError) {
+    console.error('Error fetching envelopes:', envelopesError);
+    return { ok: false, status: 500, error: 'Failed to fetch envelopes' };
+  }
+  
+  // 4. Get course clues for each host
+  const hostIds = envelopes
+    ?.map(e => e.host_couple_id)
+    .filter((id): id is string => id !== null) ?? [];
+  
+  const { data: courseClues } = await supabase
+    .from('course_clues')
+    .select('*')
+    .in('couple_id', hostIds);
+  
+  // 5. Get street info for each host
+  const { data: streetInfos } = await supabase
+    .from('street_info')
+    .select('*')
+    .in('couple_id', hostIds);
+  
+  // 5b. Extra hints the couple has asked for
+  const { data: hintRows } = await supabase
+    .from('envelope_hints')
+    .select('envelope_id, text, requested_at')
+    .in('envelope_id', envelopes?.map(e => e.id) ?? [])
+    .order('hint_number');
+
+  const hintsByEnvelope = new Map<string, RevealedClue[]>();
+  for (const hint of hintRows ?? []) {
+    const hints = hintsByEnvelope.get(hint.envelope_id) ?? [];
+    hints.push({ text: hint.text, revealed_at: hint.requested_at });
+    hintsByEnvelope.set(hint.envelope_id, hints);
+  }
+
+  // 5c. The couple's host guesses
+  const { data: guessRows } = await supabase
+    .from('host_guesses')
+    .select('envelope_id, guessed_host_couple_id, guessed_state, guessed_at')
+    .in('envelope_id', envelopes?.map(e => e.id) ?? []);
+
+  const guessByEnvelope = new Map((guessRows ?? []).map(g => [g.envelope_id, g]));
+  
+  // 6. Get ALL participants' fun facts for the clue pool (CLUE_1)
+  const { data: allCouples } = await supabase
+    .from('couples')
+    .select('id, invited_name, invited_fun_facts, partner_fun_facts, invited_allergies, partner_allergies, invited_allergy_notes, partner_allergy_notes, replacement_allergies, partner_name')
+    .eq('event_id', eventId)
+    .eq('confirmed', true);
+  
+  const { data: allEnvelopes } = await supabase
+    .from('envelopes')
+    .select('couple_id, host_couple_id, course')
+    .eq('match_plan_id', event.active_match_plan_id)
+    .neq('cancelled', true);
+  
+  const hostCourseGuestLookup = new Map<string, Map<string, string[]>>();
+  for (const envelope of allEnvelopes ?? []) {
+    if (!envelope.host_couple_id || !envelope.couple_id || !envelope.course) continue;
+    const byCourse = hostCourseGuestLookup.get(envelope.host_couple_id) ?? new Map<string, string[]>();
+    const guests = byCourse.get(envelope.course) ?? [];
+    guests.push(envelope.couple_id);
+    byCourse.set(envelope.course, guests);
+    hostCourseGuestLookup.set(envelope.host_couple_id, byCourse);
+  }
+  
+  // Build shuffled clue pool PER course (only couples at that table)
+  // We'll build it per-envelope below instead of globally
+  const coupleMap = new Map((allCouples ?? []).map(c => [c.id, c]));
+  const coupleName = (c: { invited_name: string; partner_name: string | null }) =>
+    c.partner_name ? `${c.invited_name} & ${c.partner_name}` : c.invited_name;
+  const guessCandidates: GuessCandidate[] = (allCouples ?? [])
+    .filter(c => c.id !== coupleId)
+    .map(c => ({ id: c.id, name: coupleName(c) }))
+    .sort((a, b) => a.name.localeCompare(b.name, 'sv'));
+  
+  function buildCluePoolForTable(hostCoupleId: string, courseType: string): string[] {
+    const facts: string[] = [];
+    // Add host's fun facts
+    const host = coupleMap.get(hostCoupleId);
+    if (host) {
+      facts.push(...funFactsToStrings(host.invited_fun_facts, locale));
+      facts.push(...funFactsToStrings(host.partner_fun_facts, locale));
+    }
+    // Add guests' fun facts
+    const guestIds = hostCourseGuestLookup.get(hostCoupleId)?.get(courseType) ?? [];
+    for (const guestId of guestIds) {
+      const guest = coupleMap.get(guestId);
+      if (guest) {
+        facts.push(...funFactsToStrings(guest.invited_fun_facts, locale));
+        facts.push(...funFactsToStrings(guest.partner_fun_facts, locale));
+      }
+    }
+    // Shuffle
+    return facts.sort(() => Math.random() - 0.5);
+  }
+  
+  // 7. Build response for each course
+  const courses: CourseEnvelopeStatus[] = [];
+  const mealCourses: Course[] = ['starter', 'main', 'dessert'];
+  const afterpartyEnvelope = envelopes?.find(e => e.course === 'afterparty');
+  const courseTypes: Course[] = afterpartyEnvelope ? [...mealCourses, 'afterparty'] : mealCourses;
+  
+  for (const courseType of courseTypes) {
+    const envelope = envelopes?.find(e => e.course === courseType) as EnvelopeWithHost | undefined;
+    
+    if (!envelope) {
+      // No envelope for this course yet
+      courses.push({
+        type: courseType,
+        state: 'LOCKED',
+        clues: [],
+        clue_pool: null,
+        street: null,
+        number: null,
+        full_address: null,
+        next_reveal: null,
+        starts_at: getCourseStartTime(event, courseType),
+        host_names: null,
+        allergies_summary: null,
+        is_self_host: false,
+        host_has_fun_facts: false,
+        cycling_meters: null,
+      });
+      continue;
+    }
+    
+    const isAfterparty = courseType === 'afterparty';
+
+    // Calculate current state
+    const state = calculateEnvelopeState(envelope, now);
+    const hostCoupleId = envelope.host_couple_id;
+    
+    // Get clues for this host + course
+    const hostClues = hostCoupleId
+      ? courseClues?.find(c => c.couple_id === hostCoupleId && c.course_type === courseType)
+      : null;
+    
+    // Get street info for host
+    const hostStreetInfo = hostCoupleId
+      ? streetInfos?.find(s => s.couple_id === hostCoupleId)
+      : null;
+    
+    // Build revealed clues based on state
+    const revealedClues = getRevealedClues(
+      envelope,
+      hostClues?.clue_indices ?? [],
+      envelope.host_couple,
+      state,
+      locale
+    );
+    
+    // Check if host has fun facts
+    const hostHasFunFacts = !!hostCoupleId && (
+      countFunFacts(envelope.host_couple?.invited_fun_facts) > 0 
+      || countFunFacts(envelope.host_couple?.partner_fun_facts) > 0
+    );
+    
+    // Clue pool: show all participants' clues at CLUE_1 for starter/main (not dessert, not self-host)
+    const isSelfHost = hostCoupleId === coupleId;
+    const showCluePool = state === 'CLUE_1' && courseType !== 'dessert' && courseType !== 'afterparty' && !isSelfHost;
+    const afterpartyCoords = parsePoint(event.afterparty_coordinates);
+
+    // Destination details as they look at a given state (also used to seal future reveals)
+    const destinationAt = (revealState: EnvelopeState): SealedRevealContent => ({
+      street: !isAfterparty && shouldShowStreet(revealState) && hostStreetInfo ? {
+        name: hostStreetInfo.street_name ?? '',
+        range: `${hostStreetInfo.number_range_low}-${hostStreetInfo.number_range_high}`,
+        cycling_minutes: estimateCyclingMinutes(envelope.cycling_distance_km) ?? 0,
+      } : null,
+      number: !isAfterparty && shouldShowNumber(revealState) ? hostStreetInfo?.street_number ?? null : null,
+      full_address: revealState === 'OPEN'
+        ? (isAfterparty
+          ? {
+            street: envelope.destination_address ?? '',
+            number: 0,
+            apartment: null,
+            door_code: envelope.destination_notes ?? null,
+            city: '',
+            coordinates: afterpartyCoords,
+          }
+          : {
+            street: hostStreetInfo?.street_name ?? '',
+            number: hostStreetInfo?.street_number ?? 0,
+            apartment: hostStreetInfo?.apartment ?? null,
+            door_code: hostStreetInfo?.door_code ?? null,
+            city: hostStreetInfo?.city ?? '',
+            coordinates: parsePoint(envelope.host_couple?.coordinates),
+          })
+        : null,
+      host_names: !isAfterparty && revealState === 'OPEN' ? [
+        envelope.host_couple?.invited_name,
+        envelope.host_couple?.partner_name,
+      ].filter((n): n is string => !!n) : null,
+    });
+
+    // Build course status
+    const courseStatus: CourseEnvelopeStatus = {
+      type: courseType,
+      state,
+      clues: revealedClues,
+      clue_pool: showCluePool && hostCoupleId ? buildCluePoolForTable(hostCoupleId, courseType) : null,
+      ...destinationAt(state),
+      next_reveal: getNextReveal(envelope, state, now),
+      starts_at: isAfterparty ? envelope.scheduled_at : getCourseStartTime(event, courseType),
+      allergies_summary: !isAfterparty && isSelfHost && state !== 'LOCKED'
+        ? getAllergiesSummary(hostCoupleId, courseType, hostCourseGuestLookup, allCouples)
+        : null,
+      is_self_host: isSelfHost,
+      host_has_fun_facts: hostHasFunFacts,
+      cycling_meters: envelope.cycling_distance_km != null ? Math.round(envelope.cycling_distance_km * 1000) : null,
+    };
+
+    if (!isAfterparty && hostCoupleId && !isSelfHost) {
+      const hints = hintsByEnvelope.get(envelope.id) ?? [];
+      courseStatus.hints = hints;
+      courseStatus.hints_remaining = HINT_STATES.includes(state)
+        ? Math.max(0, getHintLimit(event.hint_limits, courseType) - hints.length)
+        : 0;
+
+      const guess = guessByEnvelope.get(envelope.id);
+      const guessed = guess ? coupleMap.get(guess.guessed_host_couple_id) : undefined;
+      courseStatus.guess = guess ? {
+        couple_id: guess.guessed_host_couple_id,
+        name: guessed ? coupleName(guessed) : '?',
+        state: guess.guessed_state,
+        guessed_at: guess.guessed_at,
+        correct: state === 'OPEN' ? guess.guessed_host_couple_id === hostCoupleId : null,
+        points: state === 'OPEN' ? scoreGuess(guess, hostCoupleId) : null,
+      } : null;
+      if (GUESS_STATES.includes(state)) courseStatus.guess_candidates = guessCandidates;
+    }
+
+    if (isAfterparty && courseStatus.state !== 'LOCKED') {
+      courseStatus.afterparty_time = event.afterparty_time;
+      courseStatus.afterparty_byob = event.afterparty_byob;
+      courseStatus.afterparty_notes = event.afterparty_notes;
+      courseStatus.afterparty_description = event.afterparty_description;
+      if (courseStatus.state === 'OPEN') {
+        courseStatus.afterparty_hosts = event.afterparty_hosts;
+      }
+      // Progressive zone reveal (STREET = ZONE ~500m, NUMBER = CLOSING_IN ~100m)
+      if ((state === 'STREET' || state === 'NUMBER' || state === 'OPEN') &&
+          envelope.zone_lat != null && envelope.zone_lng != null && envelope.zone_radius_m != null) {
+        courseStatus.zone = {
+          lat: envelope.zone_lat,
+          lng: envelope.zone_lng,
+          radius_m: envelope.zone_radius_m,
+        };
+      }
+      if ((state === 'NUMBER' || state === 'OPEN') &&
+          envelope.closing_lat != null && envelope.closing_lng != null && envelope.closing_radius_m != null) {
+        courseStatus.closing = {
+          lat: envelope.closing_lat,
+          lng: envelope.closing_lng,
+          radius_m: envelope.closing_radius_m,
+        };
+      }
+      // Next step timestamp for countdown timer
+      const nextTimestamp = state === 'TEASING' ? envelope.street_at
+        : state === 'STREET' ? envelope.number_at
+        : state === 'NUMBER' ? envelope.opened_at
+        : null;
+      if (nextTimestamp) {
+        courseStatus.next_step_at = nextTimestamp;
+      }
+    }
+    
+    if (options.sealFutureReveals && !isAfterparty && hostCoupleId) {
+      const sealed = await sealFutureReveals(envelope, hostCoupleId, now, destinationAt);
+      if (sealed.length > 0) courseStatus.sealed_reveals = sealed;
+    }
+    
+    courses.push(courseStatus);
+  }
+  
+  // Default messages if not set (organizer messages are Swedish, so only for Swedish couples)
+  const defaults = getEnvelopeMessages(locale);
+  const custom = (messages: { emoji: string; text: string }[] | null | undefined) =>
+    locale === DEFAULT_LOCALE && messages?.length ? messages : null;
+  
+  const response: EnvelopeStatusResponse = {
+    server_time: now.toISOString(),
+    event_id: eventId,
+    couple_id: coupleId,
+    locale,
+    courses,
+    messages: {
+      host_self: custom(event.host_self_messages) ?? defaults.hostSelf.slice(0, 2),
+      lips_sealed: custom(event.lips_sealed_messages) ?? defaults.lipsSealed.slice(0, 2),
+      mystery_host: custom(event.mystery_host_messages) ?? defaults.mysteryHost.slice(0, 2),
+    },
+  };
+  
+  return { ok: true, response };
+}
+
+// Helper functions
+
+
+// Helper functions
+
+function getCourseStartTime(
+  event: { event_date: string; starter_time: string; main_time: string; dessert_time: string; afterparty_time?: string | null },
+  course: Course
+): string {
+  const timeMap: Record<Course, string | null | undefined> = {
+    starter: event.starter_time,
+    main: event.main_time,
+    dessert: event.dessert_time,
+    afterparty: event.afterparty_time ?? '22:00:00',
+  };
+  return `${event.event_date}T${timeMap[course]}`;
+}
+
+function estimateCyclingMinutes(distanceKm: number | null | undefined): number | null {
+  if (distanceKm == null) return null;
+  return Math.round(distanceKm * 4);
+}
+
+function shouldShowStreet(state: EnvelopeState): boolean {
+  return ['STREET', 'NUMBER', 'OPEN'].includes(state);
+}
+
+function shouldShowNumber(state: EnvelopeState): boolean {
+  return ['NUMBER', 'OPEN'].includes(state);
+}
+
+function getRevealedClues(
+  envelope: EnvelopeWithHost,
+  clueIndices: number[],
+  hostCouple: EnvelopeWithHost['host_couple'],
+  state: EnvelopeState,
+  locale: Locale
+): RevealedClue[] {
+  if (!hostCouple || !['CLUE_1', 'CLUE_2', 'STREET', 'NUMBER', 'OPEN'].includes(state)) {
+    return [];
+  }
+  
+  // Combine all fun facts
+  const allFacts = [
+    ...funFactsToStrings(hostCouple.invited_fun_facts, locale),
+    ...funFactsToStrings(hostCouple.partner_fun_facts, locale),
+  ];
+  
+  const clues: RevealedClue[] = [];
+  
+  // First clue
+  if (clueIndices.length > 0 && clueIndices[0] < allFacts.length && envelope.clue_1_at) {
+    clues.push({
+      text: allFacts[clueIndices[0]],
+      revealed_at: envelope.clue_1_at,
+    });
+  }
+  
+  // Second clue (only if state >= CLUE_2)
+  if (
+    ['CLUE_2', 'STREET', 'NUMBER', 'OPEN'].includes(state) &&
+    clueIndices.length > 1 && 
+    clueIndices[1] < allFacts.length && 
+    envelope.clue_2_at
+  ) {
+    clues.push({
+      text: allFacts[clueIndices[1]],
+      revealed_at: envelope.clue_2_at,
+    });
+  }
+  
+  return clues;
+}
+
+function getNextReveal(envelope: EnvelopeWithHost, currentState: EnvelopeState, now: Date): NextReveal | null {
+  if (currentState === 'OPEN') return null;
+  
+  const stateToTime: Record<EnvelopeState, string | null> = {
+    LOCKED: envelope.teasing_at,
+    TEASING: envelope.clue_1_at,
+    CLUE_1: envelope.clue_2_at,
+    CLUE_2: envelope.street_at,
+    STREET: envelope.number_at,
+    NUMBER: envelope.opened_at,
+    OPEN: null,
+  };
+  
+  const nextState = STATE_ORDER[STATE_ORDER.indexOf(currentState) + 1];
+  const nextTime = stateToTime[currentState];
+  
+  if (!nextTime || !nextState) return null;
+  
+  const nextDate = new Date(nextTime);
+  const inSeconds = Math.max(0, Math.floor((nextDate.getTime() - now.getTime()) / 1000));
+  
+  return {
+    type: nextState,
+    at: nextTime,
+    in_seconds: inSeconds,
+  };
+}
+
+async function sealFutureReveals(
+  envelope: EnvelopeWithHost,
+  hostCoupleId: string,
+  now: Date,
+  destinationAt: (state: EnvelopeState) => SealedRevealContent
+): Promise<SealedReveal[]> {
+  const sealed: SealedReveal[] = [];
+  for (const state of SEALED_REVEAL_STATES) {
+    const at = envelope[SEALED_REVEAL_FIELDS[state]];
+    if (!at || new Date(at) <= now) continue;
+    const key = deriveRevealKey(envelope.id, hostCoupleId, state, at);
+    sealed.push(await sealReveal(key, state, at, destinationAt(state)));
+  }
+  return sealed;
+}
+
+function getAllergiesSummary(
+  hostCoupleId: string | null,
+  course: Course,
+  hostCourseGuestLookup: Map<string, Map<string, string[]>>,
+  allCouples: Array<{
+    id: string;
+    invited_name?: string | null;
+    partner_name?: string | null;
+    invited_allergies?: string[] | null;
+    partner_allergies?: string[] | null;
+    replacement_allergies?: string[] | null;
+    invited_allergy_notes?: string | null;
+    partner_allergy_notes?: string | null;
+  }> | null
+): string[] | null {
+  if (!hostCoupleId) return null;
+
+  const guestsByCourse = hostCourseGuestLookup.get(hostCoupleId);
+  const guestIds = guestsByCourse?.get(course) ?? [];
+  if (!guestIds.length || !allCouples?.length) return null;
+
+  const couplesById = new Map(allCouples.map(c => [c.id, c]));
+  const allergyCounts = new Map<string, number>();
+  const notes = new Set<string>();
+
+  const addAllergies = (items: unknown, count = 1) => {
+    if (!Array.isArray(items)) return;
+    for (const item of items) {
+      if (typeof item !== 'string') continue;
+      const normalized = item.trim().toLowerCase();
+      if (!normalized) continue;
+      allergyCounts.set(normalized, (allergyCounts.get(normalized) ?? 0) + count);
+    }
+  };
+
+  const addNote = (name: string | null | undefined, note: string | null | undefined) => {
+    if (!note || !note.trim()) return;
+    const prefix = name ? `${name}: ` : '';
+    notes.add(`${prefix}${note.trim()}`);
+  };
+
+  for (const guestId of guestIds) {
+    const guest = couplesById.get(guestId);
+    if (!guest) continue;
+
+    addAllergies(guest.invited_allergies, 1);
+    addAllergies(guest.replacement_allergies, 1);
+    addNote(guest.invited_name ?? null, guest.invited_allergy_notes ?? null);
+
+    if (guest.partner_name) {
+      addAllergies(guest.partner_allergies, 1);
+      addNote(guest.partner_name ?? null, guest.partner_allergy_notes ?? null);
+    }
+  }
+
+  const summary: string[] = [];
+  const sortedAllergies = Array.from(allergyCounts.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+  for (const [allergy, count] of sortedAllergies) {
+    const label = allergy.charAt(0).toUpperCase() + allergy.slice(1);
+    summary.push(`${label} (${count} pers)`);
+  }
+
+  summary.push(...Array.from(notes));
+
+  return summary.length ? summary : null;
+}
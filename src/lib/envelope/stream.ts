@@ -0,0 +1,128 @@
+/**
+ * Living Envelope Stream
+ *
+ * Helpers for /api/envelope/stream: which state changes happened in a time
+ * window, when the next one is due, and how they are written as server-sent
+ * events. Event ids encode the transition itself, so a reconnecting client's
+ * Last-Event-ID is enough to replay exactly what it missed - nothing is
+ * stored server-side.
+ */
+
+import { STATE_ORDER, calculateEnvelopeState, type EnvelopeRevealTimes } from './timing';
+import type { Course, EnvelopeState, EnvelopeStreamEvent } from '@/types/database';
+
+const COURSE_ORDER: Course[] = ['starter', 'main', 'dessert', 'afterparty'];
+
+const STATE_FIELDS: [EnvelopeState, keyof EnvelopeRevealTimes][] = [
+  ['TEASING', 'teasing_at'],
+  ['CLUE_1', 'clue_1_at'],
+  ['CLUE_2', 'clue_2_at'],
+  ['STREET', 'street_at'],
+  ['NUMBER', 'number_at'],
+  ['OPEN', 'opened_at'],
+];
+
+export type StreamEnvelope = EnvelopeRevealTimes & {
+  course: Course;
+  host_couple_id: string | null;
+};
+
+export interface StateTransition {
+  id: string;
+  course: Course;
+  state: EnvelopeState;
+  at: string;
+}
+
+/** Position in the stream: transitions strictly after this are still to be sent */
+export interface StreamCursor {
+  at: number;
+  /** Tie-break between transitions at the same millisecond */
+  seq: number;
+}
+
+const seqOf = (course: Course, state: EnvelopeState) =>
+  COURSE_ORDER.indexOf(course) * STATE_ORDER.length + STATE_ORDER.indexOf(state);
+
+export function cursorAt(time: Date): StreamCursor {
+  return { at: time.getTime(), seq: Infinity };
+}
+
+export function transitionId(course: Course, state: EnvelopeState, at: Date): string {
+  return `${at.getTime()}-${course}-${state}`;
+}
+
+/** Cursor from a Last-Event-ID header, or null when missing/garbled */
+export function parseLastEventId(id: string | null): StreamCursor | null {
+  const match = id?.match(/^(\d+)-([a-z]+)-([A-Z_0-9]+)$/);
+  if (!match) return null;
+  const [, at, course, state] = match;
+  if (!COURSE_ORDER.includes(course as Course) || !STATE_ORDER.includes(state as EnvelopeState)) return null;
+  return { at: Number(at), seq: seqOf(course as Course, state as EnvelopeState) };
+}
+
+/**
+ * Every state advance after `after` up to and including `until`, in order.
+ * Timestamps that are overtaken by a later state (e.g. clue_2_at earlier
+ * than clue_1_at after a manual edit) don't produce an event.
+ */
+export function listStateTransitions(
+  envelopes: StreamEnvelope[],
+  after: StreamCursor,
+  until: Date
+): StateTransition[] {
+  const transitions: (StateTransition & { time: number; seq: number })[] = [];
+
+  for (const envelope of envelopes) {
+    for (const [state, field] of STATE_FIELDS) {
+      const value = envelope[field];
+      if (!value) continue;
+      const at = new Date(value);
+      const time = at.getTime();
+      const seq = seqOf(envelope.course, state);
+      if (time > until.getTime()) continue;
+      if (time < after.at || (time === after.at && seq <= after.seq)) continue;
+      if (calculateEnvelopeState(envelope, at) !== state) continue;
+      transitions.push({
+        id: transitionId(envelope.course, state, at),
+        course: envelope.course,
+        state,
+        at: at.toISOString(),
+        time,
+        seq,
+      });
+    }
+  }
+
+  return transitions
+    .sort((a, b) => a.time - b.time || a.seq - b.seq)
+    .map(({ id, course, state, at }) => ({ id, course, state, at }));
+}
+
+/** When the next state advance is due, or null when everything is open */
+export function nextTransitionAt(envelopes: StreamEnvelope[], now: Date): Date | null {
+  let next: number | null = null;
+  for (const envelope of envelopes) {
+    for (const [, field] of STATE_FIELDS) {
+      const value = envelope[field];
+      if (!value) continue;
+      const time = new Date(value).getTime();
+      if (time > now.getTime() && (next === null || time < next)) next = time;
+    }
+  }
+  return next === null ? null : new Date(next);
+}
+
+/** Changes whenever hosts or reveal times change, e.g. after a reassign or delay */
+export function envelopeSignature(envelopes: StreamEnvelope[]): string {
+  return envelopes
+    .map(e => [e.course, e.host_couple_id, ...STATE_FIELDS.map(([, field]) => e[field])].join('|'))
+    .sort()
+    .join('\n');
+}
+
+/** One SSE frame; only state events carry an id, so resync never moves the cursor */
+export function encodeStreamEvent(event: EnvelopeStreamEvent): string {
+  const id = event.type === 'state' ? `id: ${event.id}\n` : '';
+  return `${id}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
@@ -7,7 +7,7 @@
  * - Cycling distance between current location and destination
  */
 
-import type { Course, EventTiming, LiveEnvelope } from '@/types/database';
+import type { Course, EnvelopeState, EventTiming, LiveEnvelope } from '@/types/database';
 
 export interface CourseSchedule {
   course: Course;
@@ -34,15 +34,20 @@ export const DEFAULT_TIMING: Omit<EventTiming, 'id' | 'event_id' | 'created_at'
   distance_adjustment_enabled: true,
 };
 
-/**
- * Calculate all envelope reveal times for a course
- */
+/** With distance adjustment, the street is revealed at least this long before a couple must leave */
+export const DEPARTURE_MARGIN_MINUTES = 10;
+
 /** Per-course timing overrides (JSONB from events.course_timing_offsets) */
 export type CourseTimingOffsets = Partial<Record<Course, Partial<Pick<EventTiming,
   'teasing_minutes_before' | 'clue_1_minutes_before' | 'clue_2_minutes_before' |
   'street_minutes_before' | 'number_minutes_before'
 >>>>;
 
+/**
+ * Calculate all envelope reveal times for a course.
+ * `cyclingMinutes` is the leg from where the couple is before this course
+ * (home or the previous host), see lib/envelope/legs.
+ */
 export function calculateEnvelopeTimes(
   courseStartTime: Date,
   timing: Partial<EventTiming> = {},
@@ -60,17 +65,9 @@ export function calculateEnvelopeTimes(
   let numberMinutes = t.number_minutes_before;
   
   if (t.distance_adjustment_enabled && cyclingMinutes) {
-    // Longer distances need earlier reveals
-    if (cyclingMinutes > 15) {
-      // Very far: give lots of time
-      streetMinutes = Math.max(streetMinutes, cyclingMinutes + 10);
-      numberMinutes = Math.max(numberMinutes, cyclingMinutes);
-    } else if (cyclingMinutes > 8) {
-      // Medium distance
-      streetMinutes = Math.max(streetMinutes, cyclingMinutes + 5);
-      numberMinutes = Math.max(numberMinutes, cyclingMinutes - 3);
-    }
-    // Short distances: use default timing
+    // Street a fixed margin before they must leave, number by the time they leave
+    streetMinutes = Math.max(streetMinutes, cyclingMinutes + DEPARTURE_MARGIN_MINUTES);
+    numberMinutes = Math.max(numberMinutes, cyclingMinutes);
   }
   
   return {
@@ -83,6 +80,14 @@ export function calculateEnvelopeTimes(
   };
 }
 
+/**
+ * Rough cycling time for a leg (~15 km/h), undefined when the distance is unknown
+ */
+export function estimateCyclingMinutes(distanceKm: number | null | undefined): number | undefined {
+  if (distanceKm == null) return undefined;
+  return Math.round(distanceKm * 4);
+}
+
 /**
  * Parse event course times into Date objects
  */
@@ -129,31 +134,11 @@ export interface DistanceAdjustment {
 }
 
 export function getDistanceAdjustment(cyclingMinutes: number): DistanceAdjustment {
-  if (cyclingMinutes > 15) {
-    // Very far (>15 min cycle)
-    return {
-      streetMinutesBefore: cyclingMinutes + 10,
-      numberMinutesBefore: cyclingMinutes,
-    };
-  } else if (cyclingMinutes > 8) {
-    // Medium (8-15 min)
-    return {
-      streetMinutesBefore: cyclingMinutes + 5,
-      numberMinutesBefore: Math.max(5, cyclingMinutes - 3),
-    };
-  } else if (cyclingMinutes > 3) {
-    // Close (3-8 min)
-    return {
-      streetMinutesBefore: 15,
-      numberMinutesBefore: 5,
-    };
-  } else {
-    // Very close (<3 min)
-    return {
-      streetMinutesBefore: 10,
-      numberMinutesBefore: 3,
-    };
-  }
+  // Same rule as calculateEnvelopeTimes with the default timing
+  return {
+    streetMinutesBefore: Math.max(DEFAULT_TIMING.street_minutes_before, cyclingMinutes + DEPARTURE_MARGIN_MINUTES),
+    numberMinutesBefore: Math.max(DEFAULT_TIMING.number_minutes_before, cyclingMinutes),
+  };
 }
 
 /**
@@ -177,6 +162,25 @@ export function formatEnvelopeTimesForDb(times: EnvelopeTimes): {
   };
 }
 
+export type EnvelopeRevealTimes = Pick<LiveEnvelope,
+  'teasing_at' | 'clue_1_at' | 'clue_2_at' | 'street_at' | 'number_at' | 'opened_at'
+>;
+
+// State order for determining next reveal
+export const STATE_ORDER: EnvelopeState[] = ['LOCKED', 'TEASING', 'CLUE_1', 'CLUE_2', 'STREET', 'NUMBER', 'OPEN'];
+
+/** State an envelope is in at `now`, from its reveal timestamps */
+export function calculateEnvelopeState(envelope: EnvelopeRevealTimes, now: Date): EnvelopeState {
+  // Check states in reverse order (most advanced first)
+  if (envelope.opened_at && now >= new Date(envelope.opened_at)) return 'OPEN';
+  if (envelope.number_at && now >= new Date(envelope.number_at)) return 'NUMBER';
+  if (envelope.street_at && now >= new Date(envelope.street_at)) return 'STREET';
+  if (envelope.clue_2_at && now >= new Date(envelope.clue_2_at)) return 'CLUE_2';
+  if (envelope.clue_1_at && now >= new Date(envelope.clue_1_at)) return 'CLUE_1';
+  if (envelope.teasing_at && now >= new Date(envelope.teasing_at)) return 'TEASING';
+  return 'LOCKED';
+}
+
 // Helpers
 
 function subtractMinutes(date: Date, minutes: number): Date {
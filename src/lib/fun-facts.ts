@@ -6,6 +6,8 @@
  * via the helpers exported here.
  */
 
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
+
 // ── Types ───────────────────────────────────────────────────────────
 
 export type FunFacts = {
@@ -58,30 +60,46 @@ export const FUN_FACT_FIELDS: FunFactField[] = [
 
 // ── Rendering ───────────────────────────────────────────────────────
 
-const RENDER_MAP: Record<keyof FunFacts, (v: string) => string> = {
-  musicDecade: (v) => `Tycker att ${v}-talets musik var bäst`,
-  pet: (v) => `Har husdjur: ${v}`,
-  talent: (v) => `Hemligt talent: ${v}`,
-  firstJob: (v) => `Första jobbet var ${v}`,
-  dreamDestination: (v) => `Drömresmål: ${v}`,
-  instruments: (v) => `Spelar ${v}`,
-  sport: (v) => `Sportar: ${v}`,
-  unknownFact: (v) => v, // already a full sentence
-  importantYear: (v) => `Viktigt år: ${v}`,
+const RENDER_MAPS: Record<Locale, Record<keyof FunFacts, (v: string) => string>> = {
+  sv: {
+    musicDecade: (v) => `Tycker att ${v}-talets musik var bäst`,
+    pet: (v) => `Har husdjur: ${v}`,
+    talent: (v) => `Hemligt talent: ${v}`,
+    firstJob: (v) => `Första jobbet var ${v}`,
+    dreamDestination: (v) => `Drömresmål: ${v}`,
+    instruments: (v) => `Spelar ${v}`,
+    sport: (v) => `Sportar: ${v}`,
+    unknownFact: (v) => v, // already a full sentence
+    importantYear: (v) => `Viktigt år: ${v}`,
+  },
+  en: {
+    musicDecade: (v) => `Thinks the music of the ${v}s was the best`,
+    pet: (v) => `Has a pet: ${v}`,
+    talent: (v) => `Secret talent: ${v}`,
+    firstJob: (v) => `First job was ${v}`,
+    dreamDestination: (v) => `Dream destination: ${v}`,
+    instruments: (v) => `Plays ${v}`,
+    sport: (v) => `Sports: ${v}`,
+    unknownFact: (v) => v,
+    importantYear: (v) => `Important year: ${v}`,
+  },
 };
 
-/** Render a single fun fact key+value to a human-readable string. */
-export function renderFunFact(key: keyof FunFacts, value: string): string {
-  const fn = RENDER_MAP[key];
+/**
+ * Render a single fun fact key+value to a human-readable string.
+ * Only the phrasing is localized — the value is what the participant wrote.
+ */
+export function renderFunFact(key: keyof FunFacts, value: string, locale: Locale = DEFAULT_LOCALE): string {
+  const fn = RENDER_MAPS[locale][key];
   return fn ? fn(value) : value;
 }
 
 /** Render all non-empty facts to a string array (for clue system etc). */
-export function renderAllFunFacts(facts: FunFacts): string[] {
+export function renderAllFunFacts(facts: FunFacts, locale: Locale = DEFAULT_LOCALE): string[] {
   const result: string[] = [];
   for (const field of FUN_FACT_FIELDS) {
     const val = facts[field.key];
-    if (val) result.push(renderFunFact(field.key, val));
+    if (val) result.push(renderFunFact(field.key, val, locale));
   }
   return result;
 }
@@ -108,11 +126,14 @@ export function normaliseFunFacts(raw: unknown): FunFacts {
   return {};
 }
 
-/** Convert fun facts (either format) to a string[] for the clue system. */
-export function funFactsToStrings(raw: unknown): string[] {
+/**
+ * Convert fun facts (either format) to a string[] for the clue system.
+ * Legacy string[] facts are returned as written, whatever the locale.
+ */
+export function funFactsToStrings(raw: unknown, locale: Locale = DEFAULT_LOCALE): string[] {
   if (!raw) return [];
   if (Array.isArray(raw)) return raw.filter((f): f is string => typeof f === 'string');
-  if (typeof raw === 'object') return renderAllFunFacts(raw as FunFacts);
+  if (typeof raw === 'object') return renderAllFunFacts(raw as FunFacts, locale);
   return [];
 }
 
@@ -60,80 +60,6 @@ function toRad(deg: number): number {
   return deg * (Math.PI / 180);
 }
 
-/**
- * Get cycling distance and duration using OpenRouteService API
- * Falls back to Haversine if API key not configured or request fails
- */
-export async function getCyclingDistance(
-  from: Coordinates, 
-  to: Coordinates,
-  apiKey?: string
-): Promise<CyclingDistance> {
-  const key = apiKey || process.env.OPENROUTESERVICE_API_KEY;
-  
-  if (!key) {
-    // Fallback to Haversine
-    const distance = calculateHaversineDistance(from, to);
-    return {
-      distance_km: Math.round(distance * 10) / 10,
-      duration_min: Math.round(distance * 4), // Rough estimate: 15 km/h cycling
-      source: 'haversine',
-    };
-  }
-  
-  try {
-    const response = await fetch(
-      'https://api.openrouteservice.org/v2/directions/cycling-regular',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': key,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          coordinates: [
-            [from.lng, from.lat],
-            [to.lng, to.lat],
-          ],
-        }),
-      }
-    );
-    
-    if (!response.ok) {
-      console.error('OpenRouteService error:', response.status);
-      // Fallback to Haversine
-      const distance = calculateHaversineDistance(from, to);
-      return {
-        distance_km: Math.round(distance * 10) / 10,
-        duration_min: Math.round(distance * 4),
-        source: 'haversine',
-      };
-    }
-    
-    const data = await response.json();
-    const route = data.routes?.[0];
-    
-    if (!route) {
-      throw new Error('No route found');
-    }
-    
-    return {
-      distance_km: Math.round((route.summary.distance / 1000) * 10) / 10,
-      duration_min: Math.round(route.summary.duration / 60),
-      source: 'cycling',
-    };
-  } catch (error) {
-    console.error('Cycling distance error:', error);
-    // Fallback to Haversine
-    const distance = calculateHaversineDistance(from, to);
-    return {
-      distance_km: Math.round(distance * 10) / 10,
-      duration_min: Math.round(distance * 4),
-      source: 'haversine',
-    };
-  }
-}
-
 /**
  * Get cycling distance matrix for multiple locations in ONE request
  * Much more efficient than individual requests!
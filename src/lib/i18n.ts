@@ -0,0 +1,33 @@
+/**
+ * Participant languages.
+ *
+ * Each couple picks a locale at registration. Clues, fun facts, award texts
+ * and envelope messages are rendered in it; the organizer UI stays Swedish.
+ */
+
+import type { Locale } from '@/types/database';
+
+export type { Locale };
+
+export const DEFAULT_LOCALE: Locale = 'sv';
+
+export const LOCALES: Locale[] = ['sv', 'en'];
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  sv: '🇸🇪 Svenska',
+  en: '🇬🇧 English',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+/** Any stored or submitted value → a supported locale (unknown → Swedish) */
+export function normaliseLocale(value: unknown): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/** BCP 47 tag for dates and times, e.g. toLocaleTimeString(dateLocale(locale)) */
+export function dateLocale(locale: Locale): string {
+  return locale === 'en' ? 'en-GB' : 'sv-SE';
+}
@@ -201,6 +201,7 @@ describe('cascadeChanges', () => {
     const db = createDb({
       envelopes: [
         { id: 'e1', match_plan_id: 'plan', couple_id: 'guest', host_couple_id: 'host', course: 'dessert', cancelled: false, destination_address: 'Old' },
+        { id: 'e2', match_plan_id: 'plan', couple_id: 'host', host_couple_id: 'host', course: 'dessert', cancelled: false, destination_address: 'Old' },
       ],
     });
 
@@ -213,7 +214,8 @@ describe('cascadeChanges', () => {
       details: { newAddress: 'New Address', newAddressNotes: 'Note' },
     });
 
-    expect(result.envelopesUpdated).toBe(1);
+    expect(result.envelopesUpdated).toBe(2);
+    expect(result.changedEnvelopes).toEqual([{ couple_id: 'guest', course: 'dessert' }]);
     expect(db.tables.envelopes[0].destination_address).toBe('New Address');
   });
 
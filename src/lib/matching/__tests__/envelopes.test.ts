@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { buildEnvelopesFromPairings } from '../envelopes';
+import type { Course } from '@/types/database';
+import { createTestAssignment, createTestCouple } from './fixtures';
+
+describe('Envelopes: buildEnvelopesFromPairings', () => {
+  const couples = ['h1', 'h2', 'g1', 'g2'].map(id => createTestCouple(id, { address_notes: `Port ${id}` }));
+  const assignments = [createTestAssignment('h1', 'starter'), createTestAssignment('h2', 'main')];
+
+  it('should create one envelope per guest and one per host and course', () => {
+    const pairings = [
+      { course: 'starter' as Course, host_couple_id: 'h1', guest_couple_id: 'g1' },
+      { course: 'starter' as Course, host_couple_id: 'h1', guest_couple_id: 'g2' },
+    ];
+
+    const envelopes = buildEnvelopesFromPairings('plan-1', pairings, couples, assignments.slice(0, 1));
+
+    expect(envelopes).toHaveLength(3);
+    const guest = envelopes.find(e => e.couple_id === 'g2');
+    expect(guest).toMatchObject({ match_plan_id: 'plan-1', host_couple_id: 'h1', destination_address: 'Gatan h1', destination_notes: 'Port h1' });
+    expect(envelopes.filter(e => e.couple_id === 'h1')).toHaveLength(1);
+  });
+
+  it('should give a host without guests their own envelope', () => {
+    const pairings = [{ course: 'starter' as Course, host_couple_id: 'h1', guest_couple_id: 'g1' }];
+
+    const envelopes = buildEnvelopesFromPairings('plan-1', pairings, couples, assignments);
+
+    expect(envelopes.filter(e => e.couple_id === 'h2')).toEqual([
+      expect.objectContaining({ course: 'main', host_couple_id: 'h2', destination_address: 'Gatan h2' }),
+    ]);
+  });
+
+  it('should skip pairings that reference unknown couples', () => {
+    const pairings = [{ course: 'main' as Course, host_couple_id: 'h1', guest_couple_id: 'gone' }];
+    expect(buildEnvelopesFromPairings('plan-1', pairings, couples, [])).toEqual([]);
+  });
+});
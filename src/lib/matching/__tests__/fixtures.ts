@@ -0,0 +1,123 @@
+/**
+ * Shared fixtures for the matching tests: a confirmed two-person couple, a
+ * host assignment and an event, each with plain defaults that a test
+ * overrides where it matters.
+ */
+
+import type { Assignment, Couple, Course, Event } from '@/types/database';
+
+const CREATED_AT = '2026-01-01T00:00:00.000Z';
+
+export function createTestCouple(id: string, options: Partial<Couple> = {}): Couple {
+  return {
+    id,
+    event_id: 'test-event',
+    invited_user_id: null,
+    invited_name: `Par ${id}`,
+    invited_email: `${id}@test.com`,
+    invited_phone: null,
+    invited_allergies: null,
+    invited_allergy_notes: null,
+    invited_birth_year: null,
+    invited_fun_facts: null,
+    invited_pet_allergy: null,
+    partner_name: 'Partner',
+    partner_email: null,
+    partner_phone: null,
+    partner_allergies: null,
+    partner_allergy_notes: null,
+    partner_birth_year: null,
+    partner_fun_facts: null,
+    partner_pet_allergy: null,
+    replacement_name: null,
+    replacement_allergies: null,
+    replacement_allergy_notes: null,
+    replacement_reason: null,
+    replacement_email: null,
+    replacement_phone: null,
+    original_partner_name: null,
+    address: `Gatan ${id}`,
+    address_notes: null,
+    coordinates: null,
+    course_preference: null,
+    max_guests: null,
+    host_hazards: null,
+    accessibility_needs: null,
+    accessibility_ok: true,
+    instagram_handle: null,
+    locale: 'sv',
+    invited_notifications_opt_out_at: null,
+    partner_notifications_opt_out_at: null,
+    person_count: options.partner_name === null ? 1 : 2,
+    confirmed: true,
+    cancelled: false,
+    cancelled_at: null,
+    created_at: CREATED_AT,
+    updated_at: CREATED_AT,
+    ...options,
+  };
+}
+
+/** The couple hosting the course */
+export function createTestAssignment(coupleId: string, course: Course, options: Partial<Assignment> = {}): Assignment {
+  return {
+    id: `a${coupleId}`,
+    event_id: 'test-event',
+    couple_id: coupleId,
+    course,
+    is_host: true,
+    max_guests: 10,
+    is_flex_host: false,
+    flex_extra_capacity: 4,
+    is_emergency_host: false,
+    notified_at: null,
+    created_at: CREATED_AT,
+    ...options,
+  };
+}
+
+export function createTestEvent(options: Partial<Event> = {}): Event {
+  return {
+    id: 'test-event',
+    organization_id: null,
+    name: 'Test Fest',
+    slug: 'test-fest',
+    description: null,
+    event_date: '2026-06-15',
+    gathering_time: '17:00',
+    starter_time: '17:30',
+    main_time: '19:00',
+    dessert_time: '20:30',
+    afterparty_time: '22:00',
+    time_offset_minutes: 0,
+    time_offset_updated_at: null,
+    time_offset_updated_by: null,
+    gathering_location: null,
+    gathering_description: null,
+    afterparty_location: null,
+    afterparty_description: null,
+    afterparty_door_code: null,
+    afterparty_byob: null,
+    afterparty_notes: null,
+    afterparty_hosts: null,
+    host_self_messages: null,
+    lips_sealed_messages: null,
+    mystery_host_messages: null,
+    enabled_awards: null,
+    thank_you_message: null,
+    wrap_stats: null,
+    envelope_hours_before: 2,
+    dropout_cutoff_hours: 6,
+    public_view_enabled: false,
+    max_couples: null,
+    status: 'open',
+    active_match_plan_id: null,
+    hint_limits: {},
+    notification_channels: {},
+    email_branding: {},
+    afterparty_teasing_at: null,
+    afterparty_revealed_at: null,
+    created_at: CREATED_AT,
+    ...options,
+  };
+}
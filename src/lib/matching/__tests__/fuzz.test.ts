@@ -0,0 +1,474 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { runFullMatch, runRematch } from '../index';
+import { isUnsuitableHost } from '../hazards';
+import { createRandom, seedFromString } from '../optimize';
+import type {
+  Assignment,
+  Couple,
+  CouplePreferenceLevel,
+  HostHazard,
+  MatchingPreference,
+  MealCourse,
+  StepBOutput,
+} from '@/types/database';
+import { createTestCouple, createTestEvent } from './fixtures';
+
+/**
+ * Property-based fuzzing of the matching engine.
+ *
+ * Random events (3–200 couples) are generated from a seed, run through
+ * runFullMatch and runRematch, and checked against the ADR-002 invariants
+ * plus Step B's hard constraints. A failing case is shrunk to a minimal
+ * scenario before it is reported, so the failure message can be pasted
+ * straight into a regression test.
+ *
+ * More runs: MATCHING_FUZZ_RUNS=500 npx vitest run fuzz
+ * Replay one: MATCHING_FUZZ_SEED=1234 npx vitest run fuzz
+ */
+
+const COURSES: MealCourse[] = ['starter', 'main', 'dessert'];
+const RUNS = Number(process.env.MATCHING_FUZZ_RUNS) || 25;
+const REPLAY_SEED = process.env.MATCHING_FUZZ_SEED ? Number(process.env.MATCHING_FUZZ_SEED) : null;
+
+// Step A refuses these inputs on purpose - not an invariant violation
+const EXPECTED_ERRORS = [/Minst 3 par/, /Otillräcklig kapacitet/];
+
+interface Scenario {
+  seed: number;
+  couples: Couple[];
+  blocked_pairs: [string, string][];
+  preferences: MatchingPreference[];
+  forced_courses: Record<string, MealCourse>;
+  /** Couples that cancel after the first match, before the rematch */
+  dropouts: string[];
+  frozen_courses: MealCourse[];
+  optimize: boolean;
+}
+
+type Outcome =
+  | { kind: 'ok' }
+  | { kind: 'rejected'; reason: string }
+  | { kind: 'violation'; violations: string[] };
+
+// === Generator ===
+
+function generateScenario(seed: number): Scenario {
+  const random = createRandom(seed);
+  const pick = <T,>(items: readonly T[]) => items[Math.floor(random() * items.length)];
+  const chance = (p: number) => random() < p;
+
+  // Skew towards small events, where edge cases live, but reach 200
+  const size = 3 + Math.floor(Math.pow(random(), 2) * 198);
+  const couples: Couple[] = [];
+
+  for (let i = 0; i < size; i++) {
+    const single = chance(0.15);
+    const hazards: HostHazard[] = [];
+    if (chance(0.1)) hazards.push(pick(['cat', 'dog', 'nuts'] as const));
+    couples.push(createTestCouple(`c${i}`, {
+      partner_name: single ? null : 'Partner',
+      person_count: single ? 1 : 2,
+      coordinates: chance(0.8) ? { x: 13.1 + random() * 0.1, y: 55.6 + random() * 0.05 } : null,
+      course_preference: chance(0.3) ? pick(COURSES) : null,
+      max_guests: chance(0.2) ? 4 + Math.floor(random() * 8) : null,
+      host_hazards: hazards.length > 0 ? hazards : null,
+      invited_pet_allergy: chance(0.05) ? pick(['cat', 'dog', 'both'] as const) : null,
+      invited_allergies: chance(0.05) ? ['nötter'] : null,
+      accessibility_needs: chance(0.03) ? 'Rullstol' : null,
+      accessibility_ok: chance(0.6),
+      cancelled: chance(0.05),
+      confirmed: !chance(0.03),
+    }));
+  }
+
+  const ids = couples.map(c => c.id);
+  const blocked_pairs: [string, string][] = [];
+  for (let i = Math.floor(random() * size * 0.1); i > 0; i--) {
+    const a = pick(ids);
+    const b = pick(ids);
+    if (a !== b) blocked_pairs.push([a, b]);
+  }
+
+  const levels: CouplePreferenceLevel[] = ['preferred', 'neutral', 'low', 'known', 'avoid'];
+  const preferences: MatchingPreference[] = [];
+  for (let i = Math.floor(random() * size * 0.3); i > 0; i--) {
+    const couple_id = pick(ids);
+    const target_couple_id = pick(ids);
+    if (couple_id !== target_couple_id) {
+      preferences.push({ couple_id, target_couple_id, preference: pick(levels) });
+    }
+  }
+
+  const forced_courses: Record<string, MealCourse> = {};
+  for (let i = Math.floor(random() * 3); i > 0; i--) forced_courses[pick(ids)] = pick(COURSES);
+
+  const dropouts = [...new Set(
+    Array.from({ length: Math.floor(random() * Math.min(5, size)) }, () => pick(ids))
+  )];
+  const frozen_courses = COURSES.filter(() => chance(0.25));
+
+  return {
+    seed,
+    couples,
+    blocked_pairs,
+    preferences,
+    forced_courses,
+    dropouts,
+    frozen_courses,
+    optimize: chance(0.3),
+  };
+}
+
+// === Invariants ===
+
+function checkInvariants(
+  scenario: Scenario,
+  couples: Couple[],
+  assignments: Assignment[],
+  output: StepBOutput,
+  frozenCourses: MealCourse[]
+): string[] {
+  const violations: string[] = [];
+  const active = new Map(couples.filter(c => !c.cancelled && c.confirmed !== false).map(c => [c.id, c]));
+  const hostOf = new Map(assignments.filter(a => a.is_host).map(a => [`${a.course}:${a.couple_id}`, a]));
+  const hostCourse = new Map(assignments.filter(a => a.is_host).map(a => [a.couple_id, a.course]));
+
+  const blocked = new Set<string>();
+  const meetingKey = (a: string, b: string) => a < b ? `${a}:${b}` : `${b}:${a}`;
+  for (const [a, b] of scenario.blocked_pairs) blocked.add(meetingKey(a, b));
+  for (const p of scenario.preferences) {
+    if (p.preference === 'avoid') blocked.add(meetingKey(p.couple_id, p.target_couple_id));
+  }
+
+  const tables = new Map<string, string[]>(); // "course:host" -> guests
+  const guestHosts = new Map<string, string[]>(); // "course:guest" -> hosts
+
+  for (const p of output.course_pairings) {
+    const course = p.course as MealCourse;
+    if (p.host_couple_id === p.guest_couple_id) violations.push(`${p.guest_couple_id} hosts themselves (${course})`);
+    if (frozenCourses.includes(course)) violations.push(`pairing in frozen course ${course}`);
+    if (!active.has(p.guest_couple_id)) violations.push(`inactive guest ${p.guest_couple_id} placed (${course})`);
+    if (!active.has(p.host_couple_id)) violations.push(`inactive host ${p.host_couple_id} used (${course})`);
+    if (!hostOf.has(`${course}:${p.host_couple_id}`)) violations.push(`${p.host_couple_id} is not a ${course} host`);
+    if (hostCourse.get(p.guest_couple_id) === course) violations.push(`${p.guest_couple_id} is guest in own course ${course}`);
+
+    const guest = active.get(p.guest_couple_id);
+    const host = active.get(p.host_couple_id);
+    if (guest && host && isUnsuitableHost(guest, host)) {
+      violations.push(`${guest.id} placed at unsuitable host ${host.id} (${course})`);
+    }
+
+    const tableKey = `${course}:${p.host_couple_id}`;
+    tables.set(tableKey, [...(tables.get(tableKey) || []), p.guest_couple_id]);
+    const guestKey = `${course}:${p.guest_couple_id}`;
+    guestHosts.set(guestKey, [...(guestHosts.get(guestKey) || []), p.host_couple_id]);
+  }
+
+  // Capacity and blocks per table
+  const forced = new Set(
+    output.course_pairings.filter(p => p.forced).map(p => `${p.course}:${p.guest_couple_id}`)
+  );
+  for (const [tableKey, guests] of tables) {
+    const [course, hostId] = tableKey.split(':');
+    const maxGuests = hostOf.get(tableKey)?.max_guests ?? Infinity;
+    const persons = guests.reduce((sum, id) => sum + (active.get(id)?.person_count || 0), 0);
+    if (persons > maxGuests) violations.push(`${hostId} over capacity for ${course}: ${persons} > ${maxGuests}`);
+
+    const table = [hostId, ...guests];
+    for (let i = 0; i < table.length; i++) {
+      for (let j = i + 1; j < table.length; j++) {
+        if (!blocked.has(meetingKey(table[i], table[j]))) continue;
+        // Allowed only through the relaxed pass, which must flag it
+        const flagged = [table[i], table[j]].some(id => forced.has(`${course}:${id}`));
+        if (!flagged) violations.push(`blocked pair ${table[i]}/${table[j]} meet unflagged at ${hostId} (${course})`);
+      }
+    }
+  }
+
+  // Each guest exactly one host per course, or a warning saying why not
+  const warned = new Set(output.warnings.flatMap(w => w.couple_ids ?? []));
+  for (const course of COURSES) {
+    if (frozenCourses.includes(course)) continue;
+    for (const id of active.keys()) {
+      if (!hostCourse.has(id) || hostCourse.get(id) === course) continue;
+      const hosts = guestHosts.get(`${course}:${id}`) || [];
+      if (hosts.length > 1) violations.push(`${id} has ${hosts.length} hosts for ${course}`);
+      if (hosts.length === 0 && !warned.has(id)) violations.push(`${id} unplaced for ${course} without warning`);
+    }
+  }
+
+  // ADR-002: one envelope per couple per course, matching its pairing
+  const envelopes = new Map<string, StepBOutput['envelopes'][number]>();
+  for (const env of output.envelopes) {
+    const key = `${env.course}:${env.couple_id}`;
+    if (envelopes.has(key)) violations.push(`duplicate envelope for ${env.couple_id} (${env.course})`);
+    envelopes.set(key, env);
+  }
+  for (const p of output.course_pairings) {
+    const env = envelopes.get(`${p.course}:${p.guest_couple_id}`);
+    if (!env) {
+      violations.push(`no envelope for pairing ${p.guest_couple_id} (${p.course})`);
+      continue;
+    }
+    if (env.host_couple_id !== p.host_couple_id) violations.push(`envelope host diverges for ${p.guest_couple_id} (${p.course})`);
+    if (env.destination_address !== active.get(p.host_couple_id)?.address) {
+      violations.push(`envelope address is not host address for ${p.guest_couple_id} (${p.course})`);
+    }
+  }
+  for (const [key, env] of envelopes) {
+    if (env.couple_id === env.host_couple_id) {
+      if (hostCourse.get(env.couple_id) !== env.course) violations.push(`host envelope for non-host ${env.couple_id} (${env.course})`);
+    } else if (!guestHosts.has(key)) {
+      violations.push(`envelope without pairing for ${env.couple_id} (${env.course})`);
+    }
+  }
+
+  return violations;
+}
+
+// === Runner ===
+
+/** Run Step B with Math.random seeded, so a scenario always replays the same way */
+function withSeededRandom<T>(seed: number, fn: () => T): T {
+  const random = createRandom(seed);
+  const spy = vi.spyOn(Math, 'random').mockImplementation(random);
+  try {
+    return fn();
+  } finally {
+    spy.mockRestore();
+  }
+}
+
+function runScenario(scenario: Scenario): Outcome {
+  const event = createTestEvent();
+  const optimize = scenario.optimize ? { seed: scenario.seed, maxIterations: 300 } : undefined;
+
+  try {
+    return withSeededRandom(scenario.seed, () => {
+      const full = runFullMatch({
+        event,
+        couples: scenario.couples,
+        blocked_pairs: scenario.blocked_pairs,
+        preferences: scenario.preferences,
+        forced_courses: scenario.forced_courses,
+        match_plan_id: 'plan-1',
+        optimize,
+      });
+
+      const assignments: Assignment[] = full.stepA.assignments.map((a, i) => ({
+        ...a,
+        id: `a-${i}`,
+        created_at: '2026-01-01T00:00:00.000Z',
+        notified_at: null,
+      }));
+
+      const violations = checkInvariants(scenario, scenario.couples, assignments, full.stepB, [])
+        .map(v => `full match: ${v}`);
+
+      // Dropouts cancel; like the routes, their assignments are left out
+      const dropouts = new Set(scenario.dropouts);
+      const afterDropout = scenario.couples.map(c => dropouts.has(c.id) ? { ...c, cancelled: true } : c);
+      const remaining = assignments.filter(a => !dropouts.has(a.couple_id));
+
+      const rematch = runRematch({
+        event,
+        couples: afterDropout,
+        assignments: remaining,
+        blocked_pairs: scenario.blocked_pairs,
+        preferences: scenario.preferences,
+        frozen_courses: scenario.frozen_courses,
+        match_plan_id: 'plan-2',
+        optimize,
+      });
+
+      violations.push(
+        ...checkInvariants(scenario, afterDropout, remaining, rematch, scenario.frozen_courses)
+          .map(v => `rematch: ${v}`)
+      );
+
+      return violations.length > 0 ? { kind: 'violation', violations } : { kind: 'ok' };
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (EXPECTED_ERRORS.some(pattern => pattern.test(message))) {
+      return { kind: 'rejected', reason: message };
+    }
+    return { kind: 'violation', violations: [`threw: ${message}`] };
+  }
+}
+
+// === Shrinking ===
+
+function withoutCouple(scenario: Scenario, id: string): Scenario {
+  const forced_courses = { ...scenario.forced_courses };
+  delete forced_courses[id];
+  return {
+    ...scenario,
+    couples: scenario.couples.filter(c => c.id !== id),
+    blocked_pairs: scenario.blocked_pairs.filter(([a, b]) => a !== id && b !== id),
+    preferences: scenario.preferences.filter(p => p.couple_id !== id && p.target_couple_id !== id),
+    forced_courses,
+    dropouts: scenario.dropouts.filter(d => d !== id),
+  };
+}
+
+/** Smaller variants of a scenario, biggest cuts first */
+function* shrinkCandidates(scenario: Scenario): Generator<Scenario> {
+  const { couples } = scenario;
+  for (let chunk = Math.floor(couples.length / 2); chunk >= 2; chunk = Math.floor(chunk / 2)) {
+    for (let start = 0; start + chunk <= couples.length; start += chunk) {
+      const removed = couples.slice(start, start + chunk).map(c => c.id);
+      yield removed.reduce(withoutCouple, scenario);
+    }
+  }
+  for (const couple of couples) yield withoutCouple(scenario, couple.id);
+
+  if (scenario.optimize) yield { ...scenario, optimize: false };
+  for (let i = 0; i < scenario.blocked_pairs.length; i++) {
+    yield { ...scenario, blocked_pairs: scenario.blocked_pairs.filter((_, j) => j !== i) };
+  }
+  for (let i = 0; i < scenario.preferences.length; i++) {
+    yield { ...scenario, preferences: scenario.preferences.filter((_, j) => j !== i) };
+  }
+  if (Object.keys(scenario.forced_courses).length > 0) yield { ...scenario, forced_courses: {} };
+  for (const id of scenario.dropouts) yield { ...scenario, dropouts: scenario.dropouts.filter(d => d !== id) };
+  for (const course of scenario.frozen_courses) {
+    yield { ...scenario, frozen_courses: scenario.frozen_courses.filter(c => c !== course) };
+  }
+
+  // Simplify individual couples back towards the defaults
+  const defaults = createTestCouple('');
+  const traits = [
+    'host_hazards', 'invited_pet_allergy', 'invited_allergies', 'accessibility_needs',
+    'max_guests', 'course_preference', 'coordinates', 'cancelled', 'confirmed',
+  ] as const;
+  for (const couple of couples) {
+    for (const trait of traits) {
+      if (couple[trait] === defaults[trait]) continue;
+      yield {
+        ...scenario,
+        couples: couples.map(c => c.id === couple.id ? { ...c, [trait]: defaults[trait] } : c),
+      };
+    }
+  }
+}
+
+/**
+ * Greedily take the first smaller variant that still fails, until none does.
+ * Bounded so a pathological case can't hang the suite.
+ */
+function shrink(
+  scenario: Scenario,
+  fails: (candidate: Scenario) => boolean,
+  maxAttempts = 2000
+): { scenario: Scenario; attempts: number } {
+  let current = scenario;
+  let attempts = 0;
+  let improved = true;
+
+  while (improved && attempts < maxAttempts) {
+    improved = false;
+    for (const candidate of shrinkCandidates(current)) {
+      if (++attempts > maxAttempts) break;
+      if (fails(candidate)) {
+        current = candidate;
+        improved = true;
+        break;
+      }
+    }
+  }
+
+  return { scenario: current, attempts };
+}
+
+function describeScenario(scenario: Scenario): string {
+  const nonDefault = (c: Couple) => {
+    const defaults = createTestCouple(c.id);
+    return Object.fromEntries(
+      Object.entries(c).filter(([key, value]) =>
+        key === 'id' || JSON.stringify(value) !== JSON.stringify(defaults[key as keyof Couple])
+      )
+    );
+  };
+  return JSON.stringify({ ...scenario, couples: scenario.couples.map(nonDefault) }, null, 2);
+}
+
+function fuzz(seeds: number[]) {
+  const stats = { ok: 0, rejected: 0 };
+
+  for (const seed of seeds) {
+    const scenario = generateScenario(seed);
+    const outcome = runScenario(scenario);
+    if (outcome.kind === 'ok') { stats.ok++; continue; }
+    if (outcome.kind === 'rejected') { stats.rejected++; continue; }
+
+    const minimal = shrink(scenario, candidate => runScenario(candidate).kind === 'violation');
+    const final = runScenario(minimal.scenario);
+    const violations = final.kind === 'violation' ? final.violations : outcome.violations;
+    throw new Error(
+      `Invariant violated for seed ${seed} ` +
+      `(${scenario.couples.length} couples, shrunk to ${minimal.scenario.couples.length} ` +
+      `in ${minimal.attempts} attempts):\n` +
+      `${violations.slice(0, 10).join('\n')}\n\n` +
+      `Minimal scenario:\n${describeScenario(minimal.scenario)}`
+    );
+  }
+
+  return stats;
+}
+
+describe('Fuzz: matching invariants', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should hold ADR-002 and hard constraints over random events', () => {
+    const base = seedFromString('cykelfesten-fuzz');
+    const seeds = REPLAY_SEED !== null
+      ? [REPLAY_SEED]
+      : Array.from({ length: RUNS }, (_, i) => (base + i * 7919) >>> 0);
+
+    const stats = fuzz(seeds);
+
+    // Most generated events must be matchable, or the fuzzer tests nothing
+    expect(stats.ok).toBeGreaterThan(stats.rejected);
+  }, 120_000);
+
+  it('should generate the same scenario for the same seed', () => {
+    expect(generateScenario(42)).toEqual(generateScenario(42));
+    expect(generateScenario(42)).not.toEqual(generateScenario(43));
+  });
+
+  it('should cover singles, cancellations, blocks, preferences and frozen courses', () => {
+    const scenarios = Array.from({ length: 30 }, (_, i) => generateScenario(1000 + i));
+    const couples = scenarios.flatMap(s => s.couples);
+
+    expect(couples.some(c => c.person_count === 1)).toBe(true);
+    expect(couples.some(c => c.cancelled)).toBe(true);
+    expect(scenarios.some(s => s.blocked_pairs.length > 0)).toBe(true);
+    expect(scenarios.some(s => s.preferences.some(p => p.preference === 'avoid'))).toBe(true);
+    expect(scenarios.some(s => s.frozen_courses.length > 0)).toBe(true);
+    expect(Math.min(...scenarios.map(s => s.couples.length))).toBeGreaterThanOrEqual(3);
+    expect(Math.max(...scenarios.map(s => s.couples.length))).toBeLessThanOrEqual(200);
+  });
+
+  it('should shrink a failing scenario to a minimal one', () => {
+    // Synthetic property: fails whenever a cat host is in the event
+    const scenario = {
+      ...generateScenario(7),
+      couples: Array.from({ length: 40 }, (_, i) =>
+        createTestCouple(`c${i}`, { host_hazards: i === 17 ? ['cat'] : null, max_guests: i % 2 ? 6 : null })
+      ),
+    };
+    const fails = (s: Scenario) => s.couples.some(c => c.host_hazards?.includes('cat'));
+
+    const { scenario: minimal } = shrink(scenario, fails);
+
+    expect(minimal.couples.map(c => c.id)).toEqual(['c17']);
+    expect(minimal.couples[0].max_guests).toBeNull();
+    expect(minimal.blocked_pairs).toEqual([]);
+    expect(minimal.preferences).toEqual([]);
+    expect(minimal.dropouts).toEqual([]);
+    expect(minimal.frozen_courses).toEqual([]);
+  });
+});
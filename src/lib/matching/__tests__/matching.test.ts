@@ -1,8 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { assignCourses } from '../step-a';
+import { assignCourses, parseMaxGuests } from '../step-a';
 import { matchGuestsToHosts } from '../step-b';
 import { runFullMatch } from '../index';
+import { getHazardConflicts } from '../hazards';
 import type { Couple, Event, Course } from '@/types/database';
+import { createTestAssignment } from './fixtures';
 
 // Helper to create test couples
 function createTestCouple(
@@ -21,6 +23,7 @@ function createTestCouple(
     invited_allergy_notes: null,
     invited_birth_year: null,
     invited_fun_facts: null,
+    invited_pet_allergy: null,
     partner_name: options.partner_name ?? `${name}s partner`,
     partner_email: null,
     partner_phone: null,
@@ -28,16 +31,26 @@ function createTestCouple(
     partner_allergy_notes: null,
     partner_birth_year: null,
     partner_fun_facts: null,
+    partner_pet_allergy: null,
     replacement_name: null,
     replacement_allergies: null,
     replacement_allergy_notes: null,
     replacement_reason: null,
+    replacement_email: null,
+    replacement_phone: null,
     original_partner_name: null,
     address: `${name}gatan 1`,
     address_notes: null,
     coordinates: null,
     course_preference: options.course_preference ?? null,
+    max_guests: null,
+    host_hazards: null,
+    accessibility_needs: null,
+    accessibility_ok: true,
     instagram_handle: null,
+    locale: 'sv',
+    invited_notifications_opt_out_at: null,
+    partner_notifications_opt_out_at: null,
     person_count: options.partner_name === null ? 1 : 2,
     confirmed: true,
     cancelled: false,
@@ -85,6 +98,9 @@ function createTestEvent(): Event {
     max_couples: null,
     status: 'open',
     active_match_plan_id: null,
+    hint_limits: {},
+    notification_channels: {},
+    email_branding: {},
     afterparty_teasing_at: null,
     afterparty_revealed_at: null,
     created_at: new Date().toISOString(),
@@ -165,6 +181,99 @@ describe('Step A: Assign Courses', () => {
   });
 });
 
+describe('Step A: Per-host capacity', () => {
+  it('should use each couple\'s declared capacity', () => {
+    const couples = [
+      createTestCouple('1', 'Anna', { max_guests: 6 }),
+      createTestCouple('2', 'Bertil'),
+      createTestCouple('3', 'Cecilia', { max_guests: 8 }),
+    ];
+
+    const result = assignCourses({ event_id: 'test', couples });
+    const byCouple = new Map(result.assignments.map(a => [a.couple_id, a]));
+
+    expect(byCouple.get('1')?.max_guests).toBe(6);
+    expect(byCouple.get('1')?.flex_extra_capacity).toBe(0);
+    expect(byCouple.get('2')?.max_guests).toBe(10);
+    expect(byCouple.get('3')?.max_guests).toBe(8);
+  });
+
+  it('should name the short course and missing seats', () => {
+    const couples = [
+      createTestCouple('1', 'Anna', { max_guests: 2, course_preference: 'starter' }),
+      createTestCouple('2', 'Bertil', { max_guests: 4, course_preference: 'main' }),
+      createTestCouple('3', 'Cecilia', { max_guests: 4, course_preference: 'dessert' }),
+    ];
+
+    // Each course hosts 2 persons and feeds 4: starter is 2 seats short
+    expect(() => assignCourses({ event_id: 'test', couples })).toThrow(/förrätt saknar 2 platser/);
+  });
+
+  it('should swap hosts between courses to cover small tables', () => {
+    const couples = [
+      createTestCouple('1', 'Anna', { max_guests: 2 }),
+      createTestCouple('2', 'Bertil', { max_guests: 8 }),
+      createTestCouple('3', 'Cecilia', { max_guests: 8 }),
+      createTestCouple('4', 'David', { max_guests: 2 }),
+      createTestCouple('5', 'Eva', { max_guests: 8 }),
+      createTestCouple('6', 'Fredrik', { max_guests: 8 }),
+    ];
+
+    const result = assignCourses({ event_id: 'test', couples });
+
+    // Round-robin would put both small tables on starter (4 seats for 8 guests)
+    const smallCourses = result.assignments.filter(a => a.max_guests === 2).map(a => a.course);
+    expect(new Set(smallCourses).size).toBe(2);
+  });
+
+  it('should accept 2-20 declared seats and default on empty', () => {
+    expect(parseMaxGuests('6')).toBe(6);
+    expect(parseMaxGuests(20)).toBe(20);
+    expect(parseMaxGuests('')).toBeNull();
+    expect(parseMaxGuests(null)).toBeNull();
+    expect(parseMaxGuests(1)).toBeUndefined();
+    expect(parseMaxGuests(21)).toBeUndefined();
+    expect(parseMaxGuests('4.5')).toBeUndefined();
+  });
+});
+
+describe('Step A: Distance-aware assignment', () => {
+  // Two neighbourhoods, 3 couples each, ~5 km apart
+  const couples = [
+    createTestCouple('1', 'Anna', { coordinates: { x: 18.00, y: 59.30 } }),
+    createTestCouple('2', 'Bertil', { coordinates: { x: 18.001, y: 59.30 } }),
+    createTestCouple('3', 'Cecilia', { coordinates: { x: 18.002, y: 59.30 } }),
+    createTestCouple('4', 'David', { coordinates: { x: 18.10, y: 59.30 } }),
+    createTestCouple('5', 'Eva', { coordinates: { x: 18.101, y: 59.30 } }),
+    createTestCouple('6', 'Fredrik', { coordinates: { x: 18.102, y: 59.30 } }),
+  ];
+
+  it('should give every neighbourhood all three courses', () => {
+    const result = assignCourses({ event_id: 'test', couples });
+    const courseOf = new Map(result.assignments.map(a => [a.couple_id, a.course]));
+
+    expect(new Set(['1', '2', '3'].map(id => courseOf.get(id))).size).toBe(3);
+    expect(new Set(['4', '5', '6'].map(id => courseOf.get(id))).size).toBe(3);
+  });
+
+  it('should expose expected cycling km', () => {
+    const result = assignCourses({ event_id: 'test', couples });
+
+    // Everyone stays within their own neighbourhood (well under 1 km total each)
+    expect(result.stats.expected_cycling_km).toBeGreaterThan(0);
+    expect(result.stats.expected_cycling_km).toBeLessThan(6);
+  });
+
+  it('should report zero km without coordinates', () => {
+    const result = assignCourses({
+      event_id: 'test',
+      couples: [createTestCouple('1', 'Anna'), createTestCouple('2', 'Bertil'), createTestCouple('3', 'Cecilia')],
+    });
+
+    expect(result.stats.expected_cycling_km).toBe(0);
+  });
+});
+
 describe('Step B: Match Guests to Hosts', () => {
   it('should not place anyone at their own home', () => {
     const couples = [
@@ -328,6 +437,218 @@ describe('Step B: Match Guests to Hosts', () => {
   });
 });
 
+describe('Step B: Couple Preferences', () => {
+  it('should treat avoid as a hard block', () => {
+    const couples = ['1', '2', '3', '4'].map(id => createTestCouple(id, `Par${id}`));
+    const assignments = [
+      createTestAssignment('1', 'starter'),
+      createTestAssignment('2', 'starter'),
+      createTestAssignment('3', 'main'),
+      createTestAssignment('4', 'dessert'),
+    ];
+
+    const result = matchGuestsToHosts({
+      event_id: 'test',
+      match_plan_id: 'plan-1',
+      assignments,
+      couples,
+      blocked_pairs: [],
+      preferences: [{ couple_id: '3', target_couple_id: '1', preference: 'avoid' }],
+      frozen_courses: [],
+    });
+
+    const starterPairing = result.course_pairings.find(p => p.course === 'starter' && p.guest_couple_id === '3');
+    expect(starterPairing?.host_couple_id).toBe('2');
+  });
+
+  it('should favour preferred couples at the same table', () => {
+    const couples = ['1', '2', '3', '4', '5', '6'].map(id => createTestCouple(id, `Par${id}`));
+    const assignments = [
+      createTestAssignment('1', 'starter'),
+      createTestAssignment('2', 'starter'),
+      createTestAssignment('3', 'main'),
+      createTestAssignment('4', 'main'),
+      createTestAssignment('5', 'dessert'),
+      createTestAssignment('6', 'dessert'),
+    ];
+
+    for (let run = 0; run < 10; run++) {
+      const result = matchGuestsToHosts({
+        event_id: 'test',
+        match_plan_id: 'plan-1',
+        assignments,
+        couples,
+        blocked_pairs: [],
+        preferences: [{ couple_id: '3', target_couple_id: '1', preference: 'preferred' }],
+        frozen_courses: [],
+      });
+
+      const starterPairing = result.course_pairings.find(p => p.course === 'starter' && p.guest_couple_id === '3');
+      expect(starterPairing?.host_couple_id).toBe('1');
+    }
+  });
+
+  it('should warn when an avoid preference has to be broken', () => {
+    const couples = ['1', '2', '3'].map(id => createTestCouple(id, `Par${id}`));
+    const assignments = [
+      createTestAssignment('1', 'starter'),
+      createTestAssignment('2', 'main'),
+      createTestAssignment('3', 'dessert'),
+    ];
+
+    const result = matchGuestsToHosts({
+      event_id: 'test',
+      match_plan_id: 'plan-1',
+      assignments,
+      couples,
+      blocked_pairs: [],
+      preferences: [{ couple_id: '1', target_couple_id: '2', preference: 'avoid' }],
+      frozen_courses: [],
+    });
+
+    const prefWarnings = result.warnings.filter(w => w.type === 'preference');
+    expect(prefWarnings).toHaveLength(1);
+    expect(prefWarnings[0].couple_ids).toEqual(['1', '2']);
+  });
+});
+
+describe('Step B: Allergies vs host hazards', () => {
+  it('should match pet and nut allergies against hazards', () => {
+    const host = createTestCouple('h', 'Värd', { host_hazards: ['cat', 'nuts'] });
+
+    expect(getHazardConflicts(createTestCouple('g1', 'A', { partner_pet_allergy: 'both' }), host)).toEqual(['cat']);
+    expect(getHazardConflicts(createTestCouple('g2', 'B', { invited_allergies: ['Jordnötter'] }), host)).toEqual(['nuts']);
+    expect(getHazardConflicts(createTestCouple('g3', 'C', { invited_pet_allergy: 'dog' }), host)).toEqual([]);
+    // Whole words only: beef, coconut and nutmeg are not nuts
+    for (const allergy of ['Nötkött', 'nötfärs', 'Kokosnöt', 'coconut', 'nutmeg', 'muskotnöt']) {
+      expect(getHazardConflicts(createTestCouple('g5', 'E', { invited_allergies: [allergy] }), host)).toEqual([]);
+    }
+    for (const allergy of ['nötter', 'Nötallergi', 'hasselnötter', 'peanuts', 'tree nuts', 'mandlar', 'Cashew']) {
+      expect(getHazardConflicts(createTestCouple('g6', 'F', { invited_allergies: [allergy] }), host)).toEqual(['nuts']);
+    }
+    // Replacement partner's allergies replace the original partner's
+    expect(getHazardConflicts(
+      createTestCouple('g4', 'D', { partner_pet_allergy: 'cat', replacement_name: 'Ersättare' }),
+      host
+    )).toEqual([]);
+  });
+
+  it('should never place a guest at a host they are allergic to', () => {
+    const couples = [
+      createTestCouple('1', 'Par1', { host_hazards: ['cat'] }),
+      createTestCouple('2', 'Par2'),
+      createTestCouple('3', 'Par3', { invited_pet_allergy: 'cat' }),
+      createTestCouple('4', 'Par4'),
+    ];
+    const assignments = [
+      createTestAssignment('1', 'starter'),
+      createTestAssignment('2', 'starter'),
+      createTestAssignment('3', 'main'),
+      createTestAssignment('4', 'dessert'),
+    ];
+
+    for (let run = 0; run < 10; run++) {
+      const result = matchGuestsToHosts({
+        event_id: 'test',
+        match_plan_id: 'plan-1',
+        assignments,
+        couples,
+        blocked_pairs: [],
+        frozen_courses: [],
+      });
+
+      const starterPairing = result.course_pairings.find(p => p.course === 'starter' && p.guest_couple_id === '3');
+      expect(starterPairing?.host_couple_id).toBe('2');
+    }
+  });
+
+  it('should leave the guest unplaced with an allergy warning when no host is safe', () => {
+    const couples = [
+      createTestCouple('1', 'Par1', { host_hazards: ['dog'] }),
+      createTestCouple('2', 'Par2', { invited_pet_allergy: 'dog' }),
+      createTestCouple('3', 'Par3'),
+    ];
+    const assignments = [
+      createTestAssignment('1', 'starter'),
+      createTestAssignment('2', 'main'),
+      createTestAssignment('3', 'dessert'),
+    ];
+
+    const result = matchGuestsToHosts({
+      event_id: 'test',
+      match_plan_id: 'plan-1',
+      assignments,
+      couples,
+      blocked_pairs: [],
+      frozen_courses: [],
+    });
+
+    expect(result.course_pairings.some(p => p.course === 'starter' && p.guest_couple_id === '2')).toBe(false);
+    const allergyWarnings = result.warnings.filter(w => w.type === 'allergy');
+    expect(allergyWarnings).toHaveLength(1);
+    expect(allergyWarnings[0].couple_ids).toEqual(['2', '1']);
+  });
+});
+
+describe('Step B: Accessibility', () => {
+  it('should only place couples with accessibility needs at accessible hosts', () => {
+    const couples = [
+      createTestCouple('1', 'Par1', { accessibility_ok: false }),
+      createTestCouple('2', 'Par2'),
+      createTestCouple('3', 'Par3', { accessibility_needs: 'Rullstol' }),
+      createTestCouple('4', 'Par4'),
+    ];
+    const assignments = [
+      createTestAssignment('1', 'starter'),
+      createTestAssignment('2', 'starter'),
+      createTestAssignment('3', 'main'),
+      createTestAssignment('4', 'dessert'),
+    ];
+
+    for (let run = 0; run < 10; run++) {
+      const result = matchGuestsToHosts({
+        event_id: 'test',
+        match_plan_id: 'plan-1',
+        assignments,
+        couples,
+        blocked_pairs: [],
+        frozen_courses: [],
+      });
+
+      const starterPairing = result.course_pairings.find(p => p.course === 'starter' && p.guest_couple_id === '3');
+      expect(starterPairing?.host_couple_id).toBe('2');
+    }
+  });
+
+  it('should explain with an accessibility warning when no accessible host has room', () => {
+    const couples = [
+      createTestCouple('1', 'Par1', { accessibility_ok: null }),
+      createTestCouple('2', 'Par2', { accessibility_needs: 'Inga trappor' }),
+      createTestCouple('3', 'Par3'),
+    ];
+    const assignments = [
+      createTestAssignment('1', 'starter'),
+      createTestAssignment('2', 'main'),
+      createTestAssignment('3', 'dessert'),
+    ];
+
+    const result = matchGuestsToHosts({
+      event_id: 'test',
+      match_plan_id: 'plan-1',
+      assignments,
+      couples,
+      blocked_pairs: [],
+      frozen_courses: [],
+    });
+
+    expect(result.course_pairings.some(p => p.course === 'starter' && p.guest_couple_id === '2')).toBe(false);
+    const accessWarnings = result.warnings.filter(w => w.type === 'accessibility');
+    expect(accessWarnings).toHaveLength(1);
+    expect(accessWarnings[0].couple_ids).toEqual(['2', '1']);
+    expect(result.warnings.some(w => w.type === 'capacity' && w.couple_ids?.includes('2'))).toBe(false);
+  });
+});
+
 describe('Full Match', () => {
   it('should run complete matching pipeline', () => {
     const event = createTestEvent();
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { matchGuestsToHosts } from '../step-b';
+import { optimizeMatching, seedFromString, stepBRandom } from '../optimize';
+import type { Assignment, Couple, Course, StepBInput } from '@/types/database';
+import { createTestAssignment, createTestCouple } from './fixtures';
+
+function buildInput(count: number): StepBInput {
+  const courses: Course[] = ['starter', 'main', 'dessert'];
+  const couples: Couple[] = [];
+  const assignments: Assignment[] = [];
+  for (let i = 0; i < count; i++) {
+    const id = String(i + 1);
+    couples.push(createTestCouple(id, { coordinates: { x: 18 + (i % 7) * 0.01, y: 59 + Math.floor(i / 7) * 0.01 } }));
+    assignments.push(createTestAssignment(id, courses[i % 3], { max_guests: 6 }));
+  }
+  return {
+    event_id: 'test',
+    match_plan_id: 'plan-1',
+    assignments,
+    couples,
+    blocked_pairs: [],
+    frozen_courses: [],
+  };
+}
+
+describe('Optimizer: local search over Step B', () => {
+  it('should be deterministic for a given seed', () => {
+    const input = buildInput(21);
+    const greedy = matchGuestsToHosts(input);
+
+    const first = optimizeMatching(input, greedy, { seed: 42, maxIterations: 2000, timeBudgetMs: 60000 });
+    const second = optimizeMatching(input, greedy, { seed: 42, maxIterations: 2000, timeBudgetMs: 60000 });
+
+    expect(second.output.course_pairings).toEqual(first.output.course_pairings);
+    expect(second.stats.final_cost).toBe(first.stats.final_cost);
+  });
+
+  it('should never make the greedy solution worse', () => {
+    const input = buildInput(30);
+    const greedy = matchGuestsToHosts(input);
+    const result = optimizeMatching(input, greedy, { seed: 7, maxIterations: 3000, timeBudgetMs: 60000 });
+
+    expect(result.stats.final_cost).toBeLessThanOrEqual(result.stats.initial_cost);
+    const greedyRepeats = greedy.warnings.filter(w => w.type === 'unique_meeting').length;
+    const optimizedRepeats = result.output.warnings.filter(w => w.type === 'unique_meeting').length;
+    expect(optimizedRepeats).toBeLessThanOrEqual(greedyRepeats);
+  });
+
+  it('should keep hard constraints intact', () => {
+    const input = { ...buildInput(24), blocked_pairs: [['4', '5'] as [string, string]] };
+    const greedy = matchGuestsToHosts(input);
+    const { output } = optimizeMatching(input, greedy, { seed: 3, maxIterations: 3000, timeBudgetMs: 60000 });
+
+    // Same set of guests placed per course, exactly once each
+    const key = (p: { course: string; guest_couple_id: string }) => `${p.course}:${p.guest_couple_id}`;
+    expect(output.course_pairings.map(key).sort()).toEqual(greedy.course_pairings.map(key).sort());
+
+    const persons = new Map<string, number>();
+    for (const p of output.course_pairings) {
+      expect(p.host_couple_id).not.toBe(p.guest_couple_id);
+      const hostKey = `${p.course}:${p.host_couple_id}`;
+      persons.set(hostKey, (persons.get(hostKey) || 0) + 2);
+    }
+    for (const count of persons.values()) {
+      expect(count).toBeLessThanOrEqual(6);
+    }
+
+    // Envelopes follow the new pairings
+    for (const p of output.course_pairings) {
+      const env = output.envelopes.find(e => e.couple_id === p.guest_couple_id && e.course === p.course);
+      expect(env?.host_couple_id).toBe(p.host_couple_id);
+    }
+  });
+
+  it('should reproduce the greedy pass from a seed', () => {
+    const input = buildInput(21);
+    const first = matchGuestsToHosts(input, stepBRandom({ seed: 9 }));
+    const second = matchGuestsToHosts(input, stepBRandom({ seed: 9 }));
+
+    expect(second.course_pairings).toEqual(first.course_pairings);
+  });
+
+  it('should derive stable seeds from strings', () => {
+    expect(seedFromString('plan-1')).toBe(seedFromString('plan-1'));
+    expect(seedFromString('plan-1')).not.toBe(seedFromString('plan-2'));
+  });
+});
+
+describe('Optimizer: capacity', () => {
+  it('never seats more persons than max_guests to avoid a blocked meeting', () => {
+    // 2 and 3 are both blocked from the other starter hosts; host 1 only has room for one of them
+    const input = {
+      ...buildInput(9),
+      blocked_pairs: [['2', '4'], ['2', '7'], ['3', '4'], ['3', '7']] as [string, string][],
+    };
+    input.assignments[0].max_guests = 3;
+    const greedy = matchGuestsToHosts(input);
+
+    for (const seed of [1, 2, 3]) {
+      const { output } = optimizeMatching(input, greedy, { seed, maxIterations: 3000, timeBudgetMs: 60000 });
+      const atCappedHost = output.course_pairings.filter(p => p.course === 'starter' && p.host_couple_id === '1');
+      expect(atCappedHost.length * 2).toBeLessThanOrEqual(3);
+      expect(output.warnings.some(w => w.type === 'capacity')).toBe(false);
+    }
+  });
+
+  it('warns when the plan it got was already over capacity', () => {
+    const input = buildInput(9);
+    const greedy = matchGuestsToHosts(input);
+    input.assignments[0].max_guests = 3;
+
+    const { output } = optimizeMatching(input, greedy, { seed: 1, maxIterations: 0 });
+    const warning = output.warnings.find(w => w.type === 'capacity');
+    expect(warning?.couple_ids?.[0]).toBe('1');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { runSnapshot, renderMatchReportMarkdown } from '../report';
+import { createTestAssignment, createTestCouple, createTestEvent } from './fixtures';
+
+const event = createTestEvent({ name: 'Testfest' });
+
+describe('Report: runSnapshot', () => {
+  const couples = ['1', '2', '3', '4', '5', '6'].map(id =>
+    createTestCouple(id, { coordinates: { x: 13.0 + Number(id) * 0.01, y: 55.6 } })
+  );
+  const assignments = [
+    createTestAssignment('1', 'starter'), createTestAssignment('2', 'starter'),
+    createTestAssignment('3', 'main'), createTestAssignment('4', 'main'),
+    createTestAssignment('5', 'dessert'), createTestAssignment('6', 'dessert'),
+  ];
+
+  it('should run Step B only when the snapshot has assignments', () => {
+    const report = runSnapshot({ event, couples, assignments });
+
+    expect(report.mode).toBe('step_b');
+    expect(report.pairings.filter(p => p.course === 'starter').map(p => p.host_couple_id).sort())
+      .toEqual(['1', '1', '2', '2']);
+  });
+
+  it('should run Step A again when asked to, or when assignments are missing', () => {
+    expect(runSnapshot({ event, couples, assignments }, { rerunStepA: true }).mode).toBe('full');
+    expect(runSnapshot({ event, couples }).mode).toBe('full');
+  });
+
+  it('should skip cancelled couples and their assignments', () => {
+    const withCancelled = [...couples, createTestCouple('7', { cancelled: true })];
+    const report = runSnapshot({ event, couples: withCancelled, assignments: [...assignments, createTestAssignment('7', 'main')] });
+
+    expect(report.couples).toEqual({ active: 6, skipped: 1 });
+    expect(report.routes.map(r => r.couple_id)).not.toContain('7');
+    expect(report.pairings.some(p => p.host_couple_id === '7' || p.guest_couple_id === '7')).toBe(false);
+  });
+
+  it('should give every couple a route with one stop per course', () => {
+    const report = runSnapshot({ event, couples, assignments });
+    const route = report.routes.find(r => r.couple_id === '3')!;
+
+    expect(route.stops.map(s => s.course)).toEqual(['starter', 'main', 'dessert']);
+    expect(route.stops[1]).toMatchObject({ is_host: true, host_couple_id: '3', address: 'Gatan 3' });
+    expect(route.stops.every(s => s.km !== null)).toBe(true);
+    expect(route.total_km).toBeGreaterThan(0);
+  });
+
+  it('should render pairings, routes and warnings as Markdown', () => {
+    const report = runSnapshot({ event, couples, assignments, blocked_pairs: [['1', '3']] });
+    const markdown = renderMatchReportMarkdown(report);
+
+    expect(markdown).toContain('# Matchningsrapport: Testfest');
+    expect(markdown).toContain('### Förrätt');
+    expect(markdown).toContain('## Rutter');
+    expect(markdown).toContain('🏠 värd');
+    expect(markdown).toContain(`## Varningar (${report.warnings.length})`);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { runWhatIf, diffMatchPlans } from '../simulate';
+import { matchGuestsToHosts } from '../step-b';
+import { optimizeMatching, planOptimizeOptions, inCoupleOrder, stepBRandom } from '../optimize';
+import type { Course } from '@/types/database';
+import { createTestAssignment, createTestCouple, createTestEvent } from './fixtures';
+
+const event = createTestEvent();
+
+describe('What-if: runWhatIf', () => {
+  const couples = ['1', '2', '3', '4', '5', '6'].map(id => createTestCouple(id));
+
+  it('should leave excluded couples out of the proposed plan', () => {
+    const result = runWhatIf({
+      event,
+      couples,
+      assignments: [],
+      blocked_pairs: [],
+      preferences: [],
+      changes: { exclude_couple_ids: ['6'] },
+    });
+
+    const involved = result.stepB.course_pairings.flatMap(p => [p.host_couple_id, p.guest_couple_id]);
+    expect(involved).not.toContain('6');
+    expect(result.stats.couples_matched).toBe(5);
+  });
+
+  it('should apply forced courses to existing assignments', () => {
+    const assignments = [
+      createTestAssignment('1', 'starter'), createTestAssignment('2', 'starter'),
+      createTestAssignment('3', 'main'), createTestAssignment('4', 'main'),
+      createTestAssignment('5', 'dessert'), createTestAssignment('6', 'dessert'),
+    ];
+
+    const result = runWhatIf({
+      event,
+      couples,
+      assignments,
+      blocked_pairs: [],
+      preferences: [],
+      changes: { force_courses: { '1': 'dessert' } },
+    });
+
+    const dessertHosts = new Set(result.stepB.course_pairings.filter(p => p.course === 'dessert').map(p => p.host_couple_id));
+    expect(dessertHosts.has('1')).toBe(true);
+    expect(result.stepB.course_pairings.some(p => p.course === 'starter' && p.host_couple_id === '1')).toBe(false);
+  });
+
+  it('should force a course in Step A on a first match', () => {
+    const result = runWhatIf({
+      event,
+      couples,
+      assignments: [],
+      blocked_pairs: [],
+      preferences: [],
+      changes: { force_courses: { '1': 'main', '2': 'main' } },
+    });
+
+    const mainHosts = new Set(result.stepB.course_pairings.filter(p => p.course === 'main').map(p => p.host_couple_id));
+    expect(mainHosts).toEqual(new Set(['1', '2']));
+  });
+});
+
+describe('What-if: against the active plan', () => {
+  it('should diff empty when nothing changes, whatever order the rows come in', () => {
+    const couples = Array.from({ length: 12 }, (_, i) => createTestCouple(String(i + 1)));
+    const courses: Course[] = ['starter', 'main', 'dessert'];
+    const assignments = couples.map((c, i) => createTestAssignment(c.id, courses[i % 3]));
+    const blocked_pairs: [string, string][] = [['1', '5'], ['2', '9']];
+
+    // The active plan, built the way /api/matching re-matches
+    const optimize = planOptimizeOptions('plan-1');
+    const stepBInput = inCoupleOrder({
+      event_id: 'test-event', match_plan_id: 'plan-1', assignments, couples, blocked_pairs, preferences: [], frozen_courses: [],
+    });
+    const active = optimizeMatching(stepBInput, matchGuestsToHosts(stepBInput, stepBRandom(optimize)), optimize).output;
+
+    // The database hands the rows back in no particular order
+    const result = runWhatIf({
+      event,
+      couples: [...couples].reverse(),
+      assignments: [...assignments].reverse(),
+      blocked_pairs,
+      preferences: [],
+      changes: {},
+      optimize,
+    });
+    const diff = diffMatchPlans(
+      { pairings: active.course_pairings, envelopes: active.envelopes },
+      { pairings: result.stepB.course_pairings, envelopes: result.stepB.envelopes }
+    );
+
+    expect(diff.changed).toEqual([]);
+    expect(diff.envelopes_cancelled).toBe(0);
+    expect(diff.envelopes_created).toBe(0);
+  });
+});
+
+describe('What-if: diffMatchPlans', () => {
+  it('should list moved guests and count cancelled envelopes', () => {
+    const current = {
+      pairings: [
+        { course: 'starter' as Course, host_couple_id: 'h1', guest_couple_id: 'g1' },
+        { course: 'starter' as Course, host_couple_id: 'h1', guest_couple_id: 'g2' },
+      ],
+      envelopes: [
+        { course: 'starter' as Course, couple_id: 'g1', host_couple_id: 'h1' },
+        { course: 'starter' as Course, couple_id: 'g2', host_couple_id: 'h1' },
+        { course: 'starter' as Course, couple_id: 'h1', host_couple_id: 'h1' },
+      ],
+    };
+    const proposed = {
+      pairings: [
+        { course: 'starter' as Course, host_couple_id: 'h1', guest_couple_id: 'g1' },
+        { course: 'starter' as Course, host_couple_id: 'h2', guest_couple_id: 'g2' },
+      ],
+      envelopes: [
+        { course: 'starter' as Course, couple_id: 'g1', host_couple_id: 'h1' },
+        { course: 'starter' as Course, couple_id: 'g2', host_couple_id: 'h2' },
+        { course: 'starter' as Course, couple_id: 'h1', host_couple_id: 'h1' },
+        { course: 'starter' as Course, couple_id: 'h2', host_couple_id: 'h2' },
+      ],
+    };
+
+    const diff = diffMatchPlans(current, proposed);
+
+    expect(diff.unchanged_count).toBe(1);
+    expect(diff.changed).toEqual([
+      { course: 'starter', guest_couple_id: 'g2', from_host_couple_id: 'h1', to_host_couple_id: 'h2' },
+    ]);
+    expect(diff.envelopes_cancelled).toBe(1);
+    expect(diff.envelopes_created).toBe(2);
+  });
+});
@@ -38,6 +38,8 @@ export interface CascadeResult {
   assignmentsRemoved: number;
   assignmentsCreated: number;
   unplacedGuests: string[];
+  /** Guest envelopes that now lead somewhere else (new address or new host) */
+  changedEnvelopes: { couple_id: string; course: Course }[];
   errors: string[];
 }
 
@@ -52,6 +54,7 @@ export async function cascadeChanges(input: CascadeInput): Promise<CascadeResult
     assignmentsRemoved: 0,
     assignmentsCreated: 0,
     unplacedGuests: [],
+    changedEnvelopes: [],
     errors: [],
   };
 
@@ -243,9 +246,13 @@ async function handleAddressChange(
     .eq('match_plan_id', matchPlanId)
     .eq('host_couple_id', coupleId)
     .eq('cancelled', false)
-    .select('id');
+    .select('id, couple_id, course');
 
   result.envelopesUpdated = updated?.length ?? 0;
+  // The host's own envelopes point home; only their guests need telling
+  result.changedEnvelopes = (updated ?? [])
+    .filter(e => e.couple_id !== coupleId)
+    .map(e => ({ couple_id: e.couple_id, course: e.course }));
 
   return result;
 }
@@ -479,9 +486,10 @@ async function handleTransferHost(
         .in('couple_id', guestIds)
         .in('course', courses)
         .eq('cancelled', false)
-        .select('id');
+        .select('id, couple_id, course');
 
       result.envelopesUpdated = updatedEnvelopes?.length ?? 0;
+      result.changedEnvelopes = (updatedEnvelopes ?? []).map(e => ({ couple_id: e.couple_id, course: e.course }));
     }
   }
 
@@ -0,0 +1,226 @@
+/**
+ * STEG C: Skriv kuvert för en matchplan
+ *
+ * Delas av /api/matching (ny plan) och återställning av en äldre planversion,
+ * så att båda går genom samma tidsberäkning och Living Envelope-data.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { populateLivingEnvelopeData } from '@/lib/envelope';
+import { routeEnvelopeLegs } from '@/lib/envelope/legs';
+import { parsePoint, type Coordinates } from '@/lib/geo';
+import type { Assignment, Couple, Course, CoursePairing, Event, EventTiming, StepBOutput } from '@/types/database';
+
+type PairingLike = Pick<CoursePairing, 'course' | 'host_couple_id' | 'guest_couple_id'>;
+
+export interface WritePlanEnvelopesInput {
+  supabase: SupabaseClient;
+  event: Event;
+  couples: Couple[];
+  matchPlanId: string;
+  pairings: PairingLike[];
+  envelopes: StepBOutput['envelopes'];
+}
+
+export interface WritePlanEnvelopesResult {
+  envelopesCreated: number;
+  cluesAllocated: number;
+  streetInfosCreated: number;
+}
+
+type HostAssignmentLike = Pick<Assignment, 'couple_id' | 'course' | 'is_host'>;
+
+/**
+ * Rebuild guest + host envelopes from stored pairings, same shape as Step B:
+ * every host gets their own envelope, guests or not.
+ * Pairings referencing couples that are not in `couples` are skipped.
+ */
+export function buildEnvelopesFromPairings(
+  matchPlanId: string,
+  pairings: PairingLike[],
+  couples: Couple[],
+  assignments: HostAssignmentLike[]
+): StepBOutput['envelopes'] {
+  const coupleMap = new Map(couples.map(c => [c.id, c]));
+  const envelopes: StepBOutput['envelopes'] = [];
+  const hostsSeen = new Set<string>();
+
+  const pushHost = (course: Course, host: Couple) => {
+    const hostKey = `${course}:${host.id}`;
+    if (hostsSeen.has(hostKey)) return;
+    hostsSeen.add(hostKey);
+    envelopes.push({
+      match_plan_id: matchPlanId,
+      couple_id: host.id,
+      course,
+      host_couple_id: host.id,
+      destination_address: host.address,
+      destination_notes: 'Du är värd! Dina gäster kommer till dig.',
+      scheduled_at: new Date().toISOString(),
+      cycling_distance_km: null,
+    });
+  };
+
+  for (const pairing of pairings) {
+    const host = coupleMap.get(pairing.host_couple_id);
+    if (!host || !coupleMap.has(pairing.guest_couple_id)) continue;
+
+    envelopes.push({
+      match_plan_id: matchPlanId,
+      couple_id: pairing.guest_couple_id,
+      course: pairing.course,
+      host_couple_id: host.id,
+      destination_address: host.address,
+      destination_notes: host.address_notes,
+      scheduled_at: new Date().toISOString(),
+      cycling_distance_km: null,
+    });
+    pushHost(pairing.course, host);
+  }
+
+  // Hosts without guests still cook that course at home
+  for (const assignment of assignments) {
+    const host = coupleMap.get(assignment.couple_id);
+    if (assignment.is_host && assignment.course !== 'afterparty' && host) pushHost(assignment.course, host);
+  }
+
+  return envelopes;
+}
+
+/**
+ * Update envelope times based on event schedule
+ */
+export function setEnvelopeTimes(
+  envelopes: StepBOutput['envelopes'],
+  event: Event
+): StepBOutput['envelopes'] {
+  const courseTimeMap: Record<Course, string> = {
+    starter: event.starter_time,
+    main: event.main_time,
+    dessert: event.dessert_time,
+    afterparty: event.afterparty_time ?? '22:00:00',
+  };
+  
+  const eventDate = new Date(event.event_date);
+  const offsetMinutes = event.time_offset_minutes || 0;
+  
+  return envelopes.map(env => {
+    const timeStr = courseTimeMap[env.course];
+    const [hours, minutes] = timeStr.split(':').map(Number);
+    
+    // Create scheduled time
+    const scheduledAt = new Date(eventDate);
+    scheduledAt.setHours(hours, minutes + offsetMinutes, 0, 0);
+    
+    // Subtract envelope_hours_before
+    scheduledAt.setHours(scheduledAt.getHours() - event.envelope_hours_before);
+    
+    return {
+      ...env,
+      scheduled_at: scheduledAt.toISOString(),
+    };
+  });
+}
+
+/**
+ * Insert meal envelopes with scheduled times, then populate clues, street
+ * info, and reveal times from each couple's cycling leg (previous course →
+ * this one). Afterparty envelopes are not touched here.
+ */
+export async function writePlanEnvelopes(input: WritePlanEnvelopesInput): Promise<WritePlanEnvelopesResult> {
+  const { supabase, event, couples, matchPlanId, pairings, envelopes } = input;
+
+  // Save envelopes with proper times
+  const envelopesWithTimes = setEnvelopeTimes(envelopes, event);
+
+  const { error: envError } = await supabase
+    .from('envelopes')
+    .insert(envelopesWithTimes);
+
+  if (envError) {
+    console.error('Envelope error:', envError);
+  }
+
+  // === LIVING ENVELOPE: Populate clues, street info, and timing ===
+
+  // Fetch event timing (or use defaults)
+  const { data: eventTiming } = await supabase
+    .from('event_timing')
+    .select('*')
+    .eq('event_id', event.id)
+    .single();
+
+  // Cycling legs from the previous course location (cached routing service)
+  const coordinates = new Map<string, Coordinates>();
+  for (const couple of couples) {
+    const parsed = parsePoint(couple.coordinates);
+    if (parsed) coordinates.set(couple.id, parsed);
+  }
+  const legs = await routeEnvelopeLegs(envelopes, coordinates, { supabase });
+
+  // Populate living envelope data
+  const populateResult = populateLivingEnvelopeData({
+    event,
+    couples,
+    pairings,
+    envelopes,
+    timing: eventTiming as EventTiming | undefined,
+    legs,
+  });
+
+  // Save course_clues
+  if (populateResult.courseClues.length > 0) {
+    const { error: cluesError } = await supabase
+      .from('course_clues')
+      .upsert(populateResult.courseClues, {
+        onConflict: 'couple_id,course_type'
+      });
+
+    if (cluesError) {
+      console.error('Course clues error:', cluesError);
+    }
+  }
+
+  // Save street_info
+  if (populateResult.streetInfos.length > 0) {
+    const { error: streetError } = await supabase
+      .from('street_info')
+      .upsert(populateResult.streetInfos, {
+        onConflict: 'couple_id'
+      });
+
+    if (streetError) {
+      console.error('Street info error:', streetError);
+    }
+  }
+
+  // Update envelopes with living envelope times
+  for (const update of populateResult.envelopeUpdates) {
+    const { error: updateError } = await supabase
+      .from('envelopes')
+      .update({
+        teasing_at: update.teasing_at,
+        clue_1_at: update.clue_1_at,
+        clue_2_at: update.clue_2_at,
+        street_at: update.street_at,
+        number_at: update.number_at,
+        opened_at: update.opened_at,
+        cycling_minutes: update.cycling_minutes,
+        cycling_distance_km: update.cycling_distance_km,
+        current_state: 'LOCKED',
+      })
+      .eq('match_plan_id', matchPlanId)
+      .eq('couple_id', update.couple_id)
+      .eq('course', update.course);
+
+    if (updateError) {
+      console.error('Envelope update error:', updateError);
+    }
+  }
+
+  return {
+    envelopesCreated: envelopesWithTimes.length,
+    cluesAllocated: populateResult.courseClues.length,
+    streetInfosCreated: populateResult.streetInfos.length,
+  };
+}
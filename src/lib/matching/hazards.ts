@@ -0,0 +1,95 @@
+/**
+ * Allergirisker och tillgänglighet hos värden
+ *
+ * Värdar anger vad som finns i hemmet (katt, hund, nötter i köket) och om
+ * hemmet är tillgängligt (hiss/markplan). En gäst med motsvarande allergi
+ * eller med tillgänglighetsbehov får aldrig placeras där det inte fungerar -
+ * Steg B och optimeringen behandlar båda som hårda constraints.
+ */
+
+import type { Couple, HostHazard } from '@/types/database';
+
+export const HOST_HAZARDS: HostHazard[] = ['cat', 'dog', 'nuts'];
+
+export const HAZARD_LABELS: Record<HostHazard, string> = {
+  cat: 'katt',
+  dog: 'hund',
+  nuts: 'nötter i köket',
+};
+
+// Fritext i allergilistor, t.ex. "nötter", "jordnötter", "mandel". Hela ord,
+// så att "nötkött", "kokosnöt", "coconut" och "nutmeg" inte räknas som nötter.
+const NUT_ALLERGY = new RegExp(
+  '(?:^|[^a-zåäöéü])(?:' + [
+    '(?:jord|hassel|val|pekan|para|cashew|macadamia|pinje)?nöt(?:ter|s?allergi)?',
+    '(?:pea|hazel|wal|pecan|cashew|macadamia|pine|brazil|tree ?)?nuts?',
+    'mandel', 'mandlar', 'almonds?', 'cashews?', 'pistage', 'pistach(?:e|io|ios)', 'pecans?',
+  ].join('|') + ')(?![a-zåäöéü])',
+  'i'
+);
+
+/**
+ * Which of the host's hazards the guest couple is allergic to.
+ * A replacement partner's allergies stand in for the original partner's.
+ */
+export function getHazardConflicts(guest: Couple, host: Couple): HostHazard[] {
+  const hazards = host.host_hazards ?? [];
+  if (hazards.length === 0) return [];
+
+  const replaced = !!guest.replacement_name;
+  const allergies = [
+    ...(guest.invited_allergies ?? []),
+    ...((replaced ? guest.replacement_allergies : guest.partner_allergies) ?? []),
+  ];
+  const petAllergies = [guest.invited_pet_allergy, replaced ? null : guest.partner_pet_allergy];
+
+  return hazards.filter(hazard => {
+    if (hazard === 'nuts') return allergies.some(a => NUT_ALLERGY.test(a));
+    return petAllergies.some(p => p === hazard || p === 'both');
+  });
+}
+
+export function describeHazards(hazards: HostHazard[]): string {
+  return hazards.map(h => HAZARD_LABELS[h]).join(', ');
+}
+
+/** Guest has declared accessibility needs (free text, any non-empty value) */
+export function needsAccessibleHome(couple: Couple): boolean {
+  return !!couple.accessibility_needs?.trim();
+}
+
+/** Guest needs an accessible home and the host has not marked theirs as accessible */
+export function hasAccessibilityConflict(guest: Couple, host: Couple): boolean {
+  return needsAccessibleHome(guest) && host.accessibility_ok !== true;
+}
+
+/** Any hard constraint between guest and host's home */
+export function isUnsuitableHost(guest: Couple, host: Couple): boolean {
+  return hasAccessibilityConflict(guest, host) || getHazardConflicts(guest, host).length > 0;
+}
+
+export interface PlacementBlockers {
+  /** Hosts with room that are not accessible */
+  accessibility: string[];
+  /** Hosts with room the guest is allergic to */
+  allergy: string[];
+  hazards: HostHazard[];
+}
+
+/**
+ * Explain why a guest could not be placed, given the hosts that still had
+ * room. Both lists empty means it was plain lack of capacity.
+ */
+export function findPlacementBlockers(guest: Couple, hostsWithRoom: Couple[]): PlacementBlockers {
+  const blockers: PlacementBlockers = { accessibility: [], allergy: [], hazards: [] };
+  for (const host of hostsWithRoom) {
+    if (host.id === guest.id) continue;
+    if (hasAccessibilityConflict(guest, host)) blockers.accessibility.push(host.id);
+    const hazards = getHazardConflicts(guest, host);
+    if (hazards.length > 0) {
+      blockers.allergy.push(host.id);
+      blockers.hazards.push(...hazards.filter(h => !blockers.hazards.includes(h)));
+    }
+  }
+  return blockers;
+}
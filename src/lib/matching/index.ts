@@ -6,26 +6,58 @@
  * Tvåstegsalgoritm:
  * - STEG A: Tilldela rätter (körs en gång, tillhör event)
  * - STEG B: Matcha gäster (kan köras om vid avhopp, tillhör match_plan)
- * - STEG C: Generera kuvert (automatiskt som del av STEG B)
+ *   + valfri optimering (lokal sökning över Steg B:s giriga resultat)
+ * - STEG C: Generera kuvert (automatiskt som del av STEG B, skrivs via envelopes.ts)
  */
 
 import { assignCourses } from './step-a';
 import { matchGuestsToHosts } from './step-b';
+import { optimizeMatching, stepBRandom, inCoupleOrder, type OptimizeOptions, type OptimizeStats } from './optimize';
 import type { 
   Couple, 
   Assignment, 
-  Course,
   MealCourse,
   StepAInput, 
   StepAOutput, 
-  StepBInput, 
   StepBOutput,
   Event,
+  MatchingPreference,
   MatchingWarning
 } from '@/types/database';
 
-export { assignCourses } from './step-a';
+export {
+  assignCourses,
+  estimateCyclingKm,
+  capacityOf,
+  flexCapacityOf,
+} from './step-a';
 export { matchGuestsToHosts } from './step-b';
+export {
+  optimizeMatching,
+  seedFromString,
+  createRandom,
+  stepBRandom,
+  planOptimizeOptions,
+  inCoupleOrder,
+} from './optimize';
+export type { OptimizeOptions, OptimizeStats } from './optimize';
+export {
+  HOST_HAZARDS,
+  HAZARD_LABELS,
+  getHazardConflicts,
+  describeHazards,
+  needsAccessibleHome,
+  hasAccessibilityConflict,
+  isUnsuitableHost,
+  findPlacementBlockers,
+} from './hazards';
+export type { PlacementBlockers } from './hazards';
+export { runWhatIf, diffMatchPlans } from './simulate';
+export type { WhatIfChanges, WhatIfResult, MatchPlanDiff, PairingChange, PlanSnapshot } from './simulate';
+export { buildEnvelopesFromPairings, setEnvelopeTimes, writePlanEnvelopes } from './envelopes';
+export type { WritePlanEnvelopesInput, WritePlanEnvelopesResult } from './envelopes';
+export { runSnapshot, buildMatchReport, renderMatchReportMarkdown } from './report';
+export type { MatchSnapshot, SnapshotRunOptions, MatchReport, ReportPairing, CoupleRoute, RouteStop } from './report';
 export { cascadeChanges } from './cascade';
 export * from './policy';
 
@@ -36,22 +68,28 @@ export interface FullMatchInput {
   event: Event;
   couples: Couple[];
   blocked_pairs?: [string, string][];
+  preferences?: MatchingPreference[];
+  forced_courses?: Record<string, MealCourse>;
   match_plan_id: string;
+  /** Run local search over the greedy Step B result */
+  optimize?: OptimizeOptions;
 }
 
 export interface FullMatchOutput {
   stepA: StepAOutput;
   stepB: StepBOutput;
   warnings: MatchingWarning[];
+  optimization?: OptimizeStats;
 }
 
 export function runFullMatch(input: FullMatchInput): FullMatchOutput {
-  const { event, couples, blocked_pairs = [], match_plan_id } = input;
+  const { event, couples, blocked_pairs = [], preferences = [], forced_courses, match_plan_id, optimize } = input;
   
   // Step A: Assign courses
   const stepAInput: StepAInput = {
     event_id: event.id,
     couples,
+    forced_courses,
   };
   
   const stepA = assignCourses(stepAInput);
@@ -65,16 +103,24 @@ export function runFullMatch(input: FullMatchInput): FullMatchOutput {
   }));
   
   // Step B: Match guests to hosts
-  const stepBInput: StepBInput = {
+  const stepBInput = inCoupleOrder({
     event_id: event.id,
     match_plan_id,
     assignments,
     couples,
     blocked_pairs,
+    preferences,
     frozen_courses: [],
-  };
+  });
   
-  const stepB = matchGuestsToHosts(stepBInput);
+  let stepB = matchGuestsToHosts(stepBInput, stepBRandom(optimize));
+  let optimization: OptimizeStats | undefined;
+  
+  if (optimize) {
+    const optimized = optimizeMatching(stepBInput, stepB, optimize);
+    stepB = optimized.output;
+    optimization = optimized.stats;
+  }
   
   // Combine warnings
   const warnings = [...stepB.warnings];
@@ -90,6 +136,7 @@ export function runFullMatch(input: FullMatchInput): FullMatchOutput {
     stepA,
     stepB,
     warnings,
+    optimization,
   };
 }
 
@@ -101,8 +148,11 @@ export interface RematchInput {
   couples: Couple[];
   assignments: Assignment[];
   blocked_pairs?: [string, string][];
+  preferences?: MatchingPreference[];
   frozen_courses: MealCourse[];
   match_plan_id: string;
+  /** Run local search over the greedy Step B result */
+  optimize?: OptimizeOptions;
 }
 
 export function runRematch(input: RematchInput): StepBOutput {
@@ -111,53 +161,23 @@ export function runRematch(input: RematchInput): StepBOutput {
     couples, 
     assignments, 
     blocked_pairs = [], 
+    preferences = [],
     frozen_courses,
-    match_plan_id 
+    match_plan_id,
+    optimize
   } = input;
   
-  const stepBInput: StepBInput = {
+  const stepBInput = inCoupleOrder({
     event_id: event.id,
     match_plan_id,
     assignments,
     couples,
     blocked_pairs,
+    preferences,
     frozen_courses,
-  };
-  
-  return matchGuestsToHosts(stepBInput);
-}
-
-/**
- * Update envelope times based on event schedule
- */
-export function setEnvelopeTimes(
-  envelopes: StepBOutput['envelopes'],
-  event: Event
-): StepBOutput['envelopes'] {
-  const courseTimeMap: Record<Course, string> = {
-    starter: event.starter_time,
-    main: event.main_time,
-    dessert: event.dessert_time,
-    afterparty: event.afterparty_time ?? '22:00:00',
-  };
+  });
   
-  const eventDate = new Date(event.event_date);
-  const offsetMinutes = event.time_offset_minutes || 0;
+  const stepB = matchGuestsToHosts(stepBInput, stepBRandom(optimize));
   
-  return envelopes.map(env => {
-    const timeStr = courseTimeMap[env.course];
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    
-    // Create scheduled time
-    const scheduledAt = new Date(eventDate);
-    scheduledAt.setHours(hours, minutes + offsetMinutes, 0, 0);
-    
-    // Subtract envelope_hours_before
-    scheduledAt.setHours(scheduledAt.getHours() - event.envelope_hours_before);
-    
-    return {
-      ...env,
-      scheduled_at: scheduledAt.toISOString(),
-    };
-  });
+  return optimize ? optimizeMatching(stepBInput, stepB, optimize).output : stepB;
 }
@@ -0,0 +1,410 @@
+/**
+ * OPTIMERING: Lokal sökning över Steg B
+ *
+ * Steg B är ett girigt pass i en riktning, så upprepade möten och tvingade
+ * placeringar kan uppstå även när en giltig lösning finns. Här tar vi den
+ * giriga lösningen och byter/flyttar gäster mellan värdar (simulated
+ * annealing) för att minimera en kostnad:
+ *
+ * - Upprepade möten (samma par träffas flera gånger)
+ * - Blockerade par vid samma bord
+ * - Total cykelsträcka (hem → förrätt → huvudrätt → efterrätt)
+ * - Parpreferenser (samma vikter som Steg B)
+ *
+ * Flyttar som skulle placera en gäst hos en värd med allergirisk eller
+ * otillgängligt hem (se hazards.ts), eller ta en värd över max_guests,
+ * provas aldrig - precis som i Steg B är det hårda regler.
+ *
+ * Deterministisk för ett givet seed och samma ordning på indata, så länge
+ * iterationstaket nås innan tidsbudgeten tar slut (se planOptimizeOptions).
+ */
+
+import { parsePoint, calculateHaversineDistance, type Coordinates } from '@/lib/geo';
+import { PREFERENCE_WEIGHTS, collectMeetingWarnings } from './step-b';
+import { isUnsuitableHost } from './hazards';
+import type { Couple, MealCourse, StepBInput, StepBOutput, MatchingWarning } from '@/types/database';
+
+const COURSES: MealCourse[] = ['starter', 'main', 'dessert'];
+
+const COST_WEIGHTS = {
+  repeatMeeting: 100,
+  blocked: 1000,
+  distanceKm: 1,
+  preference: 10, // multiplier on PREFERENCE_WEIGHTS (negative = good)
+};
+
+const DEFAULT_TIME_BUDGET_MS = 2000;
+const DEFAULT_MAX_ITERATIONS = 20000;
+const START_TEMPERATURE = 20;
+const END_TEMPERATURE = 0.05;
+
+export interface OptimizeOptions {
+  seed?: number;
+  timeBudgetMs?: number;
+  maxIterations?: number;
+}
+
+export interface OptimizeStats {
+  seed: number;
+  iterations: number;
+  initial_cost: number;
+  final_cost: number;
+  cycling_km: number;
+}
+
+export interface OptimizeResult {
+  output: StepBOutput;
+  stats: OptimizeStats;
+}
+
+/**
+ * Derive a stable seed from a string, e.g. a match_plan_id, so the same
+ * plan always optimizes the same way.
+ */
+export function seedFromString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32 - small, fast, seedable PRNG
+export function createRandom(seed: number): () => number {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Random source for Step B's guest order: seeded with the optimizer's seed,
+ * so a seeded run reproduces the whole plan, not just the local search.
+ */
+export function stepBRandom(options?: OptimizeOptions): () => number {
+  return options?.seed !== undefined ? createRandom(options.seed) : Math.random;
+}
+
+/**
+ * Optimize options for a match plan: seeded from the plan id and bounded by
+ * iterations only, so the same input always gives the same plan back and a
+ * what-if against the plan only moves what its changes move.
+ */
+export function planOptimizeOptions(planId: string): OptimizeOptions {
+  return { seed: seedFromString(planId), maxIterations: DEFAULT_MAX_ITERATIONS, timeBudgetMs: Infinity };
+}
+
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Step B and the local search walk couples and assignments in array order,
+ * so a seeded plan is only reproducible from the same order: sort by couple id.
+ */
+export function inCoupleOrder(input: StepBInput): StepBInput {
+  return {
+    ...input,
+    couples: [...input.couples].sort((a, b) => compareIds(a.id, b.id)),
+    assignments: [...input.assignments].sort((a, b) => compareIds(a.couple_id, b.couple_id)),
+  };
+}
+
+interface Evaluation {
+  cost: number;
+  cyclingKm: number;
+  meetingCounts: Map<string, number>;
+}
+
+export function optimizeMatching(
+  input: StepBInput,
+  greedy: StepBOutput,
+  options: OptimizeOptions = {}
+): OptimizeResult {
+  const {
+    seed = 1,
+    timeBudgetMs = DEFAULT_TIME_BUDGET_MS,
+    maxIterations = DEFAULT_MAX_ITERATIONS,
+  } = options;
+  const { assignments, couples, blocked_pairs, preferences = [], frozen_courses } = input;
+  const random = createRandom(seed);
+
+  const coupleMap = new Map(couples.filter(c => !c.cancelled && c.confirmed !== false).map(c => [c.id, c]));
+  const maxGuests = new Map<string, number>();
+  for (const a of assignments) {
+    if (a.is_host) maxGuests.set(`${a.course}:${a.couple_id}`, a.max_guests);
+  }
+  const capacityOf = (course: MealCourse, hostId: string) => maxGuests.get(`${course}:${hostId}`) ?? Infinity;
+  const personsOf = (coupleId: string) => coupleMap.get(coupleId)?.person_count || 0;
+  const hostCourse = new Map(assignments.filter(a => a.is_host).map(a => [a.couple_id, a.course]));
+
+  const getMeetingKey = (a: string, b: string) =>
+    a < b ? `${a}:${b}` : `${b}:${a}`;
+
+  const blockedSet = new Set<string>();
+  for (const [a, b] of blocked_pairs) blockedSet.add(getMeetingKey(a, b));
+  const preferenceScores = new Map<string, number>();
+  for (const pref of preferences) {
+    const key = getMeetingKey(pref.couple_id, pref.target_couple_id);
+    if (pref.preference === 'avoid') {
+      blockedSet.add(key);
+    } else {
+      preferenceScores.set(key, (preferenceScores.get(key) || 0) + PREFERENCE_WEIGHTS[pref.preference]);
+    }
+  }
+
+  const unsuitableCache = new Map<string, boolean>();
+  const isUnsuitable = (guestId: string, hostId: string) => {
+    const key = `${guestId}:${hostId}`;
+    if (!unsuitableCache.has(key)) {
+      const guest = coupleMap.get(guestId);
+      const host = coupleMap.get(hostId);
+      unsuitableCache.set(key, !!guest && !!host && isUnsuitableHost(guest, host));
+    }
+    return unsuitableCache.get(key)!;
+  };
+
+  const coords = new Map<string, Coordinates>();
+  for (const couple of coupleMap.values()) {
+    const point = parsePoint(couple.coordinates);
+    if (point) coords.set(couple.id, point);
+  }
+
+  // State: per course, host -> guests (only courses Step B actually produced)
+  const tables = new Map<MealCourse, Map<string, string[]>>();
+  for (const pairing of greedy.course_pairings) {
+    const course = pairing.course as MealCourse;
+    if (frozen_courses.includes(course)) continue;
+    if (!tables.has(course)) tables.set(course, new Map());
+    const courseTables = tables.get(course)!;
+    if (!courseTables.has(pairing.host_couple_id)) courseTables.set(pairing.host_couple_id, []);
+    courseTables.get(pairing.host_couple_id)!.push(pairing.guest_couple_id);
+  }
+  // Hosts without guests are still valid targets
+  for (const a of assignments) {
+    const course = a.course as MealCourse;
+    if (!a.is_host || !tables.has(course) || !coupleMap.has(a.couple_id)) continue;
+    const courseTables = tables.get(course)!;
+    if (!courseTables.has(a.couple_id)) courseTables.set(a.couple_id, []);
+  }
+
+  const optimizedCourses = COURSES.filter(c => tables.has(c));
+
+  const evaluate = (): Evaluation => {
+    const meetingCounts = new Map<string, number>();
+    const guestHost = new Map<string, string>(); // "course:guest" -> host
+    let blocked = 0;
+
+    for (const course of optimizedCourses) {
+      for (const [hostId, guests] of tables.get(course)!) {
+        for (const guestId of guests) guestHost.set(`${course}:${guestId}`, hostId);
+        const table = [hostId, ...guests];
+        for (let i = 0; i < table.length; i++) {
+          for (let j = i + 1; j < table.length; j++) {
+            const key = getMeetingKey(table[i], table[j]);
+            meetingCounts.set(key, (meetingCounts.get(key) || 0) + 1);
+            if (blockedSet.has(key)) blocked++;
+          }
+        }
+      }
+    }
+
+    let repeats = 0;
+    let preference = 0;
+    for (const [key, count] of meetingCounts) {
+      repeats += Math.max(0, count - 1);
+      preference += preferenceScores.get(key) || 0;
+    }
+
+    // Frozen or unplaced courses count as being at home
+    const locationFor = (coupleId: string, course: MealCourse) =>
+      hostCourse.get(coupleId) === course ? coupleId : guestHost.get(`${course}:${coupleId}`) ?? coupleId;
+
+    let cyclingKm = 0;
+    for (const coupleId of coupleMap.keys()) {
+      let from = coords.get(coupleId);
+      for (const course of COURSES) {
+        const to = coords.get(locationFor(coupleId, course));
+        if (from && to) cyclingKm += calculateHaversineDistance(from, to);
+        from = to;
+      }
+    }
+
+    const cost =
+      repeats * COST_WEIGHTS.repeatMeeting +
+      blocked * COST_WEIGHTS.blocked +
+      cyclingKm * COST_WEIGHTS.distanceKm -
+      preference * COST_WEIGHTS.preference;
+
+    return { cost, cyclingKm, meetingCounts };
+  };
+
+  const snapshot = () =>
+    new Map(optimizedCourses.map(course => [
+      course,
+      new Map([...tables.get(course)!].map(([hostId, guests]) => [hostId, [...guests]])),
+    ]));
+
+  const initial = evaluate();
+  let current = initial.cost;
+  let best = initial;
+  let bestTables = snapshot();
+  let iterations = 0;
+
+  // Hard constraint: a host never gains persons past max_guests
+  const wouldOverflow = (course: MealCourse, hostId: string, guests: string[], added: number) =>
+    added > 0 && guests.reduce((sum, id) => sum + personsOf(id), 0) + added > capacityOf(course, hostId);
+
+  const movable = optimizedCourses.filter(course => tables.get(course)!.size > 1);
+  const startedAt = Date.now();
+
+  while (movable.length > 0 && iterations < maxIterations) {
+    if (iterations % 100 === 0 && Date.now() - startedAt > timeBudgetMs) break;
+    iterations++;
+
+    const course = movable[Math.floor(random() * movable.length)];
+    const courseTables = tables.get(course)!;
+    const hostIds = [...courseTables.keys()];
+    const fromHost = hostIds[Math.floor(random() * hostIds.length)];
+    const fromGuests = courseTables.get(fromHost)!;
+    if (fromGuests.length === 0) continue;
+    const toHost = hostIds[Math.floor(random() * hostIds.length)];
+    if (toHost === fromHost) continue;
+    const toGuests = courseTables.get(toHost)!;
+
+    const fromIndex = Math.floor(random() * fromGuests.length);
+    const guestId = fromGuests[fromIndex];
+    const swap = toGuests.length > 0 && random() < 0.5;
+    const toIndex = swap ? Math.floor(random() * toGuests.length) : -1;
+    if (isUnsuitable(guestId, toHost) || (swap && isUnsuitable(toGuests[toIndex], fromHost))) continue;
+
+    const moved = personsOf(guestId) - (swap ? personsOf(toGuests[toIndex]) : 0);
+    if (wouldOverflow(course, toHost, toGuests, moved) || wouldOverflow(course, fromHost, fromGuests, -moved)) continue;
+
+    // Apply move
+    if (swap) {
+      fromGuests[fromIndex] = toGuests[toIndex];
+      toGuests[toIndex] = guestId;
+    } else {
+      fromGuests.splice(fromIndex, 1);
+      toGuests.push(guestId);
+    }
+
+    const candidate = evaluate();
+    const delta = candidate.cost - current;
+    const temperature = START_TEMPERATURE * Math.pow(END_TEMPERATURE / START_TEMPERATURE, iterations / maxIterations);
+
+    if (delta <= 0 || random() < Math.exp(-delta / temperature)) {
+      current = candidate.cost;
+      if (candidate.cost < best.cost) {
+        best = candidate;
+        bestTables = snapshot();
+      }
+    } else if (swap) {
+      toGuests[toIndex] = fromGuests[fromIndex];
+      fromGuests[fromIndex] = guestId;
+    } else {
+      toGuests.pop();
+      fromGuests.splice(fromIndex, 0, guestId);
+    }
+  }
+
+  for (const course of optimizedCourses) tables.set(course, bestTables.get(course)!);
+
+  return {
+    output: buildOutput(input, greedy, tables, best, coupleMap, blockedSet),
+    stats: {
+      seed,
+      iterations,
+      initial_cost: Math.round(initial.cost * 100) / 100,
+      final_cost: Math.round(best.cost * 100) / 100,
+      cycling_km: Math.round(best.cyclingKm * 10) / 10,
+    },
+  };
+}
+
+function buildOutput(
+  input: StepBInput,
+  greedy: StepBOutput,
+  tables: Map<MealCourse, Map<string, string[]>>,
+  best: Evaluation,
+  coupleMap: Map<string, Couple>,
+  blockedSet: Set<string>
+): StepBOutput {
+  const { match_plan_id, preferences = [], frozen_courses, assignments } = input;
+  const getMeetingKey = (a: string, b: string) =>
+    a < b ? `${a}:${b}` : `${b}:${a}`;
+
+  const newHost = new Map<string, string>(); // "course:guest" -> host
+  const forcedGuests = new Set<string>();
+  const pairings: StepBOutput['course_pairings'] = [];
+
+  for (const [course, courseTables] of tables) {
+    for (const [hostId, guests] of courseTables) {
+      const table = [hostId, ...guests];
+      for (const guestId of guests) {
+        newHost.set(`${course}:${guestId}`, hostId);
+        const forced = table.some(other => other !== guestId && blockedSet.has(getMeetingKey(guestId, other)));
+        if (forced) forcedGuests.add(guestId);
+        pairings.push({
+          match_plan_id,
+          course,
+          host_couple_id: hostId,
+          guest_couple_id: guestId,
+          ...(forced ? { forced: true } : {}),
+        });
+      }
+    }
+  }
+
+  const envelopes = greedy.envelopes.map(env => {
+    const hostId = newHost.get(`${env.course}:${env.couple_id}`);
+    if (!hostId || hostId === env.host_couple_id) return env;
+    const host = coupleMap.get(hostId)!;
+    return {
+      ...env,
+      host_couple_id: hostId,
+      destination_address: host.address,
+      destination_notes: host.address_notes,
+    };
+  });
+
+  // Pairwise warnings are recomputed; the rest (unplaced, frozen) carry over
+  const warnings: MatchingWarning[] = greedy.warnings.filter(
+    w => w.type !== 'block' && w.type !== 'unique_meeting' && w.type !== 'preference'
+  );
+  if (forcedGuests.size > 0) {
+    warnings.push({
+      type: 'block',
+      message: `${forcedGuests.size} par tilldelades med relaxerade regler pga blockerade par`,
+      couple_ids: Array.from(forcedGuests),
+    });
+  }
+  // Moves never overflow a host, but a greedy input that did is reported
+  for (const [course, courseTables] of tables) {
+    for (const [hostId, guests] of courseTables) {
+      const max = assignments.find(a => a.is_host && a.course === course && a.couple_id === hostId)?.max_guests;
+      const persons = guests.reduce((sum, id) => sum + (coupleMap.get(id)?.person_count || 0), 0);
+      if (max !== undefined && persons > max) {
+        warnings.push({
+          type: 'capacity',
+          message: `${coupleMap.get(hostId)?.invited_name ?? hostId} har ${persons} gäster för ${course}, max ${max}`,
+          couple_ids: [hostId, ...guests],
+        });
+      }
+    }
+  }
+  warnings.push(...collectMeetingWarnings(best.meetingCounts, coupleMap, preferences, frozen_courses));
+
+  return {
+    course_pairings: pairings,
+    envelopes,
+    warnings,
+    stats: {
+      ...greedy.stats,
+      forced_assignments: forcedGuests.size,
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { Course } from '@/types/database';
+import { getHazardConflicts, describeHazards } from './hazards';
+import type { Couple, Course, HostHazard } from '@/types/database';
 
 export interface RevealWarning {
   type: 'reveal_freeze';
@@ -14,6 +15,12 @@ export interface CapacityWarning {
   max_guests: number;
 }
 
+export interface AllergyWarning {
+  type: 'allergy';
+  message: string;
+  hazards: HostHazard[];
+}
+
 export interface DuplicateAddressWarning {
   type: 'duplicate_address';
   message: string;
@@ -104,6 +111,38 @@ export async function checkCapacityWarning(options: {
   };
 }
 
+export async function checkAllergyWarning(options: {
+  supabase: SupabaseClient;
+  eventId: string;
+  hostCoupleId: string;
+  guestCoupleId: string;
+}): Promise<AllergyWarning | null> {
+  const { supabase, eventId, hostCoupleId, guestCoupleId } = options;
+
+  const { data: couples } = await supabase
+    .from('couples')
+    .select('id, invited_allergies, invited_pet_allergy, partner_allergies, partner_pet_allergy, replacement_name, replacement_allergies, host_hazards')
+    .eq('event_id', eventId)
+    .in('id', [hostCoupleId, guestCoupleId]);
+
+  const host = couples?.find(c => c.id === hostCoupleId);
+  const guest = couples?.find(c => c.id === guestCoupleId);
+  if (!host || !guest) {
+    return null;
+  }
+
+  const hazards = getHazardConflicts(guest as Couple, host as Couple);
+  if (hazards.length === 0) {
+    return null;
+  }
+
+  return {
+    type: 'allergy',
+    message: `⚠️ Gästen är allergisk mot något hos värden (${describeHazards(hazards)})`,
+    hazards,
+  };
+}
+
 export async function checkDuplicateAddressWarning(options: {
   supabase: SupabaseClient;
   eventId: string;
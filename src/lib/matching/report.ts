@@ -0,0 +1,247 @@
+/**
+ * RAPPORT: Kör matchning offline mot en exporterad event-snapshot
+ *
+ * En snapshot (event, par, tilldelningar, blockeringar, preferenser) hämtas
+ * via /api/organizer/events/[eventId]/snapshot och kan sedan köras lokalt med
+ * scripts/match-offline.ts - samma väg som /api/matching, utan databas.
+ * Rapporten innehåller placeringar, varningar, varje pars cykelrutt och
+ * statistik, som JSON och Markdown.
+ */
+
+import { parsePoint, calculateHaversineDistance } from '@/lib/geo';
+import { runWhatIf, type WhatIfResult } from './simulate';
+import type { OptimizeOptions } from './optimize';
+import type {
+  Assignment,
+  Couple,
+  Event,
+  MatchingPreference,
+  MatchingWarning,
+  MatchPlanStats,
+  MealCourse,
+} from '@/types/database';
+
+const COURSES: MealCourse[] = ['starter', 'main', 'dessert'];
+
+export interface MatchSnapshot {
+  exported_at?: string;
+  event: Event;
+  couples: Couple[];
+  /** Existing Step A result; empty or missing means Step A runs too */
+  assignments?: Assignment[];
+  blocked_pairs?: [string, string][];
+  preferences?: MatchingPreference[];
+}
+
+export interface SnapshotRunOptions {
+  /** Ignore the snapshot's assignments and run Step A again */
+  rerunStepA?: boolean;
+  optimize?: OptimizeOptions;
+}
+
+export interface ReportPairing {
+  course: MealCourse;
+  host_couple_id: string;
+  host_name: string;
+  guest_couple_id: string;
+  guest_name: string;
+  persons: number;
+  forced: boolean;
+}
+
+export interface RouteStop {
+  course: MealCourse;
+  /** null when the couple could not be placed for this course */
+  host_couple_id: string | null;
+  host_name: string | null;
+  address: string | null;
+  is_host: boolean;
+  /** Haversine km from the previous stop (or home), null without coordinates */
+  km: number | null;
+}
+
+export interface CoupleRoute {
+  couple_id: string;
+  name: string;
+  stops: RouteStop[];
+  total_km: number;
+}
+
+export interface MatchReport {
+  event: { id: string; name: string; event_date: string };
+  exported_at: string | null;
+  mode: 'full' | 'step_b';
+  couples: { active: number; skipped: number };
+  stats: MatchPlanStats;
+  warnings: MatchingWarning[];
+  pairings: ReportPairing[];
+  routes: CoupleRoute[];
+}
+
+function coupleDisplayName(couple: Couple): string {
+  const partner = couple.replacement_name ?? couple.partner_name;
+  return `${couple.invited_name}${partner ? ` & ${partner}` : ''}`;
+}
+
+/**
+ * Run the snapshot through the same path as /api/matching: Step B only when
+ * assignments exist, otherwise Step A + Step B.
+ */
+export function runSnapshot(snapshot: MatchSnapshot, options: SnapshotRunOptions = {}): MatchReport {
+  const couples = snapshot.couples.filter(c => !c.cancelled && c.confirmed !== false);
+  const activeIds = new Set(couples.map(c => c.id));
+  const assignments = options.rerunStepA
+    ? []
+    : (snapshot.assignments ?? []).filter(a => activeIds.has(a.couple_id));
+
+  const result = runWhatIf({
+    event: snapshot.event,
+    couples,
+    assignments,
+    blocked_pairs: snapshot.blocked_pairs ?? [],
+    preferences: snapshot.preferences ?? [],
+    changes: {},
+    optimize: options.optimize,
+  });
+
+  return buildMatchReport(snapshot, couples, result, assignments.length > 0 ? 'step_b' : 'full');
+}
+
+export function buildMatchReport(
+  snapshot: MatchSnapshot,
+  couples: Couple[],
+  result: WhatIfResult,
+  mode: MatchReport['mode']
+): MatchReport {
+  const coupleMap = new Map(couples.map(c => [c.id, c]));
+  const nameOf = (id: string) => {
+    const couple = coupleMap.get(id);
+    return couple ? coupleDisplayName(couple) : id;
+  };
+
+  const pairings: ReportPairing[] = result.stepB.course_pairings
+    .map(p => ({
+      course: p.course as MealCourse,
+      host_couple_id: p.host_couple_id,
+      host_name: nameOf(p.host_couple_id),
+      guest_couple_id: p.guest_couple_id,
+      guest_name: nameOf(p.guest_couple_id),
+      persons: coupleMap.get(p.guest_couple_id)?.person_count ?? 0,
+      forced: !!p.forced,
+    }))
+    .sort((a, b) =>
+      COURSES.indexOf(a.course) - COURSES.indexOf(b.course) ||
+      a.host_name.localeCompare(b.host_name, 'sv') ||
+      a.guest_name.localeCompare(b.guest_name, 'sv')
+    );
+
+  // Where each couple is per course: their own home (host) or their host's
+  const hostEnvelopes = new Set(
+    result.stepB.envelopes.filter(e => e.couple_id === e.host_couple_id).map(e => `${e.course}:${e.couple_id}`)
+  );
+  const guestHosts = new Map(result.stepB.course_pairings.map(p => [`${p.course}:${p.guest_couple_id}`, p.host_couple_id]));
+
+  const routes: CoupleRoute[] = couples
+    .map(couple => {
+      let position = parsePoint(couple.coordinates);
+      let totalKm = 0;
+      const stops: RouteStop[] = COURSES.map(course => {
+        const isHost = hostEnvelopes.has(`${course}:${couple.id}`);
+        const hostId = isHost ? couple.id : guestHosts.get(`${course}:${couple.id}`) ?? null;
+        const host = hostId ? coupleMap.get(hostId) : undefined;
+        const target = host ? parsePoint(host.coordinates) : null;
+        const km = position && target ? Math.round(calculateHaversineDistance(position, target) * 100) / 100 : null;
+        if (km !== null) totalKm += km;
+        if (target) position = target;
+        return {
+          course,
+          host_couple_id: hostId,
+          host_name: hostId ? nameOf(hostId) : null,
+          address: host?.address ?? null,
+          is_host: isHost,
+          km,
+        };
+      });
+      return { couple_id: couple.id, name: coupleDisplayName(couple), stops, total_km: Math.round(totalKm * 100) / 100 };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name, 'sv'));
+
+  return {
+    event: { id: snapshot.event.id, name: snapshot.event.name, event_date: snapshot.event.event_date },
+    exported_at: snapshot.exported_at ?? null,
+    mode,
+    couples: { active: couples.length, skipped: snapshot.couples.length - couples.length },
+    stats: result.stats,
+    warnings: result.warnings,
+    pairings,
+    routes,
+  };
+}
+
+const COURSE_HEADINGS: Record<MealCourse, string> = {
+  starter: 'Förrätt',
+  main: 'Huvudrätt',
+  dessert: 'Efterrätt',
+};
+
+// Names and addresses are free text - keep them from breaking the table
+const cell = (value: string | number | null) => String(value ?? '–').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export function renderMatchReportMarkdown(report: MatchReport): string {
+  const lines: string[] = [];
+  const { stats } = report;
+
+  lines.push(`# Matchningsrapport: ${report.event.name}`);
+  lines.push('');
+  lines.push(`- Datum: ${report.event.event_date}`);
+  if (report.exported_at) lines.push(`- Snapshot exporterad: ${report.exported_at}`);
+  lines.push(`- Körning: ${report.mode === 'full' ? 'Steg A + Steg B' : 'Steg B (befintliga tilldelningar)'}`);
+  lines.push(`- Par: ${report.couples.active} aktiva, ${report.couples.skipped} avanmälda/obekräftade`);
+  lines.push('');
+
+  lines.push('## Statistik');
+  lines.push('');
+  lines.push('| Mått | Värde |');
+  lines.push('| --- | --- |');
+  lines.push(`| Matchade par | ${stats.couples_matched} |`);
+  lines.push(`| Preferenser uppfyllda | ${Math.round(stats.preference_satisfaction * 100)}% |`);
+  lines.push(`| Kapacitetsutnyttjande | ${Math.round(stats.capacity_utilization * 100)}% |`);
+  lines.push(`| Tvingade placeringar | ${stats.forced_assignments ?? 0} |`);
+  lines.push(`| Förväntad cykelsträcka | ${stats.expected_cycling_km ?? '–'} km |`);
+  lines.push('');
+
+  lines.push(`## Varningar (${report.warnings.length})`);
+  lines.push('');
+  if (report.warnings.length === 0) lines.push('Inga varningar.');
+  for (const warning of report.warnings) lines.push(`- **${warning.type}**: ${warning.message}`);
+  lines.push('');
+
+  lines.push('## Placeringar');
+  for (const course of COURSES) {
+    lines.push('');
+    lines.push(`### ${COURSE_HEADINGS[course]}`);
+    lines.push('');
+    lines.push('| Värd | Gäst | Personer | Tvingad |');
+    lines.push('| --- | --- | --- | --- |');
+    for (const p of report.pairings.filter(p => p.course === course)) {
+      lines.push(`| ${cell(p.host_name)} | ${cell(p.guest_name)} | ${p.persons} | ${p.forced ? '⚠️' : ''} |`);
+    }
+  }
+  lines.push('');
+
+  lines.push('## Rutter');
+  lines.push('');
+  lines.push(`| Par | ${COURSES.map(c => COURSE_HEADINGS[c]).join(' | ')} | Totalt km |`);
+  lines.push(`| --- | ${COURSES.map(() => '---').join(' | ')} | --- |`);
+  for (const route of report.routes) {
+    const stops = route.stops.map(stop => {
+      if (!stop.host_couple_id) return '❌ ej placerad';
+      const where = stop.is_host ? '🏠 värd' : cell(stop.host_name);
+      return stop.km !== null ? `${where} (${stop.km} km)` : where;
+    });
+    lines.push(`| ${cell(route.name)} | ${stops.join(' | ')} | ${route.total_km} |`);
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
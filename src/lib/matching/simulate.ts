@@ -0,0 +1,187 @@
+/**
+ * WHAT-IF: Provkör matchning utan att röra aktiv matchplan
+ *
+ * Organisatören kan justera indata (exkludera par, blockera par, ändra
+ * preferens, tvinga rätt) och se vad som skulle hända: vilka placeringar
+ * som ändras, hur många kuvert som skulle makuleras och hur statistiken rör sig.
+ *
+ * Inget här skriver till databasen - allt körs på kopior av indata.
+ */
+
+import { runFullMatch } from './index';
+import { matchGuestsToHosts } from './step-b';
+import { estimateCyclingKm } from './step-a';
+import { optimizeMatching, stepBRandom, inCoupleOrder, type OptimizeOptions } from './optimize';
+import type {
+  Assignment,
+  Couple,
+  Course,
+  Event,
+  MatchingPreference,
+  MatchingWarning,
+  MatchPlanStats,
+  MealCourse,
+  StepBOutput,
+} from '@/types/database';
+
+export interface WhatIfChanges {
+  exclude_couple_ids?: string[];
+  add_blocks?: [string, string][];
+  /** Replaces any existing preference for the same couple → target */
+  preferences?: MatchingPreference[];
+  /** couple_id -> course the couple must host */
+  force_courses?: Record<string, MealCourse>;
+}
+
+export interface WhatIfInput {
+  event: Event;
+  couples: Couple[];
+  /** Existing assignments; empty means Step A runs as on a first match */
+  assignments: Assignment[];
+  blocked_pairs: [string, string][];
+  preferences: MatchingPreference[];
+  changes: WhatIfChanges;
+  /** Pass planOptimizeOptions(active plan id) to diff against the active plan */
+  optimize?: OptimizeOptions;
+}
+
+export interface WhatIfResult {
+  stepB: StepBOutput;
+  warnings: MatchingWarning[];
+  stats: MatchPlanStats;
+}
+
+export interface PairingChange {
+  course: Course;
+  guest_couple_id: string;
+  from_host_couple_id: string | null;
+  to_host_couple_id: string | null;
+}
+
+export interface MatchPlanDiff {
+  changed: PairingChange[];
+  unchanged_count: number;
+  envelopes_cancelled: number;
+  envelopes_created: number;
+}
+
+type PairingLike = Pick<StepBOutput['course_pairings'][number], 'course' | 'host_couple_id' | 'guest_couple_id'>;
+type EnvelopeLike = Pick<StepBOutput['envelopes'][number], 'couple_id' | 'course' | 'host_couple_id'>;
+
+export interface PlanSnapshot {
+  pairings: PairingLike[];
+  envelopes: EnvelopeLike[];
+}
+
+const WHAT_IF_PLAN_ID = 'what-if';
+
+export function runWhatIf(input: WhatIfInput): WhatIfResult {
+  const { event, changes, optimize } = input;
+  const excluded = new Set(changes.exclude_couple_ids ?? []);
+  const forced = changes.force_courses ?? {};
+
+  const couples = input.couples.filter(c => !excluded.has(c.id));
+  const blocked_pairs = [...input.blocked_pairs, ...(changes.add_blocks ?? [])];
+
+  const overrides = new Map((changes.preferences ?? []).map(p => [`${p.couple_id}:${p.target_couple_id}`, p]));
+  const preferences = [
+    ...input.preferences.filter(p => !overrides.has(`${p.couple_id}:${p.target_couple_id}`)),
+    ...[...overrides.values()].filter(p => p.preference !== 'neutral'),
+  ];
+
+  if (input.assignments.length === 0) {
+    const full = runFullMatch({
+      event,
+      couples,
+      blocked_pairs,
+      preferences,
+      forced_courses: forced,
+      match_plan_id: WHAT_IF_PLAN_ID,
+      optimize,
+    });
+    return {
+      stepB: full.stepB,
+      warnings: full.warnings,
+      stats: {
+        couples_matched: full.stepB.stats.couples_matched,
+        preference_satisfaction: full.stepA.stats.preference_satisfaction,
+        capacity_utilization: full.stepB.stats.capacity_utilization,
+        forced_assignments: full.stepB.stats.forced_assignments,
+        expected_cycling_km: full.stepA.stats.expected_cycling_km,
+      },
+    };
+  }
+
+  // Same path as /api/matching with existing assignments: Step B only
+  const assignments = input.assignments
+    .filter(a => !excluded.has(a.couple_id))
+    .map(a => (forced[a.couple_id] && a.is_host ? { ...a, course: forced[a.couple_id] } : a));
+
+  const stepBInput = inCoupleOrder({
+    event_id: event.id,
+    match_plan_id: WHAT_IF_PLAN_ID,
+    assignments,
+    couples,
+    blocked_pairs,
+    preferences,
+    frozen_courses: [],
+  });
+  // Seeded like the active plan was, so unchanged input gives the same plan back
+  const greedy = matchGuestsToHosts(stepBInput, stepBRandom(optimize));
+  const stepB = optimize ? optimizeMatching(stepBInput, greedy, optimize).output : greedy;
+
+  return {
+    stepB,
+    warnings: stepB.warnings,
+    stats: {
+      couples_matched: stepB.stats.couples_matched,
+      preference_satisfaction: 1,
+      capacity_utilization: stepB.stats.capacity_utilization,
+      forced_assignments: stepB.stats.forced_assignments,
+      expected_cycling_km: estimateCyclingKm(
+        couples,
+        new Map(assignments.filter(a => a.is_host).map(a => [a.couple_id, a.course as MealCourse]))
+      ),
+    },
+  };
+}
+
+/**
+ * Compare two plans' pairings and envelopes. An envelope counts as
+ * cancelled when its couple+course no longer leads to the same host.
+ */
+export function diffMatchPlans(current: PlanSnapshot, proposed: PlanSnapshot): MatchPlanDiff {
+  const pairingKey = (p: PairingLike) => `${p.course}:${p.guest_couple_id}`;
+  const before = new Map(current.pairings.map(p => [pairingKey(p), p]));
+  const after = new Map(proposed.pairings.map(p => [pairingKey(p), p]));
+
+  const changed: PairingChange[] = [];
+  let unchangedCount = 0;
+
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const from = before.get(key);
+    const to = after.get(key);
+    if (from && to && from.host_couple_id === to.host_couple_id) {
+      unchangedCount++;
+      continue;
+    }
+    const ref = (from ?? to)!;
+    changed.push({
+      course: ref.course,
+      guest_couple_id: ref.guest_couple_id,
+      from_host_couple_id: from?.host_couple_id ?? null,
+      to_host_couple_id: to?.host_couple_id ?? null,
+    });
+  }
+
+  const envelopeKey = (e: EnvelopeLike) => `${e.course}:${e.couple_id}:${e.host_couple_id}`;
+  const currentEnvelopes = new Set(current.envelopes.map(envelopeKey));
+  const proposedEnvelopes = new Set(proposed.envelopes.map(envelopeKey));
+
+  return {
+    changed,
+    unchanged_count: unchangedCount,
+    envelopes_cancelled: [...currentEnvelopes].filter(k => !proposedEnvelopes.has(k)).length,
+    envelopes_created: [...proposedEnvelopes].filter(k => !currentEnvelopes.has(k)).length,
+  };
+}
@@ -5,16 +5,43 @@
  * Detta körs EN gång och tillhör eventet (inte match_plan).
  * 
  * Hard Constraints:
- * - Tillräcklig kapacitet per rätt
+ * - Tillräcklig kapacitet per rätt (varje värds egen max_guests, annars standard)
  * 
  * Soft Constraints:
  * - Respektera rättpreferenser
+ * - Geografisk spridning: grannar får olika rätter så att varje område har
+ *   förrätt, huvudrätt och efterrätt nära - korta cykelsträckor mellan rätter
  */
 
+import { parsePoint, calculateHaversineDistance, type Coordinates } from '@/lib/geo';
 import type { Couple, MealCourse, StepAInput, StepAOutput } from '@/types/database';
 
 const COURSES: MealCourse[] = ['starter', 'main', 'dessert'];
 const DEFAULT_MAX_GUESTS = 10; // Ökat för att hantera ojämna fördelningar
+const DEFAULT_FLEX_EXTRA_CAPACITY = 4;
+
+const COURSE_LABELS: Record<MealCourse, string> = {
+  starter: 'förrätt',
+  main: 'huvudrätt',
+  dessert: 'efterrätt',
+};
+
+// Declared capacity is what the couple actually has; only the default gets flex
+export const capacityOf = (couple: Pick<Couple, 'max_guests'>) => couple.max_guests ?? DEFAULT_MAX_GUESTS;
+export const flexCapacityOf = (couple: Pick<Couple, 'max_guests'>) =>
+  couple.max_guests != null ? 0 : DEFAULT_FLEX_EXTRA_CAPACITY;
+
+export const MAX_GUESTS_ERROR = 'Antal gästplatser måste vara 2-20';
+
+/**
+ * Table capacity as a couple declares it (2-20 guests, empty = default).
+ * Returns null for the default and undefined when the value is invalid.
+ */
+export function parseMaxGuests(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  const seats = Number(value);
+  return Number.isInteger(seats) && seats >= 2 && seats <= 20 ? seats : undefined;
+}
 
 interface CourseStats {
   hosts: number;
@@ -24,7 +51,7 @@ interface CourseStats {
 }
 
 export function assignCourses(input: StepAInput): StepAOutput {
-  const { event_id, couples } = input;
+  const { event_id, couples, forced_courses = {} } = input;
   
   // Filter out cancelled and unconfirmed couples
   const activeCouples = couples.filter(c => !c.cancelled && c.confirmed !== false);
@@ -44,11 +71,21 @@ export function assignCourses(input: StepAInput): StepAOutput {
     dessert: { hosts: 0, totalCapacity: 0, guestPersons: 0, couples: [] },
   };
   
+  // Phase 0: Organizer-forced courses are placed first and never moved
+  for (const couple of activeCouples) {
+    const forced = forced_courses[couple.id];
+    if (!forced) continue;
+    courseStats[forced].hosts++;
+    courseStats[forced].totalCapacity += capacityOf(couple);
+    courseStats[forced].couples.push(couple.id);
+  }
+  
   // Separate couples by preference
   const withPreference: Couple[] = [];
   const withoutPreference: Couple[] = [];
   
   for (const couple of activeCouples) {
+    if (forced_courses[couple.id]) continue;
     if (couple.course_preference && (COURSES as readonly string[]).includes(couple.course_preference)) {
       withPreference.push(couple);
     } else {
@@ -69,7 +106,7 @@ export function assignCourses(input: StepAInput): StepAOutput {
     // Check if we can add to preferred course
     if (stats.hosts < targetCouplesPerCourse + 1) {
       stats.hosts++;
-      stats.totalCapacity += DEFAULT_MAX_GUESTS;
+      stats.totalCapacity += capacityOf(couple);
       stats.couples.push(couple.id);
       preferenceSatisfied++;
     } else {
@@ -78,19 +115,90 @@ export function assignCourses(input: StepAInput): StepAOutput {
     }
   }
   
+  const coords = new Map<string, Coordinates>();
+  for (const couple of activeCouples) {
+    const point = parsePoint(couple.coordinates);
+    if (point) coords.set(couple.id, point);
+  }
+  
+  // Distance from a couple to the nearest already-chosen host of a course
+  const nearestHostKm = (coupleId: string, course: MealCourse) => {
+    const from = coords.get(coupleId);
+    if (!from) return 0;
+    let nearest = Infinity;
+    for (const hostId of courseStats[course].couples) {
+      const to = coords.get(hostId);
+      if (to) nearest = Math.min(nearest, calculateHaversineDistance(from, to));
+    }
+    return nearest;
+  };
+  
   // Phase 2: Distribute remaining couples to balance
-  // Sort by least-filled course first
-  for (const couple of withoutPreference) {
+  // Walk neighbours in sequence; among the least-filled courses, pick the one
+  // whose nearest host is farthest away (fills geographic gaps)
+  for (const couple of orderByProximity(withoutPreference, coords)) {
+    const minCount = Math.min(...COURSES.map(c => courseStats[c].hosts));
     const courseNeedingMore = COURSES
-      .map(c => ({ course: c, count: courseStats[c].hosts }))
-      .sort((a, b) => a.count - b.count)[0].course;
+      .filter(c => courseStats[c].hosts === minCount)
+      .map(c => ({ course: c, gap: nearestHostKm(couple.id, c) }))
+      .sort((a, b) => b.gap - a.gap)[0].course;
     
     const stats = courseStats[courseNeedingMore];
     stats.hosts++;
-    stats.totalCapacity += DEFAULT_MAX_GUESTS;
+    stats.totalCapacity += capacityOf(couple);
     stats.couples.push(couple.id);
   }
   
+  // Phase 3: Repair capacity shortages from small tables by swapping
+  // balanced-in couples between courses (preference hosts stay put)
+  const coupleById = new Map(activeCouples.map(c => [c.id, c]));
+  const swappable = new Set(withoutPreference.map(c => c.id));
+  const hostPersons = (course: MealCourse) =>
+    courseStats[course].couples.reduce((sum, id) => sum + coupleById.get(id)!.person_count, 0);
+  const shortage = (course: MealCourse, capacity: number, persons: number) =>
+    Math.max(0, totalPersons - persons - capacity);
+  const totalShortage = () => COURSES.reduce(
+    (sum, c) => sum + shortage(c, courseStats[c].totalCapacity, hostPersons(c)), 0
+  );
+  
+  for (let current = totalShortage(); current > 0;) {
+    let bestSwap: { a: string; b: string; from: MealCourse; to: MealCourse; after: number } | null = null;
+    const persons = { starter: hostPersons('starter'), main: hostPersons('main'), dessert: hostPersons('dessert') };
+    
+    for (const from of COURSES) {
+      for (const to of COURSES) {
+        if (from === to) continue;
+        for (const a of courseStats[from].couples.filter(id => swappable.has(id))) {
+          for (const b of courseStats[to].couples.filter(id => swappable.has(id))) {
+            const coupleA = coupleById.get(a)!;
+            const coupleB = coupleById.get(b)!;
+            const capDelta = capacityOf(coupleB) - capacityOf(coupleA);
+            const personDelta = coupleB.person_count - coupleA.person_count;
+            if (capDelta === 0 && personDelta === 0) continue;
+            
+            const after = COURSES.reduce((sum, c) => {
+              const sign = c === from ? 1 : c === to ? -1 : 0;
+              return sum + shortage(c, courseStats[c].totalCapacity + sign * capDelta, persons[c] + sign * personDelta);
+            }, 0);
+            if (after < (bestSwap?.after ?? current)) {
+              bestSwap = { a, b, from, to, after };
+            }
+          }
+        }
+      }
+    }
+    
+    if (!bestSwap) break;
+    
+    const { a, b, from, to } = bestSwap;
+    const capDelta = capacityOf(coupleById.get(b)!) - capacityOf(coupleById.get(a)!);
+    courseStats[from].couples = courseStats[from].couples.map(id => id === a ? b : id);
+    courseStats[to].couples = courseStats[to].couples.map(id => id === b ? a : id);
+    courseStats[from].totalCapacity += capDelta;
+    courseStats[to].totalCapacity -= capDelta;
+    current = bestSwap.after;
+  }
+  
   // Calculate guest persons per course
   // Guests for course X = everyone NOT hosting course X
   for (const course of COURSES) {
@@ -100,16 +208,20 @@ export function assignCourses(input: StepAInput): StepAOutput {
       .reduce((sum, c) => sum + c.person_count, 0);
   }
   
-  // Validate capacity constraint
-  for (const course of COURSES) {
-    const stats = courseStats[course];
-    if (stats.totalCapacity < stats.guestPersons) {
-      throw new Error(
-        `Otillräcklig kapacitet för ${course}: ` +
-        `${stats.totalCapacity} kapacitet < ${stats.guestPersons} gäster. ` +
-        `Öka antal värdar eller max_guests.`
-      );
-    }
+  // Validate capacity constraint - name every short course and by how much
+  const shortages = COURSES
+    .map(course => ({ course, ...courseStats[course] }))
+    .filter(stats => stats.totalCapacity < stats.guestPersons)
+    .map(stats =>
+      `${COURSE_LABELS[stats.course]} saknar ${stats.guestPersons - stats.totalCapacity} platser ` +
+      `(${stats.totalCapacity} kapacitet < ${stats.guestPersons} gäster)`
+    );
+  
+  if (shortages.length > 0) {
+    throw new Error(
+      `Otillräcklig kapacitet: ${shortages.join(', ')}. ` +
+      `Öka antal värdar eller max_guests.`
+    );
   }
   
   // Build assignments
@@ -117,14 +229,15 @@ export function assignCourses(input: StepAInput): StepAOutput {
   
   for (const course of COURSES) {
     for (const coupleId of courseStats[course].couples) {
+      const couple = coupleById.get(coupleId)!;
       assignments.push({
         event_id,
         couple_id: coupleId,
         course,
         is_host: true,
-        max_guests: DEFAULT_MAX_GUESTS,
+        max_guests: capacityOf(couple),
         is_flex_host: false,
-        flex_extra_capacity: 4,
+        flex_extra_capacity: flexCapacityOf(couple),
         is_emergency_host: false,
       });
     }
@@ -136,10 +249,16 @@ export function assignCourses(input: StepAInput): StepAOutput {
     ? preferenceSatisfied / totalWithPreference
     : 1;
   
+  const hostCourses = new Map<string, MealCourse>();
+  for (const course of COURSES) {
+    for (const coupleId of courseStats[course].couples) hostCourses.set(coupleId, course);
+  }
+  
   return {
     assignments,
     stats: {
       preference_satisfaction: Math.round(preferenceSatisfaction * 100) / 100,
+      expected_cycling_km: estimateCyclingKm(activeCouples, hostCourses),
       capacity_per_course: {
         starter: courseStats.starter.totalCapacity,
         main: courseStats.main.totalCapacity,
@@ -148,3 +267,83 @@ export function assignCourses(input: StepAInput): StepAOutput {
     },
   };
 }
+
+/**
+ * Order couples as a nearest-neighbour chain starting from the westernmost,
+ * so consecutive couples live close to each other. Couples without
+ * coordinates keep their order at the end.
+ */
+function orderByProximity(couples: Couple[], coords: Map<string, Coordinates>): Couple[] {
+  const remaining = couples.filter(c => coords.has(c.id));
+  const withoutCoords = couples.filter(c => !coords.has(c.id));
+  if (remaining.length === 0) return withoutCoords;
+  
+  remaining.sort((a, b) => coords.get(a.id)!.lng - coords.get(b.id)!.lng);
+  const ordered: Couple[] = [remaining.shift()!];
+  
+  while (remaining.length > 0) {
+    const last = coords.get(ordered[ordered.length - 1].id)!;
+    let nearestIndex = 0;
+    let nearestKm = Infinity;
+    remaining.forEach((c, i) => {
+      const km = calculateHaversineDistance(last, coords.get(c.id)!);
+      if (km < nearestKm) {
+        nearestKm = km;
+        nearestIndex = i;
+      }
+    });
+    ordered.push(remaining.splice(nearestIndex, 1)[0]);
+  }
+  
+  return [...ordered, ...withoutCoords];
+}
+
+/**
+ * Expected cycling distance (km) for a course assignment: every couple rides
+ * home → förrätt → huvudrätt → efterrätt, assuming the nearest host of each
+ * course. Step B decides the actual tables, so this is an estimate.
+ */
+export function estimateCyclingKm(couples: Couple[], hostCourses: Map<string, MealCourse>): number {
+  const coords = new Map<string, Coordinates>();
+  for (const couple of couples) {
+    const point = parsePoint(couple.coordinates);
+    if (point) coords.set(couple.id, point);
+  }
+  
+  const hostsByCourse: Record<MealCourse, Coordinates[]> = { starter: [], main: [], dessert: [] };
+  for (const [coupleId, course] of hostCourses) {
+    const point = coords.get(coupleId);
+    if (point) hostsByCourse[course].push(point);
+  }
+  
+  let totalKm = 0;
+  for (const couple of couples) {
+    let position = coords.get(couple.id);
+    if (!position) continue;
+    
+    for (const course of COURSES) {
+      if (hostCourses.get(couple.id) === course) {
+        const home = coords.get(couple.id)!;
+        totalKm += calculateHaversineDistance(position, home);
+        position = home;
+        continue;
+      }
+      
+      let nearest: Coordinates | null = null;
+      let nearestKm = Infinity;
+      for (const host of hostsByCourse[course]) {
+        const km = calculateHaversineDistance(position, host);
+        if (km < nearestKm) {
+          nearestKm = km;
+          nearest = host;
+        }
+      }
+      if (nearest) {
+        totalKm += nearestKm;
+        position = nearest;
+      }
+    }
+  }
+  
+  return Math.round(totalKm * 10) / 10;
+}
@@ -7,17 +7,31 @@
  * Hard Constraints:
  * 1. Kapacitet - varje värd har max_guests
  * 2. Ingen hos sig själv - värdar äter inte hemma
- * 3. Blockade par - får aldrig mötas
+ * 3. Blockade par - får aldrig mötas (inkl. preferens 'avoid')
  * 4. Unika möten - samma par träffas max 1 gång per kväll
+ * 5. Allergier - aldrig hos värd med katt/hund/nötter som gästen inte tål
+ * 6. Tillgänglighet - par med tillgänglighetsbehov bara hos tillgänglig värd
+ *    (5 och 6 släpps inte ens i det relaxerade passet)
  * 
  * Soft Constraints:
  * - Jämn fördelning
+ * - Parpreferenser (preferred/low/known) viktas in i poängen
  */
 
-import type { Assignment, Couple, MealCourse, StepBInput, StepBOutput, MatchingWarning, CoursePairing, Envelope } from '@/types/database';
+import { isUnsuitableHost, findPlacementBlockers, describeHazards } from './hazards';
+import type { Assignment, Couple, CouplePreferenceLevel, MatchingPreference, MealCourse, StepBInput, StepBOutput, MatchingWarning, CoursePairing, Envelope } from '@/types/database';
 
 const COURSES: MealCourse[] = ['starter', 'main', 'dessert'];
 
+// Poäng per möte med ett par man har preferens för. Håll under
+// unika-möten-straffet (100) så att preferenser aldrig trumfar det.
+export const PREFERENCE_WEIGHTS: Record<Exclude<CouplePreferenceLevel, 'avoid'>, number> = {
+  preferred: 0.5,
+  neutral: 0,
+  low: -0.25,
+  known: -0.5,
+};
+
 interface HostSlot {
   coupleId: string;
   address: string;
@@ -27,13 +41,18 @@ interface HostSlot {
   assignedPersons: number;
 }
 
-export function matchGuestsToHosts(input: StepBInput): StepBOutput {
+/**
+ * `random` orders the guests before the greedy pass; pass a seeded one
+ * (createRandom in optimize.ts) to get the same plan for the same input.
+ */
+export function matchGuestsToHosts(input: StepBInput, random: () => number = Math.random): StepBOutput {
   const { 
     event_id, 
     match_plan_id, 
     assignments, 
     couples, 
     blocked_pairs,
+    preferences = [],
     frozen_courses 
   } = input;
   
@@ -57,13 +76,45 @@ export function matchGuestsToHosts(input: StepBInput): StepBOutput {
     blockedSet.add(`${b}:${a}`);
   }
   
+  // 'avoid' is a hard block; other preferences add a soft score (summed over both directions)
+  const preferenceScores = new Map<string, number>();
+  for (const pref of preferences) {
+    const { couple_id: a, target_couple_id: b } = pref;
+    if (pref.preference === 'avoid') {
+      blockedSet.add(`${a}:${b}`);
+      blockedSet.add(`${b}:${a}`);
+      continue;
+    }
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    preferenceScores.set(key, (preferenceScores.get(key) || 0) + PREFERENCE_WEIGHTS[pref.preference]);
+  }
+  
   // Helper to check if two couples are blocked
   const isBlocked = (a: string, b: string) => blockedSet.has(`${a}:${b}`);
   
+  // Helper for allergy/accessibility constraints (memoized, checked for every slot)
+  const unsuitableCache = new Map<string, boolean>();
+  const isUnsuitable = (guestId: string, hostId: string) => {
+    const key = `${guestId}:${hostId}`;
+    if (!unsuitableCache.has(key)) {
+      unsuitableCache.set(key, isUnsuitableHost(coupleMap.get(guestId)!, coupleMap.get(hostId)!));
+    }
+    return unsuitableCache.get(key)!;
+  };
+  
   // Helper to get meeting key (sorted for consistency)
   const getMeetingKey = (a: string, b: string) => 
     a < b ? `${a}:${b}` : `${b}:${a}`;
   
+  // Helper to sum preference score for meeting host + everyone already at the table
+  const getPreferenceScore = (coupleId: string, hostId: string, existingGuests: string[]) => {
+    let score = preferenceScores.get(getMeetingKey(coupleId, hostId)) || 0;
+    for (const guestId of existingGuests) {
+      score += preferenceScores.get(getMeetingKey(coupleId, guestId)) || 0;
+    }
+    return score;
+  };
+  
   // Helper to check if adding a meeting would violate uniqueness
   const wouldViolateUniqueness = (coupleId: string, hostId: string, existingGuests: string[]) => {
     // Check meeting with host
@@ -112,8 +163,12 @@ export function matchGuestsToHosts(input: StepBInput): StepBOutput {
       };
     });
     
-    // Sort guests randomly for fair distribution
-    const shuffledGuests = [...guestCoupleIds].sort(() => Math.random() - 0.5);
+    // Shuffle guests for fair distribution (Fisher-Yates)
+    const shuffledGuests = [...guestCoupleIds];
+    for (let i = shuffledGuests.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffledGuests[i], shuffledGuests[j]] = [shuffledGuests[j], shuffledGuests[i]];
+    }
     
     const assignGuestToHost = (guestId: string, allowBlocked: boolean) => {
       const guest = coupleMap.get(guestId)!;
@@ -127,6 +182,9 @@ export function matchGuestsToHosts(input: StepBInput): StepBOutput {
         // Hard constraint: no eating at own place
         if (host.coupleId === guestId) continue;
 
+        // Hard constraint: guest allergic to the host's home, or needs it accessible
+        if (isUnsuitable(guestId, host.coupleId)) continue;
+
         // Hard constraint: blocked pairs (optional)
         if (!allowBlocked) {
           if (isBlocked(guestId, host.coupleId)) continue;
@@ -144,6 +202,8 @@ export function matchGuestsToHosts(input: StepBInput): StepBOutput {
           score -= 100; // Heavy penalty but still possible
         }
 
+        score += getPreferenceScore(guestId, host.coupleId, host.assignedGuests);
+
         if (score > bestScore) {
           bestScore = score;
           bestHost = host;
@@ -185,11 +245,34 @@ export function matchGuestsToHosts(input: StepBInput): StepBOutput {
           forcedPairings.add(`${course}:${host.coupleId}:${guestId}`);
           forcedGuests.add(guestId);
         } else {
-          warnings.push({
-            type: 'capacity',
-            message: `Kunde inte placera ${guest.invited_name} för ${course}`,
-            couple_ids: [guestId],
-          });
+          // Was there room somewhere that allergies/accessibility ruled out?
+          const blockers = findPlacementBlockers(
+            guest,
+            hostSlots
+              .filter(h => h.assignedPersons + guest.person_count <= h.maxGuests)
+              .map(h => coupleMap.get(h.coupleId)!)
+          );
+          if (blockers.accessibility.length > 0) {
+            warnings.push({
+              type: 'accessibility',
+              message: `Kunde inte placera ${guest.invited_name} för ${course}: behöver tillgänglig bostad, värdar med plats är inte tillgängliga`,
+              couple_ids: [guestId, ...blockers.accessibility],
+            });
+          }
+          if (blockers.allergy.length > 0) {
+            warnings.push({
+              type: 'allergy',
+              message: `Kunde inte placera ${guest.invited_name} för ${course}: värdar med plats har ${describeHazards(blockers.hazards)}`,
+              couple_ids: [guestId, ...blockers.allergy],
+            });
+          }
+          if (blockers.accessibility.length === 0 && blockers.allergy.length === 0) {
+            warnings.push({
+              type: 'capacity',
+              message: `Kunde inte placera ${guest.invited_name} för ${course}`,
+              couple_ids: [guestId],
+            });
+          }
         }
       }
     }
@@ -243,19 +326,7 @@ export function matchGuestsToHosts(input: StepBInput): StepBOutput {
     });
   }
 
-  // Validate uniqueness constraint
-  for (const [key, count] of meetingCounts) {
-    if (count > 1) {
-      const [a, b] = key.split(':');
-      const coupleA = coupleMap.get(a);
-      const coupleB = coupleMap.get(b);
-      warnings.push({
-        type: 'unique_meeting',
-        message: `${coupleA?.invited_name || a} och ${coupleB?.invited_name || b} träffas ${count} gånger`,
-        couple_ids: [a, b],
-      });
-    }
-  }
+  warnings.push(...collectMeetingWarnings(meetingCounts, coupleMap, preferences, frozen_courses));
   
   // Calculate stats
   const totalCouples = coupleMap.size;
@@ -280,3 +351,65 @@ export function matchGuestsToHosts(input: StepBInput): StepBOutput {
     },
   };
 }
+
+/**
+ * Warnings derived from who meets whom: repeat meetings and preferences
+ * that could not be honoured. Shared with the optimizer so both stages
+ * report the same way.
+ */
+export function collectMeetingWarnings(
+  meetingCounts: Map<string, number>,
+  coupleMap: Map<string, Couple>,
+  preferences: MatchingPreference[],
+  frozenCourses: MealCourse[]
+): MatchingWarning[] {
+  const warnings: MatchingWarning[] = [];
+  const getMeetingKey = (a: string, b: string) => 
+    a < b ? `${a}:${b}` : `${b}:${a}`;
+
+  // Validate uniqueness constraint
+  for (const [key, count] of meetingCounts) {
+    if (count > 1) {
+      const [a, b] = key.split(':');
+      const coupleA = coupleMap.get(a);
+      const coupleB = coupleMap.get(b);
+      warnings.push({
+        type: 'unique_meeting',
+        message: `${coupleA?.invited_name || a} och ${coupleB?.invited_name || b} träffas ${count} gånger`,
+        couple_ids: [a, b],
+      });
+    }
+  }
+  
+  // Report preferences that could not be honoured
+  for (const pref of preferences) {
+    const { couple_id: a, target_couple_id: b } = pref;
+    if (!coupleMap.has(a) || !coupleMap.has(b)) continue;
+    const met = (meetingCounts.get(getMeetingKey(a, b)) || 0) > 0;
+    const nameA = coupleMap.get(a)!.invited_name;
+    const nameB = coupleMap.get(b)!.invited_name;
+    
+    if (met && pref.preference === 'avoid') {
+      warnings.push({
+        type: 'preference',
+        message: `${nameA} och ${nameB} skulle inte mötas men placerades tillsammans`,
+        couple_ids: [a, b],
+      });
+    } else if (met && pref.preference === 'known') {
+      warnings.push({
+        type: 'preference',
+        message: `${nameA} och ${nameB} har träffats förut men möts igen`,
+        couple_ids: [a, b],
+      });
+    } else if (!met && pref.preference === 'preferred' && frozenCourses.length === 0) {
+      // Frozen courses' meetings are unknown here, so only judge full runs
+      warnings.push({
+        type: 'preference',
+        message: `${nameA} och ${nameB} var prioriterade men möts inte`,
+        couple_ids: [a, b],
+      });
+    }
+  }
+
+  return warnings;
+}
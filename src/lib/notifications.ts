@@ -0,0 +1,532 @@
+/**
+ * Participant notifications
+ *
+ * Message per notification type and person (see lib/recipients), enqueued
+ * in the notifications table (idempotent per key) once per channel the
+ * organizer picked for the type (lib/channels), and sent by the queue worker.
+ * Each person gets their own signed link and opt-out link. Push goes to
+ * every browser the person turned it on in (push_subscriptions). Emails are
+ * rendered with the event's branding when enqueued (lib/emails).
+ * A failed send stays queued with exponential backoff until it is sent,
+ * bounces or runs out of attempts - /api/cron/notifications drains it.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  channelsFor, getChannelProvider, subscriptionAddress, toPushText, toSmsText,
+  type Channel, type ChannelError, type NotificationChannels,
+} from '@/lib/channels';
+import { emailBranding, renderEmail } from '@/lib/emails';
+import { buildTokenUrl } from '@/lib/tokens';
+import { reachableRecipients, type PersonType, type Recipient, type RecipientCouple } from '@/lib/recipients';
+import type { EmailBrandingSettings, EnvelopeState, Notification, NotificationStatus } from '@/types/database';
+
+export type NotificationType = 'assignment' | 'envelope_ready' | 'reminder' | 'envelope_changed' | 'envelope_reveal';
+
+/** Envelope states worth a push of their own (envelope_reveal) */
+export type RevealState = Extract<EnvelopeState, 'STREET' | 'NUMBER' | 'OPEN'>;
+
+export interface NotificationEvent {
+  id: string;
+  name: string;
+  slug: string;
+  active_match_plan_id: string | null;
+  notification_channels?: NotificationChannels | null;
+  email_branding?: EmailBrandingSettings | null;
+}
+
+export interface NotificationCouple extends RecipientCouple {
+  assignments?: { course: string }[];
+}
+
+export interface NotificationOptions {
+  course?: string;
+  /** envelope_changed because the course was pushed back, not a new address */
+  delayMinutes?: number;
+  /** envelope_reveal: what was just revealed */
+  state?: RevealState;
+  /** Appended to the idempotency key so the same kind of change can be announced again */
+  idempotencySuffix?: string;
+}
+
+export interface NotificationResult {
+  couple_id: string;
+  person_type?: PersonType;
+  /** queued = enqueued, first attempt failed and will be retried; error = nobody to reach */
+  status: NotificationStatus | 'already_sent' | 'error';
+  channel?: Channel;
+  /** Email address, phone number or push subscription id */
+  to?: string;
+  notification_id?: string;
+}
+
+export const MAX_NOTIFICATION_ATTEMPTS = 5;
+
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// Claimed rows are pushed this far ahead so a parallel worker skips them
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+// Resend errors that will fail the same way on every retry (bad recipient address),
+// and a push subscription the browser has dropped
+const PERMANENT_ERRORS = ['validation_error', 'invalid_parameter', 'missing_required_field', 'invalid_recipient', 'subscription_gone'];
+
+const COURSE_LABELS: Record<string, string> = {
+  starter: 'förrätt',
+  main: 'huvudrätt',
+  dessert: 'efterrätt',
+};
+
+// Where each type's link points; the token identifies the person
+const LINK_PAGES: Record<NotificationType, string> = {
+  assignment: 'my',
+  envelope_ready: 'live',
+  reminder: 'live',
+  envelope_changed: 'live',
+  envelope_reveal: 'live',
+};
+
+// Button text in the email, per link page
+const LINK_LABELS: Record<string, string> = {
+  my: 'Till min sida →',
+  live: 'Öppna kuvertet →',
+};
+
+const MISSING_ADDRESS: Record<Channel, string> = {
+  email: 'Ingen e-postadress',
+  sms: 'Inget telefonnummer',
+  push: 'Push-prenumerationen finns inte längre',
+};
+
+function appUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'https://cykelfesten.vercel.app';
+}
+
+/** Signed link that unsubscribes this one person */
+export function optOutUrl(recipient: Pick<Recipient, 'couple_id' | 'person_type'>): string {
+  return buildTokenUrl(`${appUrl()}/api/notifications/opt-out`, recipient.couple_id, recipient.person_type);
+}
+
+export function buildNotificationContent(
+  type: NotificationType,
+  event: NotificationEvent,
+  couple: NotificationCouple,
+  recipient: Recipient,
+  options: NotificationOptions = {}
+): { subject: string; message: string; body: string; sms: string; push: string; link: string; linkLabel: string } {
+  const { subject, body } = buildMessage(type, event, couple, recipient, options);
+  const link = buildTokenUrl(`${appUrl()}/e/${event.slug}/${LINK_PAGES[type]}`, couple.id, recipient.person_type);
+  return {
+    subject,
+    message: body,
+    body: `${body}\n\n🔗 ${link}\n\n–\nVill du inte få fler utskick om ${event.name}? Avregistrera dig här: ${optOutUrl(recipient)}`,
+    sms: toSmsText(subject, link),
+    push: toPushText(body),
+    link,
+    linkLabel: LINK_LABELS[LINK_PAGES[type]],
+  };
+}
+
+/** The HTML part of a notification email: the message on the event's email layout */
+export async function renderNotificationEmail(
+  event: NotificationEvent,
+  recipient: Pick<Recipient, 'couple_id' | 'person_type'>,
+  content: { subject: string; message: string; link: string; linkLabel: string }
+): Promise<string> {
+  const { html } = await renderEmail('notification', {
+    branding: emailBranding(event),
+    subject: content.subject,
+    message: content.message,
+    link: content.link,
+    linkLabel: content.linkLabel,
+    optOutUrl: optOutUrl(recipient),
+  });
+  return html;
+}
+
+function buildMessage(
+  type: NotificationType,
+  event: NotificationEvent,
+  couple: NotificationCouple,
+  recipient: Recipient,
+  options: NotificationOptions
+): { subject: string; body: string } {
+  const { course, delayMinutes, state } = options;
+  const courseLabel = course ? COURSE_LABELS[course] || course : '';
+  const name = recipient.name;
+
+  switch (type) {
+    case 'assignment':
+      return {
+        subject: `🍽️ Din uppgift på ${event.name}`,
+        body: `Hej ${name}!\n\nNi har blivit tilldelade att laga ${COURSE_LABELS[couple.assignments?.[0]?.course ?? ''] || 'okänd rätt'} på ${event.name}.\n\nLogga in för att se mer detaljer och era gästers allergier.`,
+      };
+
+    case 'envelope_ready':
+      return {
+        subject: `✉️ Kuvertet för ${courseLabel} är öppet!`,
+        body: `Hej ${name}!\n\nKuvertet för ${courseLabel} är nu öppet. Öppna det för att se var ni ska!`,
+      };
+
+    case 'reminder':
+      return {
+        subject: `⏰ Påminnelse: ${event.name} börjar snart!`,
+        body: `Hej ${name}!\n\n${event.name} börjar snart. Glöm inte att kolla era kuvert!`,
+      };
+
+    case 'envelope_changed':
+      if (delayMinutes) {
+        return {
+          subject: `⏱️ ${courseLabel.charAt(0).toUpperCase() + courseLabel.slice(1)} är försenad ${delayMinutes} min`,
+          body: `Hej ${name}!\n\nKvällen drar ut lite på tiden - ${courseLabel} börjar ${delayMinutes} minuter senare än planerat. Kuvertets ledtrådar och adress avslöjas också senare, ingen stress!`,
+        };
+      }
+      return {
+        subject: `📍 Uppdaterad adress för ${courseLabel}`,
+        body: `Hej ${name}!\n\nDet har blivit en ändring i kvällens planering och adressen för ${courseLabel} är uppdaterad. Öppna kuvertet för att se den nya adressen.`,
+      };
+
+    case 'envelope_reveal':
+      if (state === 'STREET') {
+        return {
+          subject: `🚲 Gatan för ${courseLabel} är avslöjad!`,
+          body: `Hej ${name}!\n\nNu står gatan i kuvertet för ${courseLabel}. Dags att hoppa på cykeln!`,
+        };
+      }
+      if (state === 'NUMBER') {
+        return {
+          subject: `🏠 Husnumret för ${courseLabel} är avslöjat!`,
+          body: `Hej ${name}!\n\nNu står hela adressen i kuvertet för ${courseLabel}. Snart framme!`,
+        };
+      }
+      return {
+        subject: `✉️ Kuvertet för ${courseLabel} är öppet!`,
+        body: `Hej ${name}!\n\nKuvertet för ${courseLabel} är öppet - se vilka som står för maten. Smaklig måltid!`,
+      };
+  }
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: 1, 2, 4, 8 ... min, at most an hour.
+ */
+export function notificationBackoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+}
+
+export type DeliveryError = ChannelError;
+
+/**
+ * What a failed attempt means for the row: bounced if the address is bad,
+ * failed when out of attempts, otherwise queued again after the backoff.
+ */
+export function deliveryOutcome(
+  attempts: number,
+  error: DeliveryError,
+  now: Date
+): { status: NotificationStatus; next_attempt_at: string; last_error: string } {
+  const last_error = error.name ? `${error.name}: ${error.message}` : error.message;
+
+  if (error.name && PERMANENT_ERRORS.includes(error.name)) {
+    return { status: 'bounced', next_attempt_at: now.toISOString(), last_error };
+  }
+  if (attempts >= MAX_NOTIFICATION_ATTEMPTS) {
+    return { status: 'failed', next_attempt_at: now.toISOString(), last_error };
+  }
+  return {
+    status: 'queued',
+    next_attempt_at: new Date(now.getTime() + notificationBackoffMs(attempts)).toISOString(),
+    last_error,
+  };
+}
+
+/**
+ * The invited person's email has no suffix, so keys from before partners
+ * and SMS were notified still match. Push keys end with the subscription,
+ * one notification per browser.
+ */
+export function notificationIdempotencyKey(
+  matchPlanId: string | null,
+  coupleId: string,
+  type: NotificationType,
+  options: NotificationOptions = {},
+  personType: PersonType = 'invited',
+  channel: Channel = 'email',
+  pushSubscriptionId?: string
+): string {
+  const { course, state, idempotencySuffix } = options;
+  return `${matchPlanId}:${coupleId}:${type}${course ? `:${course}` : ''}${state ? `:${state}` : ''}${idempotencySuffix ? `:${idempotencySuffix}` : ''}${personType === 'partner' ? ':partner' : ''}${channel === 'email' ? '' : `:${channel}`}${pushSubscriptionId ? `:${pushSubscriptionId}` : ''}`;
+}
+
+/**
+ * Put one notification per reachable person and channel on the queue
+ * (per browser for push). People who opted out are left out, and so are
+ * channels we have no address for; notifications with the same
+ * idempotency key are skipped.
+ */
+export async function enqueueNotifications(
+  supabase: SupabaseClient,
+  event: NotificationEvent,
+  couples: NotificationCouple[],
+  type: NotificationType,
+  options: NotificationOptions = {}
+): Promise<NotificationResult[]> {
+  const channels = channelsFor(event.notification_channels, type);
+  const results: NotificationResult[] = [];
+  if (channels.length === 0) return results;
+
+  const subscriptions = channels.includes('push')
+    ? await loadPushSubscriptions(supabase, couples.map(c => c.id))
+    : [];
+
+  for (const couple of couples) {
+    let reached = false;
+
+    for (const recipient of reachableRecipients(couple)) {
+      for (const channel of channels) {
+        const addresses = channel === 'push'
+          ? subscriptions
+            .filter(s => s.couple_id === couple.id && s.person_type === recipient.person_type)
+            .map(s => s.id)
+          : [channel === 'sms' ? recipient.phone : recipient.email];
+
+        for (const to of addresses) {
+          if (!to) continue;
+          results.push(await enqueueOne(supabase, event, couple, recipient, channel, to, type, options));
+          reached = true;
+        }
+      }
+    }
+
+    if (!reached) {
+      results.push({ couple_id: couple.id, status: 'error' });
+    }
+  }
+
+  return results;
+}
+
+async function enqueueOne(
+  supabase: SupabaseClient,
+  event: NotificationEvent,
+  couple: NotificationCouple,
+  recipient: Recipient,
+  channel: Channel,
+  to: string,
+  type: NotificationType,
+  options: NotificationOptions
+): Promise<NotificationResult> {
+  const matchPlanId = event.active_match_plan_id;
+  const pushSubscriptionId = channel === 'push' ? to : undefined;
+  const idempotencyKey = notificationIdempotencyKey(matchPlanId, couple.id, type, options, recipient.person_type, channel, pushSubscriptionId);
+  const person = { couple_id: couple.id, person_type: recipient.person_type, channel, to };
+
+  const { data: existing } = await supabase
+    .from('notifications')
+    .select('id')
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  if (existing) {
+    return { ...person, status: 'already_sent', notification_id: existing.id };
+  }
+
+  const built = buildNotificationContent(type, event, couple, recipient, options);
+  const { subject, body, sms, push, link } = built;
+  const content = channel === 'push'
+    ? { subject, body: push, course: options.course, url: link }
+    : channel === 'sms'
+      ? { subject, body: sms, course: options.course }
+      : { subject, body, course: options.course, html: await renderNotificationEmail(event, recipient, built) };
+
+  // The unique index on idempotency_key catches a parallel request that got here first
+  const { data: inserted, error: insertError } = await supabase
+    .from('notifications')
+    .insert({
+      event_id: event.id,
+      match_plan_id: matchPlanId,
+      couple_id: couple.id,
+      person_type: recipient.person_type,
+      channel,
+      notification_type: type,
+      content,
+      idempotency_key: idempotencyKey,
+      recipient_email: channel === 'email' ? to : null,
+      recipient_phone: channel === 'sms' ? to : null,
+      push_subscription_id: pushSubscriptionId ?? null,
+      status: 'queued',
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !inserted) {
+    return { ...person, status: insertError?.code === '23505' ? 'already_sent' : 'error' };
+  }
+
+  return { ...person, status: 'queued', notification_id: inserted.id };
+}
+
+export interface DrainOptions {
+  /** Only these rows (still only if queued and due) */
+  ids?: string[];
+  limit?: number;
+  now?: Date;
+}
+
+export interface DrainResult {
+  id: string;
+  couple_id: string;
+  status: NotificationStatus;
+  error?: string;
+}
+
+type QueuedNotification = Pick<Notification, 'id' | 'couple_id' | 'channel' | 'content' | 'recipient_email' | 'recipient_phone' | 'push_subscription_id' | 'attempts'>;
+
+async function loadPushSubscriptions(
+  supabase: SupabaseClient,
+  coupleIds: string[]
+): Promise<{ id: string; couple_id: string; person_type: PersonType }[]> {
+  if (coupleIds.length === 0) return [];
+  const { data } = await supabase
+    .from('push_subscriptions')
+    .select('id, couple_id, person_type')
+    .in('couple_id', coupleIds);
+  return data ?? [];
+}
+
+/** Where a queued row goes: its email address, phone number or push subscription */
+async function deliveryAddress(supabase: SupabaseClient, row: QueuedNotification): Promise<string | null> {
+  if (row.channel === 'sms') return row.recipient_phone;
+  if (row.channel === 'email') return row.recipient_email;
+  if (!row.push_subscription_id) return null;
+
+  const { data: subscription } = await supabase
+    .from('push_subscriptions')
+    .select('endpoint, p256dh, auth')
+    .eq('id', row.push_subscription_id)
+    .maybeSingle();
+
+  return subscription ? subscriptionAddress(subscription) : null;
+}
+
+/**
+ * Send due queued notifications, one attempt each.
+ *
+ * Each row is claimed by bumping its attempts (only if nobody else did) and
+ * leasing next_attempt_at, so overlapping cron runs never send twice.
+ */
+export async function drainNotificationQueue(
+  supabase: SupabaseClient,
+  options: DrainOptions = {}
+): Promise<DrainResult[]> {
+  const { ids, limit = 50 } = options;
+  const now = options.now ?? new Date();
+
+  if (ids && ids.length === 0) return [];
+
+  let query = supabase
+    .from('notifications')
+    .select('id, couple_id, channel, content, recipient_email, recipient_phone, push_subscription_id, attempts')
+    .eq('status', 'queued')
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (ids) {
+    query = query.in('id', ids);
+  }
+
+  const { data: due, error } = await query;
+  if (error) throw error;
+
+  const results: DrainResult[] = [];
+
+  for (const row of (due ?? []) as QueuedNotification[]) {
+    const attempts = row.attempts + 1;
+
+    const { data: claimed } = await supabase
+      .from('notifications')
+      .update({ attempts, next_attempt_at: new Date(now.getTime() + SEND_LEASE_MS).toISOString() })
+      .eq('id', row.id)
+      .eq('status', 'queued')
+      .eq('attempts', row.attempts)
+      .select('id');
+
+    if (!claimed?.length) continue;
+
+    const to = await deliveryAddress(supabase, row);
+    if (!to) {
+      const last_error = MISSING_ADDRESS[row.channel];
+      await supabase
+        .from('notifications')
+        .update({ status: 'failed', last_error })
+        .eq('id', row.id);
+      results.push({ id: row.id, couple_id: row.couple_id, status: 'failed', error: last_error });
+      continue;
+    }
+
+    let sendError: DeliveryError | null = null;
+    let providerMessageId: string | null = null;
+    try {
+      const sent = await getChannelProvider(row.channel).send({
+        to,
+        subject: row.content.subject,
+        text: row.content.body,
+        html: row.content.html,
+        url: row.content.url,
+      });
+      sendError = sent.error;
+      providerMessageId = sent.id;
+    } catch (err) {
+      sendError = { message: String(err) };
+    }
+
+    if (!sendError) {
+      await supabase
+        .from('notifications')
+        .update({
+          status: 'sent',
+          sent_at: new Date().toISOString(),
+          provider_message_id: providerMessageId,
+          last_error: null,
+        })
+        .eq('id', row.id);
+      results.push({ id: row.id, couple_id: row.couple_id, status: 'sent' });
+      continue;
+    }
+
+    const outcome = deliveryOutcome(attempts, sendError, new Date());
+    await supabase.from('notifications').update(outcome).eq('id', row.id);
+
+    // The browser dropped the subscription - stop pushing to it
+    if (sendError.name === 'subscription_gone' && row.push_subscription_id) {
+      await supabase.from('push_subscriptions').delete().eq('id', row.push_subscription_id);
+    }
+    results.push({ id: row.id, couple_id: row.couple_id, status: outcome.status, error: outcome.last_error });
+  }
+
+  return results;
+}
+
+/**
+ * Enqueue one notification per reachable person and make the first attempt right away.
+ * Whatever fails stays on the queue for the cron worker to retry.
+ */
+export async function notifyCouples(
+  supabase: SupabaseClient,
+  event: NotificationEvent,
+  couples: NotificationCouple[],
+  type: NotificationType,
+  options: NotificationOptions = {}
+): Promise<NotificationResult[]> {
+  const enqueued = await enqueueNotifications(supabase, event, couples, type, options);
+
+  const ids = enqueued.flatMap(r => (r.status === 'queued' && r.notification_id ? [r.notification_id] : []));
+  const delivered = await drainNotificationQueue(supabase, { ids, limit: ids.length });
+  const statusById = new Map(delivered.map(d => [d.id, d.status]));
+
+  return enqueued.map(r => {
+    const status = r.notification_id ? statusById.get(r.notification_id) : undefined;
+    return status ? { ...r, status } : r;
+  });
+}
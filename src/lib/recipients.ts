@@ -0,0 +1,112 @@
+/**
+ * Notification recipients
+ *
+ * Expands a couple into the people we can reach: the invited person and the
+ * partner - or whoever replaced the partner. A split couple needs nothing
+ * special, the partner is then the invited person of their own entry.
+ * Each person carries their own token type, opt-out state and the
+ * addresses we have for them (email, and a phone number for SMS).
+ */
+
+import type { TokenPayload } from '@/lib/tokens';
+import { normalisePhone } from '@/lib/channels/sms';
+
+export type PersonType = TokenPayload['personType'];
+
+export interface RecipientCouple {
+  id: string;
+  invited_name: string;
+  invited_email: string | null;
+  invited_phone?: string | null;
+  partner_name?: string | null;
+  partner_email?: string | null;
+  partner_phone?: string | null;
+  replacement_name?: string | null;
+  replacement_email?: string | null;
+  replacement_phone?: string | null;
+  invited_notifications_opt_out_at?: string | null;
+  partner_notifications_opt_out_at?: string | null;
+}
+
+export interface Recipient {
+  couple_id: string;
+  person_type: PersonType;
+  name: string;
+  email: string | null;
+  /** E.164 */
+  phone: string | null;
+  opted_out: boolean;
+}
+
+/** Couple columns holding each person's opt-out */
+export const OPT_OUT_COLUMNS: Record<PersonType, 'invited_notifications_opt_out_at' | 'partner_notifications_opt_out_at'> = {
+  invited: 'invited_notifications_opt_out_at',
+  partner: 'partner_notifications_opt_out_at',
+};
+
+/** Columns to select for resolveRecipients */
+export const RECIPIENT_COLUMNS =
+  'id, invited_name, invited_email, invited_phone, partner_name, partner_email, partner_phone, replacement_name, replacement_email, replacement_phone, invited_notifications_opt_out_at, partner_notifications_opt_out_at';
+
+/**
+ * Everyone in the couple with an email address or phone number, opted out or not.
+ * An address the partner shares with the invited person is only used for
+ * the invited one, so nobody gets the same message twice.
+ */
+export function resolveRecipients(couple: RecipientCouple): Recipient[] {
+  const recipients: Recipient[] = [];
+
+  const invited = {
+    email: couple.invited_email || null,
+    phone: normalisePhone(couple.invited_phone),
+  };
+
+  if (invited.email || invited.phone) {
+    recipients.push({
+      couple_id: couple.id,
+      person_type: 'invited',
+      name: couple.invited_name,
+      ...invited,
+      opted_out: !!couple.invited_notifications_opt_out_at,
+    });
+  }
+
+  // A replacement takes over the partner's seat, and their notifications
+  const replaced = !!couple.replacement_name;
+  const partnerName = replaced ? couple.replacement_name : couple.partner_name;
+  const partnerEmail = partnerEmailOf(couple);
+  const partnerPhone = normalisePhone(replaced ? couple.replacement_phone : couple.partner_phone);
+
+  const partner = {
+    email: partnerEmail && !(invited.email && sameEmail(invited.email, partnerEmail)) ? partnerEmail : null,
+    phone: partnerPhone !== invited.phone ? partnerPhone : null,
+  };
+
+  if (partner.email || partner.phone) {
+    recipients.push({
+      couple_id: couple.id,
+      person_type: 'partner',
+      name: partnerName || couple.invited_name,
+      ...partner,
+      opted_out: !!couple.partner_notifications_opt_out_at,
+    });
+  }
+
+  return recipients;
+}
+
+/** The partner's email - the replacement's once someone took the partner's seat */
+export function partnerEmailOf(
+  couple: Pick<RecipientCouple, 'partner_email' | 'replacement_name' | 'replacement_email'>
+): string | null {
+  return (couple.replacement_name ? couple.replacement_email : couple.partner_email) || null;
+}
+
+/** The people who should actually get a notification */
+export function reachableRecipients(couple: RecipientCouple): Recipient[] {
+  return resolveRecipients(couple).filter(r => !r.opted_out);
+}
+
+function sameEmail(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
@@ -0,0 +1,140 @@
+/**
+ * Cycling routes between two points
+ *
+ * One place for route distances/durations: Mapbox Directions (same source as
+ * the map view), cached in memory and in the route_cache table, with a
+ * haversine estimate (~15 km/h) when there is no token, no network or no route.
+ * Fallback estimates are never cached, so the real route is tried next time.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { calculateHaversineDistance, type Coordinates, type CyclingDistance } from './geo';
+
+export interface RouteRequest {
+  from: Coordinates;
+  to: Coordinates;
+}
+
+export interface RoutingOptions {
+  /** Admin client for the shared route_cache table; in-memory cache only without it */
+  supabase?: SupabaseClient;
+  /** Parallel Mapbox requests, default 10 */
+  concurrency?: number;
+}
+
+// Same place, e.g. a host's own home
+const SAME_PLACE_METERS = 10;
+
+const memoryCache = new Map<string, CyclingDistance>();
+
+/** Cache key: coordinates rounded to ~1 m */
+export function routeKey(from: Coordinates, to: Coordinates): string {
+  const point = (c: Coordinates) => `${c.lng.toFixed(5)},${c.lat.toFixed(5)}`;
+  return `${point(from)};${point(to)}`;
+}
+
+/** Straight-line estimate, used offline and when routing fails */
+export function estimateRoute(from: Coordinates, to: Coordinates): CyclingDistance {
+  const distance = calculateHaversineDistance(from, to);
+  return {
+    distance_km: Math.round(distance * 10) / 10,
+    duration_min: Math.round(distance * 4), // Rough estimate: 15 km/h cycling
+    source: 'haversine',
+  };
+}
+
+async function fetchMapboxRoute(from: Coordinates, to: Coordinates, token: string): Promise<CyclingDistance | null> {
+  try {
+    const url = `https://api.mapbox.com/directions/v5/mapbox/cycling/${from.lng},${from.lat};${to.lng},${to.lat}?overview=false&access_token=${token}`;
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Mapbox ${res.status}`);
+    const data = await res.json();
+    const route = data.routes?.[0];
+    if (!route) return null;
+    return {
+      distance_km: Math.round((route.distance / 1000) * 100) / 100,
+      duration_min: Math.round(route.duration / 60),
+      source: 'cycling',
+    };
+  } catch (error) {
+    console.error('Cycling route error:', error);
+    return null;
+  }
+}
+
+/**
+ * Cycling distance and duration for many legs at once. Results are in the
+ * same order as `requests`; duplicate legs are only routed once.
+ */
+export async function getCyclingRoutes(
+  requests: RouteRequest[],
+  options: RoutingOptions = {}
+): Promise<CyclingDistance[]> {
+  const { supabase, concurrency = 10 } = options;
+  const keys = requests.map(r => routeKey(r.from, r.to));
+  const results = new Map<string, CyclingDistance>();
+
+  const pending = new Map<string, RouteRequest>();
+  requests.forEach((request, i) => {
+    const key = keys[i];
+    if (results.has(key) || pending.has(key)) return;
+    if (calculateHaversineDistance(request.from, request.to) * 1000 < SAME_PLACE_METERS) {
+      results.set(key, { distance_km: 0, duration_min: 0, source: 'cycling' });
+      return;
+    }
+    const cached = memoryCache.get(key);
+    if (cached) results.set(key, cached);
+    else pending.set(key, request);
+  });
+
+  if (pending.size > 0 && supabase) {
+    const { data: rows } = await supabase
+      .from('route_cache')
+      .select('route_key, distance_km, duration_min')
+      .in('route_key', [...pending.keys()]);
+    for (const row of rows ?? []) {
+      const route: CyclingDistance = {
+        distance_km: Number(row.distance_km),
+        duration_min: row.duration_min,
+        source: 'cycling',
+      };
+      memoryCache.set(row.route_key, route);
+      results.set(row.route_key, route);
+      pending.delete(row.route_key);
+    }
+  }
+
+  const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
+  const routed: { route_key: string; distance_km: number; duration_min: number }[] = [];
+  const misses = [...pending.entries()];
+
+  for (let i = 0; i < misses.length; i += concurrency) {
+    await Promise.all(
+      misses.slice(i, i + concurrency).map(async ([key, { from, to }]) => {
+        const route = token ? await fetchMapboxRoute(from, to, token) : null;
+        if (route) {
+          memoryCache.set(key, route);
+          routed.push({ route_key: key, distance_km: route.distance_km, duration_min: route.duration_min });
+        }
+        results.set(key, route ?? estimateRoute(from, to));
+      })
+    );
+  }
+
+  if (routed.length > 0 && supabase) {
+    const { error } = await supabase.from('route_cache').upsert(routed, { onConflict: 'route_key' });
+    if (error) console.error('Route cache error:', error);
+  }
+
+  return keys.map(key => results.get(key)!);
+}
+
+/** Cycling distance and duration for a single leg */
+export async function getCyclingRoute(
+  from: Coordinates,
+  to: Coordinates,
+  options: RoutingOptions = {}
+): Promise<CyclingDistance> {
+  const [route] = await getCyclingRoutes([{ from, to }], options);
+  return route;
+}
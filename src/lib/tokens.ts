@@ -205,3 +205,14 @@ export function createInviteToken(eventId: string): string {
 export function verifyInviteToken(eventId: string, token: string): boolean {
   return createInviteToken(eventId) === token;
 }
+
+/**
+ * Key for one sealed envelope reveal (see lib/envelope/sealed).
+ * Bound to host and time, so a reassign or delay makes cached ciphertexts
+ * unopenable instead of revealing a stale address.
+ */
+export function deriveRevealKey(envelopeId: string, hostCoupleId: string, state: string, at: string): string {
+  return createHmac('sha256', TOKEN_SIGNING_SECRET)
+    .update(`reveal:${envelopeId}:${hostCoupleId}:${state}:${new Date(at).toISOString()}`)
+    .digest('base64url');
+}
@@ -8,6 +8,20 @@ export type EventStatus = 'draft' | 'open' | 'matched' | 'locked' | 'in_progress
 
 export type MatchPlanStatus = 'draft' | 'active' | 'superseded';
 
+export type PetAllergy = 'none' | 'cat' | 'dog' | 'both';
+
+// Things in a host's home that a guest may be allergic to
+export type HostHazard = 'cat' | 'dog' | 'nuts';
+
+// Language a couple's envelope, clues and awards are shown in
+export type Locale = 'sv' | 'en';
+
+// Delivery status of a queued participant notification
+export type NotificationStatus = 'queued' | 'sent' | 'bounced' | 'failed';
+
+// How a participant notification reaches the person
+export type NotificationChannel = 'email' | 'sms' | 'push';
+
 export interface Organization {
   id: string;
   name: string;
@@ -54,9 +68,22 @@ export interface Event {
   max_couples: number | null;
   status: EventStatus;
   active_match_plan_id: string | null;
+  hint_limits: HintLimits;
+  notification_channels: Partial<Record<string, NotificationChannel[]>>; // Per notification type (missing = default, see lib/channels/settings)
+  email_branding: EmailBrandingSettings;
   created_at: string;
 }
 
+/** Look of the participant emails (missing = Cykelfesten default) */
+export interface EmailBrandingSettings {
+  accent_color?: string;
+  logo_url?: string;
+  sign_off?: string;
+}
+
+/** Extra hints a guest may ask for per envelope, per course (missing = default) */
+export type HintLimits = Partial<Record<MealCourse, number>>;
+
 export interface Couple {
   id: string;
   event_id: string;
@@ -68,6 +95,7 @@ export interface Couple {
   invited_allergy_notes: string | null;
   invited_birth_year: number | null;
   invited_fun_facts: unknown;
+  invited_pet_allergy: PetAllergy | null;
   partner_name: string | null;
   partner_email: string | null;
   partner_phone: string | null;
@@ -75,16 +103,26 @@ export interface Couple {
   partner_allergy_notes: string | null;
   partner_birth_year: number | null;
   partner_fun_facts: unknown;
+  partner_pet_allergy: PetAllergy | null;
   replacement_name: string | null;
   replacement_allergies: string[] | null;
   replacement_allergy_notes: string | null;
   replacement_reason: string | null;
+  replacement_email: string | null;
+  replacement_phone: string | null;
   original_partner_name: string | null;
   address: string;
   address_notes: string | null;
   coordinates: { x: number; y: number } | null;
   course_preference: Course | null;
+  max_guests: number | null; // Declared table capacity when hosting (null = default)
+  host_hazards: HostHazard[] | null;
+  accessibility_needs: string | null; // Free text, e.g. "rullstol" - needs an accessible home
+  accessibility_ok: boolean | null;   // Home is accessible (lift/ground floor) when hosting
   instagram_handle: string | null;
+  locale: Locale;
+  invited_notifications_opt_out_at: string | null;
+  partner_notifications_opt_out_at: string | null; // Also covers a replacement partner
   person_count: number; // Computed: 1 or 2
   confirmed: boolean;
   cancelled: boolean;
@@ -126,6 +164,7 @@ export interface MatchPlanStats {
   preference_satisfaction: number;
   capacity_utilization: number;
   forced_assignments?: number;
+  expected_cycling_km?: number;
 }
 
 export interface CoursePairing {
@@ -164,6 +203,21 @@ export interface BlockedPair {
   created_at: string;
 }
 
+export type CouplePreferenceLevel = 'avoid' | 'low' | 'neutral' | 'preferred' | 'known';
+
+export interface CouplePreference {
+  id: string;
+  event_id: string;
+  couple_id: string;
+  target_couple_id: string;
+  preference: CouplePreferenceLevel;
+  created_at: string;
+  updated_at: string;
+}
+
+// The subset of a preference row the matching engine needs
+export type MatchingPreference = Pick<CouplePreference, 'couple_id' | 'target_couple_id' | 'preference'>;
+
 export interface EventLogEntry {
   id: string;
   event_id: string;
@@ -174,11 +228,35 @@ export interface EventLogEntry {
   created_at: string;
 }
 
+// One outbound participant email, enqueued before it is sent
+export interface Notification {
+  id: string;
+  event_id: string | null;
+  match_plan_id: string | null;
+  couple_id: string;
+  person_type: 'invited' | 'partner';
+  channel: NotificationChannel;
+  notification_type: string;
+  content: { subject: string; body: string; course?: string; url?: string; html?: string };
+  idempotency_key: string;
+  recipient_email: string | null;
+  recipient_phone: string | null;
+  push_subscription_id: string | null;
+  status: NotificationStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  provider_message_id: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
 // Input/Output types for Matching Engine
 
 export interface StepAInput {
   event_id: string;
   couples: Couple[];
+  forced_courses?: Record<string, MealCourse>; // couple_id -> course, overrides preferences
 }
 
 export interface StepAOutput {
@@ -186,6 +264,7 @@ export interface StepAOutput {
   stats: {
     preference_satisfaction: number;
     capacity_per_course: Record<MealCourse, number>;
+    expected_cycling_km: number;
   };
 }
 
@@ -195,6 +274,7 @@ export interface StepBInput {
   assignments: Assignment[];
   couples: Couple[];
   blocked_pairs: [string, string][];
+  preferences?: MatchingPreference[];
   frozen_courses: MealCourse[];
 }
 
@@ -210,7 +290,7 @@ export interface StepBOutput {
 }
 
 export interface MatchingWarning {
-  type: 'capacity' | 'preference' | 'block' | 'unique_meeting';
+  type: 'capacity' | 'preference' | 'block' | 'unique_meeting' | 'allergy' | 'accessibility';
   message: string;
   couple_ids?: string[];
 }
@@ -266,6 +346,7 @@ export interface LiveEnvelope extends Envelope {
   street_at: string | null;
   number_at: string | null;
   cycling_minutes: number | null;
+  arrived_at: string | null;  // Host check-in
   // Afterparty zone reveal fields
   zone_lat: number | null;
   zone_lng: number | null;
@@ -275,8 +356,58 @@ export interface LiveEnvelope extends Envelope {
   closing_radius_m: number | null;
 }
 
+// An extra hint a guest asked for while guessing their host
+export interface EnvelopeHint {
+  id: string;
+  envelope_id: string;
+  couple_id: string;
+  course: MealCourse;
+  hint_number: number;
+  text: string;
+  source: 'fun_fact' | 'fallback';
+  fact_index: number | null;
+  requested_at: string;
+}
+
+export interface HostGuess {
+  id: string;
+  envelope_id: string;
+  couple_id: string;
+  course: MealCourse;
+  guessed_host_couple_id: string;
+  guessed_state: EnvelopeState;  // Earlier state = more points if right
+  guessed_at: string;
+}
+
+/** A guest's browser that opted into web push on the live envelope page */
+export interface WebPushSubscription {
+  id: string;
+  couple_id: string;
+  person_type: 'invited' | 'partner';
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent: string | null;
+  created_at: string;
+}
+
 // API Response Types for /api/envelope/status
 
+/** A couple the guest can pick as their host */
+export interface GuessCandidate {
+  id: string;
+  name: string;
+}
+
+export interface HostGuessStatus {
+  couple_id: string;
+  name: string;
+  state: EnvelopeState;
+  guessed_at: string;
+  correct: boolean | null;  // null until OPEN
+  points: number | null;  // null until OPEN
+}
+
 export interface RevealedClue {
   text: string;
   revealed_at: string;
@@ -328,6 +459,31 @@ export interface CourseEnvelopeStatus {
   zone?: { lat: number; lng: number; radius_m: number } | null;
   closing?: { lat: number; lng: number; radius_m: number } | null;
   next_step_at?: string | null;
+  // Future reveals shipped ahead for offline use (only with ?offline=1)
+  sealed_reveals?: SealedReveal[];
+  // Extra hints the guest asked for, and how many more they may ask for now
+  hints?: RevealedClue[];
+  hints_remaining?: number;
+  // Guess-the-host: the couple's guess, and who they can pick while guessing is open
+  guess?: HostGuessStatus | null;
+  guess_candidates?: GuessCandidate[];
+}
+
+/** States whose destination details can be shipped ahead, encrypted */
+export type SealedRevealState = Extract<EnvelopeState, 'STREET' | 'NUMBER' | 'OPEN'>;
+
+/** Destination fields of a course as they look once a sealed state is reached */
+export type SealedRevealContent = Pick<CourseEnvelopeStatus, 'street' | 'number' | 'full_address' | 'host_names'>;
+
+/**
+ * A future reveal, AES-GCM encrypted. The key is released by
+ * GET /api/envelope/key once `at` has passed.
+ */
+export interface SealedReveal {
+  state: SealedRevealState;
+  at: string;
+  iv: string;  // base64url
+  ciphertext: string;  // base64url, SealedRevealContent as JSON
 }
 
 export interface CustomMessage {
@@ -339,6 +495,7 @@ export interface EnvelopeStatusResponse {
   server_time: string;
   event_id: string;
   couple_id: string;
+  locale: Locale;
   courses: CourseEnvelopeStatus[];
   messages: {
     host_self: CustomMessage[];
@@ -346,3 +503,27 @@ export interface EnvelopeStatusResponse {
     mystery_host: CustomMessage[];
   };
 }
+
+// Event Types for /api/envelope/stream (server-sent events)
+
+/** A course's envelope advanced to a new state */
+export interface EnvelopeStateEvent {
+  type: 'state';
+  /** SSE id, sent back as Last-Event-ID to resume */
+  id: string;
+  course: Course;
+  state: EnvelopeState;
+  /** When the state was reached (the envelope's *_at timestamp) */
+  at: string;
+  server_time: string;
+  /** The course as GET /api/envelope/status would return it now */
+  status: CourseEnvelopeStatus | null;
+}
+
+/** Envelopes changed in a way the stream can't describe (reassign, new times) - do a full fetch */
+export interface EnvelopeResyncEvent {
+  type: 'resync';
+  server_time: string;
+}
+
+export type EnvelopeStreamEvent = EnvelopeStateEvent | EnvelopeResyncEvent;
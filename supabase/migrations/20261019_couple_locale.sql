@@ -0,0 +1,6 @@
+-- Language per couple, chosen at registration
+-- Clues, fun facts, award texts and envelope messages render in it (src/lib/i18n.ts)
+ALTER TABLE couples ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'sv'
+  CHECK (locale IN ('sv', 'en'));
+
+COMMENT ON COLUMN couples.locale IS 'Language for the couple''s envelope, clues and awards: sv, en';
@@ -0,0 +1,6 @@
+-- Per-host table capacity declared at registration
+-- NULL = not declared, matching falls back to its default (10)
+ALTER TABLE couples ADD COLUMN IF NOT EXISTS max_guests INTEGER
+  CHECK (max_guests IS NULL OR max_guests BETWEEN 2 AND 20);
+
+COMMENT ON COLUMN couples.max_guests IS 'Number of guests (persons) the couple can seat when hosting';
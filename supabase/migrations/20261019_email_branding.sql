@@ -0,0 +1,5 @@
+-- Per-event look of the participant emails (src/components/emails).
+-- Missing keys fall back to the Cykelfesten defaults, see lib/email-templates
+ALTER TABLE events ADD COLUMN IF NOT EXISTS email_branding JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN events.email_branding IS 'Participant email branding, e.g. {"accent_color": "#d97706", "logo_url": "https://...", "sign_off": "Hälsningar, festkommittén"}';
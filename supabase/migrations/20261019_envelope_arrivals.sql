@@ -0,0 +1,5 @@
+-- Host check-in: the host marks a guest couple as arrived at their table
+-- See src/lib/envelope/arrivals.ts and /api/guest/host-arrivals
+ALTER TABLE envelopes ADD COLUMN IF NOT EXISTS arrived_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN envelopes.arrived_at IS 'Set by the host when the guest couple arrives; NULL = not checked in';
@@ -0,0 +1,23 @@
+-- Extra hints guests can ask for while guessing their host (CLUE_1/CLUE_2)
+-- See src/lib/envelope/hints.ts and POST /api/envelope/hint
+ALTER TABLE events ADD COLUMN IF NOT EXISTS hint_limits JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN events.hint_limits IS 'Extra hints per envelope and course, e.g. {"starter": 1, "main": 2}; missing course = default (1), 0 = off';
+
+CREATE TABLE IF NOT EXISTS envelope_hints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  envelope_id UUID NOT NULL REFERENCES envelopes(id) ON DELETE CASCADE,
+  couple_id UUID NOT NULL REFERENCES couples(id) ON DELETE CASCADE,
+  course TEXT NOT NULL CHECK (course IN ('starter', 'main', 'dessert')),
+  hint_number INT NOT NULL,  -- 1, 2, ... per envelope; unique so the limit holds under double taps
+  text TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('fun_fact', 'fallback')),
+  fact_index INT,  -- index into the host's combined fun facts (source = fun_fact)
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (envelope_id, hint_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_envelope_hints_couple ON envelope_hints(couple_id);
+
+-- Service role only
+ALTER TABLE envelope_hints ENABLE ROW LEVEL SECURITY;
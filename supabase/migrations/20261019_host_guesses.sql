@@ -0,0 +1,16 @@
+-- Guess-the-host: guests commit a guess for who hosts them before the envelope opens
+-- See src/lib/envelope/guesses.ts and /api/envelope/guess
+CREATE TABLE IF NOT EXISTS host_guesses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  envelope_id UUID NOT NULL UNIQUE REFERENCES envelopes(id) ON DELETE CASCADE,  -- one guess per envelope, changing it replaces it
+  couple_id UUID NOT NULL REFERENCES couples(id) ON DELETE CASCADE,
+  course TEXT NOT NULL CHECK (course IN ('starter', 'main', 'dessert')),
+  guessed_host_couple_id UUID NOT NULL REFERENCES couples(id) ON DELETE CASCADE,
+  guessed_state TEXT NOT NULL CHECK (guessed_state IN ('TEASING', 'CLUE_1', 'CLUE_2', 'STREET', 'NUMBER')),  -- envelope state when guessed, sets the score
+  guessed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_host_guesses_couple ON host_guesses(couple_id);
+
+-- Service role only
+ALTER TABLE host_guesses ENABLE ROW LEVEL SECURITY;
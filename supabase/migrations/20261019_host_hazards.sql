@@ -0,0 +1,6 @@
+-- Allergy hazards in the host's home (pets, nuts in the kitchen)
+-- Step B never places a guest with a matching allergy there
+ALTER TABLE couples ADD COLUMN IF NOT EXISTS host_hazards TEXT[] NOT NULL DEFAULT '{}'
+  CHECK (host_hazards <@ ARRAY['cat', 'dog', 'nuts']::TEXT[]);
+
+COMMENT ON COLUMN couples.host_hazards IS 'Allergy hazards in the home when hosting: cat, dog, nuts';
@@ -0,0 +1,13 @@
+-- SMS next to email for participant notifications, picked per notification type.
+-- See src/lib/channels
+ALTER TABLE events ADD COLUMN IF NOT EXISTS notification_channels JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN events.notification_channels IS 'Channels per notification type, e.g. {"envelope_changed": ["email", "sms"]}; missing type = email only, [] = off';
+
+ALTER TABLE couples ADD COLUMN IF NOT EXISTS replacement_phone TEXT;
+
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'email'
+  CHECK (channel IN ('email', 'sms'));
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS recipient_phone TEXT;
+
+COMMENT ON COLUMN notifications.recipient_phone IS 'E.164 number for channel = sms';
@@ -0,0 +1,28 @@
+-- Outbound notification queue: rows are enqueued first and sent by a worker
+-- (POST /api/notifications/send drains right away, /api/cron/notifications
+-- picks up retries). See src/lib/notifications.ts
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES events(id) ON DELETE CASCADE;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'queued'
+  CHECK (status IN ('queued', 'sent', 'bounced', 'failed'));
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS last_error TEXT;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS recipient_email TEXT;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS provider_message_id TEXT;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+COMMENT ON COLUMN notifications.status IS 'queued = waiting for (another) attempt, sent = accepted by Resend, bounced = rejected by the recipient server, failed = gave up after max attempts';
+COMMENT ON COLUMN notifications.next_attempt_at IS 'Earliest time the worker may try again (exponential backoff, also used as a short lease while sending)';
+COMMENT ON COLUMN notifications.provider_message_id IS 'Resend email id, matched by the bounce webhook';
+
+-- Rows from before the queue were sent inline and stamped sent_at up front
+UPDATE notifications SET status = 'sent' WHERE sent_at IS NOT NULL AND status = 'queued';
+
+UPDATE notifications n SET event_id = mp.event_id
+FROM match_plans mp
+WHERE n.match_plan_id = mp.id AND n.event_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_idempotency_key ON notifications(idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_notifications_due ON notifications(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_notifications_event ON notifications(event_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_provider_message ON notifications(provider_message_id);
@@ -0,0 +1,12 @@
+-- Notifications go to every reachable person in a couple, not just the invited one.
+-- See src/lib/recipients.ts
+ALTER TABLE couples ADD COLUMN IF NOT EXISTS replacement_email TEXT;
+ALTER TABLE couples ADD COLUMN IF NOT EXISTS invited_notifications_opt_out_at TIMESTAMPTZ;
+ALTER TABLE couples ADD COLUMN IF NOT EXISTS partner_notifications_opt_out_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN couples.replacement_email IS 'Email of the person who stepped in for the partner; gets the partner''s notifications';
+COMMENT ON COLUMN couples.invited_notifications_opt_out_at IS 'Set when the invited person unsubscribes from participant notifications';
+COMMENT ON COLUMN couples.partner_notifications_opt_out_at IS 'Set when the partner (or replacement) unsubscribes from participant notifications';
+
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS person_type TEXT NOT NULL DEFAULT 'invited'
+  CHECK (person_type IN ('invited', 'partner'));
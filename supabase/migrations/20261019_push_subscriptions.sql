@@ -0,0 +1,28 @@
+-- Web push for the live envelope: guests opt in on /e/[slug]/live and get a
+-- push when the street, number or full envelope is revealed, or the envelope
+-- changes. See src/lib/channels/push.ts and /api/guest/push-subscription
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  couple_id UUID NOT NULL REFERENCES couples(id) ON DELETE CASCADE,
+  person_type TEXT NOT NULL CHECK (person_type IN ('invited', 'partner')),
+  endpoint TEXT NOT NULL UNIQUE,  -- one row per browser, subscribing again moves it
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_couple ON push_subscriptions(couple_id);
+
+-- Service role only
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_channel_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_channel_check
+  CHECK (channel IN ('email', 'sms', 'push'));
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS push_subscription_id UUID
+  REFERENCES push_subscriptions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN notifications.push_subscription_id IS 'Browser for channel = push; NULL once the subscription is gone';
+
+COMMENT ON COLUMN events.notification_channels IS 'Channels per notification type, e.g. {"envelope_changed": ["email", "sms", "push"]}; missing type = its default (see lib/channels/settings), [] = off';
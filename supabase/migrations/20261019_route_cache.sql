@@ -0,0 +1,13 @@
+-- Cached cycling routes between two points (src/lib/routing.ts)
+-- Keyed on rounded coordinates, so it is shared across events and plans
+CREATE TABLE IF NOT EXISTS route_cache (
+  route_key TEXT PRIMARY KEY,  -- "lng,lat;lng,lat", 5 decimals
+  distance_km NUMERIC NOT NULL,
+  duration_min INT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Service role only
+ALTER TABLE route_cache ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN envelopes.cycling_minutes IS 'Cycling time from the previous course location (or home) to this destination';